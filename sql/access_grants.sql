@@ -0,0 +1,104 @@
+-- ===========================================
+-- ACCESS GRANTS: Free trials and complimentary access
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql,
+-- plan_changes.sql and revenue_analytics.sql)
+--
+-- Access given without payment is recorded as a zero-value approved payment,
+-- so it shows up in the payment list, exports and plan history like any
+-- purchase. Revenue analytics leave these entries out and report them
+-- separately.
+-- ===========================================
+
+-- ===========================================
+-- 1. SUBSCRIPTION_PLANS - Free trial length
+-- ===========================================
+
+ALTER TABLE subscription_plans
+  ADD COLUMN IF NOT EXISTS trial_days INTEGER NOT NULL DEFAULT 0;  -- 0 = no free trial
+
+-- ===========================================
+-- 2. PAYMENTS - Zero-value grants
+-- Written by the trial-start and access-grant Edge Functions (service role)
+-- ===========================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS grant_type VARCHAR(20),  -- trial, complimentary; NULL for purchases
+  ADD COLUMN IF NOT EXISTS grant_reason TEXT,
+  ADD COLUMN IF NOT EXISTS granted_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_grant_type_check;
+ALTER TABLE payments ADD CONSTRAINT payments_grant_type_check
+  CHECK (grant_type IS NULL OR (grant_type IN ('trial', 'complimentary') AND amount_cents = 0));
+
+-- One free trial per email and per CPF for each owner
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_trial_email
+  ON payments(owner_id, lower(customer_email)) WHERE grant_type = 'trial';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_trial_cpf
+  ON payments(owner_id, customer_cpf) WHERE grant_type = 'trial' AND customer_cpf IS NOT NULL;
+
+-- ===========================================
+-- 3. REVENUE_PAYMENTS - Leave grants out of revenue
+-- Same view as in revenue_analytics.sql, without zero-value grants, so
+-- they do not count as paying clients or renewals.
+-- ===========================================
+
+CREATE OR REPLACE VIEW revenue_payments
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.owner_id,
+  p.plan_id,
+  -- Clients not yet created are told apart by email
+  COALESCE(p.client_id::text, lower(p.customer_email)) AS client_key,
+  p.gateway,
+  p.payment_method,
+  p.status,
+  COALESCE(p.paid_at, p.created_at) AS paid_at,
+  (COALESCE(p.paid_at, p.created_at) AT TIME ZONE 'America/Sao_Paulo')::date AS paid_on,
+  (COALESCE(p.paid_at, p.created_at) AT TIME ZONE 'America/Sao_Paulo')::date
+    + COALESCE(sp.duration_days, 30) AS covered_until,
+  p.amount_cents,
+  p.refunded_amount_cents,
+  p.amount_cents - p.refunded_amount_cents AS net_cents,
+  p.discount_cents,
+  p.coupon_code
+FROM payments p
+LEFT JOIN subscription_plans sp ON sp.id = p.plan_id
+WHERE p.status IN ('approved', 'refunded')
+  AND p.grant_type IS NULL;
+
+-- ===========================================
+-- 4. ACCESS_GRANTS_SUMMARY - Trials and courtesy access in the period
+-- A trial converts when the same client pays for any plan afterwards.
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION access_grants_summary(p_start DATE, p_end DATE, p_plan_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  trial_count BIGINT,
+  trial_converted_count BIGINT,
+  complimentary_count BIGINT
+) AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE g.grant_type = 'trial'),
+    COUNT(*) FILTER (
+      WHERE g.grant_type = 'trial'
+        AND EXISTS (
+          SELECT 1 FROM payments paid
+          WHERE paid.owner_id = g.owner_id
+            AND paid.client_id = g.client_id
+            AND paid.grant_type IS NULL
+            AND paid.status = 'approved'
+            AND paid.paid_at > g.paid_at
+        )
+    ),
+    COUNT(*) FILTER (WHERE g.grant_type = 'complimentary')
+  FROM payments g
+  WHERE g.owner_id = auth.uid()
+    AND g.grant_type IS NOT NULL
+    AND g.status = 'approved'
+    AND (g.paid_at AT TIME ZONE 'America/Sao_Paulo')::date BETWEEN p_start AND p_end
+    AND (p_plan_id IS NULL OR g.plan_id = p_plan_id);
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION access_grants_summary(DATE, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION access_grants_summary(DATE, DATE, UUID) TO authenticated;
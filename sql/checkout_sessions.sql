@@ -0,0 +1,127 @@
+-- ===========================================
+-- CHECKOUT SESSIONS: Funnel tracking and abandoned checkout recovery
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql and
+-- revenue_analytics.sql)
+--
+-- Every visit to the checkout opens a session that follows the customer
+-- through the funnel. Customer data is only stored once the customer step
+-- is submitted; from then on an unpaid session gets one recovery email
+-- with a link that resumes it.
+-- ===========================================
+
+-- ===========================================
+-- 1. PAYMENT_SETTINGS - Recovery email configuration
+-- ===========================================
+
+ALTER TABLE payment_settings
+  ADD COLUMN IF NOT EXISTS recovery_email_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS recovery_email_delay_minutes INTEGER NOT NULL DEFAULT 60;
+
+-- payment_settings only has column grants (gateway_secrets.sql), so the
+-- admin UI needs these columns granted to read and save them
+GRANT SELECT, INSERT, UPDATE (
+  recovery_email_enabled, recovery_email_delay_minutes
+) ON payment_settings TO authenticated;
+
+-- ===========================================
+-- 2. CHECKOUT_SESSIONS - One row per checkout visit
+-- Written only by the checkout-session and payment-create Edge Functions
+-- (service role). Paid is derived from the linked payment.
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS checkout_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,  -- Latest payment attempt
+
+  -- Filled when the customer step is submitted
+  customer_name VARCHAR(255),
+  customer_email VARCHAR(255),
+  customer_phone VARCHAR(20),
+
+  -- Funnel
+  plan_selected_at TIMESTAMPTZ,
+  customer_submitted_at TIMESTAMPTZ,
+
+  -- Recovery
+  recovery_email_sent_at TIMESTAMPTZ,
+  resumed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_sessions_owner ON checkout_sessions(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_checkout_sessions_recovery ON checkout_sessions(customer_submitted_at)
+  WHERE customer_submitted_at IS NOT NULL AND recovery_email_sent_at IS NULL;
+
+DROP TRIGGER IF EXISTS update_checkout_sessions_updated_at ON checkout_sessions;
+CREATE TRIGGER update_checkout_sessions_updated_at
+  BEFORE UPDATE ON checkout_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ===========================================
+-- 3. RLS POLICIES
+-- ===========================================
+
+ALTER TABLE checkout_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin reads own checkout sessions" ON checkout_sessions
+FOR SELECT USING (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- ===========================================
+-- 4. CHECKOUT_FUNNEL - Funnel for sessions opened in the period
+-- Dates are Brasilia calendar days; p_start and p_end are inclusive.
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION checkout_funnel(p_start DATE, p_end DATE)
+RETURNS TABLE (
+  viewed_count BIGINT,
+  plan_selected_count BIGINT,
+  customer_submitted_count BIGINT,
+  paid_count BIGINT,
+  recovery_sent_count BIGINT,
+  recovered_count BIGINT
+) AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE s.plan_selected_at IS NOT NULL),
+    COUNT(*) FILTER (WHERE s.customer_submitted_at IS NOT NULL),
+    COUNT(*) FILTER (WHERE p.status IN ('approved', 'refunded')),
+    COUNT(*) FILTER (WHERE s.recovery_email_sent_at IS NOT NULL),
+    COUNT(*) FILTER (
+      WHERE p.status IN ('approved', 'refunded')
+        AND s.recovery_email_sent_at IS NOT NULL
+        AND p.paid_at > s.recovery_email_sent_at
+    )
+  FROM checkout_sessions s
+  LEFT JOIN payments p ON p.id = s.payment_id
+  WHERE s.owner_id = auth.uid()
+    AND (s.created_at AT TIME ZONE 'America/Sao_Paulo')::date BETWEEN p_start AND p_end;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION checkout_funnel(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION checkout_funnel(DATE, DATE) TO authenticated;
+
+-- ===========================================
+-- 5. SCHEDULE (pg_cron + pg_net)
+-- Recovery emails are checked every 15 minutes; see scheduled_jobs.sql
+-- for the extensions and placeholders.
+-- ===========================================
+
+-- SELECT cron.schedule(
+--   'checkout-recovery-job',
+--   '*/15 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/checkout-recovery-job',
+--     headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
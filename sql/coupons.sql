@@ -0,0 +1,109 @@
+-- ===========================================
+-- COUPONS: Discount codes for the public checkout
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql)
+-- ===========================================
+
+-- ===========================================
+-- 1. COUPONS - Discount codes per admin
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  code VARCHAR(50) NOT NULL,  -- Stored uppercase
+  description TEXT,
+
+  -- Discount
+  discount_type VARCHAR(10) NOT NULL DEFAULT 'percent',  -- percent, fixed
+  discount_value INTEGER NOT NULL,  -- percent: 1-100, fixed: cents
+
+  -- Restrictions
+  valid_from TIMESTAMPTZ,
+  valid_until TIMESTAMPTZ,
+  max_uses INTEGER,  -- NULL = unlimited
+  uses_count INTEGER NOT NULL DEFAULT 0,
+  plan_ids UUID[],  -- NULL or empty = every plan
+  first_purchase_only BOOLEAN DEFAULT false,
+
+  is_active BOOLEAN DEFAULT true,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (owner_id, code),
+  CHECK (discount_type IN ('percent', 'fixed')),
+  CHECK (discount_value > 0),
+  CHECK (discount_type = 'fixed' OR discount_value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_owner ON coupons(owner_id);
+
+-- ===========================================
+-- 2. PAYMENTS - Redemption tracking
+-- ===========================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES coupons(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS coupon_code VARCHAR(50),  -- Kept even if the coupon is deleted
+  ADD COLUMN IF NOT EXISTS original_amount_cents INTEGER,  -- Plan price before the discount
+  ADD COLUMN IF NOT EXISTS discount_cents INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_payments_coupon ON payments(coupon_id);
+
+-- ===========================================
+-- 3. RLS POLICIES - coupons
+-- Checkout validates codes through Edge Functions, so codes are never public
+-- ===========================================
+
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin manages own coupons" ON coupons
+FOR ALL USING (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- ===========================================
+-- 4. UPDATE TRIGGERS
+-- ===========================================
+
+DROP TRIGGER IF EXISTS update_coupons_updated_at ON coupons;
+CREATE TRIGGER update_coupons_updated_at
+  BEFORE UPDATE ON coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ===========================================
+-- 5. HELPER FUNCTIONS
+-- ===========================================
+
+-- Reserves one use of a coupon; returns false when it is exhausted.
+-- A single UPDATE keeps two simultaneous checkouts from exceeding max_uses.
+CREATE OR REPLACE FUNCTION redeem_coupon(p_coupon_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  redeemed BOOLEAN;
+BEGIN
+  UPDATE coupons
+  SET uses_count = uses_count + 1
+  WHERE id = p_coupon_id
+    AND (max_uses IS NULL OR uses_count < max_uses)
+  RETURNING true INTO redeemed;
+
+  RETURN COALESCE(redeemed, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Gives back a use reserved by a checkout whose payment never went through
+CREATE OR REPLACE FUNCTION release_coupon(p_coupon_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE coupons
+  SET uses_count = GREATEST(uses_count - 1, 0)
+  WHERE id = p_coupon_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION redeem_coupon(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_coupon(UUID) FROM PUBLIC, anon, authenticated;
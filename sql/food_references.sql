@@ -0,0 +1,219 @@
+-- ============================================
+-- REFERENCIAS DE ALIMENTOS (food_id)
+-- Execute este SQL no Supabase SQL Editor
+-- ============================================
+
+-- Os alimentos de dietas, templates e substituicoes passam a apontar para a
+-- tabela_taco pelo id. O nome continua salvo (food_name / substitute_food),
+-- mas os macros sao buscados pelo id, entao renomear um alimento na
+-- biblioteca nao apaga mais os macros das dietas existentes.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Alimentos das refeicoes das dietas
+ALTER TABLE meal_foods
+ADD COLUMN IF NOT EXISTS food_id BIGINT REFERENCES tabela_taco(id) ON DELETE SET NULL;
+
+-- Alimentos das refeicoes dos templates
+ALTER TABLE diet_template_meal_foods
+ADD COLUMN IF NOT EXISTS food_id BIGINT REFERENCES tabela_taco(id) ON DELETE SET NULL;
+
+-- Substituicoes por alimento das dietas
+ALTER TABLE food_substitutions
+ADD COLUMN IF NOT EXISTS original_food_id BIGINT REFERENCES tabela_taco(id) ON DELETE SET NULL;
+
+ALTER TABLE food_substitutions
+ADD COLUMN IF NOT EXISTS substitute_food_id BIGINT REFERENCES tabela_taco(id) ON DELETE SET NULL;
+
+-- Substituicoes por alimento dos templates
+ALTER TABLE diet_template_food_substitutions
+ADD COLUMN IF NOT EXISTS substitute_food_id BIGINT REFERENCES tabela_taco(id) ON DELETE SET NULL;
+
+-- Os itens das opcoes de refeicao (meals.meal_substitutions e
+-- diet_template_meals.meal_substitutions, em JSONB) ganham a chave food_id
+
+CREATE INDEX IF NOT EXISTS idx_meal_foods_food_id ON meal_foods(food_id);
+CREATE INDEX IF NOT EXISTS idx_diet_template_meal_foods_food_id ON diet_template_meal_foods(food_id);
+
+-- =============================================
+-- BACKFILL DOS IDS PELO NOME
+-- =============================================
+
+-- Nome normalizado para comparacao: sem acentos, minusculo, virgulas como
+-- espaco e espacos repetidos removidos
+CREATE OR REPLACE FUNCTION normalize_food_name(name TEXT)
+RETURNS TEXT AS $$
+  SELECT trim(regexp_replace(lower(unaccent(replace(COALESCE(name, ''), ',', ' '))), '\s+', ' ', 'g'));
+$$ LANGUAGE sql STABLE;
+
+-- Encontra o id da tabela_taco para um nome salvo, na ordem:
+-- 1. nome exato em tabela_taco.alimento
+-- 2. mesmo nome normalizado em alimento ou em food_metadata.nome_simplificado
+-- 3. nome mais parecido (trigramas), se a similaridade for de pelo menos 0.6
+-- Retorna NULL quando nenhum alimento e parecido o bastante
+CREATE OR REPLACE FUNCTION resolve_food_id(name TEXT)
+RETURNS BIGINT AS $$
+DECLARE
+  normalized TEXT := normalize_food_name(name);
+  found_id BIGINT;
+BEGIN
+  IF normalized = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT t.id INTO found_id
+  FROM tabela_taco t
+  WHERE t.alimento = name
+  ORDER BY t.id
+  LIMIT 1;
+
+  IF found_id IS NOT NULL THEN
+    RETURN found_id;
+  END IF;
+
+  SELECT t.id INTO found_id
+  FROM tabela_taco t
+  LEFT JOIN food_metadata m ON m.taco_id = t.id
+  WHERE normalize_food_name(t.alimento) = normalized
+     OR normalize_food_name(m.nome_simplificado) = normalized
+  ORDER BY t.id
+  LIMIT 1;
+
+  IF found_id IS NOT NULL THEN
+    RETURN found_id;
+  END IF;
+
+  SELECT t.id INTO found_id
+  FROM tabela_taco t
+  LEFT JOIN food_metadata m ON m.taco_id = t.id
+  WHERE GREATEST(
+    similarity(normalize_food_name(t.alimento), normalized),
+    similarity(normalize_food_name(m.nome_simplificado), normalized)
+  ) >= 0.6
+  ORDER BY GREATEST(
+    similarity(normalize_food_name(t.alimento), normalized),
+    similarity(normalize_food_name(m.nome_simplificado), normalized)
+  ) DESC, t.id
+  LIMIT 1;
+
+  RETURN found_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Preenche food_id nos itens das opcoes de refeicao que ainda nao tem
+CREATE OR REPLACE FUNCTION link_meal_substitution_foods(substitutions JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_set(sub, '{items}', COALESCE((
+      SELECT jsonb_agg(
+        CASE
+          WHEN item->>'food_id' IS NOT NULL THEN item
+          ELSE item || jsonb_build_object('food_id', resolve_food_id(item->>'food_name'))
+        END
+        ORDER BY item_index
+      )
+      FROM jsonb_array_elements(COALESCE(sub->'items', '[]'::jsonb)) WITH ORDINALITY AS items(item, item_index)
+    ), '[]'::jsonb))
+    ORDER BY sub_index
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(substitutions) WITH ORDINALITY AS subs(sub, sub_index);
+$$ LANGUAGE sql STABLE;
+
+-- Cada nome distinto e resolvido uma vez so
+CREATE TEMP TABLE food_name_matches AS
+SELECT name, resolve_food_id(name) AS food_id
+FROM (
+  SELECT food_name AS name FROM meal_foods WHERE food_id IS NULL
+  UNION
+  SELECT food_name FROM diet_template_meal_foods WHERE food_id IS NULL
+  UNION
+  SELECT original_food FROM food_substitutions WHERE original_food_id IS NULL
+  UNION
+  SELECT substitute_food FROM food_substitutions WHERE substitute_food_id IS NULL
+  UNION
+  SELECT substitute_food FROM diet_template_food_substitutions WHERE substitute_food_id IS NULL
+) names
+WHERE normalize_food_name(name) <> '';
+
+UPDATE meal_foods f
+SET food_id = m.food_id
+FROM food_name_matches m
+WHERE f.food_id IS NULL AND f.food_name = m.name AND m.food_id IS NOT NULL;
+
+UPDATE diet_template_meal_foods f
+SET food_id = m.food_id
+FROM food_name_matches m
+WHERE f.food_id IS NULL AND f.food_name = m.name AND m.food_id IS NOT NULL;
+
+UPDATE food_substitutions s
+SET original_food_id = m.food_id
+FROM food_name_matches m
+WHERE s.original_food_id IS NULL AND s.original_food = m.name AND m.food_id IS NOT NULL;
+
+UPDATE food_substitutions s
+SET substitute_food_id = m.food_id
+FROM food_name_matches m
+WHERE s.substitute_food_id IS NULL AND s.substitute_food = m.name AND m.food_id IS NOT NULL;
+
+UPDATE diet_template_food_substitutions s
+SET substitute_food_id = m.food_id
+FROM food_name_matches m
+WHERE s.substitute_food_id IS NULL AND s.substitute_food = m.name AND m.food_id IS NOT NULL;
+
+UPDATE meals
+SET meal_substitutions = link_meal_substitution_foods(meal_substitutions)
+WHERE jsonb_typeof(meal_substitutions) = 'array' AND jsonb_array_length(meal_substitutions) > 0;
+
+UPDATE diet_template_meals
+SET meal_substitutions = link_meal_substitution_foods(meal_substitutions)
+WHERE jsonb_typeof(meal_substitutions) = 'array' AND jsonb_array_length(meal_substitutions) > 0;
+
+DROP TABLE food_name_matches;
+
+-- =============================================
+-- RELATORIO DO QUE NAO FOI RESOLVIDO
+-- =============================================
+
+-- Linhas com nome de alimento mas sem food_id. Devem ser corrigidas escolhendo
+-- o alimento novamente no editor de dietas/templates (o vinculo e salvo ao
+-- selecionar um alimento da lista)
+CREATE OR REPLACE VIEW unresolved_food_references
+WITH (security_invoker = true) AS
+SELECT 'meal_foods' AS source, id::TEXT AS row_id, food_name
+FROM meal_foods
+WHERE food_id IS NULL AND normalize_food_name(food_name) <> ''
+UNION ALL
+SELECT 'diet_template_meal_foods', id::TEXT, food_name
+FROM diet_template_meal_foods
+WHERE food_id IS NULL AND normalize_food_name(food_name) <> ''
+UNION ALL
+SELECT 'food_substitutions.original_food', id::TEXT, original_food
+FROM food_substitutions
+WHERE original_food_id IS NULL AND normalize_food_name(original_food) <> ''
+UNION ALL
+SELECT 'food_substitutions.substitute_food', id::TEXT, substitute_food
+FROM food_substitutions
+WHERE substitute_food_id IS NULL AND normalize_food_name(substitute_food) <> ''
+UNION ALL
+SELECT 'diet_template_food_substitutions', id::TEXT, substitute_food
+FROM diet_template_food_substitutions
+WHERE substitute_food_id IS NULL AND normalize_food_name(substitute_food) <> ''
+UNION ALL
+SELECT 'meals.meal_substitutions', meals.id::TEXT, item->>'food_name'
+FROM meals,
+  jsonb_array_elements(CASE WHEN jsonb_typeof(meal_substitutions) = 'array' THEN meal_substitutions ELSE '[]'::jsonb END) AS sub,
+  jsonb_array_elements(COALESCE(sub->'items', '[]'::jsonb)) AS item
+WHERE item->>'food_id' IS NULL AND normalize_food_name(item->>'food_name') <> ''
+UNION ALL
+SELECT 'diet_template_meals.meal_substitutions', diet_template_meals.id::TEXT, item->>'food_name'
+FROM diet_template_meals,
+  jsonb_array_elements(CASE WHEN jsonb_typeof(meal_substitutions) = 'array' THEN meal_substitutions ELSE '[]'::jsonb END) AS sub,
+  jsonb_array_elements(COALESCE(sub->'items', '[]'::jsonb)) AS item
+WHERE item->>'food_id' IS NULL AND normalize_food_name(item->>'food_name') <> '';
+
+-- Resumo exibido ao final da execucao
+SELECT source, food_name, COUNT(*) AS rows
+FROM unresolved_food_references
+GROUP BY source, food_name
+ORDER BY source, food_name;
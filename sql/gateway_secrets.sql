@@ -0,0 +1,89 @@
+-- ===========================================
+-- GATEWAY SECRETS: Encrypted at rest, never sent to the browser
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql,
+-- subscriptions.sql and webhook_events.sql)
+--
+-- Secrets are written only by the payment-settings-secrets edge function,
+-- which encrypts them with the PAYMENT_SECRETS_KEY function secret:
+--   supabase secrets set PAYMENT_SECRETS_KEY=<long random string>
+-- Values saved before this migration stay readable as plain text and are
+-- encrypted the next time the admin saves any credential.
+-- ===========================================
+
+-- ===========================================
+-- 1. PAYMENT_SETTINGS - Masked hints for the admin UI
+-- ===========================================
+
+ALTER TABLE payment_settings
+  ADD COLUMN IF NOT EXISTS secret_hints JSONB NOT NULL DEFAULT '{}';  -- { "<column>": "<last 4 chars>" }
+
+UPDATE payment_settings SET secret_hints = jsonb_strip_nulls(jsonb_build_object(
+  'mp_access_token', CASE WHEN length(mp_access_token) > 8 THEN right(mp_access_token, 4) END,
+  'mp_webhook_secret', CASE WHEN length(mp_webhook_secret) > 8 THEN right(mp_webhook_secret, 4) END,
+  'asaas_api_key', CASE WHEN length(asaas_api_key) > 8 THEN right(asaas_api_key, 4) END,
+  'asaas_webhook_token', CASE WHEN length(asaas_webhook_token) > 8 THEN right(asaas_webhook_token, 4) END,
+  'ps_token', CASE WHEN length(ps_token) > 8 THEN right(ps_token, 4) END,
+  'pm_api_key', CASE WHEN length(pm_api_key) > 8 THEN right(pm_api_key, 4) END,
+  'pm_encryption_key', CASE WHEN length(pm_encryption_key) > 8 THEN right(pm_encryption_key, 4) END
+))
+WHERE secret_hints = '{}';
+
+-- ===========================================
+-- 2. COLUMN PRIVILEGES - Browser roles cannot touch secret columns
+-- RLS only filters rows, so the secret columns are left out of the
+-- grants instead. Columns added to payment_settings later must be
+-- granted to authenticated too before the admin UI can read or save them.
+-- ===========================================
+
+REVOKE SELECT, INSERT, UPDATE ON payment_settings FROM anon, authenticated;
+
+GRANT SELECT (
+  id, owner_id, active_gateway,
+  mp_public_key, mp_user_id, asaas_environment, ps_email,
+  pix_enabled, boleto_enabled, credit_card_enabled,
+  checkout_slug, checkout_title, checkout_description, checkout_success_message,
+  secret_hints, created_at, updated_at
+) ON payment_settings TO authenticated;
+
+GRANT INSERT (
+  owner_id, active_gateway,
+  mp_public_key, asaas_environment, ps_email,
+  pix_enabled, boleto_enabled, credit_card_enabled,
+  checkout_slug, checkout_title, checkout_description, checkout_success_message
+) ON payment_settings TO authenticated;
+
+GRANT UPDATE (
+  active_gateway,
+  mp_public_key, asaas_environment, ps_email,
+  pix_enabled, boleto_enabled, credit_card_enabled,
+  checkout_slug, checkout_title, checkout_description, checkout_success_message
+) ON payment_settings TO authenticated;
+
+-- ===========================================
+-- 3. PUBLIC_CHECKOUT_SETTINGS - What the public checkout may see
+-- Replaces the policy that exposed whole payment_settings rows by slug.
+-- The view runs with its owner's rights, so it works without that policy.
+-- ===========================================
+
+DROP POLICY IF EXISTS "Public read settings by slug" ON payment_settings;
+
+CREATE OR REPLACE VIEW public_checkout_settings AS
+SELECT
+  owner_id,
+  checkout_slug,
+  checkout_title,
+  checkout_description,
+  checkout_success_message,
+  active_gateway,
+  pix_enabled,
+  boleto_enabled,
+  credit_card_enabled,
+  mp_public_key
+FROM payment_settings
+WHERE checkout_slug IS NOT NULL
+AND active_gateway != 'none';
+
+GRANT SELECT ON public_checkout_settings TO anon, authenticated;
+
+COMMENT ON VIEW public_checkout_settings IS 'Checkout-safe fields of payment_settings, readable by anyone';
+COMMENT ON COLUMN payment_settings.secret_hints IS 'Last 4 characters of each stored gateway secret, shown masked in the admin UI';
@@ -0,0 +1,85 @@
+-- ===========================================
+-- INSTALLMENTS: Card installment rules
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql and
+-- gateway_secrets.sql)
+--
+-- Each owner sets how many installments the checkout offers, the smallest
+-- installment value and how many installments are interest-free. A plan can
+-- override the installment limits. payment-create validates the requested
+-- installments against these rules and charges any interest on top.
+-- ===========================================
+
+-- ===========================================
+-- 1. PAYMENT_SETTINGS - Owner defaults
+-- ===========================================
+
+ALTER TABLE payment_settings
+  ADD COLUMN IF NOT EXISTS max_installments INTEGER NOT NULL DEFAULT 12,
+  ADD COLUMN IF NOT EXISTS min_installment_cents INTEGER NOT NULL DEFAULT 500,
+  ADD COLUMN IF NOT EXISTS interest_free_installments INTEGER NOT NULL DEFAULT 12,
+  ADD COLUMN IF NOT EXISTS installment_interest_percent NUMERIC(5,2) NOT NULL DEFAULT 0;  -- monthly rate
+
+ALTER TABLE payment_settings DROP CONSTRAINT IF EXISTS payment_settings_installments_check;
+ALTER TABLE payment_settings ADD CONSTRAINT payment_settings_installments_check
+  CHECK (
+    max_installments BETWEEN 1 AND 12
+    AND min_installment_cents >= 0
+    AND interest_free_installments >= 1
+    AND installment_interest_percent BETWEEN 0 AND 20
+  );
+
+-- Readable and editable by the admin UI (see the column grants in
+-- gateway_secrets.sql)
+GRANT SELECT, INSERT, UPDATE (
+  max_installments, min_installment_cents, interest_free_installments, installment_interest_percent
+) ON payment_settings TO authenticated;
+
+-- ===========================================
+-- 2. SUBSCRIPTION_PLANS - Per-plan overrides (NULL = owner default)
+-- ===========================================
+
+ALTER TABLE subscription_plans
+  ADD COLUMN IF NOT EXISTS max_installments INTEGER,
+  ADD COLUMN IF NOT EXISTS interest_free_installments INTEGER;
+
+ALTER TABLE subscription_plans DROP CONSTRAINT IF EXISTS subscription_plans_installments_check;
+ALTER TABLE subscription_plans ADD CONSTRAINT subscription_plans_installments_check
+  CHECK (
+    (max_installments IS NULL OR max_installments BETWEEN 1 AND 12)
+    AND (interest_free_installments IS NULL OR interest_free_installments >= 1)
+  );
+
+-- ===========================================
+-- 3. PAYMENTS - Interest charged on installments
+-- amount_cents already includes it
+-- ===========================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS installment_interest_cents INTEGER NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 4. PUBLIC_CHECKOUT_SETTINGS - Expose the rules to the checkout
+-- Same view as in gateway_secrets.sql plus the installment columns
+-- ===========================================
+
+CREATE OR REPLACE VIEW public_checkout_settings AS
+SELECT
+  owner_id,
+  checkout_slug,
+  checkout_title,
+  checkout_description,
+  checkout_success_message,
+  active_gateway,
+  pix_enabled,
+  boleto_enabled,
+  credit_card_enabled,
+  mp_public_key,
+  max_installments,
+  min_installment_cents,
+  interest_free_installments,
+  installment_interest_percent
+FROM payment_settings
+WHERE checkout_slug IS NOT NULL
+AND active_gateway != 'none';
+
+GRANT SELECT ON public_checkout_settings TO anon, authenticated;
@@ -0,0 +1,107 @@
+-- ===========================================
+-- INVOICES: NFS-e (service invoice) for approved payments
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql and
+-- access_grants.sql)
+--
+-- When a paid payment is approved an invoice is queued and sent to the
+-- provider set in payment_settings. Failures the provider may recover from
+-- are retried by invoice-retry on a backoff; the rest wait for an admin to
+-- fix the data and retry from the financial dashboard.
+-- ===========================================
+
+-- ===========================================
+-- 1. PAYMENT_SETTINGS - Issuer configuration
+-- ===========================================
+
+ALTER TABLE payment_settings
+  ADD COLUMN IF NOT EXISTS invoice_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS invoice_provider VARCHAR(20) NOT NULL DEFAULT 'none',  -- none, mock
+  ADD COLUMN IF NOT EXISTS invoice_service_code VARCHAR(20),  -- municipal service list item, e.g. 04.10
+  ADD COLUMN IF NOT EXISTS invoice_iss_rate NUMERIC(5,2) NOT NULL DEFAULT 0,  -- percent
+  ADD COLUMN IF NOT EXISTS invoice_municipal_registration VARCHAR(30);
+
+-- Column grants for the admin UI, like gateway_secrets.sql
+GRANT SELECT, INSERT, UPDATE (
+  invoice_enabled, invoice_provider, invoice_service_code, invoice_iss_rate,
+  invoice_municipal_registration
+) ON payment_settings TO authenticated;
+
+-- ===========================================
+-- 2. INVOICES - One per payment
+-- Written only by the Edge Functions (service role)
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+
+  provider VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',  -- pending, processing, issued, failed
+
+  -- Filled in by the provider
+  provider_invoice_id VARCHAR(255),
+  invoice_number VARCHAR(50),
+  verification_code VARCHAR(50),
+  pdf_url TEXT,
+  issued_at TIMESTAMPTZ,
+
+  -- What was invoiced
+  amount_cents INTEGER NOT NULL,
+  service_description TEXT,
+
+  -- Retry queue
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,  -- NULL once issued or given up
+  last_error TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (status IN ('pending', 'processing', 'issued', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_owner ON invoices(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_queue ON invoices(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+-- ===========================================
+-- 3. RLS POLICIES
+-- ===========================================
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin reads own invoices" ON invoices
+FOR SELECT USING (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- ===========================================
+-- 4. UPDATE TRIGGERS
+-- ===========================================
+
+DROP TRIGGER IF EXISTS update_invoices_updated_at ON invoices;
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ===========================================
+-- 5. SCHEDULE (pg_cron + pg_net)
+-- The retry queue is worked every 10 minutes; see scheduled_jobs.sql for
+-- the extensions and placeholders.
+-- ===========================================
+
+-- SELECT cron.schedule(
+--   'invoice-retry',
+--   '*/10 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/invoice-retry',
+--     headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,23 @@
+-- ============================================
+-- MICRONUTRIENTES
+-- Execute este SQL no Supabase SQL Editor
+-- ============================================
+
+-- Colunas de micronutrientes da TACO, por 100g de alimento. Seguem o mesmo
+-- formato dos macros (TEXT com virgula decimal; 'Tr' para tracos e NA/vazio
+-- quando nao analisado). Unidades: mg, exceto vitamina_a em mcg (RAE)
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS colesterol TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS calcio TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS magnesio TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS fosforo TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS ferro TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS sodio TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS potassio TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS zinco TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS vitamina_a TEXT;
+ALTER TABLE tabela_taco ADD COLUMN IF NOT EXISTS vitamina_c TEXT;
+
+-- Sexo biologico do paciente, usado com a idade para escolher as
+-- ingestoes diarias de referencia (DRI)
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS sex TEXT CHECK (sex IN ('male', 'female'));
@@ -0,0 +1,97 @@
+-- ===========================================
+-- PLAN CHANGES: Current plan per client, upgrades and downgrades
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql,
+-- refunds.sql and scheduled_jobs.sql)
+--
+-- Upgrades bought by a signed-in client start right away, with the unused
+-- days of the current plan credited on the price. Downgrades, and any plan
+-- switch bought without signing in, start when the current plan ends.
+-- ===========================================
+
+-- ===========================================
+-- 1. PROFILES - Current and scheduled plan
+-- ===========================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pending_plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pending_plan_starts_on DATE;  -- When pending_plan_id replaces plan_id
+
+-- ===========================================
+-- 2. PAYMENTS - How the purchase changes the client's plan
+-- Filled by payment-create for signed-in clients; applied on approval.
+-- ===========================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS plan_change_type VARCHAR(20),  -- new, renewal, upgrade, downgrade
+  ADD COLUMN IF NOT EXISTS proration_credit_cents INTEGER NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 3. PLAN_CHANGES - Plan history per client
+-- One row per approved purchase.
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS plan_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+
+  from_plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+  to_plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+  change_type VARCHAR(20) NOT NULL,  -- new, renewal, upgrade, downgrade
+  status VARCHAR(20) NOT NULL DEFAULT 'applied',  -- applied, scheduled
+
+  credit_cents INTEGER NOT NULL DEFAULT 0,  -- Unused days credited on an upgrade
+  effective_date DATE NOT NULL,
+  previous_plan_end_date DATE,
+  new_plan_end_date DATE,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (change_type IN ('new', 'renewal', 'upgrade', 'downgrade')),
+  CHECK (status IN ('applied', 'scheduled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_changes_client ON plan_changes(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_plan_changes_scheduled ON plan_changes(effective_date) WHERE status = 'scheduled';
+
+-- ===========================================
+-- 4. RLS POLICIES - plan_changes
+-- Written by the payment functions and plan-expiry-job (service role)
+-- ===========================================
+
+ALTER TABLE plan_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin reads plan changes" ON plan_changes
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Client reads own plan changes" ON plan_changes
+FOR SELECT USING (
+  auth.uid() = client_id
+);
+
+-- ===========================================
+-- 5. SCHEDULED_JOB_RUNS - Downgrades promoted by plan-expiry-job
+-- ===========================================
+
+ALTER TABLE scheduled_job_runs
+  ADD COLUMN IF NOT EXISTS plan_changes_applied INTEGER NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 6. BACKFILL - Current plan from the latest approved payment
+-- ===========================================
+
+UPDATE profiles p
+SET plan_id = latest.plan_id
+FROM (
+  SELECT DISTINCT ON (client_id) client_id, plan_id
+  FROM payments
+  WHERE status = 'approved'
+    AND client_id IS NOT NULL
+    AND plan_id IS NOT NULL
+  ORDER BY client_id, paid_at DESC NULLS LAST
+) latest
+WHERE p.id = latest.client_id
+  AND p.plan_id IS NULL;
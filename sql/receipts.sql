@@ -0,0 +1,26 @@
+-- ===========================================
+-- RECEIPTS: PDF proof of payment for approved payments
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql)
+--
+-- Receipts are generated by the payment-receipt edge function when a
+-- payment is approved (and on demand for older payments). Downloads go
+-- through signed URLs created by that function, so the bucket is private
+-- and needs no storage policies for clients.
+-- ===========================================
+
+-- ===========================================
+-- 1. PAYMENTS - Link to the stored receipt
+-- ===========================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS receipt_path TEXT;  -- <owner_id>/<payment_id>.pdf in the receipts bucket
+
+-- ===========================================
+-- 2. STORAGE BUCKET
+-- ===========================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON COLUMN payments.receipt_path IS 'Receipt PDF in the private receipts bucket, set once generated';
@@ -0,0 +1,192 @@
+-- ===========================================
+-- REFERRALS: Client referral links and rewards
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql,
+-- coupons.sql, access_grants.sql and installments.sql)
+--
+-- Every client gets a referral code for the public checkout link
+-- (/checkout/<slug>?ref=<code>). The referrer is stored on the payment and,
+-- once the referred client's first purchase is approved, earns the reward
+-- set by the admin: extra plan days or a single-use coupon.
+-- ===========================================
+
+-- ===========================================
+-- 1. PROFILES - Referral code
+-- ===========================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS referral_code VARCHAR(20)
+    DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8));
+
+UPDATE profiles
+SET referral_code = upper(substr(md5(gen_random_uuid()::text), 1, 8))
+WHERE referral_code IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_referral_code ON profiles(referral_code);
+
+-- ===========================================
+-- 2. PAYMENT_SETTINGS - Reward configuration
+-- ===========================================
+
+ALTER TABLE payment_settings
+  ADD COLUMN IF NOT EXISTS referral_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS referral_reward_type VARCHAR(10) NOT NULL DEFAULT 'days',  -- days, coupon
+  ADD COLUMN IF NOT EXISTS referral_reward_days INTEGER NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS referral_reward_percent INTEGER NOT NULL DEFAULT 20;  -- coupon discount
+
+ALTER TABLE payment_settings DROP CONSTRAINT IF EXISTS payment_settings_referral_check;
+ALTER TABLE payment_settings ADD CONSTRAINT payment_settings_referral_check
+  CHECK (
+    referral_reward_type IN ('days', 'coupon')
+    AND referral_reward_days > 0
+    AND referral_reward_percent BETWEEN 1 AND 100
+  );
+
+-- Column grants for the admin UI, like gateway_secrets.sql
+GRANT SELECT, INSERT, UPDATE (
+  referral_enabled, referral_reward_type, referral_reward_days, referral_reward_percent
+) ON payment_settings TO authenticated;
+
+-- ===========================================
+-- 3. PAYMENTS - Who referred the purchase
+-- Written by payment-create from the ?ref= code of the checkout link
+-- ===========================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS referrer_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS referral_code VARCHAR(20);  -- Kept even if the referrer is deleted
+
+CREATE INDEX IF NOT EXISTS idx_payments_referrer ON payments(referrer_id) WHERE referrer_id IS NOT NULL;
+
+-- ===========================================
+-- 4. COUPONS - Reward coupons belong to the referrer
+-- Checked by validateCoupon: only this e-mail can redeem the coupon
+-- ===========================================
+
+ALTER TABLE coupons
+  ADD COLUMN IF NOT EXISTS customer_email VARCHAR(255);  -- NULL = anyone
+
+-- ===========================================
+-- 5. REFERRAL_REWARDS - Rewards granted
+-- One per referred client, written by the approval flow (service role)
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS referral_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  referrer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  referred_client_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+
+  reward_type VARCHAR(10) NOT NULL,  -- days, coupon
+  reward_days INTEGER,
+  coupon_id UUID REFERENCES coupons(id) ON DELETE SET NULL,
+  coupon_code VARCHAR(50),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (referred_client_id),
+  CHECK (reward_type IN ('days', 'coupon'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_rewards_owner ON referral_rewards(owner_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_referral_rewards_referrer ON referral_rewards(referrer_id);
+
+ALTER TABLE referral_rewards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin reads own referral rewards" ON referral_rewards
+FOR SELECT USING (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Client reads own referral rewards" ON referral_rewards
+FOR SELECT USING (auth.uid() = referrer_id);
+
+-- ===========================================
+-- 6. PUBLIC_CHECKOUT_SETTINGS - Let clients see the program
+-- Same view as in installments.sql plus the referral columns
+-- ===========================================
+
+CREATE OR REPLACE VIEW public_checkout_settings AS
+SELECT
+  owner_id,
+  checkout_slug,
+  checkout_title,
+  checkout_description,
+  checkout_success_message,
+  active_gateway,
+  pix_enabled,
+  boleto_enabled,
+  credit_card_enabled,
+  mp_public_key,
+  max_installments,
+  min_installment_cents,
+  interest_free_installments,
+  installment_interest_percent,
+  referral_enabled,
+  referral_reward_type,
+  referral_reward_days,
+  referral_reward_percent
+FROM payment_settings
+WHERE checkout_slug IS NOT NULL
+AND active_gateway != 'none';
+
+GRANT SELECT ON public_checkout_settings TO anon, authenticated;
+
+-- ===========================================
+-- 7. REFERRAL_REPORT - Referrers, conversions and rewards in the period
+-- A conversion is an approved purchase (not a trial or courtesy) made
+-- through the referrer's link.
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION referral_report(p_start DATE, p_end DATE)
+RETURNS TABLE (
+  referrer_id UUID,
+  referrer_name TEXT,
+  referrer_email TEXT,
+  referral_code VARCHAR,
+  conversions BIGINT,
+  revenue_cents BIGINT,
+  reward_days BIGINT,
+  coupons_granted BIGINT
+) AS $$
+  WITH conversions AS (
+    SELECT
+      p.referrer_id,
+      COUNT(DISTINCT COALESCE(p.client_id::text, lower(p.customer_email))) AS conversions,
+      SUM(p.amount_cents - p.refunded_amount_cents) AS revenue_cents
+    FROM payments p
+    WHERE p.owner_id = auth.uid()
+      AND p.referrer_id IS NOT NULL
+      AND p.grant_type IS NULL
+      AND p.status IN ('approved', 'refunded')
+      AND (COALESCE(p.paid_at, p.created_at) AT TIME ZONE 'America/Sao_Paulo')::date BETWEEN p_start AND p_end
+    GROUP BY p.referrer_id
+  ),
+  rewards AS (
+    SELECT
+      r.referrer_id,
+      COALESCE(SUM(r.reward_days), 0) AS reward_days,
+      COUNT(*) FILTER (WHERE r.reward_type = 'coupon') AS coupons_granted
+    FROM referral_rewards r
+    WHERE r.owner_id = auth.uid()
+      AND (r.created_at AT TIME ZONE 'America/Sao_Paulo')::date BETWEEN p_start AND p_end
+    GROUP BY r.referrer_id
+  )
+  SELECT
+    pr.id,
+    pr.full_name,
+    pr.email,
+    pr.referral_code,
+    COALESCE(c.conversions, 0),
+    COALESCE(c.revenue_cents, 0),
+    COALESCE(rw.reward_days, 0),
+    COALESCE(rw.coupons_granted, 0)
+  FROM conversions c
+  FULL JOIN rewards rw ON rw.referrer_id = c.referrer_id
+  JOIN profiles pr ON pr.id = COALESCE(c.referrer_id, rw.referrer_id)
+  ORDER BY COALESCE(c.conversions, 0) DESC, COALESCE(c.revenue_cents, 0) DESC;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION referral_report(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION referral_report(DATE, DATE) TO authenticated;
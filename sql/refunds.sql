@@ -0,0 +1,55 @@
+-- ===========================================
+-- REFUNDS: Full and partial refunds issued by the admin
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql)
+-- ===========================================
+
+-- ===========================================
+-- 1. PAYMENTS - Refund totals
+-- A payment only becomes 'refunded' when the whole amount was returned;
+-- partial refunds keep it 'approved' with refunded_amount_cents > 0.
+-- ===========================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS refunded_amount_cents INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;  -- Last refund
+
+-- ===========================================
+-- 2. PAYMENT_REFUNDS - One row per refund issued
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  amount_cents INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  gateway_refund_id VARCHAR(255),
+
+  -- What happened to the client's access
+  plan_action VARCHAR(20) NOT NULL DEFAULT 'keep',  -- keep, shorten, end
+  previous_plan_end_date DATE,
+  new_plan_end_date DATE,
+
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (amount_cents > 0),
+  CHECK (plan_action IN ('keep', 'shorten', 'end'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment ON payment_refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_owner ON payment_refunds(owner_id);
+
+-- ===========================================
+-- 3. RLS POLICIES - payment_refunds
+-- Refunds are only written by the payment-refund Edge Function (service role)
+-- ===========================================
+
+ALTER TABLE payment_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin views own refunds" ON payment_refunds
+FOR SELECT USING (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
@@ -0,0 +1,258 @@
+-- ===========================================
+-- REVENUE ANALYTICS: Aggregates for the financial dashboard
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql,
+-- subscriptions.sql, coupons.sql and refunds.sql)
+--
+-- Every function runs with the caller's permissions and only reads the
+-- caller's own payments, so the admin dashboard calls them directly.
+-- Dates are Brasilia calendar days; p_start and p_end are inclusive.
+-- ===========================================
+
+-- ===========================================
+-- 1. REVENUE_PAYMENTS - Approved and refunded payments, normalized
+-- Revenue is net of refunds and counted on the day the payment was made.
+-- Each payment covers the client for the plan's duration, which is what
+-- "active" and "renewed" are measured against.
+-- ===========================================
+
+CREATE OR REPLACE VIEW revenue_payments
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.owner_id,
+  p.plan_id,
+  -- Clients not yet created are told apart by email
+  COALESCE(p.client_id::text, lower(p.customer_email)) AS client_key,
+  p.gateway,
+  p.payment_method,
+  p.status,
+  COALESCE(p.paid_at, p.created_at) AS paid_at,
+  (COALESCE(p.paid_at, p.created_at) AT TIME ZONE 'America/Sao_Paulo')::date AS paid_on,
+  (COALESCE(p.paid_at, p.created_at) AT TIME ZONE 'America/Sao_Paulo')::date
+    + COALESCE(sp.duration_days, 30) AS covered_until,
+  p.amount_cents,
+  p.refunded_amount_cents,
+  p.amount_cents - p.refunded_amount_cents AS net_cents,
+  p.discount_cents,
+  p.coupon_code
+FROM payments p
+LEFT JOIN subscription_plans sp ON sp.id = p.plan_id
+WHERE p.status IN ('approved', 'refunded');
+
+-- ===========================================
+-- 2. REVENUE_OVERVIEW - Today, last 7 days, this month and all time
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION revenue_overview()
+RETURNS TABLE (
+  today_cents BIGINT,
+  week_cents BIGINT,
+  month_cents BIGINT,
+  total_cents BIGINT,
+  approved_count BIGINT,
+  pending_count BIGINT,
+  discount_cents BIGINT,
+  coupon_count BIGINT
+) AS $$
+  WITH local_today AS (
+    SELECT (NOW() AT TIME ZONE 'America/Sao_Paulo')::date AS day
+  )
+  SELECT
+    COALESCE(SUM(rp.net_cents) FILTER (WHERE rp.paid_on = t.day), 0),
+    COALESCE(SUM(rp.net_cents) FILTER (WHERE rp.paid_on > t.day - 7), 0),
+    COALESCE(SUM(rp.net_cents) FILTER (WHERE rp.paid_on >= date_trunc('month', t.day)::date), 0),
+    COALESCE(SUM(rp.net_cents), 0),
+    COUNT(*) FILTER (WHERE rp.status = 'approved'),
+    (SELECT COUNT(*) FROM payments WHERE owner_id = auth.uid() AND status = 'pending'),
+    COALESCE(SUM(rp.discount_cents) FILTER (WHERE rp.coupon_code IS NOT NULL), 0),
+    COUNT(*) FILTER (WHERE rp.coupon_code IS NOT NULL)
+  FROM local_today t
+  LEFT JOIN revenue_payments rp ON rp.owner_id = auth.uid();
+$$ LANGUAGE sql STABLE;
+
+-- ===========================================
+-- 3. REVENUE_SUMMARY - Totals for the selected period
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION revenue_summary(p_start DATE, p_end DATE, p_plan_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  revenue_cents BIGINT,
+  refunded_cents BIGINT,
+  payments_count BIGINT,
+  paying_clients BIGINT,
+  arpu_cents BIGINT
+) AS $$
+  SELECT
+    COALESCE(SUM(net_cents), 0),
+    COALESCE(SUM(refunded_amount_cents), 0),
+    COUNT(*) FILTER (WHERE status = 'approved'),
+    COUNT(DISTINCT client_key) FILTER (WHERE status = 'approved'),
+    COALESCE(SUM(net_cents) / NULLIF(COUNT(DISTINCT client_key) FILTER (WHERE status = 'approved'), 0), 0)
+  FROM revenue_payments
+  WHERE owner_id = auth.uid()
+    AND paid_on BETWEEN p_start AND p_end
+    AND (p_plan_id IS NULL OR plan_id = p_plan_id);
+$$ LANGUAGE sql STABLE;
+
+-- ===========================================
+-- 4. REVENUE_MONTHLY - Revenue and active paying clients per month
+-- A client is active in a month when an approved payment covers any day
+-- of it. ARPU is the month's revenue divided by its active clients.
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION revenue_monthly(p_start DATE, p_end DATE, p_plan_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  month DATE,
+  revenue_cents BIGINT,
+  refunded_cents BIGINT,
+  payments_count BIGINT,
+  active_clients BIGINT,
+  arpu_cents BIGINT
+) AS $$
+  WITH months AS (
+    SELECT generate_series(
+      date_trunc('month', p_start::timestamp),
+      date_trunc('month', p_end::timestamp),
+      INTERVAL '1 month'
+    )::date AS month
+  ),
+  owned AS (
+    SELECT *
+    FROM revenue_payments
+    WHERE owner_id = auth.uid()
+      AND (p_plan_id IS NULL OR plan_id = p_plan_id)
+  )
+  SELECT
+    m.month,
+    COALESCE(r.revenue_cents, 0),
+    COALESCE(r.refunded_cents, 0),
+    COALESCE(r.payments_count, 0),
+    a.active_clients,
+    COALESCE(r.revenue_cents / NULLIF(a.active_clients, 0), 0)
+  FROM months m
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(o.net_cents) AS revenue_cents,
+      SUM(o.refunded_amount_cents) AS refunded_cents,
+      COUNT(*) FILTER (WHERE o.status = 'approved') AS payments_count
+    FROM owned o
+    WHERE o.paid_on >= m.month
+      AND o.paid_on < (m.month + INTERVAL '1 month')::date
+      AND o.paid_on BETWEEN p_start AND p_end
+  ) r ON true
+  LEFT JOIN LATERAL (
+    SELECT COUNT(DISTINCT o.client_key) AS active_clients
+    FROM owned o
+    WHERE o.status = 'approved'
+      AND o.paid_on < (m.month + INTERVAL '1 month')::date
+      AND o.covered_until > m.month
+  ) a ON true
+  ORDER BY m.month;
+$$ LANGUAGE sql STABLE;
+
+-- ===========================================
+-- 5. REVENUE_BY_PLAN - Revenue, renewals and churn per plan
+-- Looks at the approved payments whose coverage ended in the period. The
+-- client renewed when they paid again (any plan) up to p_grace_days after
+-- it ended, and churned otherwise. Periods still inside the grace window
+-- are left out until they are decided.
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION revenue_by_plan(
+  p_start DATE,
+  p_end DATE,
+  p_plan_id UUID DEFAULT NULL,
+  p_grace_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  plan_id UUID,
+  plan_name TEXT,
+  revenue_cents BIGINT,
+  payments_count BIGINT,
+  renewed_count BIGINT,
+  churned_count BIGINT
+) AS $$
+  WITH owned AS (
+    SELECT *
+    FROM revenue_payments
+    WHERE owner_id = auth.uid()
+  ),
+  ended AS (
+    SELECT
+      o.plan_id,
+      EXISTS (
+        SELECT 1
+        FROM owned n
+        WHERE n.client_key = o.client_key
+          AND n.status = 'approved'
+          AND n.paid_at > o.paid_at
+          AND n.paid_on <= o.covered_until + p_grace_days
+      ) AS renewed
+    FROM owned o
+    WHERE o.status = 'approved'
+      AND o.covered_until BETWEEN p_start AND p_end
+      AND o.covered_until + p_grace_days < (NOW() AT TIME ZONE 'America/Sao_Paulo')::date
+  )
+  SELECT
+    sp.id,
+    sp.name::text,
+    COALESCE(r.revenue_cents, 0),
+    COALESCE(r.payments_count, 0),
+    COALESCE(e.renewed_count, 0),
+    COALESCE(e.churned_count, 0)
+  FROM subscription_plans sp
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(o.net_cents) AS revenue_cents,
+      COUNT(*) FILTER (WHERE o.status = 'approved') AS payments_count
+    FROM owned o
+    WHERE o.plan_id = sp.id
+      AND o.paid_on BETWEEN p_start AND p_end
+  ) r ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE ended.renewed) AS renewed_count,
+      COUNT(*) FILTER (WHERE NOT ended.renewed) AS churned_count
+    FROM ended
+    WHERE ended.plan_id = sp.id
+  ) e ON true
+  WHERE sp.owner_id = auth.uid()
+    AND (p_plan_id IS NULL OR sp.id = p_plan_id)
+  ORDER BY COALESCE(r.revenue_cents, 0) DESC, sp.display_order;
+$$ LANGUAGE sql STABLE;
+
+-- ===========================================
+-- 6. REVENUE_BY_METHOD - Revenue per gateway and payment method
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION revenue_by_method(p_start DATE, p_end DATE, p_plan_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  gateway TEXT,
+  payment_method TEXT,
+  revenue_cents BIGINT,
+  payments_count BIGINT
+) AS $$
+  SELECT
+    gateway::text,
+    payment_method::text,
+    COALESCE(SUM(net_cents), 0),
+    COUNT(*) FILTER (WHERE status = 'approved')
+  FROM revenue_payments
+  WHERE owner_id = auth.uid()
+    AND paid_on BETWEEN p_start AND p_end
+    AND (p_plan_id IS NULL OR plan_id = p_plan_id)
+  GROUP BY gateway, payment_method
+  ORDER BY 3 DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Analytics only make sense for a signed-in admin
+REVOKE EXECUTE ON FUNCTION revenue_overview() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION revenue_summary(DATE, DATE, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION revenue_monthly(DATE, DATE, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION revenue_by_plan(DATE, DATE, UUID, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION revenue_by_method(DATE, DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revenue_overview() TO authenticated;
+GRANT EXECUTE ON FUNCTION revenue_summary(DATE, DATE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION revenue_monthly(DATE, DATE, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION revenue_by_plan(DATE, DATE, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION revenue_by_method(DATE, DATE, UUID) TO authenticated;
@@ -0,0 +1,73 @@
+-- ===========================================
+-- SCHEDULED JOBS: Daily plan-expiry routine
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql)
+-- ===========================================
+
+-- ===========================================
+-- 1. PLAN_EXPIRY_NOTIFICATIONS - Reminders already sent
+-- One row per client, plan period and threshold (7, 3 or 1 days), so a
+-- reminder is never sent twice and a renewal starts a fresh set.
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS plan_expiry_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  plan_end_date DATE NOT NULL,
+  threshold_days INTEGER NOT NULL,
+  sent_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (client_id, plan_end_date, threshold_days)
+);
+
+-- ===========================================
+-- 2. SCHEDULED_JOB_RUNS - Run history shown to admins
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name VARCHAR(50) NOT NULL,
+  trigger VARCHAR(20) NOT NULL DEFAULT 'cron',  -- cron, manual
+  status VARCHAR(20) NOT NULL DEFAULT 'running',  -- running, succeeded, failed
+
+  -- Results
+  reminders_sent INTEGER NOT NULL DEFAULT 0,
+  payments_expired INTEGER NOT NULL DEFAULT 0,
+  clients_deactivated INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_started ON scheduled_job_runs(job_name, started_at DESC);
+
+-- ===========================================
+-- 3. RLS POLICIES
+-- Both tables are written only by the plan-expiry-job Edge Function (service role)
+-- ===========================================
+
+ALTER TABLE plan_expiry_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin views job runs" ON scheduled_job_runs
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- ===========================================
+-- 4. SCHEDULE (pg_cron + pg_net)
+-- Enable both extensions in Database > Extensions, then replace the
+-- placeholders with the project URL and the service role key.
+-- ===========================================
+
+-- SELECT cron.schedule(
+--   'plan-expiry-job',
+--   '0 11 * * *',  -- Every day at 08:00 (Brasilia)
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/plan-expiry-job',
+--     headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,99 @@
+-- ===========================================
+-- RECURRING SUBSCRIPTIONS
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql)
+-- ===========================================
+
+-- ===========================================
+-- 1. SUBSCRIPTION_PLANS - Billing mode
+-- ===========================================
+
+ALTER TABLE subscription_plans
+  ADD COLUMN IF NOT EXISTS billing_mode VARCHAR(20) NOT NULL DEFAULT 'one_time';  -- one_time, recurring
+
+-- ===========================================
+-- 2. PAYMENT_SETTINGS - Mercado Pago account id
+-- Filled by payment-create when the first preapproval is created. Mercado Pago
+-- subscription notifications only carry the seller's user_id, so it is how the
+-- webhook finds the owner of a renewal charge it has never seen.
+-- ===========================================
+
+ALTER TABLE payment_settings
+  ADD COLUMN IF NOT EXISTS mp_user_id VARCHAR(50);
+
+-- ===========================================
+-- 3. SUBSCRIPTIONS - Gateway subscriptions
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,  -- NULL until the first charge is approved
+  plan_id UUID REFERENCES subscription_plans(id),
+
+  -- Gateway info
+  gateway VARCHAR(20) NOT NULL,  -- mercado_pago, asaas, pagarme
+  gateway_subscription_id VARCHAR(255) NOT NULL,
+
+  payment_method VARCHAR(20),  -- pix, boleto, credit_card
+  amount_cents INTEGER NOT NULL,
+  status VARCHAR(20) DEFAULT 'pending',  -- pending, active, cancelled
+
+  -- Customer info (captured at checkout)
+  customer_email VARCHAR(255) NOT NULL,
+  customer_name VARCHAR(255) NOT NULL,
+  customer_phone VARCHAR(20),
+  customer_cpf VARCHAR(14),
+
+  cancelled_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (gateway, gateway_subscription_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_owner ON subscriptions(owner_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_client ON subscriptions(client_id);
+
+-- ===========================================
+-- 4. PAYMENTS - Link renewal charges to their subscription
+-- ===========================================
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_subscription ON payments(subscription_id);
+
+-- Each gateway charge is recorded once, even if two webhooks race to insert it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_gateway_payment_unique
+  ON payments(gateway, gateway_payment_id)
+  WHERE gateway_payment_id IS NOT NULL;
+
+-- ===========================================
+-- 5. RLS POLICIES - subscriptions
+-- ===========================================
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Admin can see all subscriptions they own
+CREATE POLICY "Admin manages own subscriptions" ON subscriptions
+FOR ALL USING (
+  auth.uid() = owner_id AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Client can see their own subscriptions (cancellation goes through subscription-cancel)
+CREATE POLICY "Client reads own subscriptions" ON subscriptions
+FOR SELECT USING (
+  auth.uid() = client_id
+);
+
+-- ===========================================
+-- 6. UPDATE TRIGGERS
+-- ===========================================
+
+DROP TRIGGER IF EXISTS update_subscriptions_updated_at ON subscriptions;
+CREATE TRIGGER update_subscriptions_updated_at
+  BEFORE UPDATE ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
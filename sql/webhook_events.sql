@@ -0,0 +1,57 @@
+-- ===========================================
+-- WEBHOOK SECURITY & IDEMPOTENCY
+-- Run this in Supabase Dashboard > SQL Editor (after payments.sql)
+-- ===========================================
+
+-- ===========================================
+-- 1. PAYMENT_SETTINGS - Webhook credentials
+-- ===========================================
+
+ALTER TABLE payment_settings
+  ADD COLUMN IF NOT EXISTS mp_webhook_secret TEXT,     -- Mercado Pago: "Assinatura secreta" of the webhook
+  ADD COLUMN IF NOT EXISTS asaas_webhook_token TEXT;   -- Asaas: "Token de autenticacao" of the webhook
+
+-- ===========================================
+-- 2. WEBHOOK_EVENTS - One row per gateway notification
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  gateway VARCHAR(20) NOT NULL,  -- mercado_pago, asaas, pagseguro, pagarme
+  event_id VARCHAR(255) NOT NULL,  -- Gateway event/notification ID
+  event_type VARCHAR(100),
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+
+  payload JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing',  -- processing, processed, ignored, failed
+  error_message TEXT,
+  processed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- A redelivered event hits this constraint and is skipped
+  UNIQUE (gateway, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_payment ON webhook_events(payment_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status);
+
+-- ===========================================
+-- 3. RLS POLICIES - webhook_events
+-- ===========================================
+
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Admin can audit events of their own payments
+CREATE POLICY "Admin reads own webhook events" ON webhook_events
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM payments
+    WHERE payments.id = webhook_events.payment_id
+      AND payments.owner_id = auth.uid()
+  ) AND
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Only Edge Functions (service_role bypasses RLS) write events
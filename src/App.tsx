@@ -73,9 +73,10 @@ function ClientRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/admin" replace />;
   }
 
-  // Check if plan expired (allow access to profile page)
+  // Check if plan expired (allow access to profile and renewal pages)
   const isProfilePage = location.pathname === '/app/perfil';
-  if (planStatus.isExpired && !isProfilePage && !loading) {
+  const isRenewalPage = location.pathname === '/app/renovar';
+  if (planStatus.isExpired && !isProfilePage && !isRenewalPage && !loading) {
     return (
       <PlanExpiredScreen
         planEndDate={planStatus.planEndDate!}
@@ -89,7 +90,8 @@ function ClientRoute({ children }: { children: React.ReactNode }) {
   // Show expiring banner if plan ends in 7 days or less
   const showExpiringBanner = planStatus.daysRemaining !== null &&
     planStatus.daysRemaining <= 7 &&
-    planStatus.daysRemaining > 0;
+    planStatus.daysRemaining > 0 &&
+    !isRenewalPage;
 
   // NUNCA desmonta os children - só mostra overlay de loading se necessário
   return (
@@ -285,6 +287,14 @@ function AppRoutes() {
           </ClientRoute>
         }
       />
+      <Route
+        path="/app/renovar"
+        element={
+          <ClientRoute>
+            <CheckoutPage renewal />
+          </ClientRoute>
+        }
+      />
 
       {/* ========== ROTAS DO ADMIN (/admin/*) ========== */}
       <Route
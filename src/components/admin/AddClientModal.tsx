@@ -1,6 +1,7 @@
 import { useState } from 'react';
-import { Modal, Button, Input } from '../ui';
+import { Modal, Button, Input, Select } from '../ui';
 import { supabase } from '../../lib/supabase';
+import type { BiologicalSex } from '../../types/database';
 import styles from './AddClientModal.module.css';
 
 interface AddClientModalProps {
@@ -15,6 +16,7 @@ interface FormData {
   password: string;
   phone: string;
   age: string;
+  sex: BiologicalSex | '';
   heightCm: string;
   currentWeightKg: string;
   goalWeightKg: string;
@@ -27,6 +29,7 @@ const initialFormData: FormData = {
   password: '',
   phone: '',
   age: '',
+  sex: '',
   heightCm: '',
   currentWeightKg: '',
   goalWeightKg: '',
@@ -38,7 +41,7 @@ export function AddClientModal({ isOpen, onClose, onSuccess }: AddClientModalPro
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  function handleChange(e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) {
+  function handleChange(e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
   }
@@ -99,6 +102,7 @@ export function AddClientModal({ isOpen, onClose, onSuccess }: AddClientModalPro
         email: formData.email.trim().toLowerCase(),
         phone: formData.phone.trim() || null,
         age: formData.age ? parseInt(formData.age) : null,
+        sex: formData.sex || null,
         height_cm: formData.heightCm ? parseFloat(formData.heightCm) : null,
         current_weight_kg: formData.currentWeightKg ? parseFloat(formData.currentWeightKg) : null,
         starting_weight_kg: formData.currentWeightKg ? parseFloat(formData.currentWeightKg) : null,
@@ -200,6 +204,18 @@ export function AddClientModal({ isOpen, onClose, onSuccess }: AddClientModalPro
             placeholder="Ex: 25"
             disabled={loading}
           />
+          <Select
+            label="Sexo biológico"
+            name="sex"
+            value={formData.sex}
+            onChange={handleChange}
+            options={[
+              { value: 'female', label: 'Feminino' },
+              { value: 'male', label: 'Masculino' },
+            ]}
+            placeholder="Selecione"
+            disabled={loading}
+          />
         </div>
 
         <div className={styles.section}>
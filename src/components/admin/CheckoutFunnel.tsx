@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Card } from '../ui';
+import type { CheckoutFunnel as CheckoutFunnelRow } from '../../types/database';
+import styles from './CheckoutFunnel.module.css';
+
+interface CheckoutFunnelProps {
+  // Bumped by the page to reload after a manual refresh
+  refreshKey?: number;
+}
+
+const FUNNEL_STEPS: { key: keyof CheckoutFunnelRow; label: string }[] = [
+  { key: 'viewed_count', label: 'Viram os planos' },
+  { key: 'plan_selected_count', label: 'Escolheram um plano' },
+  { key: 'customer_submitted_count', label: 'Preencheram os dados' },
+  { key: 'paid_count', label: 'Pagaram' },
+];
+
+// YYYY-MM-DD in local time, as <input type="date"> and the RPC expect
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Last 30 days, today included
+const getDefaultRange = () => {
+  const today = new Date();
+  return {
+    start: toDateInput(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29)),
+    end: toDateInput(today),
+  };
+};
+
+export function CheckoutFunnel({ refreshKey = 0 }: CheckoutFunnelProps) {
+  const { profile } = useAuth();
+  const [range, setRange] = useState(getDefaultRange);
+  const [loading, setLoading] = useState(true);
+  const [funnel, setFunnel] = useState<CheckoutFunnelRow | null>(null);
+
+  useEffect(() => {
+    if (profile?.id && range.start && range.end && range.start <= range.end) {
+      loadFunnel();
+    }
+  }, [profile?.id, range.start, range.end, refreshKey]);
+
+  const loadFunnel = async () => {
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.rpc('checkout_funnel', { p_start: range.start, p_end: range.end });
+
+      if (error) {
+        console.error('Error loading checkout funnel:', error);
+        return;
+      }
+
+      setFunnel((data as CheckoutFunnelRow[])[0] ?? null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRate = (count: number, total: number) => {
+    return total > 0 ? Math.round((count / total) * 100) : 0;
+  };
+
+  return (
+    <Card className={styles.card}>
+      <div className={styles.header}>
+        <h3 className={styles.title}>Funil do checkout</h3>
+        <p className={styles.subtitle}>Visitas ao link de pagamento, por data da visita</p>
+      </div>
+
+      <div className={styles.filters}>
+        <div className={styles.filterGroup}>
+          <label>De</label>
+          <input
+            type="date"
+            value={range.start}
+            max={range.end}
+            onChange={(e) => setRange((prev) => ({ ...prev, start: e.target.value }))}
+          />
+        </div>
+        <div className={styles.filterGroup}>
+          <label>Ate</label>
+          <input
+            type="date"
+            value={range.end}
+            min={range.start}
+            onChange={(e) => setRange((prev) => ({ ...prev, end: e.target.value }))}
+          />
+        </div>
+      </div>
+
+      {loading && !funnel ? (
+        <p className={styles.emptyText}>Carregando funil...</p>
+      ) : !funnel || funnel.viewed_count === 0 ? (
+        <p className={styles.emptyText}>Nenhuma visita ao checkout no periodo.</p>
+      ) : (
+        <div className={loading ? styles.reloading : undefined}>
+          <div className={styles.steps}>
+            {FUNNEL_STEPS.map((step, index) => {
+              const count = funnel[step.key];
+              const previous = index > 0 ? funnel[FUNNEL_STEPS[index - 1].key] : count;
+              return (
+                <div key={step.key} className={styles.step}>
+                  <div className={styles.stepHeader}>
+                    <span className={styles.stepName}>{step.label}</span>
+                    <span className={styles.stepValue}>{count}</span>
+                  </div>
+                  <div className={styles.stepBar}>
+                    <div className={styles.stepFill} style={{ width: `${getRate(count, funnel.viewed_count)}%` }} />
+                  </div>
+                  {index > 0 && (
+                    <span className={styles.stepMeta}>{getRate(count, previous)}% da etapa anterior</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className={styles.recovery}>
+            <span className={styles.recoveryLabel}>Emails de recuperacao</span>
+            <span className={styles.recoveryValue}>
+              {funnel.recovery_sent_count} enviados • {funnel.recovered_count} recuperados
+              {funnel.recovery_sent_count > 0 && ` (${getRate(funnel.recovered_count, funnel.recovery_sent_count)}%)`}
+            </span>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
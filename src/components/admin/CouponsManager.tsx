@@ -0,0 +1,510 @@
+import { useState, useEffect } from 'react';
+import { Plus, X, Edit2, Trash2, Tag, Power } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Card, Button, Input } from '../ui';
+import type { Coupon, CouponDiscountType, SubscriptionPlan } from '../../types/database';
+import styles from './CouponsManager.module.css';
+
+interface CouponsManagerProps {
+  ownerId: string;
+}
+
+interface CouponFormData {
+  code: string;
+  description: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  valid_from: string;
+  valid_until: string;
+  max_uses: string;
+  plan_ids: string[];
+  first_purchase_only: boolean;
+  is_active: boolean;
+}
+
+const defaultFormData: CouponFormData = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: 10,
+  valid_from: '',
+  valid_until: '',
+  max_uses: '',
+  plan_ids: [],
+  first_purchase_only: false,
+  is_active: true,
+};
+
+// Converts a stored timestamp to the yyyy-mm-dd value of a date input (local time)
+function toDateInput(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function CouponsManager({ ownerId }: CouponsManagerProps) {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<CouponFormData>(defaultFormData);
+
+  useEffect(() => {
+    if (ownerId) {
+      loadCoupons();
+    }
+  }, [ownerId]);
+
+  const loadCoupons = async () => {
+    setLoading(true);
+    try {
+      const [couponsResult, plansResult] = await Promise.all([
+        supabase
+          .from('coupons')
+          .select('*')
+          .eq('owner_id', ownerId)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('subscription_plans')
+          .select('*')
+          .eq('owner_id', ownerId)
+          .order('display_order', { ascending: true }),
+      ]);
+
+      if (couponsResult.error) {
+        console.error('Error loading coupons:', couponsResult.error);
+      } else {
+        setCoupons(couponsResult.data || []);
+      }
+
+      if (plansResult.data) {
+        setPlans(plansResult.data);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = formData.code.trim().toUpperCase();
+    if (!code) {
+      alert('Codigo do cupom e obrigatorio');
+      return;
+    }
+
+    if (!/^[A-Z0-9_-]+$/.test(code)) {
+      alert('Use apenas letras, numeros, hifen e sublinhado no codigo');
+      return;
+    }
+
+    if (formData.discount_value <= 0) {
+      alert('Desconto deve ser maior que zero');
+      return;
+    }
+
+    if (formData.discount_type === 'percent' && formData.discount_value > 100) {
+      alert('Desconto percentual deve ser no maximo 100%');
+      return;
+    }
+
+    if (formData.valid_from && formData.valid_until && formData.valid_until < formData.valid_from) {
+      alert('Data final deve ser posterior a data inicial');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const couponData = {
+        owner_id: ownerId,
+        code,
+        description: formData.description.trim() || null,
+        discount_type: formData.discount_type,
+        discount_value: formData.discount_value,
+        valid_from: formData.valid_from ? new Date(`${formData.valid_from}T00:00:00`).toISOString() : null,
+        valid_until: formData.valid_until ? new Date(`${formData.valid_until}T23:59:59`).toISOString() : null,
+        max_uses: formData.max_uses ? parseInt(formData.max_uses) : null,
+        plan_ids: formData.plan_ids.length > 0 ? formData.plan_ids : null,
+        first_purchase_only: formData.first_purchase_only,
+        is_active: formData.is_active,
+      };
+
+      if (editingCoupon) {
+        const { error } = await supabase
+          .from('coupons')
+          .update(couponData)
+          .eq('id', editingCoupon.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('coupons')
+          .insert(couponData);
+
+        if (error) throw error;
+      }
+
+      resetForm();
+      await loadCoupons();
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      if ((error as { code?: string }).code === '23505') {
+        alert('Ja existe um cupom com este codigo');
+      } else {
+        alert('Erro ao salvar cupom');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setFormData({
+      code: coupon.code,
+      description: coupon.description || '',
+      discount_type: coupon.discount_type,
+      discount_value: coupon.discount_value,
+      valid_from: toDateInput(coupon.valid_from),
+      valid_until: toDateInput(coupon.valid_until),
+      max_uses: coupon.max_uses !== null ? String(coupon.max_uses) : '',
+      plan_ids: coupon.plan_ids || [],
+      first_purchase_only: coupon.first_purchase_only,
+      is_active: coupon.is_active,
+    });
+    setShowModal(true);
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Tem certeza que deseja excluir o cupom "${coupon.code}"?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('coupons')
+        .delete()
+        .eq('id', coupon.id);
+
+      if (error) throw error;
+      loadCoupons();
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      alert('Erro ao excluir cupom');
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      const { error } = await supabase
+        .from('coupons')
+        .update({ is_active: !coupon.is_active })
+        .eq('id', coupon.id);
+
+      if (error) throw error;
+      loadCoupons();
+    } catch (error) {
+      console.error('Error toggling coupon:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setShowModal(false);
+    setEditingCoupon(null);
+    setFormData(defaultFormData);
+  };
+
+  const togglePlan = (planId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      plan_ids: prev.plan_ids.includes(planId)
+        ? prev.plan_ids.filter((id) => id !== planId)
+        : [...prev.plan_ids, planId],
+    }));
+  };
+
+  const formatPrice = (cents: number) => {
+    return (cents / 100).toLocaleString('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    });
+  };
+
+  const formatDate = (value: string) => {
+    return new Date(value).toLocaleDateString('pt-BR');
+  };
+
+  const formatDiscount = (coupon: Coupon) => {
+    return coupon.discount_type === 'percent'
+      ? `${coupon.discount_value}% OFF`
+      : `${formatPrice(coupon.discount_value)} OFF`;
+  };
+
+  const handleFixedValueChange = (value: string) => {
+    // Remove non-numeric characters
+    const numericValue = value.replace(/\D/g, '');
+    setFormData((prev) => ({ ...prev, discount_value: parseInt(numericValue) || 0 }));
+  };
+
+  const getStatusBadge = (coupon: Coupon) => {
+    const now = new Date();
+    if (!coupon.is_active) {
+      return <span className={styles.inactiveBadge}>Inativo</span>;
+    }
+    if (coupon.valid_until && new Date(coupon.valid_until) < now) {
+      return <span className={styles.inactiveBadge}>Expirado</span>;
+    }
+    if (coupon.max_uses !== null && coupon.uses_count >= coupon.max_uses) {
+      return <span className={styles.inactiveBadge}>Esgotado</span>;
+    }
+    return null;
+  };
+
+  if (loading) {
+    return <div className={styles.loading}>Carregando cupons...</div>;
+  }
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <div>
+          <h3 className={styles.title}>Cupons de Desconto</h3>
+          <p className={styles.subtitle}>Crie codigos promocionais para o checkout</p>
+        </div>
+        <button className={styles.addButton} onClick={() => setShowModal(true)}>
+          <Plus size={18} />
+          Novo Cupom
+        </button>
+      </div>
+
+      {coupons.length === 0 ? (
+        <Card className={styles.emptyCard}>
+          <p className={styles.emptyText}>
+            Nenhum cupom cadastrado ainda. Crie um cupom para oferecer descontos aos seus clientes.
+          </p>
+        </Card>
+      ) : (
+        <div className={styles.couponsList}>
+          {coupons.map((coupon) => (
+            <Card key={coupon.id} className={`${styles.couponCard} ${!coupon.is_active ? styles.couponInactive : ''}`}>
+              <div className={styles.couponHeader}>
+                <div className={styles.couponIcon}>
+                  <Tag size={18} />
+                </div>
+                <div className={styles.couponInfo}>
+                  <div className={styles.couponTitleRow}>
+                    <h4 className={styles.couponCode}>{coupon.code}</h4>
+                    <span className={styles.discountBadge}>{formatDiscount(coupon)}</span>
+                    {getStatusBadge(coupon)}
+                  </div>
+                  {coupon.description && (
+                    <p className={styles.couponDescription}>{coupon.description}</p>
+                  )}
+                  <div className={styles.couponMeta}>
+                    <span>
+                      {coupon.uses_count}
+                      {coupon.max_uses !== null ? `/${coupon.max_uses}` : ''} usos
+                    </span>
+                    {coupon.valid_until && <span>Ate {formatDate(coupon.valid_until)}</span>}
+                    {coupon.plan_ids && coupon.plan_ids.length > 0 && (
+                      <span>
+                        {coupon.plan_ids.length} {coupon.plan_ids.length === 1 ? 'plano' : 'planos'}
+                      </span>
+                    )}
+                    {coupon.first_purchase_only && <span>Primeira compra</span>}
+                    {coupon.customer_email && <span>Apenas {coupon.customer_email}</span>}
+                  </div>
+                </div>
+                <div className={styles.couponActions}>
+                  <button
+                    className={`${styles.actionBtn} ${coupon.is_active ? styles.active : ''}`}
+                    onClick={() => handleToggleActive(coupon)}
+                    title={coupon.is_active ? 'Desativar cupom' : 'Ativar cupom'}
+                  >
+                    <Power size={16} />
+                  </button>
+                  <button
+                    className={styles.actionBtn}
+                    onClick={() => handleEdit(coupon)}
+                    title="Editar cupom"
+                  >
+                    <Edit2 size={16} />
+                  </button>
+                  <button
+                    className={`${styles.actionBtn} ${styles.deleteBtn}`}
+                    onClick={() => handleDelete(coupon)}
+                    title="Excluir cupom"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Modal */}
+      {showModal && (
+        <div className={styles.modalOverlay} onClick={() => resetForm()}>
+          <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+            <div className={styles.modalHeader}>
+              <h3>{editingCoupon ? 'Editar Cupom' : 'Novo Cupom'}</h3>
+              <button className={styles.closeBtn} onClick={resetForm}>
+                <X size={20} />
+              </button>
+            </div>
+
+            <form className={styles.form} onSubmit={handleSubmit}>
+              <Input
+                label="Codigo"
+                value={formData.code}
+                onChange={(e) => setFormData((prev) => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                placeholder="Ex: BEMVINDO10"
+              />
+
+              <div className={styles.formGroup}>
+                <label>Descricao (opcional)</label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                  placeholder="Uso interno, nao aparece no checkout"
+                  rows={2}
+                />
+              </div>
+
+              <div className={styles.formRow}>
+                <div className={styles.formGroup}>
+                  <label>Tipo de desconto</label>
+                  <select
+                    value={formData.discount_type}
+                    onChange={(e) => setFormData((prev) => ({
+                      ...prev,
+                      discount_type: e.target.value as CouponDiscountType,
+                      discount_value: 0,
+                    }))}
+                  >
+                    <option value="percent">Percentual (%)</option>
+                    <option value="fixed">Valor fixo (R$)</option>
+                  </select>
+                </div>
+
+                <div className={styles.formGroup}>
+                  <label>{formData.discount_type === 'percent' ? 'Desconto (%)' : 'Desconto (R$)'}</label>
+                  {formData.discount_type === 'percent' ? (
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={formData.discount_value || ''}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, discount_value: parseInt(e.target.value) || 0 }))}
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      value={formData.discount_value ? formatPrice(formData.discount_value).replace('R$', '').trim() : ''}
+                      onChange={(e) => handleFixedValueChange(e.target.value)}
+                      placeholder="0,00"
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div className={styles.formRow}>
+                <div className={styles.formGroup}>
+                  <label>Valido a partir de</label>
+                  <input
+                    type="date"
+                    value={formData.valid_from}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, valid_from: e.target.value }))}
+                  />
+                </div>
+
+                <div className={styles.formGroup}>
+                  <label>Valido ate</label>
+                  <input
+                    type="date"
+                    value={formData.valid_until}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, valid_until: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className={styles.formGroup}>
+                <label>Limite de usos (vazio = ilimitado)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.max_uses}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, max_uses: e.target.value }))}
+                  placeholder="Ilimitado"
+                />
+              </div>
+
+              {plans.length > 0 && (
+                <div className={styles.formGroup}>
+                  <label>Planos (nenhum selecionado = todos)</label>
+                  <div className={styles.plansChecklist}>
+                    {plans.map((plan) => (
+                      <label key={plan.id} className={styles.toggle}>
+                        <input
+                          type="checkbox"
+                          checked={formData.plan_ids.includes(plan.id)}
+                          onChange={() => togglePlan(plan.id)}
+                          disabled={plan.billing_mode === 'recurring'}
+                        />
+                        <span>
+                          {plan.name} - {formatPrice(plan.price_cents)}
+                          {plan.billing_mode === 'recurring' ? ' (recorrente)' : ''}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className={styles.togglesRow}>
+                <label className={styles.toggle}>
+                  <input
+                    type="checkbox"
+                    checked={formData.is_active}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, is_active: e.target.checked }))}
+                  />
+                  <span>Cupom ativo</span>
+                </label>
+
+                <label className={styles.toggle}>
+                  <input
+                    type="checkbox"
+                    checked={formData.first_purchase_only}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, first_purchase_only: e.target.checked }))}
+                  />
+                  <span>Apenas primeira compra</span>
+                </label>
+              </div>
+
+              <p className={styles.formHint}>
+                Cupons nao se aplicam a planos recorrentes.
+              </p>
+
+              <div className={styles.formActions}>
+                <button type="button" className={styles.cancelBtn} onClick={resetForm}>
+                  Cancelar
+                </button>
+                <Button type="submit" loading={saving}>
+                  {editingCoupon ? 'Salvar Alteracoes' : 'Criar Cupom'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
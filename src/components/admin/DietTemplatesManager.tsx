@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { Search, Plus, X, Trash2, Clock, ChevronDown, ChevronUp, Copy, RefreshCw, Layers } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { fetchFoodLookup } from '../../lib/foods';
 import { Input, Card, Button, FoodSelect, Select } from '../ui';
+import { isMeasuredUnit, parseBrazilianNumber, toStoredQuantity } from '../../utils/nutrition';
 import type { TabelaTaco, TemplateFoodSubstitution, UnitType, MealSubstitution, MealSubstitutionItem } from '../../types/database';
 import styles from './DietTemplatesManager.module.css';
 
@@ -27,6 +29,7 @@ interface LocalSubstitution {
   id: string;
   template_food_id: string;
   substitute_food: string;
+  substitute_food_id: number | null;
   substitute_quantity: string;
   isNew?: boolean;
   isDeleted?: boolean;
@@ -35,6 +38,7 @@ interface LocalSubstitution {
 interface TemplateFood {
   id: string;
   template_meal_id: string;
+  food_id: number | null;
   food_name: string;
   quantity: string;
   order_index: number;
@@ -89,6 +93,7 @@ export function DietTemplatesManager() {
   const [showSubstitutionModal, setShowSubstitutionModal] = useState(false);
   const [editingFood, setEditingFood] = useState<{ mealIndex: number; foodIndex: number; foodId: string; foodName: string } | null>(null);
   const [newSubstituteFood, setNewSubstituteFood] = useState('');
+  const [newSubstituteFoodId, setNewSubstituteFoodId] = useState<number | null>(null);
   const [newSubstituteQty, setNewSubstituteQty] = useState('');
 
   // Meal Substitutions state
@@ -153,6 +158,7 @@ export function DietTemplatesManager() {
               id: sub.id,
               template_food_id: sub.template_food_id,
               substitute_food: sub.substitute_food,
+              substitute_food_id: sub.substitute_food_id ?? null,
               substitute_quantity: sub.substitute_quantity,
             });
             substitutionsMap.set(sub.template_food_id, existing);
@@ -160,43 +166,28 @@ export function DietTemplatesManager() {
         }
       }
 
-      // Coletar nomes de alimentos para buscar peso_por_unidade
-      const allFoodNames = new Set<string>();
-      mealsData.forEach(meal => {
-        (meal.diet_template_meal_foods || []).forEach((food: TemplateFood) => {
-          if (food.food_name) allFoodNames.add(food.food_name);
-        });
-      });
-
-      // Buscar peso_por_unidade de food_metadata via tabela_taco
-      let pesoMap = new Map<string, number>();
-      if (allFoodNames.size > 0) {
-        const { data: tacoData } = await supabase
-          .from('tabela_taco')
-          .select('alimento, food_metadata(peso_por_unidade)')
-          .in('alimento', Array.from(allFoodNames));
-
-        if (tacoData) {
-          tacoData.forEach((item: any) => {
-            if (item.food_metadata?.peso_por_unidade) {
-              pesoMap.set(item.alimento, item.food_metadata.peso_por_unidade);
-            }
-          });
-        }
-      }
+      // Buscar dados dos alimentos (peso_por_unidade e nome atual) pelo food_id
+      const findFood = await fetchFoodLookup(
+        mealsData.flatMap(meal => (meal.diet_template_meal_foods || []) as TemplateFood[])
+      );
 
       const mealsWithFoods: TemplateMeal[] = mealsData.map(meal => ({
         ...meal,
         meal_substitutions: meal.meal_substitutions || [],
         foods: (meal.diet_template_meal_foods || [])
           .sort((a: TemplateFood, b: TemplateFood) => a.order_index - b.order_index)
-          .map((food: TemplateFood) => ({
-            ...food,
-            substitutions: substitutionsMap.get(food.id) || [],
-            unit_type: food.unit_type || 'gramas',
-            quantity_units: food.quantity_units || null,
-            peso_por_unidade: pesoMap.get(food.food_name) || undefined,
-          }))
+          .map((food: TemplateFood) => {
+            const tacoFood = findFood(food);
+            return {
+              ...food,
+              food_id: tacoFood?.id ?? food.food_id ?? null,
+              food_name: tacoFood?.alimento ?? food.food_name,
+              substitutions: substitutionsMap.get(food.id) || [],
+              unit_type: food.unit_type || 'gramas',
+              quantity_units: food.quantity_units || null,
+              peso_por_unidade: tacoFood?.peso_por_unidade || undefined,
+            };
+          })
       }));
       return mealsWithFoods;
     }
@@ -313,6 +304,7 @@ export function DietTemplatesManager() {
             .from('diet_template_meal_foods')
             .insert({
               template_meal_id: mealData.id,
+              food_id: food.food_id,
               food_name: food.food_name,
               quantity: food.quantity,
               order_index: food.order_index,
@@ -330,6 +322,7 @@ export function DietTemplatesManager() {
             const subsToInsert = subsToSave.map(sub => ({
               template_food_id: foodData.id,
               substitute_food: sub.substitute_food,
+              substitute_food_id: sub.substitute_food_id,
               substitute_quantity: sub.substitute_quantity
             }));
 
@@ -406,6 +399,7 @@ export function DietTemplatesManager() {
           .from('diet_template_meal_foods')
           .insert(meal.foods.map(food => ({
             template_meal_id: mealData.id,
+            food_id: food.food_id,
             food_name: food.food_name,
             quantity: food.quantity,
             order_index: food.order_index
@@ -487,6 +481,7 @@ export function DietTemplatesManager() {
     const newFood: TemplateFood = {
       id: `new-${Date.now()}`,
       template_meal_id: updated[mealIndex].id,
+      food_id: null,
       food_name: '',
       quantity: '',
       order_index: updated[mealIndex].foods.length,
@@ -502,7 +497,9 @@ export function DietTemplatesManager() {
     const updated = [...templateMeals];
     updated[mealIndex].foods[foodIndex] = {
       ...updated[mealIndex].foods[foodIndex],
-      [field]: value
+      [field]: value,
+      // Nome digitado desfaz o vinculo ate um alimento ser escolhido na lista
+      ...(field === 'food_name' ? { food_id: null } : {})
     };
     setTemplateMeals(updated);
   }
@@ -518,6 +515,7 @@ export function DietTemplatesManager() {
     const updated = [...templateMeals];
     updated[mealIndex].foods[foodIndex] = {
       ...updated[mealIndex].foods[foodIndex],
+      food_id: selectedFood.id,
       food_name: selectedFood.alimento,
       unit_type: 'gramas',
       quantity_units: null,
@@ -536,9 +534,9 @@ export function DietTemplatesManager() {
     const updated = [...templateMeals];
     const food = updated[mealIndex].foods[foodIndex];
 
-    if (unitType === 'gramas') {
-      // Voltando para gramas
-      food.unit_type = 'gramas';
+    if (isMeasuredUnit(unitType)) {
+      // Voltando para gramas/ml
+      food.unit_type = unitType;
       food.quantity_units = null;
     } else {
       // Mudando para unidade/fatia
@@ -554,19 +552,16 @@ export function DietTemplatesManager() {
     const updated = [...templateMeals];
     const food = updated[mealIndex].foods[foodIndex];
 
-    if (food.unit_type === 'gramas') {
-      // Entrada em gramas
+    if (isMeasuredUnit(food.unit_type)) {
+      // Entrada em gramas/ml
       food.quantity = value;
       food.quantity_units = null;
     } else {
       // Entrada em unidades - calcular gramas
-      const units = parseFloat(value) || 0;
-      food.quantity_units = units;
-      if (food.peso_por_unidade && units > 0) {
-        food.quantity = String(Math.round(units * food.peso_por_unidade));
-      } else {
-        food.quantity = '';
-      }
+      const units = parseBrazilianNumber(value);
+      const stored = toStoredQuantity(units, food.unit_type, food.peso_por_unidade);
+      food.quantity_units = stored.quantity_units;
+      food.quantity = units > 0 ? stored.quantity : '';
     }
 
     setTemplateMeals(updated);
@@ -590,6 +585,7 @@ export function DietTemplatesManager() {
       foodName: food.food_name
     });
     setNewSubstituteFood('');
+    setNewSubstituteFoodId(null);
     setNewSubstituteQty('');
     setShowSubstitutionModal(true);
   }
@@ -598,6 +594,7 @@ export function DietTemplatesManager() {
     setShowSubstitutionModal(false);
     setEditingFood(null);
     setNewSubstituteFood('');
+    setNewSubstituteFoodId(null);
     setNewSubstituteQty('');
   }
 
@@ -612,6 +609,7 @@ export function DietTemplatesManager() {
       id: `new-${Date.now()}`,
       template_food_id: foodId,
       substitute_food: newSubstituteFood,
+      substitute_food_id: newSubstituteFoodId,
       substitute_quantity: newSubstituteQty,
       isNew: true
     };
@@ -619,6 +617,7 @@ export function DietTemplatesManager() {
     food.substitutions = [...(food.substitutions || []), newSub];
     setTemplateMeals(updated);
     setNewSubstituteFood('');
+    setNewSubstituteFoodId(null);
     setNewSubstituteQty('');
   }
 
@@ -640,8 +639,14 @@ export function DietTemplatesManager() {
     setTemplateMeals(updated);
   }
 
+  function handleSubstituteFoodChange(foodName: string) {
+    setNewSubstituteFood(foodName);
+    setNewSubstituteFoodId(null);
+  }
+
   function handleSubstituteFoodSelect(selectedFood: TabelaTaco) {
     setNewSubstituteFood(selectedFood.alimento);
+    setNewSubstituteFoodId(selectedFood.id);
   }
 
   // Meal Substitution functions
@@ -672,13 +677,17 @@ export function DietTemplatesManager() {
   function addMealSubFood() {
     setMealSubFoods([
       ...mealSubFoods,
-      { food_name: '', quantity: '', unit_type: 'gramas', quantity_units: null }
+      { food_id: null, food_name: '', quantity: '', unit_type: 'gramas', quantity_units: null }
     ]);
   }
 
   function updateMealSubFood(index: number, field: keyof MealSubstitutionItem, value: string | number | null) {
     const updated = [...mealSubFoods];
-    updated[index] = { ...updated[index], [field]: value };
+    updated[index] = {
+      ...updated[index],
+      [field]: value,
+      ...(field === 'food_name' ? { food_id: null } : {}),
+    };
     setMealSubFoods(updated);
   }
 
@@ -688,7 +697,7 @@ export function DietTemplatesManager() {
 
   function handleMealSubFoodSelect(index: number, selectedFood: TabelaTaco) {
     const updated = [...mealSubFoods];
-    updated[index] = { ...updated[index], food_name: selectedFood.alimento };
+    updated[index] = { ...updated[index], food_id: selectedFood.id, food_name: selectedFood.alimento };
     setMealSubFoods(updated);
   }
 
@@ -915,13 +924,13 @@ export function DietTemplatesManager() {
                           <div className={styles.quantityWrapper}>
                             <Input
                               type="number"
-                              value={food.unit_type === 'gramas' ? food.quantity : (food.quantity_units?.toString() || '')}
+                              value={isMeasuredUnit(food.unit_type) ? food.quantity : (food.quantity_units?.toString() || '')}
                               onChange={(e) => handleQuantityChange(mealIndex, foodIndex, e.target.value)}
                               placeholder={food.unit_type === 'gramas' ? 'g' : 'qtd'}
                             />
                           </div>
                           {/* Mostrar equivalente em gramas quando usar unidades */}
-                          {food.unit_type !== 'gramas' && food.quantity && (
+                          {!isMeasuredUnit(food.unit_type) && food.quantity && (
                             <span className={styles.gramEquivalent}>= {food.quantity}g</span>
                           )}
                           {food.food_name && (
@@ -1069,7 +1078,7 @@ export function DietTemplatesManager() {
                   <div className={styles.addSubstitutionFood}>
                     <FoodSelect
                       value={newSubstituteFood}
-                      onChange={setNewSubstituteFood}
+                      onChange={handleSubstituteFoodChange}
                       onFoodSelect={handleSubstituteFoodSelect}
                       placeholder="Buscar alimento..."
                     />
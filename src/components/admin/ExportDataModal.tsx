@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import { Modal, Button } from '../ui';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import type { PaymentGateway, SubscriptionPlan } from '../../types/database';
+import styles from './ExportDataModal.module.css';
+
+interface ExportDataModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ExportDataset = 'payments' | 'clients';
+type ExportFormat = 'csv' | 'xlsx';
+
+const STATUS_OPTIONS: { value: string; label: string }[] = [
+  { value: 'approved,refunded', label: 'Recebidos (aprovados e reembolsados)' },
+  { value: 'approved', label: 'Aprovados' },
+  { value: 'refunded', label: 'Reembolsados' },
+  { value: 'pending', label: 'Pendentes' },
+  { value: 'rejected,expired', label: 'Rejeitados e expirados' },
+  { value: '', label: 'Todos' },
+];
+
+const GATEWAY_OPTIONS: { value: Exclude<PaymentGateway, 'none'>; label: string }[] = [
+  { value: 'mercado_pago', label: 'Mercado Pago' },
+  { value: 'asaas', label: 'Asaas' },
+  { value: 'pagseguro', label: 'PagSeguro' },
+  { value: 'pagarme', label: 'Pagar.me' },
+];
+
+// YYYY-MM-DD in local time, as <input type="date"> expects
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// The previous month, which is what the accountant asks for
+const getLastMonthRange = () => {
+  const today = new Date();
+  return {
+    start: toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+    end: toDateInput(new Date(today.getFullYear(), today.getMonth(), 0)),
+  };
+};
+
+export function ExportDataModal({ isOpen, onClose }: ExportDataModalProps) {
+  const { profile } = useAuth();
+  const [dataset, setDataset] = useState<ExportDataset>('payments');
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [range, setRange] = useState(getLastMonthRange);
+  const [status, setStatus] = useState(STATUS_OPTIONS[0].value);
+  const [planId, setPlanId] = useState('');
+  const [gateway, setGateway] = useState('');
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && profile?.id) {
+      setError(null);
+      loadPlans();
+    }
+  }, [isOpen, profile?.id]);
+
+  const loadPlans = async () => {
+    const { data, error: plansError } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .eq('owner_id', profile!.id)
+      .order('display_order', { ascending: true });
+
+    if (plansError) {
+      console.error('Error loading plans:', plansError);
+    } else {
+      setPlans(data || []);
+    }
+  };
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (dataset === 'payments' && range.start && range.end && range.start > range.end) {
+      setError('A data inicial deve ser anterior a final');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data, error: fnError, response } = await supabase.functions.invoke('data-export', {
+        body: dataset === 'payments'
+          ? {
+              dataset,
+              format,
+              start: range.start || undefined,
+              end: range.end || undefined,
+              status: status || undefined,
+              plan_id: planId || undefined,
+              gateway: gateway || undefined,
+            }
+          : { dataset, format },
+        // Makes supabase-js return the file as a Blob
+        headers: { Accept: 'application/octet-stream' },
+      });
+
+      if (fnError || !(data instanceof Blob)) {
+        console.error('Export error:', fnError || data);
+        setError('Erro ao exportar dados. Tente novamente.');
+        return;
+      }
+
+      const disposition = response?.headers.get('Content-Disposition') ?? '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `exportacao.${format}`;
+
+      const url = URL.createObjectURL(data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      onClose();
+    } catch (err) {
+      console.error('Error exporting data:', err);
+      setError('Erro ao exportar dados. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleClose() {
+    if (!loading) {
+      onClose();
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Exportar Dados"
+      subtitle="Planilha para a contabilidade"
+    >
+      <form onSubmit={handleSubmit} className={styles.form}>
+        {error && <div className={styles.error}>{error}</div>}
+
+        <div className={styles.section}>
+          <span className={styles.label}>Dados</span>
+          <label className={styles.option}>
+            <input type="radio" checked={dataset === 'payments'} onChange={() => setDataset('payments')} disabled={loading} />
+            <span>Pagamentos</span>
+          </label>
+          <label className={styles.option}>
+            <input type="radio" checked={dataset === 'clients'} onChange={() => setDataset('clients')} disabled={loading} />
+            <span>Alunos ativos e datas do plano</span>
+          </label>
+        </div>
+
+        {dataset === 'payments' && (
+          <>
+            <div className={styles.row}>
+              <div className={styles.section}>
+                <label className={styles.label}>De</label>
+                <input
+                  type="date"
+                  className={styles.input}
+                  value={range.start}
+                  onChange={(e) => setRange((prev) => ({ ...prev, start: e.target.value }))}
+                  disabled={loading}
+                />
+              </div>
+              <div className={styles.section}>
+                <label className={styles.label}>Ate</label>
+                <input
+                  type="date"
+                  className={styles.input}
+                  value={range.end}
+                  onChange={(e) => setRange((prev) => ({ ...prev, end: e.target.value }))}
+                  disabled={loading}
+                />
+              </div>
+            </div>
+
+            <div className={styles.section}>
+              <label className={styles.label}>Status</label>
+              <select className={styles.input} value={status} onChange={(e) => setStatus(e.target.value)} disabled={loading}>
+                {STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <span className={styles.hint}>
+                {status && status.split(',').every((s) => s === 'approved' || s === 'refunded')
+                  ? 'O periodo considera a data do pagamento.'
+                  : 'O periodo considera a data da cobranca.'}
+              </span>
+            </div>
+
+            <div className={styles.row}>
+              <div className={styles.section}>
+                <label className={styles.label}>Plano</label>
+                <select className={styles.input} value={planId} onChange={(e) => setPlanId(e.target.value)} disabled={loading}>
+                  <option value="">Todos</option>
+                  {plans.map((plan) => (
+                    <option key={plan.id} value={plan.id}>{plan.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className={styles.section}>
+                <label className={styles.label}>Gateway</label>
+                <select className={styles.input} value={gateway} onChange={(e) => setGateway(e.target.value)} disabled={loading}>
+                  <option value="">Todos</option>
+                  {GATEWAY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className={styles.section}>
+          <span className={styles.label}>Formato</span>
+          <label className={styles.option}>
+            <input type="radio" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} disabled={loading} />
+            <span>Excel (XLSX)</span>
+          </label>
+          <label className={styles.option}>
+            <input type="radio" checked={format === 'csv'} onChange={() => setFormat('csv')} disabled={loading} />
+            <span>CSV (separado por ponto e virgula)</span>
+          </label>
+        </div>
+
+        <div className={styles.actions}>
+          <Button type="button" variant="outline" onClick={handleClose} disabled={loading}>
+            Cancelar
+          </Button>
+          <Button type="submit" loading={loading}>
+            Exportar
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
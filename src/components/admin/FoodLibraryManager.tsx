@@ -3,10 +3,11 @@ import { Search, Plus, X, ChevronLeft, ChevronRight } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { Input, Card } from '../ui';
 import { UNIT_OPTIONS, UNIT_TYPES } from '../../constants/foodUnits';
-import type { UnitType, FoodMetadata } from '../../types/database';
+import { MICRONUTRIENTS, MICRONUTRIENT_KEYS } from '../../constants/micronutrients';
+import type { UnitType, FoodMetadata, MicronutrientKey, TabelaTaco } from '../../types/database';
 import styles from './FoodLibraryManager.module.css';
 
-interface Food {
+interface Food extends Partial<Pick<TabelaTaco, MicronutrientKey>> {
   id: number;
   alimento: string;
   caloria: string;
@@ -20,6 +21,10 @@ interface Food {
 
 const ITEMS_PER_PAGE = 50;
 
+// Campos de micronutrientes do formulario, vazios ou com os valores do alimento
+const micronutrientFields = (food?: Food) =>
+  Object.fromEntries(MICRONUTRIENT_KEYS.map((key) => [key, food?.[key] || ''])) as Record<MicronutrientKey, string>;
+
 export function FoodLibraryManager() {
   const [foods, setFoods] = useState<Food[]>([]);
   const [loading, setLoading] = useState(true);
@@ -41,7 +46,8 @@ export function FoodLibraryManager() {
     // Metadata fields
     nome_simplificado: '',
     unidade_tipo: 'gramas' as UnitType,
-    peso_por_unidade: ''
+    peso_por_unidade: '',
+    micronutrients: micronutrientFields()
   });
 
   // Debounce da busca para evitar queries excessivas
@@ -115,7 +121,11 @@ export function FoodLibraryManager() {
         proteina: formData.proteina || '0',
         carboidrato: formData.carboidrato || '0',
         fibra: formData.fibra || '0',
-        gordura: formData.gordura || '0'
+        gordura: formData.gordura || '0',
+        // Micronutrientes sao opcionais: vazio fica NULL (nao informado)
+        ...Object.fromEntries(
+          MICRONUTRIENT_KEYS.map((key) => [key, formData.micronutrients[key].trim() || null])
+        )
       };
 
       let foodId: number;
@@ -214,7 +224,8 @@ export function FoodLibraryManager() {
       // Metadata fields
       nome_simplificado: food.food_metadata?.nome_simplificado || '',
       unidade_tipo: food.food_metadata?.unidade_tipo || 'gramas',
-      peso_por_unidade: food.food_metadata?.peso_por_unidade?.toString() || ''
+      peso_por_unidade: food.food_metadata?.peso_por_unidade?.toString() || '',
+      micronutrients: micronutrientFields(food)
     });
     setShowModal(true);
   };
@@ -249,7 +260,8 @@ export function FoodLibraryManager() {
       gordura: '',
       nome_simplificado: '',
       unidade_tipo: 'gramas',
-      peso_por_unidade: ''
+      peso_por_unidade: '',
+      micronutrients: micronutrientFields()
     });
     setEditingFood(null);
     setShowModal(false);
@@ -497,6 +509,26 @@ export function FoodLibraryManager() {
                 </div>
               </div>
 
+              <div className={styles.metadataSection}>
+                <p className={styles.formNote}>Micronutrientes por 100g (opcional):</p>
+
+                <div className={styles.formGrid}>
+                  {MICRONUTRIENT_KEYS.map((key) => (
+                    <div key={key} className={styles.formGroup}>
+                      <label>{MICRONUTRIENTS[key].label} ({MICRONUTRIENTS[key].unit})</label>
+                      <input
+                        type="text"
+                        value={formData.micronutrients[key]}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          micronutrients: { ...formData.micronutrients, [key]: e.target.value }
+                        })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <div className={styles.formActions}>
                 <button type="button" onClick={resetForm} className={styles.cancelBtn}>
                   Cancelar
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { XCircle, Clock, RefreshCw, Play } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Card, Button } from '../ui';
+import type { InvoiceWithPayment } from '../../types/database';
+import styles from './InvoiceFailuresCard.module.css';
+
+interface InvoiceFailuresCardProps {
+  // Bumped by the page to reload after a manual refresh
+  refreshKey?: number;
+  // Called after a retry so the page can reload the payments list
+  onRetry?: () => void;
+}
+
+const formatCurrency = (cents: number) =>
+  (cents / 100).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatDateTime = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export function InvoiceFailuresCard({ refreshKey = 0, onRetry }: InvoiceFailuresCardProps) {
+  const { profile } = useAuth();
+  const [invoices, setInvoices] = useState<InvoiceWithPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (profile?.id) {
+      loadInvoices();
+    }
+  }, [profile?.id, refreshKey]);
+
+  // Failed invoices, and the ones waiting for another automatic attempt
+  const loadInvoices = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, payment:payments(customer_name, customer_email)')
+        .in('status', ['pending', 'failed'])
+        .not('last_error', 'is', null)
+        .order('updated_at', { ascending: false })
+        .limit(20);
+
+      if (error) {
+        console.error('Error loading invoice failures:', error);
+      } else {
+        setInvoices((data as InvoiceWithPayment[]) || []);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const invokeRetry = async (body: { invoice_id?: string }) => {
+    const { data, error } = await supabase.functions.invoke('invoice-retry', { body });
+
+    if (error || data?.error) {
+      console.error('Error retrying invoices:', error || data?.error);
+      alert(data?.error || 'Erro ao reenviar nota fiscal');
+    } else if (body.invoice_id && data?.status === 'failed') {
+      alert('A emissao falhou novamente. Confira o erro informado.');
+    }
+
+    await loadInvoices();
+    onRetry?.();
+  };
+
+  const handleProcessQueue = async () => {
+    setProcessing(true);
+    try {
+      await invokeRetry({});
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRetry = async (invoiceId: string) => {
+    setRetryingId(invoiceId);
+    try {
+      await invokeRetry({ invoice_id: invoiceId });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card className={styles.card}>
+      <div className={styles.header}>
+        <div>
+          <h3 className={styles.title}>Notas fiscais com falha</h3>
+          <p className={styles.subtitle}>Falhas temporarias sao tentadas novamente de forma automatica</p>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleProcessQueue} loading={processing}>
+          <Play size={14} />
+          Processar fila
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className={styles.emptyText}>Carregando...</p>
+      ) : invoices.length === 0 ? (
+        <p className={styles.emptyText}>Nenhuma falha de emissao.</p>
+      ) : (
+        <div className={styles.list}>
+          {invoices.map((invoice) => (
+            <div key={invoice.id} className={styles.item}>
+              {invoice.status === 'failed'
+                ? <XCircle size={16} className={styles.failed} />
+                : <Clock size={16} className={styles.waiting} />}
+              <div className={styles.info}>
+                <span className={styles.name}>
+                  {invoice.payment?.customer_name || invoice.payment?.customer_email || 'Cliente'}
+                  <span className={styles.amount}>{formatCurrency(invoice.amount_cents)}</span>
+                </span>
+                <span className={styles.meta}>
+                  {invoice.attempts} {invoice.attempts === 1 ? 'tentativa' : 'tentativas'}
+                  {invoice.status === 'pending' && invoice.next_attempt_at
+                    ? ` • proxima em ${formatDateTime(invoice.next_attempt_at)}`
+                    : ` • ${formatDateTime(invoice.updated_at)}`}
+                </span>
+                {invoice.last_error && <span className={styles.error}>{invoice.last_error}</span>}
+              </div>
+              {invoice.status === 'failed' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRetry(invoice.id)}
+                  loading={retryingId === invoice.id}
+                  disabled={retryingId !== null}
+                >
+                  <RefreshCw size={14} />
+                  Tentar novamente
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
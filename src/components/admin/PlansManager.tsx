@@ -1,8 +1,8 @@
 import { useState, useEffect } from 'react';
-import { Plus, X, Star, Edit2, Trash2, GripVertical } from 'lucide-react';
+import { Plus, X, Star, Edit2, Trash2, GripVertical, RefreshCw } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { Card, Button, Input } from '../ui';
-import type { SubscriptionPlan } from '../../types/database';
+import type { BillingMode, SubscriptionPlan } from '../../types/database';
 import styles from './PlansManager.module.css';
 
 interface PlansManagerProps {
@@ -14,6 +14,11 @@ interface PlanFormData {
   description: string;
   duration_days: number;
   price_cents: number;
+  billing_mode: BillingMode;
+  trial_days: number;
+  // null keeps the installment rules from the payment settings
+  max_installments: number | null;
+  interest_free_installments: number | null;
   features: string[];
   is_active: boolean;
   is_featured: boolean;
@@ -24,6 +29,10 @@ const defaultFormData: PlanFormData = {
   description: '',
   duration_days: 30,
   price_cents: 0,
+  billing_mode: 'one_time',
+  trial_days: 0,
+  max_installments: null,
+  interest_free_installments: null,
   features: [],
   is_active: true,
   is_featured: false,
@@ -85,6 +94,10 @@ export function PlansManager({ ownerId }: PlansManagerProps) {
         description: formData.description.trim() || null,
         duration_days: formData.duration_days,
         price_cents: formData.price_cents,
+        billing_mode: formData.billing_mode,
+        trial_days: formData.trial_days,
+        max_installments: formData.max_installments,
+        interest_free_installments: formData.interest_free_installments,
         features: formData.features,
         is_active: formData.is_active,
         is_featured: formData.is_featured,
@@ -123,6 +136,10 @@ export function PlansManager({ ownerId }: PlansManagerProps) {
       description: plan.description || '',
       duration_days: plan.duration_days,
       price_cents: plan.price_cents,
+      billing_mode: plan.billing_mode || 'one_time',
+      trial_days: plan.trial_days || 0,
+      max_installments: plan.max_installments ?? null,
+      interest_free_installments: plan.interest_free_installments ?? null,
       features: plan.features || [],
       is_active: plan.is_active,
       is_featured: plan.is_featured,
@@ -262,6 +279,12 @@ export function PlansManager({ ownerId }: PlansManagerProps) {
                         Destaque
                       </span>
                     )}
+                    {plan.billing_mode === 'recurring' && (
+                      <span className={styles.recurringBadge}>
+                        <RefreshCw size={12} />
+                        Recorrente
+                      </span>
+                    )}
                     {!plan.is_active && (
                       <span className={styles.inactiveBadge}>Inativo</span>
                     )}
@@ -271,6 +294,11 @@ export function PlansManager({ ownerId }: PlansManagerProps) {
                     <span className={styles.planDuration}>
                       {plan.duration_days} {plan.duration_days === 1 ? 'dia' : 'dias'}
                     </span>
+                    {plan.trial_days > 0 && (
+                      <span className={styles.planDuration}>
+                        • {plan.trial_days} {plan.trial_days === 1 ? 'dia' : 'dias'} gratis
+                      </span>
+                    )}
                   </div>
                   {plan.description && (
                     <p className={styles.planDescription}>{plan.description}</p>
@@ -366,6 +394,62 @@ export function PlansManager({ ownerId }: PlansManagerProps) {
                 </div>
               </div>
 
+              <div className={styles.formGroup}>
+                <label>Teste gratis (dias)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.trial_days}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, trial_days: Math.max(0, parseInt(e.target.value) || 0) }))}
+                />
+              </div>
+
+              {formData.trial_days > 0 && (
+                <p className={styles.formHint}>
+                  Novos clientes podem acessar por {formData.trial_days} dias sem pagar, uma unica vez por email e CPF.
+                </p>
+              )}
+
+              {formData.billing_mode === 'one_time' && (
+                <>
+                  <div className={styles.formRow}>
+                    <div className={styles.formGroup}>
+                      <label>Maximo de parcelas</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="12"
+                        value={formData.max_installments ?? ''}
+                        onChange={(e) => setFormData((prev) => ({
+                          ...prev,
+                          max_installments: e.target.value ? Math.min(Math.max(parseInt(e.target.value) || 1, 1), 12) : null,
+                        }))}
+                        placeholder="Padrao"
+                      />
+                    </div>
+
+                    <div className={styles.formGroup}>
+                      <label>Sem juros ate</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="12"
+                        value={formData.interest_free_installments ?? ''}
+                        onChange={(e) => setFormData((prev) => ({
+                          ...prev,
+                          interest_free_installments: e.target.value ? Math.max(parseInt(e.target.value) || 1, 1) : null,
+                        }))}
+                        placeholder="Padrao"
+                      />
+                    </div>
+                  </div>
+
+                  <p className={styles.formHint}>
+                    Deixe em branco para usar o parcelamento definido em Metodos de Pagamento.
+                  </p>
+                </>
+              )}
+
               <div className={styles.formGroup}>
                 <label>Beneficios do Plano</label>
                 <div className={styles.featureInput}>
@@ -412,8 +496,24 @@ export function PlansManager({ ownerId }: PlansManagerProps) {
                   />
                   <span>Destacar plano</span>
                 </label>
+
+                <label className={styles.toggle}>
+                  <input
+                    type="checkbox"
+                    checked={formData.billing_mode === 'recurring'}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, billing_mode: e.target.checked ? 'recurring' : 'one_time' }))}
+                  />
+                  <span>Cobranca recorrente</span>
+                </label>
               </div>
 
+              {formData.billing_mode === 'recurring' && (
+                <p className={styles.formHint}>
+                  O cliente e cobrado automaticamente a cada {formData.duration_days} dias pelo gateway
+                  (Mercado Pago, Asaas ou Pagar.me) ate cancelar a assinatura.
+                </p>
+              )}
+
               <div className={styles.formActions}>
                 <button type="button" className={styles.cancelBtn} onClick={resetForm}>
                   Cancelar
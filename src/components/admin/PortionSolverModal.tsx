@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { Modal, Button } from '../ui';
+import { getUnitLabel } from '../../utils/foodUnits';
+import { isMeasuredUnit, parseBrazilianNumber } from '../../utils/nutrition';
+import type { MacroTotals } from '../../utils/nutrition';
+import { getDefaultPortionBounds, getPortionTotals, solvePortions } from '../../utils/portionSolver';
+import type { MacroGoalTargets, PortionInput } from '../../utils/portionSolver';
+import type { UnitType } from '../../types/database';
+import styles from './PortionSolverModal.module.css';
+
+export interface PortionSolverFood {
+  key: string;
+  mealName: string;
+  foodName: string;
+  unit_type: UnitType;
+  peso_por_unidade: number | null;
+  // Quantidade atual na unidade do alimento (g, ml ou unidades)
+  amount: number;
+  per100g: MacroTotals;
+}
+
+interface PortionSolverModalProps {
+  foods: PortionSolverFood[];
+  goals: MacroGoalTargets;
+  onApply: (amounts: Record<string, number>) => void;
+  onClose: () => void;
+}
+
+const MACROS: { key: keyof MacroTotals; label: string; unit: string }[] = [
+  { key: 'protein', label: 'Proteínas', unit: 'g' },
+  { key: 'carbs', label: 'Carboidratos', unit: 'g' },
+  { key: 'fats', label: 'Gorduras', unit: 'g' },
+  { key: 'calories', label: 'Calorias', unit: 'kcal' },
+];
+
+const formatAmount = (amount: number, unitType: UnitType) => {
+  const value = amount.toLocaleString('pt-BR', { maximumFractionDigits: 1 });
+  if (isMeasuredUnit(unitType)) return `${value}${unitType === 'ml' ? 'ml' : 'g'}`;
+  return `${value} ${getUnitLabel(unitType, amount)}`;
+};
+
+// Montado apenas enquanto aberto, para recomecar com os limites padrao
+export function PortionSolverModal({ foods, goals, onApply, onClose }: PortionSolverModalProps) {
+  // Limites padrao: metade e o dobro da quantidade atual
+  const [bounds, setBounds] = useState<Record<string, { min: string; max: string }>>(() =>
+    Object.fromEntries(foods.map((food) => {
+      const { min, max } = getDefaultPortionBounds(food.unit_type, food.amount);
+      return [food.key, { min: String(min), max: String(max) }];
+    }))
+  );
+  const [result, setResult] = useState<number[] | null>(null);
+
+  function updateBound(key: string, field: 'min' | 'max', value: string) {
+    setBounds((prev) => ({ ...prev, [key]: { ...prev[key], [field]: value } }));
+    // Limites alterados invalidam o ajuste calculado
+    setResult(null);
+  }
+
+  function getInputs(): PortionInput[] {
+    return foods.map((food) => ({
+      per100g: food.per100g,
+      unit_type: food.unit_type,
+      peso_por_unidade: food.peso_por_unidade,
+      amount: food.amount,
+      min: parseBrazilianNumber(bounds[food.key]?.min),
+      max: parseBrazilianNumber(bounds[food.key]?.max),
+    }));
+  }
+
+  function handleSolve() {
+    const inputs = getInputs();
+    const invalid = foods.find((_, index) => inputs[index].min > inputs[index].max);
+    if (invalid) {
+      alert(`O mínimo de "${invalid.foodName}" é maior que o máximo.`);
+      return;
+    }
+    setResult(solvePortions(inputs, goals));
+  }
+
+  function handleApply() {
+    if (!result) return;
+    onApply(Object.fromEntries(foods.map((food, index) => [food.key, result[index]])));
+  }
+
+  const inputs = getInputs();
+  const totalsBefore = getPortionTotals(inputs, foods.map((food) => food.amount));
+  const totalsAfter = result ? getPortionTotals(inputs, result) : null;
+  const changedCount = result ? foods.filter((food, index) => result[index] !== food.amount).length : 0;
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title="Ajustar porções"
+      subtitle="Calcula as quantidades que mais aproximam a dieta das metas"
+    >
+      <div className={styles.container}>
+        {foods.length === 0 ? (
+          <p className={styles.hint}>Nenhum alimento com valores nutricionais para ajustar.</p>
+        ) : (
+          <>
+            <p className={styles.hint}>
+              Defina o mínimo e o máximo de cada alimento (igual para mantê-lo fixo).
+              As quantidades são arredondadas de 5 em 5g, por unidade inteira ou meia fatia/porção.
+            </p>
+
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Alimento</th>
+                  <th>Mín.</th>
+                  <th>Máx.</th>
+                  <th>Atual</th>
+                  {result && <th>Ajustado</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {foods.map((food, index) => {
+                  const changed = result !== null && result[index] !== food.amount;
+                  return (
+                    <tr key={food.key} className={changed ? styles.changedRow : ''}>
+                      <td>
+                        <span className={styles.foodName}>{food.foodName}</span>
+                        <span className={styles.mealName}>{food.mealName}</span>
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          className={styles.boundInput}
+                          value={bounds[food.key]?.min ?? ''}
+                          onChange={(e) => updateBound(food.key, 'min', e.target.value)}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          className={styles.boundInput}
+                          value={bounds[food.key]?.max ?? ''}
+                          onChange={(e) => updateBound(food.key, 'max', e.target.value)}
+                        />
+                      </td>
+                      <td className={styles.amount}>{formatAmount(food.amount, food.unit_type)}</td>
+                      {result && (
+                        <td className={`${styles.amount} ${changed ? styles.changedAmount : ''}`}>
+                          {formatAmount(result[index], food.unit_type)}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Nutriente</th>
+                  <th>Meta</th>
+                  <th>Atual</th>
+                  {totalsAfter && <th>Ajustado</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {MACROS.map((macro) => (
+                  <tr key={macro.key}>
+                    <td>{macro.label}</td>
+                    <td>{goals[macro.key] ? `${goals[macro.key]}${macro.unit}` : '-'}</td>
+                    <td className={styles.amount}>{Math.round(totalsBefore[macro.key])}{macro.unit}</td>
+                    {totalsAfter && (
+                      <td className={`${styles.amount} ${styles.changedAmount}`}>
+                        {Math.round(totalsAfter[macro.key])}{macro.unit}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {result && (
+              <p className={styles.hint}>
+                {changedCount === 0
+                  ? 'As quantidades atuais já são as mais próximas das metas.'
+                  : `${changedCount} alimento(s) alterado(s). Aplique para atualizar a dieta e depois salve.`}
+              </p>
+            )}
+          </>
+        )}
+
+        <div className={styles.actions}>
+          <Button type="button" variant="outline" onClick={onClose}>
+            {result ? 'Descartar' : 'Cancelar'}
+          </Button>
+          {result ? (
+            <Button type="button" onClick={handleApply} disabled={changedCount === 0}>
+              Aplicar
+            </Button>
+          ) : (
+            <Button type="button" onClick={handleSolve} disabled={foods.length === 0}>
+              Calcular
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Card } from '../ui';
+import type { ReferralReportRow } from '../../types/database';
+import styles from './ReferralReport.module.css';
+
+interface ReferralReportProps {
+  // Bumped by the page to reload after a manual refresh
+  refreshKey?: number;
+}
+
+// YYYY-MM-DD in local time, as <input type="date"> and the RPC expect
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Last 30 days, today included
+const getDefaultRange = () => {
+  const today = new Date();
+  return {
+    start: toDateInput(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29)),
+    end: toDateInput(today),
+  };
+};
+
+const formatCurrency = (cents: number) =>
+  (cents / 100).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function ReferralReport({ refreshKey = 0 }: ReferralReportProps) {
+  const { profile } = useAuth();
+  const [range, setRange] = useState(getDefaultRange);
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<ReferralReportRow[]>([]);
+
+  useEffect(() => {
+    if (profile?.id && range.start && range.end && range.start <= range.end) {
+      loadReport();
+    }
+  }, [profile?.id, range.start, range.end, refreshKey]);
+
+  const loadReport = async () => {
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.rpc('referral_report', { p_start: range.start, p_end: range.end });
+
+      if (error) {
+        console.error('Error loading referral report:', error);
+        return;
+      }
+
+      setRows((data as ReferralReportRow[]) ?? []);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      conversions: acc.conversions + Number(row.conversions),
+      revenue: acc.revenue + Number(row.revenue_cents),
+      days: acc.days + Number(row.reward_days),
+      coupons: acc.coupons + Number(row.coupons_granted),
+    }),
+    { conversions: 0, revenue: 0, days: 0, coupons: 0 }
+  );
+
+  return (
+    <Card className={styles.card}>
+      <div className={styles.header}>
+        <h3 className={styles.title}>Indicacoes</h3>
+        <p className={styles.subtitle}>Compras feitas pelo link de indicacao de clientes, por data do pagamento</p>
+      </div>
+
+      <div className={styles.filters}>
+        <div className={styles.filterGroup}>
+          <label>De</label>
+          <input
+            type="date"
+            value={range.start}
+            max={range.end}
+            onChange={(e) => setRange((prev) => ({ ...prev, start: e.target.value }))}
+          />
+        </div>
+        <div className={styles.filterGroup}>
+          <label>Ate</label>
+          <input
+            type="date"
+            value={range.end}
+            min={range.start}
+            onChange={(e) => setRange((prev) => ({ ...prev, end: e.target.value }))}
+          />
+        </div>
+      </div>
+
+      {loading && rows.length === 0 ? (
+        <p className={styles.emptyText}>Carregando indicacoes...</p>
+      ) : rows.length === 0 ? (
+        <p className={styles.emptyText}>Nenhuma indicacao no periodo.</p>
+      ) : (
+        <div className={loading ? styles.reloading : undefined}>
+          <div className={styles.summaryGrid}>
+            <div className={styles.summaryItem}>
+              <span className={styles.summaryLabel}>Conversoes</span>
+              <span className={styles.summaryValue}>{totals.conversions}</span>
+            </div>
+            <div className={styles.summaryItem}>
+              <span className={styles.summaryLabel}>Receita indicada</span>
+              <span className={styles.summaryValue}>{formatCurrency(totals.revenue)}</span>
+            </div>
+            <div className={styles.summaryItem}>
+              <span className={styles.summaryLabel}>Dias concedidos</span>
+              <span className={styles.summaryValue}>{totals.days}</span>
+            </div>
+            <div className={styles.summaryItem}>
+              <span className={styles.summaryLabel}>Cupons concedidos</span>
+              <span className={styles.summaryValue}>{totals.coupons}</span>
+            </div>
+          </div>
+
+          <div className={styles.rows}>
+            {rows.map((row) => (
+              <div key={row.referrer_id} className={styles.row}>
+                <div className={styles.rowHeader}>
+                  <span className={styles.rowName}>
+                    {row.referrer_name}
+                    {row.referral_code && <span className={styles.rowCode}> • {row.referral_code}</span>}
+                  </span>
+                  <span className={styles.rowValue}>{formatCurrency(Number(row.revenue_cents))}</span>
+                </div>
+                <span className={styles.rowMeta}>
+                  {row.conversions} {Number(row.conversions) === 1 ? 'conversao' : 'conversoes'}
+                  {Number(row.reward_days) > 0 && ` • ${row.reward_days} dias ganhos`}
+                  {Number(row.coupons_granted) > 0 && ` • ${row.coupons_granted} ${Number(row.coupons_granted) === 1 ? 'cupom' : 'cupons'}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { Modal, Button } from '../ui';
+import { supabase } from '../../lib/supabase';
+import type { PaymentWithPlan, RefundPlanAction } from '../../types/database';
+import styles from './RefundPaymentModal.module.css';
+
+interface RefundPaymentModalProps {
+  payment: PaymentWithPlan | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const PLAN_ACTION_OPTIONS: { value: RefundPlanAction; label: string }[] = [
+  { value: 'keep', label: 'Manter acesso do aluno' },
+  { value: 'shorten', label: 'Reduzir dias do plano' },
+  { value: 'end', label: 'Encerrar plano agora' },
+];
+
+const formatCurrency = (cents: number) => {
+  return (cents / 100).toLocaleString('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  });
+};
+
+export function RefundPaymentModal({ payment, onClose, onSuccess }: RefundPaymentModalProps) {
+  const [isPartial, setIsPartial] = useState(false);
+  const [amountCents, setAmountCents] = useState(0);
+  const [reason, setReason] = useState('');
+  const [planAction, setPlanAction] = useState<RefundPlanAction>('keep');
+  const [removeDays, setRemoveDays] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refundableCents = payment ? payment.amount_cents - (payment.refunded_amount_cents || 0) : 0;
+
+  useEffect(() => {
+    if (payment) {
+      setIsPartial(false);
+      setAmountCents(refundableCents);
+      setReason('');
+      setPlanAction('keep');
+      setRemoveDays(payment.plan?.duration_days ? String(payment.plan.duration_days) : '');
+      setError(null);
+    }
+  }, [payment?.id]);
+
+  function handleAmountChange(value: string) {
+    // Remove non-numeric characters
+    const numericValue = value.replace(/\D/g, '');
+    setAmountCents(parseInt(numericValue) || 0);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!payment) return;
+    setError(null);
+
+    const refundAmount = isPartial ? amountCents : refundableCents;
+
+    if (refundAmount <= 0 || refundAmount > refundableCents) {
+      setError(`Informe um valor entre R$ 0,01 e ${formatCurrency(refundableCents)}`);
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Informe o motivo do reembolso');
+      return;
+    }
+    if (planAction === 'shorten' && !(parseInt(removeDays) > 0)) {
+      setError('Informe quantos dias remover do plano');
+      return;
+    }
+
+    if (!confirm(`Confirmar reembolso de ${formatCurrency(refundAmount)} para ${payment.customer_name}? Esta acao nao pode ser desfeita.`)) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('payment-refund', {
+        body: {
+          payment_id: payment.id,
+          amount_cents: refundAmount,
+          reason: reason.trim(),
+          plan_action: planAction,
+          remove_days: planAction === 'shorten' ? parseInt(removeDays) : undefined,
+        },
+      });
+
+      if (fnError || data?.error) {
+        console.error('Refund error:', fnError || data?.error);
+        setError(data?.error || 'Erro ao processar reembolso');
+        return;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Error refunding payment:', err);
+      setError('Erro ao processar reembolso');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleClose() {
+    if (!loading) {
+      onClose();
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={!!payment}
+      onClose={handleClose}
+      title="Reembolsar Pagamento"
+      subtitle={payment ? `${payment.customer_name} - ${formatCurrency(payment.amount_cents)}` : undefined}
+    >
+      {payment && (
+        <form onSubmit={handleSubmit} className={styles.form}>
+          {error && <div className={styles.error}>{error}</div>}
+
+          {(payment.refunded_amount_cents || 0) > 0 && (
+            <p className={styles.hint}>
+              Ja reembolsado: {formatCurrency(payment.refunded_amount_cents)}. Disponivel: {formatCurrency(refundableCents)}.
+            </p>
+          )}
+
+          <div className={styles.section}>
+            <span className={styles.label}>Valor</span>
+            <label className={styles.option}>
+              <input type="radio" checked={!isPartial} onChange={() => setIsPartial(false)} disabled={loading} />
+              <span>Reembolso total ({formatCurrency(refundableCents)})</span>
+            </label>
+            <label className={styles.option}>
+              <input type="radio" checked={isPartial} onChange={() => setIsPartial(true)} disabled={loading} />
+              <span>Reembolso parcial</span>
+            </label>
+            {isPartial && (
+              <input
+                type="text"
+                className={styles.input}
+                value={amountCents ? formatCurrency(amountCents).replace('R$', '').trim() : ''}
+                onChange={(e) => handleAmountChange(e.target.value)}
+                placeholder="0,00"
+                disabled={loading}
+              />
+            )}
+          </div>
+
+          <div className={styles.section}>
+            <label className={styles.label}>Motivo *</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex: Cliente desistiu dentro do prazo de 7 dias"
+              className={styles.textarea}
+              rows={2}
+              disabled={loading}
+            />
+          </div>
+
+          {payment.client_id && (
+            <div className={styles.section}>
+              <span className={styles.label}>Acesso do aluno</span>
+              {PLAN_ACTION_OPTIONS.map((option) => (
+                <label key={option.value} className={styles.option}>
+                  <input
+                    type="radio"
+                    checked={planAction === option.value}
+                    onChange={() => setPlanAction(option.value)}
+                    disabled={loading}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+              {planAction === 'shorten' && (
+                <input
+                  type="number"
+                  min="1"
+                  className={styles.input}
+                  value={removeDays}
+                  onChange={(e) => setRemoveDays(e.target.value)}
+                  placeholder="Dias a remover"
+                  disabled={loading}
+                />
+              )}
+            </div>
+          )}
+
+          <div className={styles.actions}>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={loading}>
+              Cancelar
+            </Button>
+            <Button type="submit" variant="danger" loading={loading}>
+              Reembolsar
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState, useEffect } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Card } from '../ui';
+import type {
+  RevenueSummary,
+  RevenueMonth,
+  RevenueByPlan,
+  RevenueByMethod,
+  AccessGrantsSummary,
+  SubscriptionPlan,
+} from '../../types/database';
+import { getDefaultRevenueRange, getRenewalRate, getRevenueShares } from '../../utils/revenueAnalytics';
+import styles from './RevenueAnalytics.module.css';
+
+interface RevenueAnalyticsProps {
+  // Bumped by the page to reload after a refund or manual refresh
+  refreshKey?: number;
+}
+
+const GATEWAY_LABELS: Record<string, string> = {
+  mercado_pago: 'Mercado Pago',
+  asaas: 'Asaas',
+  pagseguro: 'PagSeguro',
+  pagarme: 'Pagar.me',
+  fake: 'Simulador',
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  pix: 'PIX',
+  boleto: 'Boleto',
+  credit_card: 'Cartao',
+};
+
+export function RevenueAnalytics({ refreshKey = 0 }: RevenueAnalyticsProps) {
+  const { profile } = useAuth();
+  const [range, setRange] = useState(() => getDefaultRevenueRange());
+  const [planId, setPlanId] = useState('');
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [summary, setSummary] = useState<RevenueSummary | null>(null);
+  const [months, setMonths] = useState<RevenueMonth[]>([]);
+  const [byPlan, setByPlan] = useState<RevenueByPlan[]>([]);
+  const [byMethod, setByMethod] = useState<RevenueByMethod[]>([]);
+  const [grants, setGrants] = useState<AccessGrantsSummary | null>(null);
+
+  useEffect(() => {
+    if (profile?.id) {
+      loadPlans();
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    if (profile?.id && range.start && range.end && range.start <= range.end) {
+      loadAnalytics();
+    }
+  }, [profile?.id, range.start, range.end, planId, refreshKey]);
+
+  const loadPlans = async () => {
+    const { data, error } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .eq('owner_id', profile!.id)
+      .order('display_order', { ascending: true });
+
+    if (error) {
+      console.error('Error loading plans:', error);
+    } else {
+      setPlans(data || []);
+    }
+  };
+
+  const loadAnalytics = async () => {
+    setLoading(true);
+    const params = { p_start: range.start, p_end: range.end, p_plan_id: planId || null };
+
+    try {
+      const [summaryResult, monthsResult, planResult, methodResult, grantsResult] = await Promise.all([
+        supabase.rpc('revenue_summary', params),
+        supabase.rpc('revenue_monthly', params),
+        supabase.rpc('revenue_by_plan', params),
+        supabase.rpc('revenue_by_method', params),
+        supabase.rpc('access_grants_summary', params),
+      ]);
+
+      const error = summaryResult.error || monthsResult.error || planResult.error || methodResult.error || grantsResult.error;
+      if (error) {
+        console.error('Error loading revenue analytics:', error);
+        return;
+      }
+
+      setSummary((summaryResult.data as RevenueSummary[])[0] ?? null);
+      setMonths(monthsResult.data as RevenueMonth[]);
+      setByPlan(planResult.data as RevenueByPlan[]);
+      setByMethod(methodResult.data as RevenueByMethod[]);
+      setGrants((grantsResult.data as AccessGrantsSummary[])[0] ?? null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (cents: number) => {
+    return (cents / 100).toLocaleString('pt-BR', {
+      style: 'currency',
+      currency: 'BRL',
+    });
+  };
+
+  const formatMonth = (month: string) => {
+    // Parsed as local midnight so the month does not shift back a day
+    return new Date(`${month}T00:00:00`).toLocaleDateString('pt-BR', {
+      month: 'short',
+      year: '2-digit',
+    });
+  };
+
+  const chartData = months.map((month) => ({
+    label: formatMonth(month.month),
+    revenue: month.revenue_cents / 100,
+    clients: month.active_clients,
+  }));
+
+  const methodShares = getRevenueShares(byMethod);
+
+  return (
+    <Card className={styles.card}>
+      <div className={styles.header}>
+        <h3 className={styles.title}>Analise de receita</h3>
+        <p className={styles.subtitle}>Receita liquida de reembolsos, por data do pagamento. Testes gratis e cortesias ficam fora da receita.</p>
+      </div>
+
+      <div className={styles.filters}>
+        <div className={styles.filterGroup}>
+          <label>De</label>
+          <input
+            type="date"
+            value={range.start}
+            max={range.end}
+            onChange={(e) => setRange((prev) => ({ ...prev, start: e.target.value }))}
+          />
+        </div>
+        <div className={styles.filterGroup}>
+          <label>Ate</label>
+          <input
+            type="date"
+            value={range.end}
+            min={range.start}
+            onChange={(e) => setRange((prev) => ({ ...prev, end: e.target.value }))}
+          />
+        </div>
+        <div className={`${styles.filterGroup} ${styles.filterWide}`}>
+          <label>Plano</label>
+          <select value={planId} onChange={(e) => setPlanId(e.target.value)}>
+            <option value="">Todos os planos</option>
+            {plans.map((plan) => (
+              <option key={plan.id} value={plan.id}>{plan.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !summary ? (
+        <p className={styles.emptyText}>Carregando analise...</p>
+      ) : (
+        <div className={loading ? styles.reloading : undefined}>
+          {summary && (
+            <div className={styles.summaryGrid}>
+              <div className={styles.summaryItem}>
+                <span className={styles.summaryLabel}>Receita</span>
+                <span className={styles.summaryValue}>{formatCurrency(summary.revenue_cents)}</span>
+              </div>
+              <div className={styles.summaryItem}>
+                <span className={styles.summaryLabel}>Clientes pagantes</span>
+                <span className={styles.summaryValue}>{summary.paying_clients}</span>
+              </div>
+              <div className={styles.summaryItem}>
+                <span className={styles.summaryLabel}>Receita media por cliente</span>
+                <span className={styles.summaryValue}>{formatCurrency(summary.arpu_cents)}</span>
+              </div>
+              <div className={styles.summaryItem}>
+                <span className={styles.summaryLabel}>Reembolsado</span>
+                <span className={styles.summaryValue}>{formatCurrency(summary.refunded_cents)}</span>
+              </div>
+              {grants && (
+                <>
+                  <div className={styles.summaryItem}>
+                    <span className={styles.summaryLabel}>Testes gratis</span>
+                    <span className={styles.summaryValue}>
+                      {grants.trial_count}
+                      {grants.trial_count > 0 && (
+                        <span className={styles.summaryDetail}> • {grants.trial_converted_count} pagaram</span>
+                      )}
+                    </span>
+                  </div>
+                  <div className={styles.summaryItem}>
+                    <span className={styles.summaryLabel}>Cortesias</span>
+                    <span className={styles.summaryValue}>{grants.complimentary_count}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <h4 className={styles.chartTitle}>Receita mensal</h4>
+          <div className={styles.chart}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} tickLine={false} />
+                <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={48} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value) * 100)} />
+                <Bar dataKey="revenue" name="Receita" fill="#1c4c9b" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <h4 className={styles.chartTitle}>Clientes ativos pagantes</h4>
+          <div className={styles.chart}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} tickLine={false} />
+                <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <Tooltip />
+                <Line type="monotone" dataKey="clients" name="Clientes" stroke="#f3985b" strokeWidth={2} dot={{ r: 3 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <h4 className={styles.chartTitle}>Renovacao por plano</h4>
+          {byPlan.length === 0 ? (
+            <p className={styles.emptyText}>Nenhum plano cadastrado.</p>
+          ) : (
+            <div className={styles.rows}>
+              {byPlan.map((plan) => {
+                const rate = getRenewalRate(plan);
+                return (
+                  <div key={plan.plan_id} className={styles.row}>
+                    <div className={styles.rowHeader}>
+                      <span className={styles.rowName}>{plan.plan_name}</span>
+                      <span className={styles.rowValue}>{formatCurrency(plan.revenue_cents)}</span>
+                    </div>
+                    <div className={styles.rateBar}>
+                      <div className={styles.rateRenewed} style={{ width: `${rate ?? 0}%` }} />
+                    </div>
+                    <span className={styles.rowMeta}>
+                      {rate === null
+                        ? 'Nenhum periodo encerrado no intervalo'
+                        : `${rate}% renovaram (${plan.renewed_count}) • ${100 - rate}% cancelaram (${plan.churned_count})`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <h4 className={styles.chartTitle}>Receita por forma de pagamento</h4>
+          {byMethod.length === 0 ? (
+            <p className={styles.emptyText}>Nenhum pagamento no periodo.</p>
+          ) : (
+            <div className={styles.rows}>
+              {byMethod.map((row, index) => (
+                <div key={`${row.gateway}-${row.payment_method}`} className={styles.row}>
+                  <div className={styles.rowHeader}>
+                    <span className={styles.rowName}>
+                      {METHOD_LABELS[row.payment_method ?? ''] || row.payment_method || '-'}
+                      <span className={styles.rowGateway}> • {GATEWAY_LABELS[row.gateway] || row.gateway}</span>
+                    </span>
+                    <span className={styles.rowValue}>{formatCurrency(row.revenue_cents)}</span>
+                  </div>
+                  <div className={styles.rateBar}>
+                    <div
+                      className={styles.share}
+                      style={{ width: `${methodShares[index]}%` }}
+                    />
+                  </div>
+                  <span className={styles.rowMeta}>
+                    {row.payments_count} {row.payments_count === 1 ? 'pagamento' : 'pagamentos'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
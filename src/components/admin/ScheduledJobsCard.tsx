@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle, XCircle, Loader2, Play } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { Card, Button } from '../ui';
+import type { ScheduledJobRun } from '../../types/database';
+import styles from './ScheduledJobsCard.module.css';
+
+interface ScheduledJobsCardProps {
+  // Called after a manual run so the page can reload payments and clients
+  onRun?: () => void;
+}
+
+export function ScheduledJobsCard({ onRun }: ScheduledJobsCardProps) {
+  const [runs, setRuns] = useState<ScheduledJobRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const loadRuns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_job_runs')
+        .select('*')
+        .eq('job_name', 'plan-expiry')
+        .order('started_at', { ascending: false })
+        .limit(5);
+
+      if (error) {
+        console.error('Error loading job runs:', error);
+      } else {
+        setRuns(data || []);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('plan-expiry-job', { body: {} });
+
+      if (error || data?.error) {
+        console.error('Error running job:', error || data?.error);
+        alert('Erro ao executar rotina');
+      }
+
+      await loadRuns();
+      onRun?.();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const formatDateTime = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('pt-BR', {
+      day: '2-digit',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getStatusIcon = (run: ScheduledJobRun) => {
+    switch (run.status) {
+      case 'succeeded':
+        return <CheckCircle size={16} className={styles.succeeded} />;
+      case 'failed':
+        return <XCircle size={16} className={styles.failed} />;
+      default:
+        return <Loader2 size={16} className={styles.running} />;
+    }
+  };
+
+  return (
+    <Card className={styles.card}>
+      <div className={styles.header}>
+        <div>
+          <h3 className={styles.title}>Rotina diaria</h3>
+          <p className={styles.subtitle}>Avisos de vencimento, pagamentos expirados e desativacao de alunos</p>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleRunNow} loading={running}>
+          <Play size={14} />
+          Executar
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className={styles.emptyText}>Carregando...</p>
+      ) : runs.length === 0 ? (
+        <p className={styles.emptyText}>A rotina ainda nao foi executada.</p>
+      ) : (
+        <div className={styles.runsList}>
+          {runs.map((run) => (
+            <div key={run.id} className={styles.runItem}>
+              {getStatusIcon(run)}
+              <div className={styles.runInfo}>
+                <span className={styles.runDate}>
+                  {formatDateTime(run.started_at)}
+                  {run.trigger === 'manual' && <span className={styles.manualTag}>manual</span>}
+                </span>
+                <span className={styles.runStats}>
+                  {run.reminders_sent} avisos • {run.payments_expired} pagamentos expirados • {run.plan_changes_applied} trocas de plano • {run.clients_deactivated} alunos desativados
+                </span>
+                {run.error_message && <span className={styles.runError}>{run.error_message}</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,8 +1,8 @@
 import { useState } from 'react';
 import { Plus, X, Search, Trash2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
-import { parseBrazilianNumber } from './FoodSelect';
 import { formatFoodName } from '../../utils/formatters';
+import { getMacrosPer100g, isMeasuredUnit, parseBrazilianNumber, scaleMacros, sumMacros, toGrams } from '../../utils/nutrition';
 import { Modal } from './Modal';
 import { Button } from './Button';
 import { Input } from './Input';
@@ -17,6 +17,7 @@ const UNIT_OPTIONS: { value: UnitType; label: string }[] = [
 
 interface ExtraFood {
   id: string;
+  food_id: number | null; // tabela_taco id
   name: string;
   quantity: number; // Always in grams for calculations
   quantity_units: number | null; // Unit quantity if using units
@@ -145,16 +146,15 @@ export function AddExtraMealModal({ isOpen, onClose, onAdd }: AddExtraMealModalP
   };
 
   const handleUnitTypeChange = (newUnitType: UnitType) => {
-    if (newUnitType === 'gramas') {
+    if (isMeasuredUnit(newUnitType)) {
       // Switching to grams - if we had units, convert
-      if (unitType !== 'gramas' && pesoPorUnidade) {
-        const unitQty = parseFloat(quantity) || 1;
-        const grams = unitQty * pesoPorUnidade;
+      if (!isMeasuredUnit(unitType)) {
+        const grams = toGrams(parseBrazilianNumber(quantity) || 1, unitType, pesoPorUnidade);
         setQuantity(String(Math.round(grams)));
       }
     } else {
       // Switching to units - start with 1
-      if (unitType === 'gramas') {
+      if (isMeasuredUnit(unitType)) {
         setQuantity('1');
       }
     }
@@ -162,10 +162,8 @@ export function AddExtraMealModal({ isOpen, onClose, onAdd }: AddExtraMealModalP
   };
 
   const getGramEquivalent = (): number | null => {
-    if (unitType === 'gramas') return null;
-    if (!pesoPorUnidade) return null;
-    const unitQty = parseFloat(quantity) || 0;
-    return Math.round(unitQty * pesoPorUnidade);
+    if (isMeasuredUnit(unitType)) return null;
+    return Math.round(toGrams(parseBrazilianNumber(quantity), unitType, pesoPorUnidade));
   };
 
   const getUnitLabel = (type: UnitType): string => {
@@ -179,49 +177,34 @@ export function AddExtraMealModal({ isOpen, onClose, onAdd }: AddExtraMealModalP
   const addFoodToMeal = () => {
     if (!selectedFood) return;
 
-    const inputQty = parseFloat(quantity) || (unitType === 'gramas' ? 100 : 1);
+    const measured = isMeasuredUnit(unitType);
+    const inputQty = parseBrazilianNumber(quantity) || (measured ? 100 : 1);
 
     // Calculate grams for macro calculation
-    let gramsForCalc: number;
-    let quantityUnits: number | null = null;
-
-    if (unitType === 'gramas') {
-      gramsForCalc = inputQty;
-    } else if (pesoPorUnidade) {
-      // Using units with known peso_por_unidade
-      quantityUnits = inputQty;
-      gramsForCalc = inputQty * pesoPorUnidade;
-    } else {
-      // No peso_por_unidade - treat as 100g per unit
-      quantityUnits = inputQty;
-      gramsForCalc = inputQty * 100;
-    }
+    const gramsForCalc = toGrams(inputQty, unitType, pesoPorUnidade);
+    const quantityUnits = measured ? null : inputQty;
 
-    const multiplier = gramsForCalc / 100;
-
-    // Store per 100g values
-    const calories100g = Math.round(parseBrazilianNumber(selectedFood.caloria));
-    const protein100g = Math.round(parseBrazilianNumber(selectedFood.proteina) * 10) / 10;
-    const carbs100g = Math.round(parseBrazilianNumber(selectedFood.carboidrato) * 10) / 10;
-    const fats100g = Math.round(parseBrazilianNumber(selectedFood.gordura) * 10) / 10;
+    const per100g = getMacrosPer100g(selectedFood);
+    const macros = scaleMacros(per100g, gramsForCalc);
 
     const newFood: ExtraFood = {
       id: crypto.randomUUID(),
+      food_id: selectedFood.id,
       name: formatFoodName(selectedFood.alimento),
       quantity: gramsForCalc, // Always store grams for totals
       quantity_units: quantityUnits,
       unit_type: unitType,
       peso_por_unidade: pesoPorUnidade,
       // Calculated values for this quantity
-      calories: Math.round(calories100g * multiplier),
-      protein: Math.round(protein100g * multiplier * 10) / 10,
-      carbs: Math.round(carbs100g * multiplier * 10) / 10,
-      fats: Math.round(fats100g * multiplier * 10) / 10,
+      calories: Math.round(macros.calories),
+      protein: Math.round(macros.protein * 10) / 10,
+      carbs: Math.round(macros.carbs * 10) / 10,
+      fats: Math.round(macros.fats * 10) / 10,
       // Per 100g values for display when using units
-      calories_100g: calories100g,
-      protein_100g: protein100g,
-      carbs_100g: carbs100g,
-      fats_100g: fats100g,
+      calories_100g: Math.round(per100g.calories),
+      protein_100g: Math.round(per100g.protein * 10) / 10,
+      carbs_100g: Math.round(per100g.carbs * 10) / 10,
+      fats_100g: Math.round(per100g.fats * 10) / 10,
     };
 
     setFoods([...foods, newFood]);
@@ -236,15 +219,7 @@ export function AddExtraMealModal({ isOpen, onClose, onAdd }: AddExtraMealModalP
     setFoods(foods.filter(f => f.id !== id));
   };
 
-  const mealTotals = foods.reduce(
-    (acc, food) => ({
-      calories: acc.calories + food.calories,
-      protein: acc.protein + food.protein,
-      carbs: acc.carbs + food.carbs,
-      fats: acc.fats + food.fats,
-    }),
-    { calories: 0, protein: 0, carbs: 0, fats: 0 }
-  );
+  const mealTotals = sumMacros(foods);
 
   const handleSave = () => {
     const extraMeal: ExtraMeal = {
@@ -3,21 +3,10 @@ import { Search, X, Check } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import type { TabelaTacoWithMetadata } from '../../types/database';
 import { getDisplayName, hasUnitSupport } from '../../utils/foodUnits';
+import { parseBrazilianNumber } from '../../utils/nutrition';
 import { UNIT_TYPES } from '../../constants/foodUnits';
 import styles from './FoodSelect.module.css';
 
-// Helper para converter números no formato brasileiro (vírgula como decimal)
-export function parseBrazilianNumber(value: string | number | null | undefined): number {
-  if (typeof value === 'number') return value;
-  if (!value) return 0;
-
-  // Substitui vírgula por ponto e faz o parse
-  const normalized = value.toString().replace(',', '.');
-  const parsed = parseFloat(normalized);
-
-  return isNaN(parsed) ? 0 : parsed;
-}
-
 // Normaliza texto removendo acentos e convertendo para minúsculas
 function normalizeText(text: string): string {
   return text
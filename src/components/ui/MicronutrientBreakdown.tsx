@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, FlaskConical } from 'lucide-react';
+import { ProgressBar } from './ProgressBar';
+import { compareMicronutrients, getReferenceIntakes } from '../../utils/nutrition';
+import type { MicronutrientTotals } from '../../utils/nutrition';
+import type { BiologicalSex } from '../../types/database';
+import styles from './MicronutrientBreakdown.module.css';
+
+interface MicronutrientBreakdownProps {
+  totals: MicronutrientTotals;
+  // Idade e sexo do paciente, para escolher as referencias (DRI)
+  age: number | null | undefined;
+  sex: BiologicalSex | null | undefined;
+  defaultOpen?: boolean;
+}
+
+const formatAmount = (value: number) =>
+  value >= 10 ? Math.round(value).toLocaleString('pt-BR') : value.toLocaleString('pt-BR', { maximumFractionDigits: 1 });
+
+export function MicronutrientBreakdown({ totals, age, sex, defaultOpen = false }: MicronutrientBreakdownProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const references = getReferenceIntakes(age, sex);
+  const rows = compareMicronutrients(totals, references);
+
+  return (
+    <div className={styles.container}>
+      <button type="button" className={styles.header} onClick={() => setOpen(!open)}>
+        <FlaskConical size={18} />
+        <span>Micronutrientes</span>
+        {open ? <ChevronUp size={18} className={styles.chevron} /> : <ChevronDown size={18} className={styles.chevron} />}
+      </button>
+
+      {open && (
+        <>
+          {!references && (
+            <p className={styles.hint}>
+              Informe idade e sexo do paciente para comparar com as referencias diarias (DRI).
+            </p>
+          )}
+
+          <div className={styles.list}>
+            {rows.map((row) => {
+              const over = row.percentage !== null && row.percentage > 100;
+              const status = row.percentage === null
+                ? ''
+                : row.isLimit
+                  ? (over ? styles.bad : styles.good)
+                  : (row.percentage >= 100 ? styles.good : row.percentage >= 70 ? styles.close : styles.bad);
+
+              return (
+                <div key={row.key} className={styles.row}>
+                  <div className={styles.rowHeader}>
+                    <span className={styles.label}>
+                      {row.label}
+                      {row.isLimit && <span className={styles.limitTag}>limite</span>}
+                    </span>
+                    <span className={styles.amount}>
+                      {formatAmount(row.amount)}{row.unit}
+                      {row.reference !== null && (
+                        <span className={styles.reference}> / {formatAmount(row.reference)}{row.unit}</span>
+                      )}
+                      {row.percentage !== null && (
+                        <span className={`${styles.percentage} ${status}`}>{row.percentage}%</span>
+                      )}
+                    </span>
+                  </div>
+                  {row.percentage !== null && (
+                    <ProgressBar
+                      value={row.percentage}
+                      size="sm"
+                      variant={row.isLimit ? (over ? 'accent' : 'success') : (row.percentage >= 100 ? 'success' : 'default')}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <p className={styles.footnote}>
+            Valores da TACO; nutrientes nao informados para um alimento contam como zero.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
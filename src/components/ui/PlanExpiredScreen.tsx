@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Utensils, Dumbbell, TrendingUp, CreditCard } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
@@ -78,10 +78,8 @@ export function PlanExpiredScreen({ planEndDate, nutritionistWhatsapp, startingW
     async function findCheckoutLink() {
       try {
         const { data } = await supabase
-          .from('payment_settings')
+          .from('public_checkout_settings')
           .select('checkout_slug')
-          .neq('active_gateway', 'none')
-          .not('checkout_slug', 'is', null)
           .limit(1)
           .maybeSingle();
 
@@ -177,13 +175,10 @@ export function PlanExpiredScreen({ planEndDate, nutritionistWhatsapp, startingW
 
         {/* CTA Buttons */}
         {checkoutSlug && (
-          <a
-            href={`/checkout/${checkoutSlug}`}
-            className={styles.renewOnlineButton}
-          >
+          <Link to="/app/renovar" className={styles.renewOnlineButton}>
             <CreditCard size={18} />
             Renovar Online
-          </a>
+          </Link>
         )}
 
         <a
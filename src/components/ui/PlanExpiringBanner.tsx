@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { X } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import styles from './PlanExpiringBanner.module.css';
@@ -16,10 +17,8 @@ export function PlanExpiringBanner({ daysRemaining }: PlanExpiringBannerProps) {
     async function findCheckoutLink() {
       try {
         const { data } = await supabase
-          .from('payment_settings')
+          .from('public_checkout_settings')
           .select('checkout_slug')
-          .neq('active_gateway', 'none')
-          .not('checkout_slug', 'is', null)
           .limit(1)
           .maybeSingle();
 
@@ -40,9 +39,9 @@ export function PlanExpiringBanner({ daysRemaining }: PlanExpiringBannerProps) {
       <span className={styles.message}>
         Seu plano expira em {daysRemaining} {daysRemaining === 1 ? 'dia' : 'dias'}!
         {checkoutSlug ? (
-          <a href={`/checkout/${checkoutSlug}`} className={styles.renewLink}>
+          <Link to="/app/renovar" className={styles.renewLink}>
             Renovar agora
-          </a>
+          </Link>
         ) : (
           ' Entre em contato para renovar.'
         )}
@@ -9,6 +9,7 @@ export { FoodSelect } from './FoodSelect';
 export { ExerciseSelect } from './ExerciseSelect';
 export { MacroPieChart } from './MacroPieChart';
 export { DailyMacrosSummary } from './DailyMacrosSummary';
+export { MicronutrientBreakdown } from './MicronutrientBreakdown';
 export { AddExtraMealModal } from './AddExtraMealModal';
 export type { ExtraMeal } from './AddExtraMealModal';
 export { PlanExpiredScreen } from './PlanExpiredScreen';
@@ -0,0 +1,193 @@
+import type { UnitType } from '../types/database';
+
+// Tipo de refeicao, que define quais grupos de alimentos entram nela
+export type GeneratorMealKind = 'breakfast' | 'snack' | 'main' | 'supper';
+
+export interface GeneratorSlot {
+  label: string;
+  // Alimentos aceitos, em ordem de preferencia. Cada candidato e um conjunto
+  // de palavras que precisam aparecer no nome do alimento (sem acentos)
+  candidates: string[];
+  // Quantidade inicial e limites em gramas, usados pelo ajuste de porcoes
+  grams: number;
+  min: number;
+  max: number;
+}
+
+// Horarios padrao quando a anamnese nao informa os horarios das refeicoes
+export const DEFAULT_MEAL_SCHEDULES: Record<number, { name: string; time: string }[]> = {
+  3: [
+    { name: 'Café da Manhã', time: '07:00' },
+    { name: 'Almoço', time: '12:00' },
+    { name: 'Jantar', time: '19:00' },
+  ],
+  4: [
+    { name: 'Café da Manhã', time: '07:00' },
+    { name: 'Almoço', time: '12:00' },
+    { name: 'Lanche da Tarde', time: '16:00' },
+    { name: 'Jantar', time: '19:30' },
+  ],
+  5: [
+    { name: 'Café da Manhã', time: '07:00' },
+    { name: 'Lanche da Manhã', time: '10:00' },
+    { name: 'Almoço', time: '12:30' },
+    { name: 'Lanche da Tarde', time: '16:00' },
+    { name: 'Jantar', time: '19:30' },
+  ],
+  6: [
+    { name: 'Café da Manhã', time: '07:00' },
+    { name: 'Lanche da Manhã', time: '10:00' },
+    { name: 'Almoço', time: '12:30' },
+    { name: 'Lanche da Tarde', time: '16:00' },
+    { name: 'Jantar', time: '19:30' },
+    { name: 'Ceia', time: '22:00' },
+  ],
+};
+
+// Nome da refeicao pelo horario declarado (ate o horario, exclusivo)
+export const MEAL_NAMES_BY_TIME: { until: string; name: string }[] = [
+  { until: '10:00', name: 'Café da Manhã' },
+  { until: '11:30', name: 'Lanche da Manhã' },
+  { until: '15:00', name: 'Almoço' },
+  { until: '18:00', name: 'Lanche da Tarde' },
+  { until: '21:00', name: 'Jantar' },
+  { until: '24:00', name: 'Ceia' },
+];
+
+export const MEAL_KINDS: Record<string, GeneratorMealKind> = {
+  'Café da Manhã': 'breakfast',
+  'Almoço': 'main',
+  'Jantar': 'main',
+  'Ceia': 'supper',
+};
+
+const FRUIT: GeneratorSlot = {
+  label: 'Fruta',
+  candidates: ['banana prata', 'mamao papaya', 'maca fuji', 'laranja pera', 'morango', 'melao'],
+  grams: 100,
+  min: 50,
+  max: 200,
+};
+
+export const MEAL_SLOTS: Record<GeneratorMealKind, GeneratorSlot[]> = {
+  breakfast: [
+    {
+      label: 'Carboidrato',
+      candidates: ['pao forma integral', 'pao frances', 'aveia flocos', 'tapioca', 'cuscuz milho'],
+      grams: 50,
+      min: 25,
+      max: 120,
+    },
+    {
+      label: 'Proteína',
+      candidates: ['ovo galinha inteiro cozido', 'queijo minas frescal', 'iogurte natural'],
+      grams: 100,
+      min: 50,
+      max: 200,
+    },
+    FRUIT,
+  ],
+  snack: [
+    FRUIT,
+    {
+      label: 'Proteína',
+      candidates: ['iogurte natural', 'queijo minas frescal', 'ricota'],
+      grams: 100,
+      min: 30,
+      max: 200,
+    },
+    {
+      label: 'Gordura',
+      candidates: ['castanha brasil', 'castanha caju', 'amendoim grao', 'noz'],
+      grams: 15,
+      min: 10,
+      max: 30,
+    },
+  ],
+  main: [
+    {
+      label: 'Carboidrato',
+      candidates: ['arroz integral cozido', 'arroz tipo 1 cozido', 'batata doce cozida', 'mandioca cozida', 'batata inglesa cozida'],
+      grams: 120,
+      min: 50,
+      max: 300,
+    },
+    {
+      label: 'Leguminosa',
+      candidates: ['feijao carioca cozido', 'feijao preto cozido', 'lentilha cozida', 'grao de bico'],
+      grams: 80,
+      min: 40,
+      max: 200,
+    },
+    {
+      label: 'Proteína',
+      candidates: [
+        'frango peito sem pele grelhado',
+        'carne bovina patinho',
+        'tilapia',
+        'merluza',
+        'pescada',
+        'ovo galinha inteiro cozido',
+      ],
+      grams: 120,
+      min: 80,
+      max: 250,
+    },
+    {
+      label: 'Vegetais',
+      candidates: ['brocolis cozido', 'cenoura cozida', 'abobrinha italiana cozida', 'alface', 'tomate'],
+      grams: 80,
+      min: 50,
+      max: 200,
+    },
+    {
+      label: 'Gordura',
+      candidates: ['azeite oliva'],
+      grams: 5,
+      min: 5,
+      max: 15,
+    },
+  ],
+  supper: [
+    {
+      label: 'Proteína',
+      candidates: ['iogurte natural', 'queijo minas frescal', 'leite vaca desnatado'],
+      grams: 150,
+      min: 50,
+      max: 250,
+    },
+    FRUIT,
+  ],
+};
+
+// Candidatos servidos em unidades caseiras quando o alimento tem peso por unidade
+export const UNIT_CANDIDATES: Record<string, UnitType> = {
+  'ovo galinha inteiro cozido': 'unidade',
+  'pao forma integral': 'fatia',
+  'pao frances': 'unidade',
+};
+
+// Termos que, citados nas restricoes, excluem um grupo inteiro de alimentos
+export const EXCLUSION_GROUPS: Record<string, string[]> = {
+  lactose: ['leite', 'queijo', 'iogurte', 'requeijao', 'ricota', 'manteiga', 'creme de leite'],
+  leite: ['leite', 'queijo', 'iogurte', 'requeijao', 'ricota', 'manteiga', 'creme de leite'],
+  laticinios: ['leite', 'queijo', 'iogurte', 'requeijao', 'ricota', 'manteiga', 'creme de leite'],
+  ovo: ['ovo'],
+  amendoim: ['amendoim'],
+  castanha: ['castanha', 'noz', 'amendoa', 'avela', 'macadamia', 'pistache'],
+  oleaginosas: ['castanha', 'noz', 'amendoa', 'avela', 'macadamia', 'pistache', 'amendoim'],
+  'frutos do mar': ['camarao', 'lagosta', 'caranguejo', 'marisco', 'mexilhao', 'ostra', 'lula', 'polvo'],
+  camarao: ['camarao'],
+  peixe: ['peixe', 'atum', 'sardinha', 'salmao', 'tilapia', 'merluza', 'pescada', 'bacalhau'],
+  soja: ['soja', 'tofu'],
+  'carne vermelha': ['carne bovina', 'carne suina', 'porco'],
+  gluten: ['trigo', 'pao', 'macarrao', 'biscoito', 'bolo', 'aveia', 'cevada', 'centeio', 'torrada'],
+  trigo: ['trigo', 'pao', 'macarrao', 'biscoito', 'bolo', 'torrada'],
+};
+
+// Palavras ignoradas nos textos livres da anamnese
+export const IGNORED_WORDS = [
+  'a', 'o', 'as', 'os', 'de', 'da', 'do', 'das', 'dos', 'com', 'sem', 'em', 'no', 'na',
+  'nao', 'gosto', 'gosta', 'come', 'como', 'alergia', 'alergico', 'alergica', 'intolerancia',
+  'intolerante', 'nenhum', 'nenhuma', 'nada', 'muito', 'pouco', 'tipo',
+];
@@ -0,0 +1,37 @@
+import type { MicronutrientKey } from '../types/database';
+
+// Micronutrientes da TACO acompanhados nas dietas. `limit` marca os que tem
+// referencia de consumo maximo (em vez de meta a atingir)
+export const MICRONUTRIENTS: Record<MicronutrientKey, { label: string; unit: 'mg' | 'mcg'; limit?: boolean }> = {
+  calcio: { label: 'Calcio', unit: 'mg' },
+  ferro: { label: 'Ferro', unit: 'mg' },
+  magnesio: { label: 'Magnesio', unit: 'mg' },
+  fosforo: { label: 'Fosforo', unit: 'mg' },
+  potassio: { label: 'Potassio', unit: 'mg' },
+  zinco: { label: 'Zinco', unit: 'mg' },
+  vitamina_a: { label: 'Vitamina A', unit: 'mcg' },
+  vitamina_c: { label: 'Vitamina C', unit: 'mg' },
+  sodio: { label: 'Sodio', unit: 'mg', limit: true },
+  colesterol: { label: 'Colesterol', unit: 'mg', limit: true },
+};
+
+export const MICRONUTRIENT_KEYS = Object.keys(MICRONUTRIENTS) as MicronutrientKey[];
+
+// Idade inicial de cada faixa das DRIs (1-3, 4-8, 9-13, 14-18, 19-30, 31-50, 51-70, 71+)
+export const DRI_AGE_BANDS = [1, 4, 9, 14, 19, 31, 51, 71];
+
+// Ingestao diaria de referencia por faixa, na ordem de DRI_AGE_BANDS: RDA ou AI
+// para as metas, CDRR para o sodio e o limite usual de 300mg para o colesterol.
+// Pares sao [masculino, feminino]
+export const DRI_VALUES: Record<MicronutrientKey, Array<number | [number, number]>> = {
+  calcio: [700, 1000, 1300, 1300, 1000, 1000, [1000, 1200], 1200],
+  ferro: [7, 10, 8, [11, 15], [8, 18], [8, 18], 8, 8],
+  magnesio: [80, 130, 240, [410, 360], [400, 310], [420, 320], [420, 320], [420, 320]],
+  fosforo: [460, 500, 1250, 1250, 700, 700, 700, 700],
+  potassio: [2000, 2300, [2500, 2300], [3000, 2300], [3400, 2600], [3400, 2600], [3400, 2600], [3400, 2600]],
+  zinco: [3, 5, 8, [11, 9], [11, 8], [11, 8], [11, 8], [11, 8]],
+  vitamina_a: [300, 400, 600, [900, 700], [900, 700], [900, 700], [900, 700], [900, 700]],
+  vitamina_c: [15, 25, 45, [75, 65], [90, 75], [90, 75], [90, 75], [90, 75]],
+  sodio: [1200, 1500, 1800, 2300, 2300, 2300, 2300, 2300],
+  colesterol: [300, 300, 300, 300, 300, 300, 300, 300],
+};
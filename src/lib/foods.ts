@@ -0,0 +1,81 @@
+import { supabase } from './supabase';
+import { createFoodLookup, toResolvedFood } from '../utils/nutrition';
+import type { FoodLookup, FoodReference, ResolvedFood } from '../utils/nutrition';
+
+// Limite de linhas por requisicao do PostgREST
+const PAGE_SIZE = 1000;
+
+const FOOD_COLUMNS = `
+  id,
+  alimento,
+  caloria,
+  proteina,
+  carboidrato,
+  gordura,
+  colesterol,
+  calcio,
+  magnesio,
+  fosforo,
+  ferro,
+  sodio,
+  potassio,
+  zinco,
+  vitamina_a,
+  vitamina_c,
+  food_metadata (
+    nome_simplificado,
+    peso_por_unidade
+  )
+`;
+
+/**
+ * Busca na tabela_taco os alimentos referenciados por planos, templates e
+ * substituicoes: pelo food_id e, nas linhas ainda sem vinculo, pelo nome
+ */
+export async function fetchFoodLookup(refs: FoodReference[]): Promise<FoodLookup> {
+  const ids = new Set<number>();
+  const names = new Set<string>();
+  refs.forEach((ref) => {
+    if (ref.food_id != null) ids.add(ref.food_id);
+    else if (ref.food_name) names.add(ref.food_name);
+  });
+
+  const [byId, byName] = await Promise.all([
+    ids.size > 0
+      ? supabase.from('tabela_taco').select(FOOD_COLUMNS).in('id', Array.from(ids))
+      : Promise.resolve({ data: [], error: null }),
+    names.size > 0
+      ? supabase.from('tabela_taco').select(FOOD_COLUMNS).in('alimento', Array.from(names))
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (byId.error) console.error('Error loading foods by id:', byId.error);
+  if (byName.error) console.error('Error loading foods by name:', byName.error);
+
+  return createFoodLookup([...(byId.data || []), ...(byName.data || [])]);
+}
+
+/**
+ * Biblioteca de alimentos completa (tabela_taco com metadados), em paginas
+ */
+export async function fetchFoodLibrary(): Promise<ResolvedFood[]> {
+  const foods: ResolvedFood[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('tabela_taco')
+      .select(FOOD_COLUMNS)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error loading food library:', error);
+      break;
+    }
+
+    foods.push(...(data || []).map(toResolvedFood));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return foods;
+}
@@ -4,7 +4,7 @@ import { Save } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { PageContainer, Header } from '../../components/layout';
 import { Card, Input, Button } from '../../components/ui';
-import type { Anamnesis as AnamnesisType, Profile } from '../../types/database';
+import type { Anamnesis as AnamnesisType, BiologicalSex, Profile } from '../../types/database';
 import styles from './Anamnesis.module.css';
 
 const DAYS = ['Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado', 'Domingo'];
@@ -28,6 +28,7 @@ export function Anamnesis() {
     calories_goal: null,
     fiber_goal: null,
   });
+  const [sex, setSex] = useState<BiologicalSex | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -54,6 +55,7 @@ export function Anamnesis() {
         calories_goal: data.calories_goal,
         fiber_goal: data.fiber_goal,
       });
+      setSex(data.sex);
     }
   }
 
@@ -137,6 +139,7 @@ export function Anamnesis() {
         fats_goal: macroGoals.fats_goal,
         calories_goal: macroGoals.calories_goal,
         fiber_goal: macroGoals.fiber_goal,
+        sex,
         updated_at: new Date().toISOString(),
       })
       .eq('id', id);
@@ -163,6 +166,17 @@ export function Anamnesis() {
     }));
   }
 
+  // Horarios por numero da refeicao ("1", "2"...), usados ao gerar a dieta
+  function updateMealTime(key: string, value: string) {
+    const current = { ...(anamnesis.meal_times || {}) };
+    if (value) current[key] = value;
+    else delete current[key];
+    setAnamnesis((prev) => ({
+      ...prev,
+      meal_times: Object.keys(current).length > 0 ? current : null,
+    }));
+  }
+
   function updateMacroGoal(field: keyof MacroGoals, value: string) {
     const numValue = value === '' ? null : Number(value);
     setMacroGoals((prev) => ({ ...prev, [field]: numValue }));
@@ -253,6 +267,20 @@ export function Anamnesis() {
                 placeholder="Ex: 25"
               />
             </div>
+
+            {/* Usado com a idade para as referencias de micronutrientes (DRI) */}
+            <div className={styles.goalField}>
+              <label>Sexo biológico</label>
+              <select
+                className={styles.select}
+                value={sex || ''}
+                onChange={(e) => setSex((e.target.value || null) as BiologicalSex | null)}
+              >
+                <option value="">Selecione</option>
+                <option value="female">Feminino</option>
+                <option value="male">Masculino</option>
+              </select>
+            </div>
           </div>
         </Card>
 
@@ -268,6 +296,22 @@ export function Anamnesis() {
             />
           </div>
 
+          {(anamnesis.meals_per_day || 0) > 0 && (
+            <div className={styles.field}>
+              <label>Horários das refeições</label>
+              <div className={styles.mealTimesGrid}>
+                {Array.from({ length: Math.min(anamnesis.meals_per_day || 0, 8) }, (_, index) => String(index + 1)).map((key) => (
+                  <Input
+                    key={key}
+                    type="time"
+                    value={anamnesis.meal_times?.[key] || ''}
+                    onChange={(e) => updateMealTime(key, e.target.value)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className={styles.field}>
             <label>Quantos litros de água consome por dia?</label>
             <Input
@@ -1,18 +1,31 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { ClipboardList, Utensils, Dumbbell, Trash2, ChevronRight, Clock, AlertCircle, CalendarDays, Check, FileText, Mail, Plus, Copy } from 'lucide-react';
+import { ClipboardList, Utensils, Dumbbell, Trash2, ChevronRight, Clock, AlertCircle, CalendarDays, Check, FileText, Mail, Plus, Copy, History, Gift } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { PageContainer, Header } from '../../components/layout';
 import { Card, Button, Modal, Input } from '../../components/ui';
-import type { Profile, DietPlan, WorkoutPlan } from '../../types/database';
+import type { Profile, DietPlan, WorkoutPlan, PlanChangeType, PlanChangeWithPlans, SubscriptionPlan, AccessGrantType } from '../../types/database';
 import styles from './ClientProfile.module.css';
 
+const PLAN_CHANGE_LABELS: Record<PlanChangeType, string> = {
+  new: 'Novo plano',
+  renewal: 'Renovacao',
+  upgrade: 'Upgrade',
+  downgrade: 'Downgrade',
+};
+
+const GRANT_LABELS: Record<AccessGrantType, string> = {
+  trial: 'Teste gratis',
+  complimentary: 'Cortesia',
+};
+
 export function ClientProfile() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [client, setClient] = useState<Profile | null>(null);
   const [dietPlans, setDietPlans] = useState<DietPlan[]>([]);
   const [workoutPlan, setWorkoutPlan] = useState<WorkoutPlan | null>(null);
+  const [planChanges, setPlanChanges] = useState<PlanChangeWithPlans[]>([]);
   const [loading, setLoading] = useState(true);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
 
@@ -22,6 +35,14 @@ export function ClientProfile() {
   const [savingDates, setSavingDates] = useState(false);
   const [datesSaved, setDatesSaved] = useState(false);
 
+  // Complimentary access state
+  const [showGrantModal, setShowGrantModal] = useState(false);
+  const [grantPlans, setGrantPlans] = useState<SubscriptionPlan[]>([]);
+  const [grantPlanId, setGrantPlanId] = useState('');
+  const [grantDays, setGrantDays] = useState('');
+  const [grantReason, setGrantReason] = useState('');
+  const [grantingAccess, setGrantingAccess] = useState(false);
+
   // Password reset state
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [savingPassword, setSavingPassword] = useState(false);
@@ -43,8 +64,9 @@ export function ClientProfile() {
     setClient(null);
     setDietPlans([]);
     setWorkoutPlan(null);
+    setPlanChanges([]);
 
-    const [clientResult, dietResult, workoutResult] = await Promise.all([
+    const [clientResult, dietResult, workoutResult, planChangesResult] = await Promise.all([
       supabase
         .from('profiles')
         .select('*')
@@ -61,7 +83,12 @@ export function ClientProfile() {
         .select('*')
         .eq('client_id', id)
         .order('created_at', { ascending: false })
-        .limit(1)
+        .limit(1),
+      supabase
+        .from('plan_changes')
+        .select('*, from_plan:subscription_plans!plan_changes_from_plan_id_fkey(name), to_plan:subscription_plans!plan_changes_to_plan_id_fkey(name), payment:payments(grant_type, grant_reason)')
+        .eq('client_id', id)
+        .order('created_at', { ascending: false })
     ]);
 
     if (clientResult.data) {
@@ -78,6 +105,10 @@ export function ClientProfile() {
       setWorkoutPlan(workoutResult.data[0]);
     }
 
+    if (planChangesResult.data) {
+      setPlanChanges(planChangesResult.data as PlanChangeWithPlans[]);
+    }
+
     setLoading(false);
   }, [id]);
 
@@ -114,11 +145,80 @@ export function ClientProfile() {
     }
   }
 
+  async function openGrantModal() {
+    setShowGrantModal(true);
+
+    const { data, error } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .order('display_order', { ascending: true });
+
+    if (error) {
+      console.error('Error loading plans:', error);
+      return;
+    }
+
+    setGrantPlans(data || []);
+
+    // Default to the client's current plan and its duration
+    const defaultPlan = data?.find((plan) => plan.id === client?.plan_id) ?? data?.[0];
+    if (defaultPlan) {
+      setGrantPlanId(defaultPlan.id);
+      setGrantDays(String(defaultPlan.duration_days));
+    }
+  }
+
+  function closeGrantModal() {
+    setShowGrantModal(false);
+    setGrantReason('');
+  }
+
+  function handleGrantPlanChange(planId: string) {
+    setGrantPlanId(planId);
+    const plan = grantPlans.find((p) => p.id === planId);
+    if (plan) setGrantDays(String(plan.duration_days));
+  }
+
+  async function handleGrantAccess() {
+    if (!id || !grantPlanId || !grantReason.trim()) return;
+
+    setGrantingAccess(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('access-grant', {
+        body: {
+          client_id: id,
+          plan_id: grantPlanId,
+          days: parseInt(grantDays) || 0,
+          reason: grantReason.trim(),
+        },
+      });
+
+      if (error || data?.error) {
+        console.error('Error granting access:', error || data?.error);
+        alert(data?.error || 'Erro ao conceder cortesia');
+        return;
+      }
+
+      closeGrantModal();
+      await fetchAllData();
+    } catch (error) {
+      console.error('Error granting access:', error);
+      alert('Erro ao conceder cortesia');
+    } finally {
+      setGrantingAccess(false);
+    }
+  }
+
   // Calculate plan duration for preview
   const planDuration = planStartDate && planEndDate
     ? Math.ceil((new Date(planEndDate).getTime() - new Date(planStartDate).getTime()) / (1000 * 60 * 60 * 24))
     : 0;
 
+  function formatPlanDate(dateStr: string): string {
+    return new Date(`${dateStr}T12:00:00`).toLocaleDateString('pt-BR');
+  }
+
   function formatLastUpdated(dateStr: string | null): string {
     if (!dateStr) return 'Não configurado';
     return new Date(dateStr).toLocaleDateString('pt-BR', {
@@ -282,6 +382,7 @@ export function ClientProfile() {
               .insert(
                 meal.meal_foods.map((f: any) => ({
                   meal_id: newMeal.id,
+                  food_id: f.food_id,
                   food_name: f.food_name,
                   quantity: f.quantity,
                   quantity_units: f.quantity_units,
@@ -306,7 +407,9 @@ export function ClientProfile() {
             subs.map((s: any) => ({
               diet_plan_id: newDiet.id,
               original_food: s.original_food,
+              original_food_id: s.original_food_id,
               substitute_food: s.substitute_food,
+              substitute_food_id: s.substitute_food_id,
               substitute_quantity: s.substitute_quantity,
             }))
           );
@@ -441,8 +544,58 @@ export function ClientProfile() {
               'Salvar Datas'
             )}
           </button>
+
+          <button onClick={openGrantModal} className={styles.grantButton}>
+            <Gift size={16} />
+            Conceder Cortesia
+          </button>
         </Card>
 
+        {/* Plan History Section */}
+        {planChanges.length > 0 && (
+          <Card className={styles.planDatesCard}>
+            <h3 className={styles.planDatesTitle}>
+              <History size={20} />
+              Historico de Planos
+            </h3>
+
+            <div className={styles.planHistoryList}>
+              {planChanges.map((change) => (
+                <div key={change.id} className={styles.planHistoryItem}>
+                  <div className={styles.planHistoryHeader}>
+                    <span className={styles.planHistoryBadges}>
+                      <span className={`${styles.planChangeBadge} ${styles[change.change_type] ?? ''}`}>
+                        {PLAN_CHANGE_LABELS[change.change_type]}
+                      </span>
+                      {change.payment?.grant_type && (
+                        <span className={`${styles.planChangeBadge} ${styles.grant}`}>
+                          {GRANT_LABELS[change.payment.grant_type]}
+                        </span>
+                      )}
+                    </span>
+                    <span className={styles.planHistoryDate}>
+                      {change.status === 'scheduled'
+                        ? `Agendado para ${formatPlanDate(change.effective_date)}`
+                        : formatPlanDate(change.effective_date)}
+                    </span>
+                  </div>
+                  <span className={styles.planHistoryPlans}>
+                    {change.from_plan && change.change_type !== 'renewal' && <>{change.from_plan.name} &rarr; </>}
+                    {change.to_plan?.name ?? 'Plano removido'}
+                  </span>
+                  <span className={styles.planHistoryMeta}>
+                    {change.new_plan_end_date && <>Termino: {formatPlanDate(change.new_plan_end_date)}</>}
+                    {change.credit_cents > 0 && (
+                      <> &bull; Credito: {(change.credit_cents / 100).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</>
+                    )}
+                    {change.payment?.grant_reason && <> &bull; Motivo: {change.payment.grant_reason}</>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         <div className={styles.menuList}>
           <Link to={`/admin/aluno/${id}/anamnese`} className={styles.menuLink}>
             <Card hoverable className={styles.menuItem}>
@@ -690,6 +843,61 @@ export function ClientProfile() {
           </div>
         </div>
       </Modal>
+
+      {/* Modal de Cortesia */}
+      <Modal
+        isOpen={showGrantModal}
+        onClose={closeGrantModal}
+        title="Conceder Cortesia"
+      >
+        <div className={styles.newDietModal}>
+          <p className={styles.grantHint}>
+            O acesso e liberado sem cobranca e registrado como pagamento de valor zero no financeiro.
+          </p>
+          <div className={styles.newDietField}>
+            <label>Plano</label>
+            <select
+              className={styles.grantSelect}
+              value={grantPlanId}
+              onChange={(e) => handleGrantPlanChange(e.target.value)}
+            >
+              {grantPlans.map((plan) => (
+                <option key={plan.id} value={plan.id}>{plan.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className={styles.newDietField}>
+            <label>Dias de acesso</label>
+            <Input
+              type="number"
+              min={1}
+              value={grantDays}
+              onChange={(e) => setGrantDays(e.target.value)}
+            />
+          </div>
+          <div className={styles.newDietField}>
+            <label>Motivo</label>
+            <Input
+              type="text"
+              value={grantReason}
+              onChange={(e) => setGrantReason(e.target.value)}
+              placeholder="Ex: Parceria, compensacao, sorteio..."
+            />
+          </div>
+          <div className={styles.newDietButtons}>
+            <Button variant="ghost" onClick={closeGrantModal}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleGrantAccess}
+              loading={grantingAccess}
+              disabled={!grantPlanId || !grantReason.trim() || !(parseInt(grantDays) > 0)}
+            >
+              Conceder
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </PageContainer>
   );
 }
@@ -1,10 +1,12 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
-import { Save, Plus, Trash2, Clock, Check, AlertCircle, FileText, RefreshCw, X, ChevronUp, ChevronDown, Layers, Copy } from 'lucide-react';
+import { Save, Plus, Trash2, Clock, Check, AlertCircle, FileText, RefreshCw, X, ChevronUp, ChevronDown, Layers, Copy, Scale, Sparkles } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { fetchFoodLibrary, fetchFoodLookup } from '../../lib/foods';
 import { PageContainer, Header } from '../../components/layout';
-import { Card, Input, Button, FoodSelect, Select } from '../../components/ui';
-import { parseBrazilianNumber } from '../../components/ui/FoodSelect';
+import { Card, Input, Button, FoodSelect, Select, MicronutrientBreakdown } from '../../components/ui';
+import { PortionSolverModal } from '../../components/admin/PortionSolverModal';
+import type { PortionSolverFood } from '../../components/admin/PortionSolverModal';
 
 const MEAL_OPTIONS = [
   { value: 'Café da Manhã', label: 'Café da Manhã' },
@@ -24,14 +26,31 @@ const UNIT_OPTIONS: { value: UnitType; label: string }[] = [
   { value: 'fatia', label: 'Fatia' },
 ];
 
-import type { Profile, DietPlan, Meal, TabelaTaco, FoodSubstitution, UnitType, TabelaTacoWithMetadata, MealSubstitution, MealSubstitutionItem } from '../../types/database';
+import type { Profile, DietPlan, Meal, TabelaTaco, FoodSubstitution, UnitType, MealSubstitution, MealSubstitutionItem, TemplateFoodSubstitution } from '../../types/database';
 import { UNIT_TYPES } from '../../constants/foodUnits';
-import { calculateGramsFromUnits, formatQuantityDisplay, getUnitLabel } from '../../utils/foodUnits';
+import { formatQuantityDisplay, getUnitLabel } from '../../utils/foodUnits';
+import {
+  calculatePlanTotals,
+  DEFAULT_GRAMS_PER_UNIT,
+  getMacrosPer100g,
+  getMicronutrientsPer100g,
+  isMeasuredUnit,
+  isSameFood,
+  parseBrazilianNumber,
+  scaleMacros,
+  scaleMicronutrients,
+  sumMacros,
+  sumMicronutrients,
+  toStoredQuantity,
+} from '../../utils/nutrition';
+import { generateDietDraft } from '../../utils/dietGenerator';
+import type { MacroTotals, MicronutrientTotals } from '../../utils/nutrition';
 import styles from './DietManagement.module.css';
 
 interface MealFoodWithNutrition {
   id: string;
   meal_id: string;
+  food_id: number | null;
   food_name: string;
   quantity: string;
   order_index: number;
@@ -49,6 +68,7 @@ interface MealFoodWithNutrition {
   protein_per_100g?: number;
   carbs_per_100g?: number;
   fats_per_100g?: number;
+  micronutrients_per_100g?: MicronutrientTotals;
 }
 
 interface MealWithFoods extends Meal {
@@ -56,11 +76,36 @@ interface MealWithFoods extends Meal {
   meal_substitutions: MealSubstitution[];
 }
 
-interface MacroTotals {
-  calories: number;
-  protein: number;
-  carbs: number;
-  fats: number;
+// Valores por 100g e os calculados para a quantidade (em gramas) do alimento
+function getFoodNutritionFields(per100g: MacroTotals, grams: number) {
+  return {
+    calories_per_100g: per100g.calories,
+    protein_per_100g: per100g.protein,
+    carbs_per_100g: per100g.carbs,
+    fats_per_100g: per100g.fats,
+    ...scaleMacros(per100g, grams),
+  };
+}
+
+// Alimento com a quantidade digitada (g, ml ou unidades), recalculando os macros
+function withAmount(food: MealFoodWithNutrition, amount: number): MealFoodWithNutrition {
+  const stored = toStoredQuantity(amount, food.unit_type, food.peso_por_unidade);
+
+  // Se tem valores base por 100g, recalcular
+  if (food.calories_per_100g === undefined) {
+    return { ...food, ...stored };
+  }
+  const per100g = {
+    calories: food.calories_per_100g || 0,
+    protein: food.protein_per_100g || 0,
+    carbs: food.carbs_per_100g || 0,
+    fats: food.fats_per_100g || 0,
+  };
+  return {
+    ...food,
+    ...stored,
+    ...scaleMacros(per100g, parseBrazilianNumber(stored.quantity)),
+  };
 }
 
 interface MacroGoals {
@@ -77,7 +122,9 @@ type MacroStatus = 'good' | 'close' | 'low' | 'high' | 'neutral';
 interface LocalSubstitution {
   id: string;
   original_food: string;
+  original_food_id: number | null;
   substitute_food: string;
+  substitute_food_id: number | null;
   substitute_quantity: string;
   isNew?: boolean;
   isDeleted?: boolean;
@@ -131,8 +178,9 @@ export function DietManagement() {
   // Substitutions state
   const [substitutions, setSubstitutions] = useState<LocalSubstitution[]>([]);
   const [showSubstitutionModal, setShowSubstitutionModal] = useState(false);
-  const [editingFoodName, setEditingFoodName] = useState<string | null>(null);
+  const [editingFood, setEditingFood] = useState<MealFoodWithNutrition | null>(null);
   const [newSubstituteFood, setNewSubstituteFood] = useState('');
+  const [newSubstituteFoodId, setNewSubstituteFoodId] = useState<number | null>(null);
   const [newSubstituteQty, setNewSubstituteQty] = useState('');
 
   // Meal Substitutions state
@@ -142,6 +190,14 @@ export function DietManagement() {
   const [mealSubName, setMealSubName] = useState('');
   const [mealSubFoods, setMealSubFoods] = useState<MealSubstitutionItem[]>([]);
 
+  // Ajuste automatico de porcoes
+  const [showPortionSolver, setShowPortionSolver] = useState(false);
+
+  // Geracao a partir da anamnese
+  const [generating, setGenerating] = useState(false);
+  // Refeicoes salvas substituidas pelo rascunho gerado, excluidas so ao salvar
+  const [replacedMealIds, setReplacedMealIds] = useState<string[]>([]);
+
   useEffect(() => {
     if (id && dietId) {
       fetchClient();
@@ -201,7 +257,9 @@ export function DietManagement() {
           setSubstitutions(substitutionsData.map(sub => ({
             id: sub.id,
             original_food: sub.original_food,
+            original_food_id: sub.original_food_id ?? null,
             substitute_food: sub.substitute_food,
+            substitute_food_id: sub.substitute_food_id ?? null,
             substitute_quantity: sub.substitute_quantity,
           })));
         } else {
@@ -209,30 +267,11 @@ export function DietManagement() {
         }
 
         if (mealsData && mealsData.length > 0) {
-          // Coleta todos os nomes de alimentos únicos para buscar nutrição em batch
-          const allFoodNames = new Set<string>();
-          mealsData.forEach(meal => {
-            (meal.meal_foods || []).forEach((food: { food_name?: string }) => {
-              if (food.food_name) {
-                allFoodNames.add(food.food_name);
-              }
-            });
-          });
-
-          // OTIMIZADO: Busca todos os dados nutricionais em uma única query (com metadata)
-          let nutritionMap = new Map<string, TabelaTacoWithMetadata>();
-          if (allFoodNames.size > 0) {
-            const { data: tacoFoods } = await supabase
-              .from('tabela_taco')
-              .select('*, food_metadata(*)')
-              .in('alimento', Array.from(allFoodNames));
-
-            if (tacoFoods) {
-              tacoFoods.forEach(food => {
-                nutritionMap.set(food.alimento, food as TabelaTacoWithMetadata);
-              });
-            }
-          }
+          // Busca os dados nutricionais de todos os alimentos em batch (pelo food_id
+          // ou, nos ainda sem vinculo, pelo nome)
+          const findFood = await fetchFoodLookup(
+            mealsData.flatMap(meal => (meal.meal_foods || []) as { food_id: number | null; food_name: string }[])
+          );
 
           // Processa os dados usando o mapa de nutrição
           const mealsWithFoods: MealWithFoods[] = mealsData.map(meal => {
@@ -244,45 +283,22 @@ export function DietManagement() {
               const unitType: UnitType = food.unit_type || 'gramas';
               const quantityUnits: number | null = food.quantity_units ?? null;
 
-              if (!food.food_name) {
-                return {
-                  ...food,
-                  unit_type: unitType,
-                  quantity_units: quantityUnits,
-                  peso_por_unidade: null,
-                };
-              }
-
-              const tacoFood = nutritionMap.get(food.food_name);
+              const tacoFood = findFood(food);
               if (tacoFood) {
-                const qty = parseBrazilianNumber(food.quantity);
-                const multiplier = qty / 100;
-
-                const caloriesPer100g = parseBrazilianNumber(tacoFood.caloria);
-                const proteinPer100g = parseBrazilianNumber(tacoFood.proteina);
-                const carbsPer100g = parseBrazilianNumber(tacoFood.carboidrato);
-                const fatsPer100g = parseBrazilianNumber(tacoFood.gordura);
-
-                // Get peso_por_unidade from food_metadata if available
-                const pesoPorUnidade = tacoFood.food_metadata?.peso_por_unidade ?? null;
-
                 return {
                   ...food,
+                  food_id: tacoFood.id,
+                  food_name: tacoFood.alimento,
                   unit_type: unitType,
                   quantity_units: quantityUnits,
-                  peso_por_unidade: pesoPorUnidade,
-                  calories_per_100g: caloriesPer100g,
-                  protein_per_100g: proteinPer100g,
-                  carbs_per_100g: carbsPer100g,
-                  fats_per_100g: fatsPer100g,
-                  calories: caloriesPer100g * multiplier,
-                  protein: proteinPer100g * multiplier,
-                  carbs: carbsPer100g * multiplier,
-                  fats: fatsPer100g * multiplier,
+                  peso_por_unidade: tacoFood.peso_por_unidade ?? null,
+                  micronutrients_per_100g: tacoFood.micronutrients,
+                  ...getFoodNutritionFields(getMacrosPer100g(tacoFood), parseBrazilianNumber(food.quantity)),
                 };
               }
               return {
                 ...food,
+                food_id: food.food_id ?? null,
                 unit_type: unitType,
                 quantity_units: quantityUnits,
                 peso_por_unidade: null,
@@ -308,40 +324,49 @@ export function DietManagement() {
     }
   }
 
-  // Calcular totais por refeição
-  const calculateMealTotals = (foods: MealFoodWithNutrition[]): MacroTotals => {
-    return foods.reduce(
-      (total, food) => ({
-        calories: total.calories + (food.calories || 0),
-        protein: total.protein + (food.protein || 0),
-        carbs: total.carbs + (food.carbs || 0),
-        fats: total.fats + (food.fats || 0),
-      }),
-      { calories: 0, protein: 0, carbs: 0, fats: 0 }
-    );
-  };
-
   // Calcular totais diários
-  const dailyTotals = useMemo((): MacroTotals => {
-    return meals.reduce(
-      (total, meal) => {
-        const mealTotals = calculateMealTotals(meal.foods);
-        return {
-          calories: total.calories + mealTotals.calories,
-          protein: total.protein + mealTotals.protein,
-          carbs: total.carbs + mealTotals.carbs,
-          fats: total.fats + mealTotals.fats,
-        };
-      },
-      { calories: 0, protein: 0, carbs: 0, fats: 0 }
-    );
-  }, [meals]);
+  const dailyTotals = useMemo(() => calculatePlanTotals(meals), [meals]);
+
+  // Micronutrientes do plano (alimentos principais de cada refeição)
+  const dailyMicronutrients = useMemo(
+    () => sumMicronutrients(meals.flatMap(meal => meal.foods.map(food =>
+      food.micronutrients_per_100g
+        ? scaleMicronutrients(food.micronutrients_per_100g, parseBrazilianNumber(food.quantity))
+        : null
+    ))),
+    [meals]
+  );
+
+  // Alimentos ajustaveis pelo "Ajustar porcoes": os que tem valores nutricionais
+  const portionSolverFoods = useMemo<PortionSolverFood[]>(
+    () => meals.flatMap((meal, mealIndex) => meal.foods.flatMap((food, foodIndex) => {
+      if (!food.food_name || food.calories_per_100g === undefined) return [];
+      return [{
+        key: `${mealIndex}-${foodIndex}`,
+        mealName: meal.name,
+        foodName: food.food_name,
+        unit_type: food.unit_type,
+        peso_por_unidade: food.peso_por_unidade,
+        amount: isMeasuredUnit(food.unit_type) ? parseBrazilianNumber(food.quantity) : food.quantity_units ?? 0,
+        per100g: {
+          calories: food.calories_per_100g || 0,
+          protein: food.protein_per_100g || 0,
+          carbs: food.carbs_per_100g || 0,
+          fats: food.fats_per_100g || 0,
+        },
+      }];
+    })),
+    [meals]
+  );
+
+  const hasMacroGoals = !!(macroGoals.protein_goal || macroGoals.carbs_goal || macroGoals.fats_goal || macroGoals.calories_goal);
 
   // Sanitiza dados do alimento para salvar no banco
   function sanitizeFoodForSave(food: MealFoodWithNutrition) {
     // Garantir que quantity seja uma string válida
     const quantityStr = String(food.quantity || '').trim();
     return {
+      food_id: food.food_id,
       food_name: food.food_name || '',
       quantity: quantityStr,
       order_index: Number(food.order_index) || 0,
@@ -385,6 +410,19 @@ export function DietManagement() {
         throw planError;
       }
 
+      // Refeicoes substituidas pelo rascunho gerado (cascade deleta foods)
+      if (replacedMealIds.length > 0) {
+        const { error: replacedError } = await supabase
+          .from('meals')
+          .delete()
+          .in('id', replacedMealIds);
+        if (replacedError) {
+          console.error('Replaced meals delete error:', replacedError);
+          throw replacedError;
+        }
+        setReplacedMealIds([]);
+      }
+
       for (let mealIdx = 0; mealIdx < meals.length; mealIdx++) {
         const meal = meals[mealIdx];
         let currentMealId = meal.id;
@@ -471,7 +509,9 @@ export function DietManagement() {
         const { error: insertError } = await supabase.from('food_substitutions').insert({
           diet_plan_id: dietPlan.id,
           original_food: sub.original_food,
+          original_food_id: sub.original_food_id,
           substitute_food: sub.substitute_food,
+          substitute_food_id: sub.substitute_food_id,
           substitute_quantity: sub.substitute_quantity,
         });
         if (insertError) {
@@ -536,112 +576,67 @@ export function DietManagement() {
       .delete()
       .eq('diet_plan_id', dietPlan.id);
 
-    // Coletar IDs dos alimentos do template para buscar substituicoes
-    const templateFoodIds: string[] = [];
-    const foodIdToNameMap = new Map<string, string>();
+    // Alimentos do template, para buscar substituicoes e dados nutricionais
+    const templateFoods = new Map<string, { food_id: number | null; food_name: string }>();
     mealsData.forEach(meal => {
-      (meal.diet_template_meal_foods || []).forEach((food: { id: string; food_name: string }) => {
-        if (food.id) {
-          templateFoodIds.push(food.id);
-          foodIdToNameMap.set(food.id, food.food_name);
-        }
+      (meal.diet_template_meal_foods || []).forEach((food: { id: string; food_id: number | null; food_name: string }) => {
+        if (food.id) templateFoods.set(food.id, food);
       });
     });
 
-    // Buscar substituicoes do template
-    let templateSubstitutionsMap = new Map<string, { substitute_food: string; substitute_quantity: string }[]>();
-    if (templateFoodIds.length > 0) {
+    // Criar substituicoes locais baseadas nas substituicoes do template
+    const newSubstitutions: LocalSubstitution[] = [];
+    if (templateFoods.size > 0) {
       const { data: templateSubs } = await supabase
         .from('diet_template_food_substitutions')
         .select('*')
-        .in('template_food_id', templateFoodIds);
-
-      if (templateSubs) {
-        templateSubs.forEach((sub: { template_food_id: string; substitute_food: string; substitute_quantity: string }) => {
-          const foodName = foodIdToNameMap.get(sub.template_food_id);
-          if (foodName) {
-            const existing = templateSubstitutionsMap.get(foodName) || [];
-            existing.push({
-              substitute_food: sub.substitute_food,
-              substitute_quantity: sub.substitute_quantity,
-            });
-            templateSubstitutionsMap.set(foodName, existing);
-          }
-        });
-      }
-    }
+        .in('template_food_id', Array.from(templateFoods.keys()));
+
+      (templateSubs || []).forEach((sub: TemplateFoodSubstitution, idx: number) => {
+        const originalFood = templateFoods.get(sub.template_food_id);
+        if (!originalFood) return;
 
-    // Criar substituicoes locais baseadas no template
-    const newSubstitutions: LocalSubstitution[] = [];
-    templateSubstitutionsMap.forEach((subs, foodName) => {
-      subs.forEach((sub, idx) => {
         newSubstitutions.push({
-          id: `new-${Date.now()}-sub-${foodName}-${idx}`,
-          original_food: foodName,
+          id: `new-${Date.now()}-sub-${idx}`,
+          original_food: originalFood.food_name,
+          original_food_id: originalFood.food_id ?? null,
           substitute_food: sub.substitute_food,
+          substitute_food_id: sub.substitute_food_id ?? null,
           substitute_quantity: sub.substitute_quantity,
           isNew: true,
         });
       });
-    });
-
-    // Coleta nomes de alimentos para buscar nutrição
-    const allFoodNames = new Set<string>();
-    mealsData.forEach(meal => {
-      (meal.diet_template_meal_foods || []).forEach((food: { food_name?: string }) => {
-        if (food.food_name) allFoodNames.add(food.food_name);
-      });
-    });
+    }
 
     // Busca dados nutricionais
-    let nutritionMap = new Map<string, TabelaTaco>();
-    if (allFoodNames.size > 0) {
-      const { data: tacoFoods } = await supabase
-        .from('tabela_taco')
-        .select('*')
-        .in('alimento', Array.from(allFoodNames));
-      if (tacoFoods) {
-        tacoFoods.forEach(food => nutritionMap.set(food.alimento, food));
-      }
-    }
+    const findFood = await fetchFoodLookup(Array.from(templateFoods.values()));
 
     const newMeals: MealWithFoods[] = mealsData.map((meal, mealIdx) => {
       const foods = (meal.diet_template_meal_foods || [])
         .sort((a: { order_index: number }, b: { order_index: number }) => a.order_index - b.order_index)
-        .map((food: { food_name: string; quantity: string; order_index: number; unit_type?: string; quantity_units?: number }, foodIdx: number) => {
-          const tacoFood = nutritionMap.get(food.food_name);
-          const qty = parseBrazilianNumber(food.quantity);
-          const multiplier = qty / 100;
+        .map((food: { food_id: number | null; food_name: string; quantity: string; order_index: number; unit_type?: string; quantity_units?: number }, foodIdx: number) => {
+          const tacoFood = findFood(food);
 
           if (tacoFood) {
-            const caloriesPer100g = parseBrazilianNumber(tacoFood.caloria);
-            const proteinPer100g = parseBrazilianNumber(tacoFood.proteina);
-            const carbsPer100g = parseBrazilianNumber(tacoFood.carboidrato);
-            const fatsPer100g = parseBrazilianNumber(tacoFood.gordura);
-
             return {
               id: `new-${Date.now()}-${mealIdx}-${foodIdx}`,
               meal_id: '',
-              food_name: food.food_name,
+              food_id: tacoFood.id,
+              food_name: tacoFood.alimento,
               quantity: food.quantity,
               order_index: food.order_index,
               unit_type: (food.unit_type || 'gramas') as UnitType,
               quantity_units: food.quantity_units || null,
-              peso_por_unidade: null,
-              calories_per_100g: caloriesPer100g,
-              protein_per_100g: proteinPer100g,
-              carbs_per_100g: carbsPer100g,
-              fats_per_100g: fatsPer100g,
-              calories: caloriesPer100g * multiplier,
-              protein: proteinPer100g * multiplier,
-              carbs: carbsPer100g * multiplier,
-              fats: fatsPer100g * multiplier,
+              peso_por_unidade: tacoFood.peso_por_unidade ?? null,
+              micronutrients_per_100g: tacoFood.micronutrients,
+              ...getFoodNutritionFields(getMacrosPer100g(tacoFood), parseBrazilianNumber(food.quantity)),
             };
           }
 
           return {
             id: `new-${Date.now()}-${mealIdx}-${foodIdx}`,
             meal_id: '',
+            food_id: food.food_id ?? null,
             food_name: food.food_name,
             quantity: food.quantity,
             order_index: food.order_index,
@@ -667,6 +662,78 @@ export function DietManagement() {
     setShowTemplateModal(false);
   }
 
+  async function generateFromAnamnesis() {
+    if (!dietPlan || !id) return;
+    if (meals.length > 0 && !confirm('Gerar a dieta pela anamnese substituira todas as refeicoes atuais ao salvar. Continuar?')) {
+      return;
+    }
+
+    setGenerating(true);
+
+    try {
+      const [{ data: anamnesis, error: anamnesisError }, library] = await Promise.all([
+        supabase.from('anamnesis').select('*').eq('client_id', id).maybeSingle(),
+        fetchFoodLibrary(),
+      ]);
+
+      if (anamnesisError) throw anamnesisError;
+
+      const draft = generateDietDraft(anamnesis, {
+        calories: macroGoals.calories_goal,
+        protein: macroGoals.protein_goal,
+        carbs: macroGoals.carbs_goal,
+        fats: macroGoals.fats_goal,
+      }, library);
+
+      // O rascunho fica so na tela: as refeicoes e substituicoes salvas sao
+      // excluidas apenas quando o admin salvar a dieta revisada
+      const existingIds = meals
+        .filter(m => !m.id.startsWith('new-'))
+        .map(m => m.id);
+      setReplacedMealIds((prev) => [...prev, ...existingIds]);
+
+      const newMeals: MealWithFoods[] = draft.meals.map((meal, mealIdx) => ({
+        id: `new-${Date.now()}-${mealIdx}`,
+        diet_plan_id: dietPlan.id,
+        name: meal.name,
+        suggested_time: meal.suggested_time,
+        order_index: mealIdx,
+        meal_substitutions: [],
+        foods: meal.foods.map((item, foodIdx) => {
+          const stored = toStoredQuantity(item.amount, item.unit_type, item.food.peso_por_unidade);
+          return {
+            id: `new-${Date.now()}-${mealIdx}-${foodIdx}`,
+            meal_id: '',
+            food_id: item.food.id,
+            food_name: item.food.alimento,
+            ...stored,
+            order_index: foodIdx,
+            unit_type: item.unit_type,
+            peso_por_unidade: item.food.peso_por_unidade ?? null,
+            micronutrients_per_100g: item.food.micronutrients,
+            ...getFoodNutritionFields(getMacrosPer100g(item.food), parseBrazilianNumber(stored.quantity)),
+          };
+        }),
+      }));
+
+      setMeals(newMeals);
+      setSubstitutions((prev) => prev
+        .filter((sub) => !sub.isNew)
+        .map((sub) => ({ ...sub, isDeleted: true })));
+
+      if (!anamnesis) {
+        alert('Anamnese nao preenchida: a dieta foi gerada com horarios padrao e sem restricoes alimentares.');
+      } else if (draft.missing.length > 0) {
+        alert('Nenhum alimento permitido encontrado na biblioteca para:\n' + draft.missing.join('\n'));
+      }
+    } catch (error) {
+      console.error('Error generating diet:', error);
+      alert('Erro ao gerar dieta');
+    } finally {
+      setGenerating(false);
+    }
+  }
+
   function addMeal() {
     const newMeal: MealWithFoods = {
       id: `new-${Date.now()}`,
@@ -754,6 +821,7 @@ export function DietManagement() {
     const newFood: MealFoodWithNutrition = {
       id: `new-${Date.now()}`,
       meal_id: updated[mealIndex].id,
+      food_id: null,
       food_name: '',
       quantity: '',
       order_index: updated[mealIndex].foods.length,
@@ -775,6 +843,8 @@ export function DietManagement() {
     updated[mealIndex].foods[foodIndex] = {
       ...updated[mealIndex].foods[foodIndex],
       [field]: value,
+      // Nome digitado desfaz o vinculo ate um alimento ser escolhido na lista
+      ...(field === 'food_name' ? { food_id: null } : {}),
     };
     setMeals(updated);
   }
@@ -783,13 +853,6 @@ export function DietManagement() {
     const updated = [...meals];
     const currentFood = updated[mealIndex].foods[foodIndex];
     const currentQty = parseBrazilianNumber(currentFood.quantity) || 100;
-    const multiplier = currentQty / 100;
-
-    // Valores base por 100g - usando parseBrazilianNumber para converter vírgula
-    const caloriesPer100g = parseBrazilianNumber(selectedFood.caloria);
-    const proteinPer100g = parseBrazilianNumber(selectedFood.proteina);
-    const carbsPer100g = parseBrazilianNumber(selectedFood.carboidrato);
-    const fatsPer100g = parseBrazilianNumber(selectedFood.gordura);
 
     // Fetch food_metadata to get peso_por_unidade
     let pesoPorUnidade: number | null = null;
@@ -805,64 +868,36 @@ export function DietManagement() {
 
     updated[mealIndex].foods[foodIndex] = {
       ...currentFood,
+      food_id: selectedFood.id,
       food_name: selectedFood.alimento,
       peso_por_unidade: pesoPorUnidade,
+      micronutrients_per_100g: getMicronutrientsPer100g(selectedFood),
       // Reset to gramas when selecting new food
       unit_type: 'gramas',
       quantity_units: null,
-      // Valores base por 100g
-      calories_per_100g: caloriesPer100g,
-      protein_per_100g: proteinPer100g,
-      carbs_per_100g: carbsPer100g,
-      fats_per_100g: fatsPer100g,
-      // Valores calculados
-      calories: caloriesPer100g * multiplier,
-      protein: proteinPer100g * multiplier,
-      carbs: carbsPer100g * multiplier,
-      fats: fatsPer100g * multiplier,
+      ...getFoodNutritionFields(getMacrosPer100g(selectedFood), currentQty),
     };
     setMeals(updated);
   }
 
   function handleQuantityChange(mealIndex: number, foodIndex: number, inputValue: string) {
     const updated = [...meals];
-    const food = updated[mealIndex].foods[foodIndex];
-    const inputNum = parseBrazilianNumber(inputValue);
-
-    let gramsQty: number;
-    let quantityUnits: number | null = null;
-
-    // If using units, convert to grams
-    if (food.unit_type !== 'gramas' && food.peso_por_unidade && food.peso_por_unidade > 0) {
-      quantityUnits = inputNum;
-      gramsQty = calculateGramsFromUnits(inputNum, food.peso_por_unidade);
-    } else {
-      gramsQty = inputNum;
-    }
-
-    const multiplier = gramsQty / 100;
-
-    // Se tem valores base por 100g, recalcular
-    if (food.calories_per_100g !== undefined) {
-      updated[mealIndex].foods[foodIndex] = {
-        ...food,
-        quantity: String(Math.round(gramsQty)),
-        quantity_units: quantityUnits,
-        calories: (food.calories_per_100g || 0) * multiplier,
-        protein: (food.protein_per_100g || 0) * multiplier,
-        carbs: (food.carbs_per_100g || 0) * multiplier,
-        fats: (food.fats_per_100g || 0) * multiplier,
-      };
-    } else {
-      updated[mealIndex].foods[foodIndex] = {
-        ...food,
-        quantity: String(Math.round(gramsQty)),
-        quantity_units: quantityUnits,
-      };
-    }
+    updated[mealIndex].foods[foodIndex] = withAmount(updated[mealIndex].foods[foodIndex], parseBrazilianNumber(inputValue));
     setMeals(updated);
   }
 
+  // Quantidades aceitas no "Ajustar porcoes", indexadas por `${mealIndex}-${foodIndex}`
+  function applyPortions(amounts: Record<string, number>) {
+    setMeals(meals.map((meal, mealIndex) => ({
+      ...meal,
+      foods: meal.foods.map((food, foodIndex) => {
+        const amount = amounts[`${mealIndex}-${foodIndex}`];
+        return amount === undefined ? food : withAmount(food, amount);
+      }),
+    })));
+    setShowPortionSolver(false);
+  }
+
   function handleUnitTypeChange(mealIndex: number, foodIndex: number, newUnitType: UnitType) {
     const updated = [...meals];
     const food = updated[mealIndex].foods[foodIndex];
@@ -871,7 +906,7 @@ export function DietManagement() {
     updated[mealIndex].foods[foodIndex] = {
       ...food,
       unit_type: newUnitType,
-      quantity: newUnitType === 'gramas' ? food.quantity : '',
+      quantity: isMeasuredUnit(newUnitType) ? food.quantity : '',
       quantity_units: null,
       // Reset calculated values when switching
       calories: undefined,
@@ -884,7 +919,7 @@ export function DietManagement() {
 
   // Get display value for quantity input based on unit type
   function getQuantityInputValue(food: MealFoodWithNutrition): string {
-    if (food.unit_type === 'gramas') {
+    if (isMeasuredUnit(food.unit_type)) {
       return food.quantity;
     }
     // For units, show quantity_units if available, otherwise empty
@@ -902,39 +937,44 @@ export function DietManagement() {
   }
 
   // Substitution helper functions
-  function getSubstitutionsForFood(foodName: string): LocalSubstitution[] {
+  function getSubstitutionsForFood(food: MealFoodWithNutrition): LocalSubstitution[] {
     return substitutions.filter(
-      (sub) => sub.original_food.toLowerCase() === foodName.toLowerCase() && !sub.isDeleted
+      (sub) => !sub.isDeleted && isSameFood({ food_id: sub.original_food_id, food_name: sub.original_food }, food)
     );
   }
 
-  function openSubstitutionModal(foodName: string) {
-    setEditingFoodName(foodName);
+  function openSubstitutionModal(food: MealFoodWithNutrition) {
+    setEditingFood(food);
     setNewSubstituteFood('');
+    setNewSubstituteFoodId(null);
     setNewSubstituteQty('');
     setShowSubstitutionModal(true);
   }
 
   function closeSubstitutionModal() {
     setShowSubstitutionModal(false);
-    setEditingFoodName(null);
+    setEditingFood(null);
     setNewSubstituteFood('');
+    setNewSubstituteFoodId(null);
     setNewSubstituteQty('');
   }
 
   function addSubstitution() {
-    if (!editingFoodName || !newSubstituteFood || !newSubstituteQty) return;
+    if (!editingFood || !newSubstituteFood || !newSubstituteQty) return;
 
     const newSub: LocalSubstitution = {
       id: `new-${Date.now()}`,
-      original_food: editingFoodName,
+      original_food: editingFood.food_name,
+      original_food_id: editingFood.food_id,
       substitute_food: newSubstituteFood,
+      substitute_food_id: newSubstituteFoodId,
       substitute_quantity: newSubstituteQty,
       isNew: true,
     };
 
     setSubstitutions([...substitutions, newSub]);
     setNewSubstituteFood('');
+    setNewSubstituteFoodId(null);
     setNewSubstituteQty('');
   }
 
@@ -950,8 +990,14 @@ export function DietManagement() {
     );
   }
 
+  function handleSubstituteFoodChange(foodName: string) {
+    setNewSubstituteFood(foodName);
+    setNewSubstituteFoodId(null);
+  }
+
   function handleSubstituteFoodSelect(selectedFood: TabelaTaco) {
     setNewSubstituteFood(selectedFood.alimento);
+    setNewSubstituteFoodId(selectedFood.id);
   }
 
   // Meal Substitution functions
@@ -983,13 +1029,17 @@ export function DietManagement() {
   function addMealSubFood() {
     setMealSubFoods([
       ...mealSubFoods,
-      { food_name: '', quantity: '', unit_type: 'gramas', quantity_units: null }
+      { food_id: null, food_name: '', quantity: '', unit_type: 'gramas', quantity_units: null }
     ]);
   }
 
   function updateMealSubFood(index: number, field: keyof MealSubstitutionItem, value: string | number | null) {
     const updated = [...mealSubFoods];
-    updated[index] = { ...updated[index], [field]: value };
+    updated[index] = {
+      ...updated[index],
+      [field]: value,
+      ...(field === 'food_name' ? { food_id: null } : {}),
+    };
     setMealSubFoods(updated);
   }
 
@@ -999,7 +1049,7 @@ export function DietManagement() {
 
   function handleMealSubFoodSelect(index: number, selectedFood: TabelaTaco) {
     const updated = [...mealSubFoods];
-    updated[index] = { ...updated[index], food_name: selectedFood.alimento };
+    updated[index] = { ...updated[index], food_id: selectedFood.id, food_name: selectedFood.alimento };
     setMealSubFoods(updated);
   }
 
@@ -1071,10 +1121,19 @@ export function DietManagement() {
         <Card className={styles.comparisonCard}>
           <div className={styles.comparisonHeader}>
             <h2 className={styles.comparisonTitle}>Comparação com Metas</h2>
+            <button
+              className={styles.portionSolverBtn}
+              onClick={() => setShowPortionSolver(true)}
+              disabled={!hasMacroGoals || portionSolverFoods.length === 0}
+              title={hasMacroGoals ? 'Ajustar quantidades para atingir as metas' : 'Defina as metas na Anamnese'}
+            >
+              <Scale size={16} />
+              Ajustar porções
+            </button>
           </div>
 
           {/* Warning if no goals set */}
-          {!macroGoals.protein_goal && !macroGoals.carbs_goal && !macroGoals.fats_goal && !macroGoals.calories_goal && (
+          {!hasMacroGoals && (
             <div className={styles.warningBanner}>
               Metas nutricionais não definidas. Configure na aba de Anamnese.
             </div>
@@ -1197,6 +1256,13 @@ export function DietManagement() {
           </div>
         </Card>
 
+        <MicronutrientBreakdown
+          totals={dailyMicronutrients}
+          age={client?.age}
+          sex={client?.sex}
+          defaultOpen
+        />
+
         {/* Meta de Água */}
         <Card className={styles.waterCard}>
           <div className={styles.waterField}>
@@ -1222,6 +1288,10 @@ export function DietManagement() {
                 <FileText size={16} />
                 Template
               </Button>
+              <Button size="sm" variant="outline" onClick={generateFromAnamnesis} loading={generating}>
+                <Sparkles size={16} />
+                Gerar
+              </Button>
               <Button size="sm" variant="outline" onClick={addMeal}>
                 <Plus size={16} />
                 Adicionar
@@ -1230,7 +1300,7 @@ export function DietManagement() {
           </div>
 
           {meals.map((meal, mealIndex) => {
-            const mealTotals = calculateMealTotals(meal.foods);
+            const mealTotals = sumMacros(meal.foods);
 
             return (
               <Card key={meal.id} className={styles.mealCard}>
@@ -1318,13 +1388,13 @@ export function DietManagement() {
                         {food.food_name && (
                           <button
                             className={styles.substitutionButton}
-                            onClick={() => openSubstitutionModal(food.food_name)}
+                            onClick={() => openSubstitutionModal(food)}
                             title="Gerenciar substituicoes"
                           >
                             <RefreshCw size={16} />
-                            {getSubstitutionsForFood(food.food_name).length > 0 && (
+                            {getSubstitutionsForFood(food).length > 0 && (
                               <span className={styles.substitutionBadge}>
-                                {getSubstitutionsForFood(food.food_name).length}
+                                {getSubstitutionsForFood(food).length}
                               </span>
                             )}
                           </button>
@@ -1343,9 +1413,9 @@ export function DietManagement() {
                         </div>
                       )}
                       {/* Warning when unit has no peso_por_unidade defined */}
-                      {food.unit_type !== 'gramas' && !food.peso_por_unidade && food.food_name && (
+                      {!isMeasuredUnit(food.unit_type) && !food.peso_por_unidade && food.food_name && (
                         <div className={styles.unitWarning}>
-                          Este alimento nao tem peso por {getUnitLabel(food.unit_type)} definido
+                          Este alimento nao tem peso por {getUnitLabel(food.unit_type)} definido (considerando {DEFAULT_GRAMS_PER_UNIT}g)
                         </div>
                       )}
                       {food.calories !== undefined && food.calories > 0 && (
@@ -1490,11 +1560,11 @@ export function DietManagement() {
       )}
 
       {/* Modal de Substituições */}
-      {showSubstitutionModal && editingFoodName && (
+      {showSubstitutionModal && editingFood && (
         <div className={styles.modalOverlay} onClick={closeSubstitutionModal}>
           <div className={styles.substitutionModal} onClick={(e) => e.stopPropagation()}>
             <div className={styles.modalHeader}>
-              <h3>Substituicoes para: {editingFoodName}</h3>
+              <h3>Substituicoes para: {editingFood.food_name}</h3>
               <button onClick={closeSubstitutionModal} className={styles.modalCloseBtn}>
                 <X size={20} />
               </button>
@@ -1503,10 +1573,10 @@ export function DietManagement() {
               {/* Lista de substituições existentes */}
               <div className={styles.substitutionList}>
                 <p className={styles.substitutionListLabel}>Substitutos cadastrados:</p>
-                {getSubstitutionsForFood(editingFoodName).length === 0 ? (
+                {getSubstitutionsForFood(editingFood).length === 0 ? (
                   <p className={styles.noSubstitutions}>Nenhuma substituicao cadastrada.</p>
                 ) : (
-                  getSubstitutionsForFood(editingFoodName).map((sub) => (
+                  getSubstitutionsForFood(editingFood).map((sub) => (
                     <div key={sub.id} className={styles.substitutionItem}>
                       <span className={styles.substitutionItemText}>
                         {sub.substitute_food} ({sub.substitute_quantity}g)
@@ -1529,7 +1599,7 @@ export function DietManagement() {
                   <div className={styles.addSubstitutionFood}>
                     <FoodSelect
                       value={newSubstituteFood}
-                      onChange={setNewSubstituteFood}
+                      onChange={handleSubstituteFoodChange}
                       onFoodSelect={handleSubstituteFoodSelect}
                       placeholder="Buscar alimento..."
                     />
@@ -1652,6 +1722,21 @@ export function DietManagement() {
           </div>
         </div>
       )}
+
+      {/* Modal de Ajuste de Porções */}
+      {showPortionSolver && (
+        <PortionSolverModal
+          foods={portionSolverFoods}
+          goals={{
+            calories: macroGoals.calories_goal,
+            protein: macroGoals.protein_goal,
+            carbs: macroGoals.carbs_goal,
+            fats: macroGoals.fats_goal,
+          }}
+          onApply={applyPortions}
+          onClose={() => setShowPortionSolver(false)}
+        />
+      )}
     </PageContainer>
   );
 }
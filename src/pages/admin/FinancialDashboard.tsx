@@ -11,38 +11,52 @@ import {
   Clock,
   XCircle,
   RefreshCw,
+  Tag,
+  RotateCcw,
+  Download,
+  Gift,
+  FileText,
 } from 'lucide-react';
 import { PageContainer } from '../../components/layout';
 import { Card, Button } from '../../components/ui';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import type { Payment, PaymentWithPlan, Profile } from '../../types/database';
+import { RefundPaymentModal } from '../../components/admin/RefundPaymentModal';
+import { ScheduledJobsCard } from '../../components/admin/ScheduledJobsCard';
+import { RevenueAnalytics } from '../../components/admin/RevenueAnalytics';
+import { CheckoutFunnel } from '../../components/admin/CheckoutFunnel';
+import { ReferralReport } from '../../components/admin/ReferralReport';
+import { InvoiceFailuresCard } from '../../components/admin/InvoiceFailuresCard';
+import { ExportDataModal } from '../../components/admin/ExportDataModal';
+import type { AccessGrantType, PaymentWithPlan, Profile, RevenueOverview } from '../../types/database';
 import styles from './FinancialDashboard.module.css';
 
-interface RevenueStats {
-  today: number;
-  week: number;
-  month: number;
-  total: number;
-  pendingCount: number;
-  approvedCount: number;
-}
+const GRANT_LABELS: Record<AccessGrantType, string> = {
+  trial: 'Teste gratis',
+  complimentary: 'Cortesia',
+};
 
 export function FinancialDashboard() {
   const navigate = useNavigate();
   const { profile } = useAuth();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [stats, setStats] = useState<RevenueStats>({
-    today: 0,
-    week: 0,
-    month: 0,
-    total: 0,
-    pendingCount: 0,
-    approvedCount: 0,
+  const [stats, setStats] = useState<RevenueOverview>({
+    today_cents: 0,
+    week_cents: 0,
+    month_cents: 0,
+    total_cents: 0,
+    approved_count: 0,
+    pending_count: 0,
+    discount_cents: 0,
+    coupon_count: 0,
   });
+  // Bumped on refresh so the analytics card reloads too
+  const [refreshKey, setRefreshKey] = useState(0);
   const [recentPayments, setRecentPayments] = useState<PaymentWithPlan[]>([]);
   const [expiringClients, setExpiringClients] = useState<Profile[]>([]);
+  const [refundingPayment, setRefundingPayment] = useState<PaymentWithPlan | null>(null);
+  const [showExport, setShowExport] = useState(false);
 
   useEffect(() => {
     if (profile?.id) {
@@ -54,14 +68,18 @@ export function FinancialDashboard() {
     if (!profile?.id) return;
 
     try {
-      const [paymentsResult, clientsResult] = await Promise.all([
+      const [overviewResult, paymentsResult, clientsResult] = await Promise.all([
+        loadOverview(),
         loadPayments(),
         loadExpiringClients(),
       ]);
 
+      if (overviewResult) {
+        setStats(overviewResult);
+      }
+
       if (paymentsResult) {
-        calculateStats(paymentsResult);
-        setRecentPayments(paymentsResult.slice(0, 10));
+        setRecentPayments(paymentsResult);
       }
 
       if (clientsResult) {
@@ -79,11 +97,12 @@ export function FinancialDashboard() {
       .select(`
         *,
         plan:subscription_plans(name, duration_days),
-        client:profiles!payments_client_id_fkey(full_name, email)
+        client:profiles!payments_client_id_fkey(full_name, email),
+        invoice:invoices(status, invoice_number, pdf_url)
       `)
       .eq('owner_id', profile!.id)
       .order('created_at', { ascending: false })
-      .limit(100);
+      .limit(10);
 
     if (error) {
       console.error('Error loading payments:', error);
@@ -114,49 +133,20 @@ export function FinancialDashboard() {
     return data;
   };
 
-  const calculateStats = (payments: Payment[]) => {
-    const now = new Date();
-    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const weekStart = new Date(todayStart);
-    weekStart.setDate(weekStart.getDate() - 7);
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-
-    const approvedPayments = payments.filter((p) => p.status === 'approved');
-    const pendingPayments = payments.filter((p) => p.status === 'pending');
-
-    const stats: RevenueStats = {
-      today: 0,
-      week: 0,
-      month: 0,
-      total: 0,
-      pendingCount: pendingPayments.length,
-      approvedCount: approvedPayments.length,
-    };
-
-    for (const payment of approvedPayments) {
-      const paidAt = payment.paid_at ? new Date(payment.paid_at) : new Date(payment.created_at);
-      const amount = payment.amount_cents;
-
-      stats.total += amount;
-
-      if (paidAt >= monthStart) {
-        stats.month += amount;
-      }
-
-      if (paidAt >= weekStart) {
-        stats.week += amount;
-      }
+  const loadOverview = async (): Promise<RevenueOverview | null> => {
+    const { data, error } = await supabase.rpc('revenue_overview');
 
-      if (paidAt >= todayStart) {
-        stats.today += amount;
-      }
+    if (error) {
+      console.error('Error loading revenue overview:', error);
+      return null;
     }
 
-    setStats(stats);
+    return (data as RevenueOverview[])[0] ?? null;
   };
 
   const handleRefresh = () => {
     setRefreshing(true);
+    setRefreshKey((key) => key + 1);
     loadData();
   };
 
@@ -193,6 +183,8 @@ export function FinancialDashboard() {
         return { icon: XCircle, label: 'Rejeitado', className: styles.statusRejected };
       case 'expired':
         return { icon: XCircle, label: 'Expirado', className: styles.statusExpired };
+      case 'refunded':
+        return { icon: RotateCcw, label: 'Reembolsado', className: styles.statusExpired };
       default:
         return { icon: Clock, label: status, className: styles.statusPending };
     }
@@ -240,6 +232,9 @@ export function FinancialDashboard() {
           <h1 className={styles.title}>Financeiro</h1>
           <p className={styles.subtitle}>Acompanhe sua receita e pagamentos</p>
         </div>
+        <button className={styles.refreshButton} onClick={() => setShowExport(true)} title="Exportar dados">
+          <Download size={20} />
+        </button>
         <button className={styles.refreshButton} onClick={handleRefresh} disabled={refreshing}>
           <RefreshCw size={20} className={refreshing ? styles.spinning : ''} />
         </button>
@@ -254,7 +249,7 @@ export function FinancialDashboard() {
             </div>
             <div className={styles.statInfo}>
               <span className={styles.statLabel}>Hoje</span>
-              <span className={styles.statValue}>{formatCurrency(stats.today)}</span>
+              <span className={styles.statValue}>{formatCurrency(stats.today_cents)}</span>
             </div>
           </Card>
 
@@ -264,7 +259,7 @@ export function FinancialDashboard() {
             </div>
             <div className={styles.statInfo}>
               <span className={styles.statLabel}>Ultimos 7 dias</span>
-              <span className={styles.statValue}>{formatCurrency(stats.week)}</span>
+              <span className={styles.statValue}>{formatCurrency(stats.week_cents)}</span>
             </div>
           </Card>
 
@@ -274,7 +269,7 @@ export function FinancialDashboard() {
             </div>
             <div className={styles.statInfo}>
               <span className={styles.statLabel}>Este mes</span>
-              <span className={styles.statValue}>{formatCurrency(stats.month)}</span>
+              <span className={styles.statValue}>{formatCurrency(stats.month_cents)}</span>
             </div>
           </Card>
 
@@ -285,15 +280,41 @@ export function FinancialDashboard() {
             <div className={styles.statInfo}>
               <span className={styles.statLabel}>Pagamentos</span>
               <span className={styles.statValue}>
-                <span className={styles.approvedCount}>{stats.approvedCount}</span>
-                {stats.pendingCount > 0 && (
-                  <span className={styles.pendingCount}> / {stats.pendingCount} pend.</span>
+                <span className={styles.approvedCount}>{stats.approved_count}</span>
+                {stats.pending_count > 0 && (
+                  <span className={styles.pendingCount}> / {stats.pending_count} pend.</span>
                 )}
               </span>
             </div>
           </Card>
+
+          {stats.coupon_count > 0 && (
+            <Card className={`${styles.statCard} ${styles.statCardWide}`}>
+              <div className={styles.statIcon}>
+                <Tag size={20} />
+              </div>
+              <div className={styles.statInfo}>
+                <span className={styles.statLabel}>Descontos em cupons</span>
+                <span className={styles.statValue}>
+                  {formatCurrency(stats.discount_cents)}
+                  <span className={styles.pendingCount}>
+                    {' '}/ {stats.coupon_count} {stats.coupon_count === 1 ? 'venda' : 'vendas'}
+                  </span>
+                </span>
+              </div>
+            </Card>
+          )}
         </div>
 
+        {/* Revenue Analytics */}
+        <RevenueAnalytics refreshKey={refreshKey} />
+
+        {/* Checkout Funnel */}
+        <CheckoutFunnel refreshKey={refreshKey} />
+
+        {/* Referrals */}
+        <ReferralReport refreshKey={refreshKey} />
+
         {/* Expiring Clients Alert */}
         {expiringClients.length > 0 && (
           <Card className={styles.alertCard}>
@@ -341,8 +362,36 @@ export function FinancialDashboard() {
                       <div className={styles.paymentInfo}>
                         <span className={styles.paymentName}>{payment.customer_name}</span>
                         <span className={styles.paymentMeta}>
-                          {getMethodLabel(payment.payment_method)} • {formatDateTime(payment.created_at)}
+                          {payment.grant_type ? GRANT_LABELS[payment.grant_type] : getMethodLabel(payment.payment_method)} • {formatDateTime(payment.created_at)}
                         </span>
+                        {payment.status === 'approved' && (payment.refunded_amount_cents || 0) > 0 && (
+                          <span className={styles.paymentRefunded}>
+                            Reembolsado {formatCurrency(payment.refunded_amount_cents)}
+                          </span>
+                        )}
+                        {payment.coupon_code && (
+                          <span className={styles.paymentCoupon}>
+                            <Tag size={11} />
+                            {payment.coupon_code} (-{formatCurrency(payment.discount_cents)})
+                          </span>
+                        )}
+                        {payment.grant_reason && (
+                          <span className={styles.paymentCoupon}>
+                            <Gift size={11} />
+                            {payment.grant_reason}
+                          </span>
+                        )}
+                        {payment.invoice?.status === 'issued' && (
+                          <a
+                            className={styles.paymentInvoice}
+                            href={payment.invoice.pdf_url ?? undefined}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <FileText size={11} />
+                            NFS-e {payment.invoice.invoice_number}
+                          </a>
+                        )}
                       </div>
                       <div className={styles.paymentRight}>
                         <span className={styles.paymentAmount}>{formatCurrency(payment.amount_cents)}</span>
@@ -350,6 +399,16 @@ export function FinancialDashboard() {
                           <StatusIcon size={12} />
                           {statusConfig.label}
                         </span>
+                        {payment.status === 'approved' && !payment.grant_type && (
+                          <button
+                            className={styles.refundButton}
+                            onClick={() => setRefundingPayment(payment)}
+                            title="Reembolsar pagamento"
+                          >
+                            <RotateCcw size={12} />
+                            Reembolsar
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -358,7 +417,21 @@ export function FinancialDashboard() {
             </div>
           )}
         </Card>
+
+        {/* Service invoices that failed to issue */}
+        <InvoiceFailuresCard refreshKey={refreshKey} onRetry={loadData} />
+
+        {/* Daily expiry routine */}
+        <ScheduledJobsCard onRun={handleRefresh} />
       </main>
+
+      <RefundPaymentModal
+        payment={refundingPayment}
+        onClose={() => setRefundingPayment(null)}
+        onSuccess={handleRefresh}
+      />
+
+      <ExportDataModal isOpen={showExport} onClose={() => setShowExport(false)} />
     </PageContainer>
   );
 }
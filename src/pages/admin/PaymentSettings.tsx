@@ -15,16 +15,22 @@ import {
   TestTube2,
   Copy,
   ExternalLink,
+  Tag,
+  AlertTriangle,
+  Mail,
+  Gift,
+  FileText,
 } from 'lucide-react';
 import { PageContainer } from '../../components/layout';
 import { Card, Button, Input } from '../../components/ui';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { PlansManager } from '../../components/admin/PlansManager';
-import type { PaymentSettings as PaymentSettingsType, PaymentGateway } from '../../types/database';
+import { CouponsManager } from '../../components/admin/CouponsManager';
+import type { PaymentSettings as PaymentSettingsType, PaymentGateway, GatewaySecretField, InvoiceProvider } from '../../types/database';
 import styles from './PaymentSettings.module.css';
 
-type TabType = 'gateway' | 'methods' | 'checkout' | 'plans';
+type TabType = 'gateway' | 'methods' | 'checkout' | 'plans' | 'coupons';
 
 const GATEWAY_OPTIONS: { value: PaymentGateway; label: string; description: string }[] = [
   { value: 'none', label: 'Nenhum', description: 'Pagamentos desabilitados' },
@@ -32,6 +38,63 @@ const GATEWAY_OPTIONS: { value: PaymentGateway; label: string; description: stri
   { value: 'asaas', label: 'Asaas', description: 'PIX, Boleto e Cartao' },
   { value: 'pagseguro', label: 'PagSeguro', description: 'PIX, Boleto e Cartao' },
   { value: 'pagarme', label: 'Pagar.me', description: 'PIX, Boleto e Cartao' },
+  // Also needs ALLOW_FAKE_GATEWAY=true on the edge functions
+  ...(import.meta.env.DEV || import.meta.env.VITE_ENABLE_FAKE_GATEWAY === 'true'
+    ? [{ value: 'fake' as const, label: 'Simulador', description: 'Pagamentos de teste, sem cobranca real' }]
+    : []),
+];
+
+const INVOICE_PROVIDER_OPTIONS: { value: InvoiceProvider; label: string }[] = [
+  { value: 'none', label: 'Nenhum' },
+  // Also needs ALLOW_MOCK_INVOICES=true on the edge functions
+  ...(import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_INVOICES === 'true'
+    ? [{ value: 'mock' as const, label: 'Simulador' }]
+    : []),
+];
+
+// Columns the admin saves directly; secrets go through payment-settings-secrets
+const EDITABLE_FIELDS = [
+  'active_gateway',
+  'mp_public_key',
+  'asaas_environment',
+  'ps_email',
+  'pix_enabled',
+  'boleto_enabled',
+  'credit_card_enabled',
+  'checkout_slug',
+  'checkout_title',
+  'checkout_description',
+  'checkout_success_message',
+  'recovery_email_enabled',
+  'recovery_email_delay_minutes',
+  'max_installments',
+  'min_installment_cents',
+  'interest_free_installments',
+  'installment_interest_percent',
+  'referral_enabled',
+  'referral_reward_type',
+  'referral_reward_days',
+  'referral_reward_percent',
+  'invoice_enabled',
+  'invoice_provider',
+  'invoice_service_code',
+  'invoice_iss_rate',
+  'invoice_municipal_registration',
+] as const;
+
+// Response of the payment-test-credentials edge function
+interface CredentialTestResult {
+  valid: boolean;
+  error?: string;
+  account_name?: string | null;
+  environment?: 'sandbox' | 'production';
+  methods?: Record<'pix' | 'boleto' | 'credit_card', boolean>;
+}
+
+const METHOD_LABELS: { key: 'pix' | 'boleto' | 'credit_card'; enabledKey: 'pix_enabled' | 'boleto_enabled' | 'credit_card_enabled'; label: string }[] = [
+  { key: 'pix', enabledKey: 'pix_enabled', label: 'PIX' },
+  { key: 'boleto', enabledKey: 'boleto_enabled', label: 'Boleto' },
+  { key: 'credit_card', enabledKey: 'credit_card_enabled', label: 'Cartao' },
 ];
 
 export function PaymentSettings() {
@@ -46,6 +109,19 @@ export function PaymentSettings() {
     checkout_title: 'Plano de Acompanhamento',
     checkout_success_message: 'Pagamento realizado com sucesso! Voce recebera um email com suas credenciais de acesso.',
     asaas_environment: 'sandbox',
+    recovery_email_enabled: true,
+    recovery_email_delay_minutes: 60,
+    max_installments: 12,
+    min_installment_cents: 500,
+    interest_free_installments: 12,
+    installment_interest_percent: 0,
+    referral_enabled: false,
+    referral_reward_type: 'days',
+    referral_reward_days: 30,
+    referral_reward_percent: 20,
+    invoice_enabled: false,
+    invoice_provider: 'none',
+    invoice_iss_rate: 0,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -53,6 +129,9 @@ export function PaymentSettings() {
   const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const [showSecrets, setShowSecrets] = useState<Record<string, boolean>>({});
+  const [testResult, setTestResult] = useState<CredentialTestResult | null>(null);
+  // New values typed for secrets being replaced
+  const [secretDrafts, setSecretDrafts] = useState<Partial<Record<GatewaySecretField, string>>>({});
 
   // Load settings on mount
   useEffect(() => {
@@ -67,7 +146,8 @@ export function PaymentSettings() {
     try {
       const { data, error } = await supabase
         .from('payment_settings')
-        .select('*')
+        // Gateway secrets are not readable from the browser, only their hints
+        .select('id, owner_id, active_gateway, mp_public_key, mp_user_id, asaas_environment, ps_email, pix_enabled, boleto_enabled, credit_card_enabled, checkout_slug, checkout_title, checkout_description, checkout_success_message, recovery_email_enabled, recovery_email_delay_minutes, max_installments, min_installment_cents, interest_free_installments, installment_interest_percent, referral_enabled, referral_reward_type, referral_reward_days, referral_reward_percent, invoice_enabled, invoice_provider, invoice_service_code, invoice_iss_rate, invoice_municipal_registration, secret_hints, created_at, updated_at')
         .eq('owner_id', profile.id)
         .maybeSingle();
 
@@ -90,6 +170,7 @@ export function PaymentSettings() {
     setSettings((prev) => ({ ...prev, [key]: value }));
     setHasChanges(true);
     setSaveMessage(null);
+    setTestResult(null);
   };
 
   const handleSave = async () => {
@@ -106,10 +187,7 @@ export function PaymentSettings() {
         .eq('owner_id', profile.id)
         .maybeSingle();
 
-      const settingsToSave = {
-        ...settings,
-        owner_id: profile.id,
-      };
+      const settingsToSave = Object.fromEntries(EDITABLE_FIELDS.map((field) => [field, settings[field]]));
 
       let error;
       if (existing) {
@@ -123,17 +201,38 @@ export function PaymentSettings() {
         // Insert
         const result = await supabase
           .from('payment_settings')
-          .insert(settingsToSave);
+          .insert({ ...settingsToSave, owner_id: profile.id });
         error = result.error;
       }
 
       if (error) {
         console.error('Error saving settings:', error);
         setSaveMessage({ type: 'error', text: 'Erro ao salvar configuracoes' });
-      } else {
-        setSaveMessage({ type: 'success', text: 'Configuracoes salvas!' });
-        setHasChanges(false);
+        return;
+      }
+
+      // Replaced secrets are encrypted server-side; only their hints come back
+      const replacedSecrets = Object.fromEntries(
+        Object.entries(secretDrafts).filter(([, value]) => value && value.trim())
+      );
+
+      if (Object.keys(replacedSecrets).length > 0) {
+        const { data, error: secretsError } = await supabase.functions.invoke('payment-settings-secrets', {
+          body: { secrets: replacedSecrets },
+        });
+
+        if (secretsError || data?.error) {
+          console.error('Error saving secrets:', secretsError || data?.error);
+          setSaveMessage({ type: 'error', text: 'Erro ao salvar credenciais' });
+          return;
+        }
+
+        setSettings((prev) => ({ ...prev, secret_hints: data.secret_hints }));
       }
+
+      setSecretDrafts({});
+      setSaveMessage({ type: 'success', text: 'Configuracoes salvas!' });
+      setHasChanges(false);
     } catch (err) {
       console.error('Error:', err);
       setSaveMessage({ type: 'error', text: 'Erro ao salvar configuracoes' });
@@ -146,42 +245,30 @@ export function PaymentSettings() {
   const handleTestConnection = async () => {
     setTesting(true);
     setSaveMessage(null);
+    setTestResult(null);
 
     try {
-      // For now, just validate that credentials are filled
-      const gateway = settings.active_gateway;
-
-      if (gateway === 'none') {
-        setSaveMessage({ type: 'error', text: 'Selecione um gateway primeiro' });
-        return;
-      }
-
-      let hasCredentials = false;
-      switch (gateway) {
-        case 'mercado_pago':
-          hasCredentials = !!(settings.mp_access_token && settings.mp_public_key);
-          break;
-        case 'asaas':
-          hasCredentials = !!settings.asaas_api_key;
-          break;
-        case 'pagseguro':
-          hasCredentials = !!(settings.ps_email && settings.ps_token);
-          break;
-        case 'pagarme':
-          hasCredentials = !!(settings.pm_api_key && settings.pm_encryption_key);
-          break;
-      }
+      const { data, error } = await supabase.functions.invoke('payment-test-credentials', {
+        body: {
+          gateway: settings.active_gateway,
+          // Unsaved replacements are tested as typed; the rest are read server-side
+          credentials: {
+            ...secretDrafts,
+            asaas_environment: settings.asaas_environment,
+          },
+        },
+      });
 
-      if (!hasCredentials) {
-        setSaveMessage({ type: 'error', text: 'Preencha todas as credenciais do gateway' });
+      if (error) {
+        console.error('Error testing credentials:', error);
+        setSaveMessage({ type: 'error', text: 'Erro ao testar conexao' });
+        setTimeout(() => setSaveMessage(null), 3000);
         return;
       }
 
-      // TODO: Actually test the connection via Edge Function
-      setSaveMessage({ type: 'success', text: 'Credenciais configuradas! Teste de conexao em breve.' });
+      setTestResult(data);
     } finally {
       setTesting(false);
-      setTimeout(() => setSaveMessage(null), 3000);
     }
   };
 
@@ -189,6 +276,65 @@ export function PaymentSettings() {
     setShowSecrets((prev) => ({ ...prev, [field]: !prev[field] }));
   };
 
+  const updateSecretDraft = (field: GatewaySecretField, value: string) => {
+    setSecretDrafts((prev) => ({ ...prev, [field]: value }));
+    setHasChanges(true);
+    setSaveMessage(null);
+    setTestResult(null);
+  };
+
+  const cancelSecretDraft = (field: GatewaySecretField) => {
+    setSecretDrafts((prev) => {
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  };
+
+  // Stored secrets are shown masked; typing a new one replaces it on save
+  const renderSecretField = (field: GatewaySecretField, label: string, placeholder: string) => {
+    const hint = settings.secret_hints?.[field];
+    const isStored = hint !== undefined;
+
+    if (isStored && secretDrafts[field] === undefined) {
+      return (
+        <div className={styles.storedSecret}>
+          <span className={styles.storedSecretLabel}>{label}</span>
+          <div className={styles.storedSecretValue}>
+            <span>{hint ? `•••• ${hint}` : '••••••••'}</span>
+            <button type="button" className={styles.secretAction} onClick={() => updateSecretDraft(field, '')}>
+              Substituir
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className={styles.credentialField}>
+        <Input
+          label={label}
+          type={showSecrets[field] ? 'text' : 'password'}
+          value={secretDrafts[field] || ''}
+          onChange={(e) => updateSecretDraft(field, e.target.value)}
+          placeholder={placeholder}
+        />
+        <button
+          type="button"
+          className={styles.toggleSecret}
+          onClick={() => toggleSecretVisibility(field)}
+        >
+          {showSecrets[field] ? <EyeOff size={18} /> : <Eye size={18} />}
+        </button>
+        {isStored && (
+          <button type="button" className={styles.secretAction} onClick={() => cancelSecretDraft(field)}>
+            Manter atual
+          </button>
+        )}
+      </div>
+    );
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -264,6 +410,13 @@ export function PaymentSettings() {
           <Receipt size={16} />
           Planos
         </button>
+        <button
+          onClick={() => setActiveTab('coupons')}
+          className={`${styles.tab} ${activeTab === 'coupons' ? styles.tabActive : ''}`}
+        >
+          <Tag size={16} />
+          Cupons
+        </button>
       </div>
 
       <main className={styles.content}>
@@ -297,6 +450,18 @@ export function PaymentSettings() {
               </div>
             </Card>
 
+            {settings.active_gateway === 'fake' && (
+              <Card className={styles.card}>
+                <h3 className={styles.sectionTitle}>Gateway Simulado</h3>
+                <p className={styles.sectionDescription}>
+                  Nenhuma cobranca real e feita. PIX e boleto sao aprovados apos alguns segundos
+                  (use um email com +reject para recusar ou +expire para expirar).
+                  Cartoes terminados em 0002 sao recusados, 0003 aprovados com atraso,
+                  0004 recusados com atraso; qualquer outro numero e aprovado na hora.
+                </p>
+              </Card>
+            )}
+
             {/* Gateway Credentials */}
             {settings.active_gateway === 'mercado_pago' && (
               <Card className={styles.card}>
@@ -308,22 +473,7 @@ export function PaymentSettings() {
                   </a>
                 </p>
 
-                <div className={styles.credentialField}>
-                  <Input
-                    label="Access Token"
-                    type={showSecrets['mp_access_token'] ? 'text' : 'password'}
-                    value={settings.mp_access_token || ''}
-                    onChange={(e) => updateSetting('mp_access_token', e.target.value)}
-                    placeholder="APP_USR-..."
-                  />
-                  <button
-                    type="button"
-                    className={styles.toggleSecret}
-                    onClick={() => toggleSecretVisibility('mp_access_token')}
-                  >
-                    {showSecrets['mp_access_token'] ? <EyeOff size={18} /> : <Eye size={18} />}
-                  </button>
-                </div>
+                {renderSecretField('mp_access_token', 'Access Token', 'APP_USR-...')}
 
                 <Input
                   label="Public Key"
@@ -331,6 +481,11 @@ export function PaymentSettings() {
                   onChange={(e) => updateSetting('mp_public_key', e.target.value)}
                   placeholder="APP_USR-..."
                 />
+
+                {renderSecretField('mp_webhook_secret', 'Assinatura secreta do Webhook', 'Gerada em Suas integracoes > Webhooks')}
+                <p className={styles.sectionDescription}>
+                  Sem a assinatura secreta as notificacoes do Mercado Pago sao recusadas.
+                </p>
               </Card>
             )}
 
@@ -344,22 +499,12 @@ export function PaymentSettings() {
                   </a>
                 </p>
 
-                <div className={styles.credentialField}>
-                  <Input
-                    label="API Key"
-                    type={showSecrets['asaas_api_key'] ? 'text' : 'password'}
-                    value={settings.asaas_api_key || ''}
-                    onChange={(e) => updateSetting('asaas_api_key', e.target.value)}
-                    placeholder="$aact_..."
-                  />
-                  <button
-                    type="button"
-                    className={styles.toggleSecret}
-                    onClick={() => toggleSecretVisibility('asaas_api_key')}
-                  >
-                    {showSecrets['asaas_api_key'] ? <EyeOff size={18} /> : <Eye size={18} />}
-                  </button>
-                </div>
+                {renderSecretField('asaas_api_key', 'API Key', '$aact_...')}
+
+                {renderSecretField('asaas_webhook_token', 'Token de autenticacao do Webhook', 'Mesmo token informado no webhook do Asaas')}
+                <p className={styles.sectionDescription}>
+                  Sem o token as notificacoes do Asaas sao recusadas.
+                </p>
 
                 <div className={styles.environmentToggle}>
                   <span className={styles.environmentLabel}>Ambiente:</span>
@@ -399,22 +544,7 @@ export function PaymentSettings() {
                   placeholder="seu@email.com"
                 />
 
-                <div className={styles.credentialField}>
-                  <Input
-                    label="Token"
-                    type={showSecrets['ps_token'] ? 'text' : 'password'}
-                    value={settings.ps_token || ''}
-                    onChange={(e) => updateSetting('ps_token', e.target.value)}
-                    placeholder="Token de 32 caracteres"
-                  />
-                  <button
-                    type="button"
-                    className={styles.toggleSecret}
-                    onClick={() => toggleSecretVisibility('ps_token')}
-                  >
-                    {showSecrets['ps_token'] ? <EyeOff size={18} /> : <Eye size={18} />}
-                  </button>
-                </div>
+                {renderSecretField('ps_token', 'Token', 'Token de 32 caracteres')}
               </Card>
             )}
 
@@ -428,39 +558,9 @@ export function PaymentSettings() {
                   </a>
                 </p>
 
-                <div className={styles.credentialField}>
-                  <Input
-                    label="API Key"
-                    type={showSecrets['pm_api_key'] ? 'text' : 'password'}
-                    value={settings.pm_api_key || ''}
-                    onChange={(e) => updateSetting('pm_api_key', e.target.value)}
-                    placeholder="ak_live_..."
-                  />
-                  <button
-                    type="button"
-                    className={styles.toggleSecret}
-                    onClick={() => toggleSecretVisibility('pm_api_key')}
-                  >
-                    {showSecrets['pm_api_key'] ? <EyeOff size={18} /> : <Eye size={18} />}
-                  </button>
-                </div>
+                {renderSecretField('pm_api_key', 'API Key', 'ak_live_...')}
 
-                <div className={styles.credentialField}>
-                  <Input
-                    label="Encryption Key"
-                    type={showSecrets['pm_encryption_key'] ? 'text' : 'password'}
-                    value={settings.pm_encryption_key || ''}
-                    onChange={(e) => updateSetting('pm_encryption_key', e.target.value)}
-                    placeholder="ek_live_..."
-                  />
-                  <button
-                    type="button"
-                    className={styles.toggleSecret}
-                    onClick={() => toggleSecretVisibility('pm_encryption_key')}
-                  >
-                    {showSecrets['pm_encryption_key'] ? <EyeOff size={18} /> : <Eye size={18} />}
-                  </button>
-                </div>
+                {renderSecretField('pm_encryption_key', 'Encryption Key', 'ek_live_...')}
               </Card>
             )}
 
@@ -470,6 +570,47 @@ export function PaymentSettings() {
                 Testar Conexao
               </Button>
             )}
+
+            {testResult && (
+              <Card className={styles.card}>
+                {testResult.valid ? (
+                  <>
+                    <div className={styles.testHeader}>
+                      <Check size={18} className={styles.testOk} />
+                      <h3 className={styles.sectionTitle}>Conexao funcionando</h3>
+                    </div>
+                    <p className={styles.sectionDescription}>
+                      {testResult.account_name ? `Conta: ${testResult.account_name} • ` : ''}
+                      Ambiente: {testResult.environment === 'production' ? 'Producao' : 'Sandbox'}
+                    </p>
+
+                    <div className={styles.testMethods}>
+                      {METHOD_LABELS.map((method) => (
+                        <span
+                          key={method.key}
+                          className={testResult.methods?.[method.key] ? styles.testMethodOk : styles.testMethodOff}
+                        >
+                          {testResult.methods?.[method.key] ? <Check size={14} /> : <X size={14} />}
+                          {method.label}
+                        </span>
+                      ))}
+                    </div>
+
+                    {METHOD_LABELS.filter((method) => settings[method.enabledKey] && !testResult.methods?.[method.key]).map((method) => (
+                      <p key={method.key} className={styles.testWarning}>
+                        <AlertTriangle size={14} />
+                        {method.label} esta habilitado, mas a conta nao aceita esse metodo.
+                      </p>
+                    ))}
+                  </>
+                ) : (
+                  <div className={styles.testHeader}>
+                    <X size={18} className={styles.testFailed} />
+                    <h3 className={styles.sectionTitle}>{testResult.error || 'Credenciais invalidas'}</h3>
+                  </div>
+                )}
+              </Card>
+            )}
           </div>
         )}
 
@@ -532,6 +673,51 @@ export function PaymentSettings() {
                 </label>
               </div>
             </Card>
+
+            {(settings.credit_card_enabled ?? true) && (
+              <Card className={styles.card}>
+                <h3 className={styles.sectionTitle}>Parcelamento no Cartao</h3>
+                <p className={styles.sectionDescription}>
+                  Regras padrao para todos os planos. Cada plano pode definir seu proprio limite de parcelas.
+                </p>
+
+                <div className={styles.installmentFields}>
+                  <Input
+                    label="Maximo de parcelas"
+                    type="number"
+                    min={1}
+                    max={12}
+                    value={settings.max_installments ?? 12}
+                    onChange={(e) => updateSetting('max_installments', Math.min(Math.max(parseInt(e.target.value) || 1, 1), 12))}
+                  />
+                  <Input
+                    label="Parcela minima (R$)"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={(settings.min_installment_cents ?? 500) / 100}
+                    onChange={(e) => updateSetting('min_installment_cents', Math.round((parseFloat(e.target.value) || 0) * 100))}
+                  />
+                  <Input
+                    label="Sem juros ate (parcelas)"
+                    type="number"
+                    min={1}
+                    max={12}
+                    value={settings.interest_free_installments ?? 12}
+                    onChange={(e) => updateSetting('interest_free_installments', Math.max(parseInt(e.target.value) || 1, 1))}
+                  />
+                  <Input
+                    label="Juros ao mes (%)"
+                    type="number"
+                    min={0}
+                    max={20}
+                    step="0.01"
+                    value={settings.installment_interest_percent ?? 0}
+                    onChange={(e) => updateSetting('installment_interest_percent', parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+              </Card>
+            )}
           </div>
         )}
 
@@ -613,6 +799,175 @@ export function PaymentSettings() {
                 />
               </div>
             </Card>
+
+            <Card className={styles.card}>
+              <h3 className={styles.sectionTitle}>Recuperacao de Checkout</h3>
+              <p className={styles.sectionDescription}>
+                Envie um email com link para retomar a compra a quem preencheu os dados e nao pagou
+              </p>
+
+              <div className={styles.methodOptions}>
+                <label className={styles.methodOption}>
+                  <input
+                    type="checkbox"
+                    checked={settings.recovery_email_enabled ?? true}
+                    onChange={(e) => updateSetting('recovery_email_enabled', e.target.checked)}
+                    className={styles.methodCheckbox}
+                  />
+                  <div className={styles.methodIcon}>
+                    <Mail size={24} />
+                  </div>
+                  <div className={styles.methodInfo}>
+                    <span className={styles.methodLabel}>Email de recuperacao</span>
+                    <span className={styles.methodDescription}>Enviado uma unica vez por checkout abandonado</span>
+                  </div>
+                </label>
+              </div>
+
+              {(settings.recovery_email_enabled ?? true) && (
+                <Input
+                  label="Enviar apos (minutos)"
+                  type="number"
+                  min={15}
+                  value={settings.recovery_email_delay_minutes ?? 60}
+                  onChange={(e) => updateSetting('recovery_email_delay_minutes', parseInt(e.target.value) || 0)}
+                />
+              )}
+            </Card>
+
+            <Card className={styles.card}>
+              <h3 className={styles.sectionTitle}>Programa de Indicacao</h3>
+              <p className={styles.sectionDescription}>
+                Cada cliente recebe um link de indicacao no perfil. Quando um indicado faz a primeira compra, quem indicou ganha a recompensa.
+              </p>
+
+              <div className={styles.methodOptions}>
+                <label className={styles.methodOption}>
+                  <input
+                    type="checkbox"
+                    checked={settings.referral_enabled ?? false}
+                    onChange={(e) => updateSetting('referral_enabled', e.target.checked)}
+                    className={styles.methodCheckbox}
+                  />
+                  <div className={styles.methodIcon}>
+                    <Gift size={24} />
+                  </div>
+                  <div className={styles.methodInfo}>
+                    <span className={styles.methodLabel}>Indicacoes ativas</span>
+                    <span className={styles.methodDescription}>Recompensa aplicada automaticamente na aprovacao do pagamento</span>
+                  </div>
+                </label>
+              </div>
+
+              {settings.referral_enabled && (
+                <>
+                  <div className={styles.environmentToggle}>
+                    <span className={styles.environmentLabel}>Recompensa:</span>
+                    <div className={styles.environmentButtons}>
+                      <button
+                        className={`${styles.envButton} ${settings.referral_reward_type !== 'coupon' ? styles.envButtonActive : ''}`}
+                        onClick={() => updateSetting('referral_reward_type', 'days')}
+                      >
+                        Dias extras
+                      </button>
+                      <button
+                        className={`${styles.envButton} ${settings.referral_reward_type === 'coupon' ? styles.envButtonActive : ''}`}
+                        onClick={() => updateSetting('referral_reward_type', 'coupon')}
+                      >
+                        Cupom
+                      </button>
+                    </div>
+                  </div>
+
+                  {settings.referral_reward_type === 'coupon' ? (
+                    <Input
+                      label="Desconto do cupom (%)"
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={settings.referral_reward_percent ?? 20}
+                      onChange={(e) => updateSetting('referral_reward_percent', Math.min(Math.max(parseInt(e.target.value) || 1, 1), 100))}
+                    />
+                  ) : (
+                    <Input
+                      label="Dias adicionados ao plano"
+                      type="number"
+                      min={1}
+                      value={settings.referral_reward_days ?? 30}
+                      onChange={(e) => updateSetting('referral_reward_days', Math.max(parseInt(e.target.value) || 1, 1))}
+                    />
+                  )}
+                </>
+              )}
+            </Card>
+
+            <Card className={styles.card}>
+              <h3 className={styles.sectionTitle}>Nota Fiscal (NFS-e)</h3>
+              <p className={styles.sectionDescription}>
+                Emite a nota fiscal de servico de cada pagamento aprovado. Falhas sao tentadas novamente e aparecem no painel financeiro.
+              </p>
+
+              <div className={styles.methodOptions}>
+                <label className={styles.methodOption}>
+                  <input
+                    type="checkbox"
+                    checked={settings.invoice_enabled ?? false}
+                    onChange={(e) => updateSetting('invoice_enabled', e.target.checked)}
+                    className={styles.methodCheckbox}
+                  />
+                  <div className={styles.methodIcon}>
+                    <FileText size={24} />
+                  </div>
+                  <div className={styles.methodInfo}>
+                    <span className={styles.methodLabel}>Emissao automatica</span>
+                    <span className={styles.methodDescription}>Testes gratis e acessos cortesia nao geram nota</span>
+                  </div>
+                </label>
+              </div>
+
+              {settings.invoice_enabled && (
+                <>
+                  <div className={styles.environmentToggle}>
+                    <span className={styles.environmentLabel}>Provedor:</span>
+                    <div className={styles.environmentButtons}>
+                      {INVOICE_PROVIDER_OPTIONS.map((option) => (
+                        <button
+                          key={option.value}
+                          className={`${styles.envButton} ${(settings.invoice_provider ?? 'none') === option.value ? styles.envButtonActive : ''}`}
+                          onClick={() => updateSetting('invoice_provider', option.value)}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className={styles.installmentFields}>
+                    <Input
+                      label="Codigo do servico"
+                      placeholder="Ex: 04.10"
+                      value={settings.invoice_service_code ?? ''}
+                      onChange={(e) => updateSetting('invoice_service_code', e.target.value || null)}
+                    />
+                    <Input
+                      label="Aliquota de ISS (%)"
+                      type="number"
+                      min={0}
+                      max={5}
+                      step="0.01"
+                      value={settings.invoice_iss_rate ?? 0}
+                      onChange={(e) => updateSetting('invoice_iss_rate', Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 5))}
+                    />
+                  </div>
+
+                  <Input
+                    label="Inscricao municipal"
+                    value={settings.invoice_municipal_registration ?? ''}
+                    onChange={(e) => updateSetting('invoice_municipal_registration', e.target.value || null)}
+                  />
+                </>
+              )}
+            </Card>
           </div>
         )}
 
@@ -623,6 +978,13 @@ export function PaymentSettings() {
           </div>
         )}
 
+        {/* Coupons Tab */}
+        {activeTab === 'coupons' && (
+          <div className={styles.section}>
+            <CouponsManager ownerId={profile?.id || ''} />
+          </div>
+        )}
+
         {/* Save Message */}
         {saveMessage && (
           <div className={`${styles.saveMessage} ${styles[saveMessage.type]}`}>
@@ -632,8 +994,8 @@ export function PaymentSettings() {
         )}
       </main>
 
-      {/* Bottom Actions (only show for non-plans tabs) */}
-      {activeTab !== 'plans' && (
+      {/* Bottom Actions (plans and coupons save on their own) */}
+      {activeTab !== 'plans' && activeTab !== 'coupons' && (
         <div className={styles.bottomActions}>
           <Button onClick={handleSave} loading={saving} disabled={!hasChanges} fullWidth>
             <Save size={16} />
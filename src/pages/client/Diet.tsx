@@ -2,13 +2,25 @@ import { useEffect, useState, useRef, useMemo, useCallback } from 'react';
 import { Clock, ChevronRight, ChevronDown, ChevronUp, Plus, Trash2, RefreshCw } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
+import { fetchFoodLookup } from '../../lib/foods';
 import { usePageData } from '../../hooks';
 import { PageContainer, Header, BottomNav } from '../../components/layout';
-import { Card, Checkbox, Button, Modal, MacroPieChart, DailyMacrosSummary, AddExtraMealModal } from '../../components/ui';
+import { Card, Checkbox, Button, Modal, MacroPieChart, DailyMacrosSummary, MicronutrientBreakdown, AddExtraMealModal } from '../../components/ui';
 import type { ExtraMeal } from '../../components/ui';
-import { parseBrazilianNumber } from '../../components/ui/FoodSelect';
 import { formatFoodName } from '../../utils/formatters';
 import { formatQuantityDisplay } from '../../utils/foodUnits';
+import {
+  calculateDayTotals,
+  calculateMealFoodMacros,
+  calculateMealFoodMicronutrients,
+  calculateSubstitutionItemMacros,
+  calculateSubstitutionItemMicronutrients,
+  isSameFood,
+  parseBrazilianNumber,
+  sumMacros,
+  sumMicronutrients,
+} from '../../utils/nutrition';
+import type { FoodLookup, FoodReference, MacroTotals, MicronutrientTotals } from '../../utils/nutrition';
 import { UNIT_TYPES } from '../../constants/foodUnits';
 import type { Meal, MealFood, FoodSubstitution, UnitType, FoodEquivalenceGroup, FoodEquivalence, DietPlan, MealSubstitution, MealSubstitutionItem } from '../../types/database';
 import styles from './Diet.module.css';
@@ -40,6 +52,7 @@ interface MealFoodWithNutrition extends MealFood {
   protein?: number;
   carbs?: number;
   fats?: number;
+  micronutrients?: MicronutrientTotals;
   display_name?: string; // Nome simplificado para exibicao
 }
 
@@ -49,6 +62,7 @@ interface MealSubstitutionItemWithNutrition extends MealSubstitutionItem {
   protein?: number;
   carbs?: number;
   fats?: number;
+  micronutrients?: MicronutrientTotals;
   display_name?: string;
 }
 
@@ -59,6 +73,7 @@ interface MealSubstitutionWithNutrition extends Omit<MealSubstitution, 'items'>
   totalProtein: number;
   totalCarbs: number;
   totalFats: number;
+  totalMicronutrients: MicronutrientTotals;
 }
 
 interface MealWithNutrition extends Meal {
@@ -67,9 +82,103 @@ interface MealWithNutrition extends Meal {
   totalProtein: number;
   totalCarbs: number;
   totalFats: number;
+  totalMicronutrients: MicronutrientTotals;
   meal_substitutions_with_nutrition?: MealSubstitutionWithNutrition[];
 }
 
+// Referencias (food_id ou nome) de todos os alimentos do plano, incluindo
+// os das substituições de refeição
+function collectFoodReferences(dietMeals: any[]): FoodReference[] {
+  const refs: FoodReference[] = [];
+  dietMeals.forEach((meal) => {
+    meal.meal_foods?.forEach((food: MealFood) => refs.push(food));
+    meal.meal_substitutions?.forEach((sub: MealSubstitution) => {
+      sub.items?.forEach((item) => refs.push(item));
+    });
+  });
+  return refs;
+}
+
+// Calcula os macros de cada alimento, refeição e opção de refeição
+function buildMealsWithNutrition(dietMeals: any[], findFood: FoodLookup): MealWithNutrition[] {
+  return [...dietMeals]
+    .sort((a, b) => (a.order_index || 0) - (b.order_index || 0))
+    .map((meal) => {
+      const foodsWithNutrition: MealFoodWithNutrition[] = [...(meal.meal_foods || [])]
+        .sort((a: MealFood, b: MealFood) => (a.order_index || 0) - (b.order_index || 0))
+        .map((food: MealFood) => {
+          const nutrition = findFood(food);
+          if (!nutrition) return food;
+
+          return {
+            ...food,
+            food_name: nutrition.alimento,
+            ...calculateMealFoodMacros(food, nutrition),
+            micronutrients: calculateMealFoodMicronutrients(food, nutrition),
+            display_name: nutrition.nome_simplificado || undefined,
+          };
+        });
+
+      const totals = sumMacros(foodsWithNutrition);
+
+      const substitutionsWithNutrition: MealSubstitutionWithNutrition[] = (meal.meal_substitutions || []).map((sub: MealSubstitution) => {
+        const itemsWithNutrition: MealSubstitutionItemWithNutrition[] = (sub.items || []).map((item) => {
+          const nutrition = findFood(item);
+          if (!nutrition) return item;
+
+          return {
+            ...item,
+            food_name: nutrition.alimento,
+            ...calculateSubstitutionItemMacros(item, nutrition),
+            micronutrients: calculateSubstitutionItemMicronutrients(item, nutrition),
+            display_name: nutrition.nome_simplificado || undefined,
+          };
+        });
+
+        const subTotals = sumMacros(itemsWithNutrition);
+
+        return {
+          ...sub,
+          items: itemsWithNutrition,
+          totalCalories: subTotals.calories,
+          totalProtein: subTotals.protein,
+          totalCarbs: subTotals.carbs,
+          totalFats: subTotals.fats,
+          totalMicronutrients: sumMicronutrients(itemsWithNutrition.map((item) => item.micronutrients)),
+        };
+      });
+
+      return {
+        ...meal,
+        foods: foodsWithNutrition,
+        totalCalories: totals.calories,
+        totalProtein: totals.protein,
+        totalCarbs: totals.carbs,
+        totalFats: totals.fats,
+        totalMicronutrients: sumMicronutrients(foodsWithNutrition.map((food) => food.micronutrients)),
+        meal_substitutions_with_nutrition: substitutionsWithNutrition.length > 0 ? substitutionsWithNutrition : undefined,
+      };
+    });
+}
+
+// Macros da opção escolhida de uma refeição (0 = original, 1+ = substituição)
+function getMealOptionTotals(meal: MealWithNutrition, option: number): MacroTotals {
+  const source = option > 0 ? meal.meal_substitutions_with_nutrition?.[option - 1] : null;
+  const totals = source ?? meal;
+  return {
+    calories: totals.totalCalories,
+    protein: totals.totalProtein,
+    carbs: totals.totalCarbs,
+    fats: totals.totalFats,
+  };
+}
+
+// Micronutrientes da opção escolhida de uma refeição
+function getMealOptionMicronutrients(meal: MealWithNutrition, option: number): MicronutrientTotals {
+  const source = option > 0 ? meal.meal_substitutions_with_nutrition?.[option - 1] : null;
+  return (source ?? meal).totalMicronutrients;
+}
+
 // Retorna a data atual no fuso horário de Brasília (UTC-3) no formato YYYY-MM-DD
 function getBrasiliaDate(): string {
   return new Intl.DateTimeFormat('en-CA', {
@@ -154,50 +263,23 @@ export function Diet() {
 
   // Calcular macros totais planejados
   const totalPlannedMacros = useMemo(() => {
-    return meals.reduce(
-      (acc, meal) => ({
-        calories: acc.calories + meal.totalCalories,
-        protein: acc.protein + meal.totalProtein,
-        carbs: acc.carbs + meal.totalCarbs,
-        fats: acc.fats + meal.totalFats,
-      }),
-      { calories: 0, protein: 0, carbs: 0, fats: 0 }
-    );
-  }, [meals]);
+    return calculateDayTotals(meals.map((meal) => getMealOptionTotals(meal, selectedMealOptions[meal.id] || 0)));
+  }, [meals, selectedMealOptions]);
+
+  // Micronutrientes planejados do dia (na opção escolhida de cada refeição)
+  const plannedMicronutrients = useMemo(() => {
+    return sumMicronutrients(meals.map((meal) => getMealOptionMicronutrients(meal, selectedMealOptions[meal.id] || 0)));
+  }, [meals, selectedMealOptions]);
 
-  // Calcular macros consumidos (refeições marcadas + extras)
+  // Calcular macros consumidos (refeições marcadas, na opção escolhida, + extras)
   const consumedMacros = useMemo(() => {
-    // Macros das refeições planejadas que foram marcadas
     const fromPlanned = meals
       .filter((meal) => completedMeals.includes(meal.id))
-      .reduce(
-        (acc, meal) => ({
-          calories: acc.calories + meal.totalCalories,
-          protein: acc.protein + meal.totalProtein,
-          carbs: acc.carbs + meal.totalCarbs,
-          fats: acc.fats + meal.totalFats,
-        }),
-        { calories: 0, protein: 0, carbs: 0, fats: 0 }
-      );
-
-    // Macros das refeições extras (sempre contam como consumidas)
-    const fromExtras = extraMeals.reduce(
-      (acc, meal) => ({
-        calories: acc.calories + meal.total_calories,
-        protein: acc.protein + meal.total_protein,
-        carbs: acc.carbs + meal.total_carbs,
-        fats: acc.fats + meal.total_fats,
-      }),
-      { calories: 0, protein: 0, carbs: 0, fats: 0 }
-    );
+      .map((meal) => getMealOptionTotals(meal, selectedMealOptions[meal.id] || 0));
 
-    return {
-      calories: fromPlanned.calories + fromExtras.calories,
-      protein: fromPlanned.protein + fromExtras.protein,
-      carbs: fromPlanned.carbs + fromExtras.carbs,
-      fats: fromPlanned.fats + fromExtras.fats,
-    };
-  }, [meals, completedMeals, extraMeals]);
+    // Refeições extras sempre contam como consumidas
+    return calculateDayTotals(fromPlanned, extraMeals.flatMap((meal) => meal.foods));
+  }, [meals, completedMeals, extraMeals, selectedMealOptions]);
 
   // Adicionar refeição extra (salva no banco de dados)
   const handleAddExtraMeal = async (meal: ExtraMeal) => {
@@ -224,7 +306,7 @@ export function Diet() {
       if (meal.foods && meal.foods.length > 0) {
         const foodsToInsert = meal.foods.map((food) => ({
           extra_meal_id: insertedMeal.id,
-          food_id: null, // food_id do tabela_taco se disponível
+          food_id: food.food_id,
           food_name: food.name,
           quantity: food.quantity,
           unit: food.unit_type || 'gramas',
@@ -330,6 +412,7 @@ export function Diet() {
           meal_substitutions,
           meal_foods (
             id,
+            food_id,
             food_name,
             quantity,
             order_index,
@@ -341,7 +424,9 @@ export function Diet() {
           id,
           diet_plan_id,
           original_food,
+          original_food_id,
           substitute_food,
+          substitute_food_id,
           substitute_quantity
         )
       `)
@@ -355,162 +440,9 @@ export function Diet() {
       return;
     }
 
-    // Extrair todos os nomes de alimentos únicos (incluindo das substituições de refeição)
-    const allFoodNames = new Set<string>();
-    dietPlanData.meals?.forEach((meal: any) => {
-      meal.meal_foods?.forEach((food: any) => {
-        if (food.food_name) {
-          allFoodNames.add(food.food_name);
-        }
-      });
-      // Também coletar alimentos das substituições de refeição
-      meal.meal_substitutions?.forEach((sub: any) => {
-        sub.items?.forEach((item: any) => {
-          if (item.food_name) {
-            allFoodNames.add(item.food_name);
-          }
-        });
-      });
-    });
-
-    // Buscar dados nutricionais e nomes simplificados de todos os alimentos de uma vez só
-    let nutritionMap = new Map<string, { caloria: string; proteina: string; carboidrato: string; gordura: string; nome_simplificado?: string; peso_por_unidade?: number }>();
-
-    if (allFoodNames.size > 0) {
-      const { data: tacoData } = await supabase
-        .from('tabela_taco')
-        .select(`
-          alimento,
-          caloria,
-          proteina,
-          carboidrato,
-          gordura,
-          food_metadata (
-            nome_simplificado,
-            peso_por_unidade
-          )
-        `)
-        .in('alimento', Array.from(allFoodNames));
-
-      if (tacoData) {
-        tacoData.forEach((item: any) => {
-          // food_metadata pode vir como array ou objeto dependendo da relação
-          const metadata = Array.isArray(item.food_metadata)
-            ? item.food_metadata[0]
-            : item.food_metadata;
-
-          nutritionMap.set(item.alimento, {
-            caloria: item.caloria,
-            proteina: item.proteina,
-            carboidrato: item.carboidrato,
-            gordura: item.gordura,
-            nome_simplificado: metadata?.nome_simplificado || undefined,
-            peso_por_unidade: metadata?.peso_por_unidade || undefined,
-          });
-        });
-      }
-    }
-
-    // Processar meals com dados nutricionais
-    const mealsWithNutrition: MealWithNutrition[] = (dietPlanData.meals || [])
-      .sort((a: any, b: any) => (a.order_index || 0) - (b.order_index || 0))
-      .map((meal: any) => {
-        const foodsWithNutrition: MealFoodWithNutrition[] = (meal.meal_foods || [])
-          .sort((a: any, b: any) => (a.order_index || 0) - (b.order_index || 0))
-          .map((food: any) => {
-            const nutrition = food.food_name ? nutritionMap.get(food.food_name) : null;
-
-            if (nutrition) {
-              const qty = parseBrazilianNumber(food.quantity);
-              const multiplier = qty / 100;
-
-              return {
-                ...food,
-                calories: parseBrazilianNumber(nutrition.caloria) * multiplier,
-                protein: parseBrazilianNumber(nutrition.proteina) * multiplier,
-                carbs: parseBrazilianNumber(nutrition.carboidrato) * multiplier,
-                fats: parseBrazilianNumber(nutrition.gordura) * multiplier,
-                display_name: nutrition.nome_simplificado || undefined,
-              };
-            }
-            return food as MealFoodWithNutrition;
-          });
-
-        // Calcular totais da refeição
-        const totals = foodsWithNutrition.reduce(
-          (acc, food) => ({
-            calories: acc.calories + (food.calories || 0),
-            protein: acc.protein + (food.protein || 0),
-            carbs: acc.carbs + (food.carbs || 0),
-            fats: acc.fats + (food.fats || 0),
-          }),
-          { calories: 0, protein: 0, carbs: 0, fats: 0 }
-        );
-
-        // Processar meal_substitutions com dados nutricionais
-        const substitutionsWithNutrition: MealSubstitutionWithNutrition[] = (meal.meal_substitutions || []).map((sub: any) => {
-          const itemsWithNutrition: MealSubstitutionItemWithNutrition[] = (sub.items || []).map((item: any) => {
-            const nutrition = item.food_name ? nutritionMap.get(item.food_name) : null;
-
-            if (nutrition) {
-              const qtyValue = parseBrazilianNumber(item.quantity);
-              const unitType = item.unit_type || 'gramas';
-
-              // For unit-based items (not grams/ml), convert to grams using peso_por_unidade
-              let gramsForCalculation: number;
-              if (unitType === 'gramas' || unitType === 'ml') {
-                gramsForCalculation = qtyValue;
-              } else {
-                // quantity is the number of units, multiply by peso_por_unidade to get grams
-                const pesoUnidade = nutrition.peso_por_unidade || 100; // fallback to 100g if not set
-                gramsForCalculation = qtyValue * pesoUnidade;
-              }
-
-              const multiplier = gramsForCalculation / 100;
-
-              return {
-                ...item,
-                calories: parseBrazilianNumber(nutrition.caloria) * multiplier,
-                protein: parseBrazilianNumber(nutrition.proteina) * multiplier,
-                carbs: parseBrazilianNumber(nutrition.carboidrato) * multiplier,
-                fats: parseBrazilianNumber(nutrition.gordura) * multiplier,
-                display_name: nutrition.nome_simplificado || undefined,
-              };
-            }
-            return item as MealSubstitutionItemWithNutrition;
-          });
-
-          // Calcular totais da substituição
-          const subTotals = itemsWithNutrition.reduce(
-            (acc, item) => ({
-              calories: acc.calories + (item.calories || 0),
-              protein: acc.protein + (item.protein || 0),
-              carbs: acc.carbs + (item.carbs || 0),
-              fats: acc.fats + (item.fats || 0),
-            }),
-            { calories: 0, protein: 0, carbs: 0, fats: 0 }
-          );
-
-          return {
-            ...sub,
-            items: itemsWithNutrition,
-            totalCalories: subTotals.calories,
-            totalProtein: subTotals.protein,
-            totalCarbs: subTotals.carbs,
-            totalFats: subTotals.fats,
-          };
-        });
-
-        return {
-          ...meal,
-          foods: foodsWithNutrition,
-          totalCalories: totals.calories,
-          totalProtein: totals.protein,
-          totalCarbs: totals.carbs,
-          totalFats: totals.fats,
-          meal_substitutions_with_nutrition: substitutionsWithNutrition.length > 0 ? substitutionsWithNutrition : undefined,
-        };
-      });
+    // Buscar dados nutricionais e calcular os macros de cada refeição
+    const findFood = await fetchFoodLookup(collectFoodReferences(dietPlanData.meals || []));
+    const mealsWithNutrition = buildMealsWithNutrition(dietPlanData.meals || [], findFood);
 
     console.log('[Diet] fetchDiet - setting meals, count:', mealsWithNutrition.length);
     setMeals(mealsWithNutrition);
@@ -628,6 +560,7 @@ export function Diet() {
           meal_name: meal.meal_name,
           foods: foods.map((f: any) => ({
             id: f.id,
+            food_id: f.food_id,
             name: f.food_name,
             quantity: f.quantity,
             quantity_units: null,
@@ -676,6 +609,7 @@ export function Diet() {
           meal_substitutions,
           meal_foods (
             id,
+            food_id,
             food_name,
             quantity,
             order_index,
@@ -687,7 +621,9 @@ export function Diet() {
           id,
           diet_plan_id,
           original_food,
+          original_food_id,
           substitute_food,
+          substitute_food_id,
           substitute_quantity
         )
       `)
@@ -696,157 +632,8 @@ export function Diet() {
 
     if (!dietPlanData) return;
 
-    // Process meals with nutrition data (same logic as fetchDiet)
-    const allFoodNames = new Set<string>();
-    dietPlanData.meals?.forEach((meal: any) => {
-      meal.meal_foods?.forEach((food: any) => {
-        if (food.food_name) {
-          allFoodNames.add(food.food_name);
-        }
-      });
-      // Também coletar alimentos das substituições de refeição
-      meal.meal_substitutions?.forEach((sub: any) => {
-        sub.items?.forEach((item: any) => {
-          if (item.food_name) {
-            allFoodNames.add(item.food_name);
-          }
-        });
-      });
-    });
-
-    let nutritionMap = new Map<string, { caloria: string; proteina: string; carboidrato: string; gordura: string; nome_simplificado?: string; peso_por_unidade?: number }>();
-
-    if (allFoodNames.size > 0) {
-      const { data: tacoData } = await supabase
-        .from('tabela_taco')
-        .select(`
-          alimento,
-          caloria,
-          proteina,
-          carboidrato,
-          gordura,
-          food_metadata (
-            nome_simplificado,
-            peso_por_unidade
-          )
-        `)
-        .in('alimento', Array.from(allFoodNames));
-
-      if (tacoData) {
-        tacoData.forEach((item: any) => {
-          const metadata = Array.isArray(item.food_metadata)
-            ? item.food_metadata[0]
-            : item.food_metadata;
-
-          nutritionMap.set(item.alimento, {
-            caloria: item.caloria,
-            proteina: item.proteina,
-            carboidrato: item.carboidrato,
-            gordura: item.gordura,
-            nome_simplificado: metadata?.nome_simplificado || undefined,
-            peso_por_unidade: metadata?.peso_por_unidade || undefined,
-          });
-        });
-      }
-    }
-
-    const mealsWithNutrition: MealWithNutrition[] = (dietPlanData.meals || [])
-      .sort((a: any, b: any) => (a.order_index || 0) - (b.order_index || 0))
-      .map((meal: any) => {
-        const foodsWithNutrition: MealFoodWithNutrition[] = (meal.meal_foods || [])
-          .sort((a: any, b: any) => (a.order_index || 0) - (b.order_index || 0))
-          .map((food: any) => {
-            const nutrition = food.food_name ? nutritionMap.get(food.food_name) : null;
-
-            if (nutrition) {
-              const qty = parseBrazilianNumber(food.quantity);
-              const multiplier = qty / 100;
-
-              return {
-                ...food,
-                calories: parseBrazilianNumber(nutrition.caloria) * multiplier,
-                protein: parseBrazilianNumber(nutrition.proteina) * multiplier,
-                carbs: parseBrazilianNumber(nutrition.carboidrato) * multiplier,
-                fats: parseBrazilianNumber(nutrition.gordura) * multiplier,
-                display_name: nutrition.nome_simplificado || undefined,
-              };
-            }
-            return food as MealFoodWithNutrition;
-          });
-
-        const totals = foodsWithNutrition.reduce(
-          (acc, food) => ({
-            calories: acc.calories + (food.calories || 0),
-            protein: acc.protein + (food.protein || 0),
-            carbs: acc.carbs + (food.carbs || 0),
-            fats: acc.fats + (food.fats || 0),
-          }),
-          { calories: 0, protein: 0, carbs: 0, fats: 0 }
-        );
-
-        // Processar meal_substitutions com dados nutricionais
-        const substitutionsWithNutrition: MealSubstitutionWithNutrition[] = (meal.meal_substitutions || []).map((sub: any) => {
-          const itemsWithNutrition: MealSubstitutionItemWithNutrition[] = (sub.items || []).map((item: any) => {
-            const nutrition = item.food_name ? nutritionMap.get(item.food_name) : null;
-
-            if (nutrition) {
-              const qtyValue = parseBrazilianNumber(item.quantity);
-              const unitType = item.unit_type || 'gramas';
-
-              // For unit-based items (not grams/ml), convert to grams using peso_por_unidade
-              let gramsForCalculation: number;
-              if (unitType === 'gramas' || unitType === 'ml') {
-                gramsForCalculation = qtyValue;
-              } else {
-                // quantity is the number of units, multiply by peso_por_unidade to get grams
-                const pesoUnidade = nutrition.peso_por_unidade || 100; // fallback to 100g if not set
-                gramsForCalculation = qtyValue * pesoUnidade;
-              }
-
-              const multiplier = gramsForCalculation / 100;
-
-              return {
-                ...item,
-                calories: parseBrazilianNumber(nutrition.caloria) * multiplier,
-                protein: parseBrazilianNumber(nutrition.proteina) * multiplier,
-                carbs: parseBrazilianNumber(nutrition.carboidrato) * multiplier,
-                fats: parseBrazilianNumber(nutrition.gordura) * multiplier,
-                display_name: nutrition.nome_simplificado || undefined,
-              };
-            }
-            return item as MealSubstitutionItemWithNutrition;
-          });
-
-          const subTotals = itemsWithNutrition.reduce(
-            (acc, item) => ({
-              calories: acc.calories + (item.calories || 0),
-              protein: acc.protein + (item.protein || 0),
-              carbs: acc.carbs + (item.carbs || 0),
-              fats: acc.fats + (item.fats || 0),
-            }),
-            { calories: 0, protein: 0, carbs: 0, fats: 0 }
-          );
-
-          return {
-            ...sub,
-            items: itemsWithNutrition,
-            totalCalories: subTotals.calories,
-            totalProtein: subTotals.protein,
-            totalCarbs: subTotals.carbs,
-            totalFats: subTotals.fats,
-          };
-        });
-
-        return {
-          ...meal,
-          foods: foodsWithNutrition,
-          totalCalories: totals.calories,
-          totalProtein: totals.protein,
-          totalCarbs: totals.carbs,
-          totalFats: totals.fats,
-          meal_substitutions_with_nutrition: substitutionsWithNutrition.length > 0 ? substitutionsWithNutrition : undefined,
-        };
-      });
+    const findFood = await fetchFoodLookup(collectFoodReferences(dietPlanData.meals || []));
+    const mealsWithNutrition = buildMealsWithNutrition(dietPlanData.meals || [], findFood);
 
     setMeals(mealsWithNutrition);
     setSubstitutions(dietPlanData.food_substitutions || []);
@@ -983,9 +770,9 @@ export function Diet() {
     return time.slice(0, 5);
   }
 
-  function getSubstitutionsForFood(foodName: string): FoodSubstitution[] {
-    return substitutions.filter(
-      (sub) => sub.original_food.toLowerCase() === foodName.toLowerCase()
+  function getSubstitutionsForFood(food: MealFood): FoodSubstitution[] {
+    return substitutions.filter((sub) =>
+      isSameFood({ food_id: sub.original_food_id, food_name: sub.original_food }, food)
     );
   }
 
@@ -1070,6 +857,14 @@ export function Diet() {
           />
         )}
 
+        {!loading && meals.length > 0 && (
+          <MicronutrientBreakdown
+            totals={plannedMicronutrients}
+            age={profile?.age}
+            sex={profile?.sex}
+          />
+        )}
+
         {loading ? (
           <LoadingSkeleton />
         ) : meals.length > 0 ? (
@@ -1081,9 +876,7 @@ export function Diet() {
               const totalOptions = hasMealOptions ? meal.meal_substitutions_with_nutrition!.length + 1 : 1;
 
               // Get calories based on selected option
-              const displayCalories = selectedOption === 0
-                ? meal.totalCalories
-                : meal.meal_substitutions_with_nutrition?.[selectedOption - 1]?.totalCalories || 0;
+              const displayCalories = getMealOptionTotals(meal, selectedOption).calories;
 
               return (
                 <Card
@@ -1250,7 +1043,7 @@ export function Diet() {
           {selectedMeal && (selectedMealOptions[selectedMeal.id] || 0) === 0 && (
             <ul className={styles.foodList}>
               {selectedMeal.foods.map((food) => {
-              const foodSubs = getSubstitutionsForFood(food.food_name);
+              const foodSubs = getSubstitutionsForFood(food);
               const isExpanded = expandedFoods.has(food.id);
               const hasSubstitutions = foodSubs.length > 0;
 
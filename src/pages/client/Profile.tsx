@@ -1,14 +1,23 @@
 import { useEffect, useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { LogOut, Scale, Ruler, Target, Calendar, Edit3, Check, X, TrendingDown, TrendingUp, Camera, Loader2 } from 'lucide-react';
+import { LogOut, Scale, Ruler, Target, Calendar, Edit3, Check, X, TrendingDown, TrendingUp, Camera, Loader2, RefreshCw, Download, Gift, Copy } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTheme } from '../../contexts/ThemeContext';
 import { supabase } from '../../lib/supabase';
 import { PageContainer, Header, BottomNav } from '../../components/layout';
 import { Card, Button } from '../../components/ui';
-import type { WeightHistory } from '../../types/database';
+import type { Payment, PaymentSettings, Subscription, WeightHistory } from '../../types/database';
 import styles from './Profile.module.css';
 
+type PaymentWithPlan = Payment & {
+  plan: { name: string } | null;
+};
+
+type ReferralProgram = Pick<
+  PaymentSettings,
+  'checkout_slug' | 'referral_reward_type' | 'referral_reward_days' | 'referral_reward_percent'
+>;
+
 // Retorna a data atual no fuso horário de Brasília
 function getBrasiliaDate(): string {
   return new Intl.DateTimeFormat('en-CA', {
@@ -30,6 +39,13 @@ export function Profile() {
   const [savingWeight, setSavingWeight] = useState(false);
   const [weightSaved, setWeightSaved] = useState(false);
   const [uploadingPhoto, setUploadingPhoto] = useState(false);
+  const [subscription, setSubscription] = useState<(Subscription & { plan: { name: string } | null }) | null>(null);
+  const [cancellingSubscription, setCancellingSubscription] = useState(false);
+  const [payments, setPayments] = useState<PaymentWithPlan[]>([]);
+  const [downloadingReceiptId, setDownloadingReceiptId] = useState<string | null>(null);
+  const [referralProgram, setReferralProgram] = useState<ReferralProgram | null>(null);
+  const [referralRewards, setReferralRewards] = useState(0);
+  const [referralLinkCopied, setReferralLinkCopied] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const logoUrl = settings?.logo_icon_url || settings?.logo_main_url || '/logo-icon.png';
@@ -37,6 +53,9 @@ export function Profile() {
   useEffect(() => {
     if (profile?.id) {
       fetchWeightHistory();
+      fetchSubscription();
+      fetchPayments();
+      fetchReferralProgram();
     }
   }, [profile?.id]);
 
@@ -51,6 +70,119 @@ export function Profile() {
     if (data) setWeightHistory(data);
   }
 
+  async function fetchSubscription() {
+    const { data } = await supabase
+      .from('subscriptions')
+      .select('*, plan:subscription_plans(name)')
+      .eq('client_id', profile!.id)
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    setSubscription(data);
+  }
+
+  async function fetchPayments() {
+    const { data } = await supabase
+      .from('payments')
+      .select('*, plan:subscription_plans(name)')
+      .eq('client_id', profile!.id)
+      .in('status', ['approved', 'refunded'])
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (data) setPayments(data as PaymentWithPlan[]);
+  }
+
+  async function fetchReferralProgram() {
+    const { data } = await supabase
+      .from('public_checkout_settings')
+      .select('checkout_slug, referral_enabled, referral_reward_type, referral_reward_days, referral_reward_percent')
+      .limit(1)
+      .maybeSingle();
+
+    if (!data?.referral_enabled) return;
+    setReferralProgram(data);
+
+    const { count } = await supabase
+      .from('referral_rewards')
+      .select('id', { count: 'exact', head: true })
+      .eq('referrer_id', profile!.id);
+
+    setReferralRewards(count ?? 0);
+  }
+
+  const referralLink = referralProgram && profile?.referral_code
+    ? `${window.location.origin}/checkout/${referralProgram.checkout_slug}?ref=${profile.referral_code}`
+    : null;
+
+  async function handleCopyReferralLink() {
+    if (!referralLink) return;
+
+    try {
+      await navigator.clipboard.writeText(referralLink);
+      setReferralLinkCopied(true);
+      setTimeout(() => setReferralLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying referral link:', error);
+      alert('Nao foi possivel copiar o link');
+    }
+  }
+
+  async function handleDownloadReceipt(paymentId: string) {
+    setDownloadingReceiptId(paymentId);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('payment-receipt', {
+        body: { payment_id: paymentId },
+      });
+
+      if (error || !data?.url) {
+        console.error('Error generating receipt:', error || data?.error);
+        alert(data?.error || 'Erro ao gerar recibo. Tente novamente.');
+        return;
+      }
+
+      window.open(data.url, '_blank');
+    } catch (error) {
+      console.error('Error generating receipt:', error);
+      alert('Erro ao gerar recibo. Tente novamente.');
+    } finally {
+      setDownloadingReceiptId(null);
+    }
+  }
+
+  async function handleCancelSubscription() {
+    if (!subscription) return;
+
+    if (!confirm('Deseja cancelar a renovacao automatica? Seu acesso continua ate o fim do periodo ja pago.')) {
+      return;
+    }
+
+    setCancellingSubscription(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('subscription-cancel', {
+        body: { subscription_id: subscription.id },
+      });
+
+      if (error || data?.error) {
+        console.error('Error cancelling subscription:', error || data.error);
+        alert(data?.error || 'Erro ao cancelar assinatura. Tente novamente.');
+        return;
+      }
+
+      setSubscription(null);
+      alert('Assinatura cancelada. Voce nao sera mais cobrado.');
+    } catch (error) {
+      console.error('Error cancelling subscription:', error);
+      alert('Erro ao cancelar assinatura. Tente novamente.');
+    } finally {
+      setCancellingSubscription(false);
+    }
+  }
+
   async function handleSaveWeight() {
     if (!newWeight || isNaN(parseFloat(newWeight))) {
       return;
@@ -426,6 +558,102 @@ export function Profile() {
           </section>
         )}
 
+        {subscription && (
+          <section className={styles.section}>
+            <h2 className={styles.sectionTitle}>Minha Assinatura</h2>
+            <Card className={styles.subscriptionCard}>
+              <div className={styles.subscriptionInfo}>
+                <RefreshCw size={18} />
+                <div>
+                  <strong>{subscription.plan?.name || 'Plano'}</strong>
+                  <span>
+                    {(subscription.amount_cents / 100).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                    {' '}com renovacao automatica
+                  </span>
+                  {profile?.plan_end_date && (
+                    <span>Proxima renovacao em {new Date(profile.plan_end_date + 'T12:00:00').toLocaleDateString('pt-BR')}</span>
+                  )}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                loading={cancellingSubscription}
+                onClick={handleCancelSubscription}
+              >
+                Cancelar assinatura
+              </Button>
+            </Card>
+          </section>
+        )}
+
+        {referralProgram && referralLink && (
+          <section className={styles.section}>
+            <h2 className={styles.sectionTitle}>Indique e Ganhe</h2>
+            <Card className={styles.subscriptionCard}>
+              <div className={styles.subscriptionInfo}>
+                <Gift size={18} />
+                <div>
+                  <strong>
+                    {referralProgram.referral_reward_type === 'coupon'
+                      ? `Ganhe um cupom de ${referralProgram.referral_reward_percent}% de desconto`
+                      : `Ganhe ${referralProgram.referral_reward_days} dias a mais no seu plano`}
+                  </strong>
+                  <span>Para cada amigo que assinar pelo seu link</span>
+                  {referralRewards > 0 && (
+                    <span>
+                      Voce ja ganhou {referralRewards} {referralRewards === 1 ? 'recompensa' : 'recompensas'}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className={styles.referralLink}>
+                <span>{referralLink}</span>
+                <button className={styles.receiptBtn} onClick={handleCopyReferralLink}>
+                  {referralLinkCopied ? <Check size={16} /> : <Copy size={16} />}
+                  {referralLinkCopied ? 'Copiado' : 'Copiar'}
+                </button>
+              </div>
+            </Card>
+          </section>
+        )}
+
+        {payments.length > 0 && (
+          <section className={styles.section}>
+            <h2 className={styles.sectionTitle}>Meus Pagamentos</h2>
+            <div className={styles.historyList}>
+              {payments.map((payment) => (
+                <Card key={payment.id} className={styles.paymentItem}>
+                  <div className={styles.paymentInfo}>
+                    <strong>{payment.plan?.name || 'Plano'}</strong>
+                    <span>
+                      {new Date(payment.paid_at || payment.created_at).toLocaleDateString('pt-BR')}
+                      {' - '}
+                      {(payment.amount_cents / 100).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                      {payment.status === 'refunded' && ' - Reembolsado'}
+                    </span>
+                  </div>
+                  {payment.paid_at && (
+                    <button
+                      className={styles.receiptBtn}
+                      onClick={() => handleDownloadReceipt(payment.id)}
+                      disabled={downloadingReceiptId === payment.id}
+                      aria-label="Baixar recibo"
+                    >
+                      {downloadingReceiptId === payment.id ? (
+                        <Loader2 size={16} className={styles.spinning} />
+                      ) : (
+                        <Download size={16} />
+                      )}
+                      Recibo
+                    </button>
+                  )}
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
         <section className={styles.section}>
           <h2 className={styles.sectionTitle}>Historico de Peso</h2>
 
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   QrCode,
   Receipt,
@@ -13,10 +13,19 @@ import {
   ArrowLeft,
   Clock,
   Lock,
+  RefreshCw,
+  Tag,
+  X,
+  ArrowUpCircle,
+  CalendarClock,
+  Gift,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useTheme } from '../../contexts/ThemeContext';
-import type { SubscriptionPlan, PaymentMethod } from '../../types/database';
+import { useAuth } from '../../contexts/AuthContext';
+import { getInstallmentOptions } from '../../utils/installments';
+import { getRenewalPlanId, getRenewalPlans } from '../../utils/renewal';
+import type { SubscriptionPlan, PaymentMethod, PlanChangeQuote, CheckoutSession } from '../../types/database';
 import styles from './CheckoutPage.module.css';
 
 interface CheckoutSettings {
@@ -29,6 +38,10 @@ interface CheckoutSettings {
   boleto_enabled: boolean;
   credit_card_enabled: boolean;
   mp_public_key: string | null;
+  max_installments: number;
+  min_installment_cents: number;
+  interest_free_installments: number;
+  installment_interest_percent: number;
 }
 
 interface PaymentData {
@@ -39,6 +52,13 @@ interface PaymentData {
   boleto_barcode?: string;
   boleto_expiration?: string;
   payment_id?: string;
+  status?: string;
+}
+
+interface AppliedCoupon {
+  code: string;
+  discount_cents: number;
+  final_amount_cents: number;
 }
 
 interface CardForm {
@@ -49,11 +69,37 @@ interface CardForm {
   installments: number;
 }
 
+// Gateways whose subscriptions can only be charged on a saved card
+const CARD_ONLY_SUBSCRIPTION_GATEWAYS = ['mercado_pago', 'pagarme'];
+
+// How often the PIX screen asks payment-status whether the payment arrived
+const PIX_POLL_INTERVAL_MS = 5000;
+
+// How long the confirmation stays on screen before a renewal returns to the app
+const RETURN_TO_APP_DELAY_MS = 2500;
+
+type ResumedCheckoutSession = Pick<
+  CheckoutSession,
+  'id' | 'owner_id' | 'plan_id' | 'customer_name' | 'customer_email' | 'customer_phone'
+>;
+
 type CheckoutStep = 'plans' | 'customer' | 'payment' | 'card_form' | 'processing' | 'success' | 'error';
 
-export function CheckoutPage() {
+interface CheckoutPageProps {
+  // In-app renewal (/app/renovar): the signed-in client's data is prefilled
+  // and they go back to the app once the payment is confirmed
+  renewal?: boolean;
+}
+
+export function CheckoutPage({ renewal = false }: CheckoutPageProps) {
   const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Referral link of an existing client (/checkout/<slug>?ref=<code>)
+  const referralCode = renewal ? null : searchParams.get('ref');
   const { settings: themeSettings } = useTheme();
+  const { profile, refreshProfile } = useAuth();
+  const isSignedInClient = profile?.role === 'client';
 
   const [loading, setLoading] = useState(true);
   const [checkoutSettings, setCheckoutSettings] = useState<CheckoutSettings | null>(null);
@@ -67,6 +113,21 @@ export function CheckoutPage() {
   const [processing, setProcessing] = useState(false);
   const [paymentData, setPaymentData] = useState<PaymentData | null>(null);
   const [copied, setCopied] = useState(false);
+  const [pixPaid, setPixPaid] = useState(false);
+  // Last day of access when the client started a free trial instead of paying
+  const [trialEndDate, setTrialEndDate] = useState<string | null>(null);
+
+  // Coupon (preview only; payment-create validates it again)
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+
+  // Plan change for signed-in clients (preview only; payment-create quotes it again)
+  const [planChangeQuote, setPlanChangeQuote] = useState<PlanChangeQuote | null>(null);
+
+  // Funnel tracking session (public checkout only)
+  const [checkoutSessionId, setCheckoutSessionId] = useState<string | null>(null);
 
   // Customer form
   const [customerForm, setCustomerForm] = useState({
@@ -88,22 +149,76 @@ export function CheckoutPage() {
   const [cardErrors, setCardErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
-    if (slug) {
+    if (slug || renewal) {
       loadCheckoutData();
     }
-  }, [slug]);
+  }, [slug, renewal]);
+
+  // Renewals are paid with the client's own account details
+  useEffect(() => {
+    if (renewal && profile?.role === 'client') {
+      prefillCustomerForm();
+    }
+  }, [renewal, profile?.id]);
+
+  // Once a renewal is paid, reload the new plan dates and go back to the app
+  const paymentConfirmed = step === 'success' && (
+    (selectedMethod === 'pix' && pixPaid) ||
+    (selectedMethod === 'credit_card' && paymentData?.status === 'approved')
+  );
+
+  useEffect(() => {
+    if (!renewal || !paymentConfirmed) return;
+
+    const timeout = setTimeout(async () => {
+      await refreshProfile();
+      navigate('/app', { replace: true });
+    }, RETURN_TO_APP_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [renewal, paymentConfirmed]);
+
+  // Poll while the QR code is on screen; payment-status also provisions the
+  // client when the gateway reports the payment before its webhook arrives
+  useEffect(() => {
+    if (step !== 'success' || selectedMethod !== 'pix' || !paymentData?.payment_id || pixPaid) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      const { data, error: fnError } = await supabase.functions.invoke('payment-status', {
+        body: { payment_id: paymentData.payment_id },
+      });
+
+      if (fnError) {
+        console.error('Error checking payment status:', fnError);
+        return;
+      }
+
+      if (data?.status === 'approved') {
+        setPixPaid(true);
+      }
+    }, PIX_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [step, selectedMethod, paymentData, pixPaid]);
 
   const loadCheckoutData = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const { data: settings, error: settingsError } = await supabase
-        .from('payment_settings')
-        .select('owner_id, checkout_title, checkout_description, checkout_success_message, active_gateway, pix_enabled, boleto_enabled, credit_card_enabled, mp_public_key')
-        .eq('checkout_slug', slug)
-        .neq('active_gateway', 'none')
-        .maybeSingle();
+      const settingsQuery = supabase
+        .from('public_checkout_settings')
+        .select('owner_id, checkout_title, checkout_description, checkout_success_message, active_gateway, pix_enabled, boleto_enabled, credit_card_enabled, mp_public_key, max_installments, min_installment_cents, interest_free_installments, installment_interest_percent');
+
+      // Renewals use the checkout of the owner who sold the client's plan
+      const renewalOwnerId = renewal ? await loadRenewalOwnerId() : null;
+      const { data: settings, error: settingsError } = !renewal
+        ? await settingsQuery.eq('checkout_slug', slug).maybeSingle()
+        : renewalOwnerId
+          ? await settingsQuery.eq('owner_id', renewalOwnerId).maybeSingle()
+          : await settingsQuery.limit(1).maybeSingle();
 
       if (settingsError) {
         console.error('Error loading settings:', settingsError);
@@ -136,12 +251,121 @@ export function CheckoutPage() {
         return;
       }
 
-      setPlans(plansData);
+      // PagSeguro has no subscription API, so recurring plans cannot be sold there
+      const availablePlans = settings.active_gateway === 'pagseguro'
+        ? plansData.filter((plan) => plan.billing_mode !== 'recurring')
+        : plansData;
+
+      if (availablePlans.length === 0) {
+        setError('Nenhum plano disponivel no momento');
+        return;
+      }
+
+      if (renewal) {
+        // The client's plan comes first and is preselected while still sold
+        const renewalPlans = getRenewalPlans(availablePlans, getRenewalPlanId(profile));
+        setPlans(renewalPlans.plans);
+        if (renewalPlans.selected) {
+          handleSelectPlan(renewalPlans.selected);
+        }
+      } else {
+        setPlans(availablePlans);
+        await openCheckoutSession(settings.owner_id, availablePlans);
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const loadRenewalOwnerId = async (): Promise<string | null> => {
+    const planId = getRenewalPlanId(profile);
+    if (!planId) return null;
+
+    const { data: plan } = await supabase
+      .from('subscription_plans')
+      .select('owner_id')
+      .eq('id', planId)
+      .maybeSingle();
+
+    return plan?.owner_id ?? null;
+  };
+
+  // Resumes the session from a recovery email link (?retomar=<id>) or opens a
+  // new one. Tracking failures never get in the way of the purchase.
+  const openCheckoutSession = async (ownerId: string, availablePlans: SubscriptionPlan[]) => {
+    try {
+      const resumeId = searchParams.get('retomar');
+
+      if (resumeId) {
+        const { data } = await supabase.functions.invoke('checkout-session', {
+          body: { action: 'resume', session_id: resumeId },
+        });
+        const session = data?.session as ResumedCheckoutSession | undefined;
+
+        if (session && session.owner_id === ownerId) {
+          setCheckoutSessionId(session.id);
+          setCustomerForm((prev) => ({
+            ...prev,
+            name: session.customer_name || '',
+            email: session.customer_email || '',
+            phone: session.customer_phone ? formatPhone(session.customer_phone) : '',
+          }));
+
+          const plan = availablePlans.find((p) => p.id === session.plan_id);
+          if (plan) {
+            setSelectedPlan(plan);
+            setStep('customer');
+          }
+          return;
+        }
+      }
+
+      const { data, error: fnError } = await supabase.functions.invoke('checkout-session', {
+        body: { action: 'start', owner_id: ownerId },
+      });
+
+      if (fnError) {
+        console.error('Checkout session error:', fnError);
+        return;
+      }
+
+      setCheckoutSessionId(data?.session_id ?? null);
+    } catch (err) {
+      console.error('Error:', err);
+    }
+  };
+
+  const trackCheckoutStep = (action: 'select_plan' | 'submit_customer', details: Record<string, unknown>) => {
+    if (!checkoutSessionId) return;
+
+    supabase.functions
+      .invoke('checkout-session', { body: { action, session_id: checkoutSessionId, ...details } })
+      .then(({ error: fnError }) => {
+        if (fnError) console.error('Checkout tracking error:', fnError);
+      });
+  };
+
+  const prefillCustomerForm = async () => {
+    if (!profile) return;
+
+    // Profiles do not keep the CPF; reuse the one from the last payment
+    const { data: lastPayment } = await supabase
+      .from('payments')
+      .select('customer_cpf')
+      .eq('client_id', profile.id)
+      .not('customer_cpf', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    setCustomerForm({
+      name: profile.full_name || '',
+      email: profile.email || '',
+      phone: profile.phone ? formatPhone(profile.phone) : '',
+      cpf: lastPayment?.customer_cpf ? formatCPF(lastPayment.customer_cpf) : '',
+    });
+  };
+
   const validateCustomerForm = () => {
     const errors: Record<string, string> = {};
 
@@ -208,12 +432,93 @@ export function CheckoutPage() {
 
   const handleSelectPlan = (plan: SubscriptionPlan) => {
     setSelectedPlan(plan);
+    handleRemoveCoupon();
+    setPlanChangeQuote(null);
+    if (isSignedInClient) {
+      loadPlanChangeQuote(plan);
+    }
+    trackCheckoutStep('select_plan', { plan_id: plan.id });
     setStep('customer');
   };
 
+  const loadPlanChangeQuote = async (plan: SubscriptionPlan) => {
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('plan-change-quote', {
+        body: { plan_id: plan.id },
+      });
+
+      if (fnError || !data || data.error) {
+        console.error('Plan change quote error:', fnError || data?.error);
+        return;
+      }
+
+      setPlanChangeQuote(data as PlanChangeQuote);
+    } catch (err) {
+      console.error('Error:', err);
+    }
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!selectedPlan || !checkoutSettings || !couponInput.trim()) return;
+
+    setApplyingCoupon(true);
+    setCouponError(null);
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('coupon-validate', {
+        body: {
+          owner_id: checkoutSettings.owner_id,
+          plan_id: selectedPlan.id,
+          code: couponInput.trim(),
+          customer_email: customerForm.email.trim().toLowerCase(),
+          customer_cpf: customerForm.cpf.replace(/\D/g, ''),
+        },
+      });
+
+      if (fnError || !data) {
+        console.error('Coupon validation error:', fnError);
+        setCouponError('Erro ao validar cupom');
+        return;
+      }
+
+      if (!data.valid) {
+        setAppliedCoupon(null);
+        setCouponError(data.error || 'Cupom invalido');
+        return;
+      }
+
+      setAppliedCoupon({
+        code: data.code,
+        discount_cents: data.discount_cents,
+        final_amount_cents: data.final_amount_cents,
+      });
+      setCardForm((prev) => ({ ...prev, installments: 1 }));
+    } catch (err) {
+      console.error('Error:', err);
+      setCouponError('Erro ao validar cupom');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponInput('');
+    setCouponError(null);
+    setCardForm((prev) => ({ ...prev, installments: 1 }));
+  };
+
   const handleCustomerSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validateCustomerForm()) {
+      trackCheckoutStep('submit_customer', {
+        plan_id: selectedPlan?.id,
+        customer: {
+          name: customerForm.name.trim(),
+          email: customerForm.email.trim().toLowerCase(),
+          phone: customerForm.phone.trim() || null,
+        },
+      });
       setStep('payment');
     }
   };
@@ -247,6 +552,7 @@ export function CheckoutPage() {
     setStep('processing');
     setProcessing(true);
     setError(null);
+    setPixPaid(false);
 
     try {
       const payload: any = {
@@ -261,6 +567,18 @@ export function CheckoutPage() {
         },
       };
 
+      if (appliedCoupon) {
+        payload.coupon_code = appliedCoupon.code;
+      }
+
+      if (checkoutSessionId) {
+        payload.checkout_session_id = checkoutSessionId;
+      }
+
+      if (referralCode) {
+        payload.referral_code = referralCode;
+      }
+
       // Add card data for credit card payments
       if (method === 'credit_card') {
         const expiryParts = cardForm.expiry.split('/');
@@ -302,6 +620,54 @@ export function CheckoutPage() {
     }
   };
 
+  const startTrial = async () => {
+    if (!selectedPlan || !checkoutSettings) return;
+
+    setSelectedMethod(null);
+    setStep('processing');
+    setProcessing(true);
+    setError(null);
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('trial-start', {
+        body: {
+          owner_id: checkoutSettings.owner_id,
+          plan_id: selectedPlan.id,
+          customer: {
+            name: customerForm.name.trim(),
+            email: customerForm.email.trim().toLowerCase(),
+            phone: customerForm.phone.trim() || null,
+            cpf: customerForm.cpf.replace(/\D/g, ''),
+          },
+          checkout_session_id: checkoutSessionId,
+        },
+      });
+
+      if (fnError) {
+        console.error('Trial start error:', fnError);
+        setError('Erro ao iniciar teste gratis. Tente novamente.');
+        setStep('error');
+        return;
+      }
+
+      if (data.error) {
+        setError(data.error);
+        setStep('error');
+        return;
+      }
+
+      setPaymentData({ payment_id: data.payment_id, status: 'approved' });
+      setTrialEndDate(data.plan_end_date);
+      setStep('success');
+    } catch (err) {
+      console.error('Error:', err);
+      setError('Erro ao iniciar teste gratis');
+      setStep('error');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const handleCopyPix = async () => {
     if (paymentData?.pix_qr_code) {
       try {
@@ -371,21 +737,32 @@ export function CheckoutPage() {
     return null;
   };
 
-  // Installment options based on plan price
-  const installmentOptions = selectedPlan
-    ? Array.from({ length: 12 }, (_, i) => {
-        const n = i + 1;
-        const installmentValue = selectedPlan.price_cents / n / 100;
-        if (installmentValue < 5) return null; // Minimum R$ 5 per installment
-        return {
-          value: n,
-          label: n === 1
-            ? `1x de ${formatPrice(selectedPlan.price_cents)} (sem juros)`
-            : `${n}x de ${formatPrice(selectedPlan.price_cents / n)} (sem juros)`,
-        };
-      }).filter(Boolean)
+  const isRecurring = selectedPlan?.billing_mode === 'recurring';
+  const cardOnly = isRecurring && CARD_ONLY_SUBSCRIPTION_GATEWAYS.includes(checkoutSettings?.active_gateway || '');
+
+  const amountAfterCoupon = appliedCoupon?.final_amount_cents ?? selectedPlan?.price_cents ?? 0;
+
+  // Same cap as payment-create: the credit never takes the charge below the minimum
+  const upgradeCreditCents = planChangeQuote
+    ? Math.max(0, Math.min(planChangeQuote.credit_cents, amountAfterCoupon - planChangeQuote.min_charge_cents))
+    : 0;
+  const totalCents = amountAfterCoupon - upgradeCreditCents;
+
+  // Downgrades (and recurring upgrades) only take over when the current plan ends
+  const scheduledStart = planChangeQuote
+    && planChangeQuote.change_type !== 'renewal'
+    && planChangeQuote.starts_on > new Date().toISOString().split('T')[0]
+    ? planChangeQuote.starts_on
+    : null;
+
+  // Installment options based on the amount due (subscriptions are charged in full every cycle)
+  const installmentOptions = selectedPlan && checkoutSettings && !isRecurring
+    ? getInstallmentOptions(totalCents, checkoutSettings, selectedPlan)
     : [];
 
+  // What the card is charged, interest included
+  const cardTotalCents = installmentOptions.find((opt) => opt.installments === cardForm.installments)?.totalCents ?? totalCents;
+
   if (loading) {
     return (
       <div className={styles.container}>
@@ -425,7 +802,13 @@ export function CheckoutPage() {
         {/* Step: Select Plan */}
         {step === 'plans' && (
           <div className={styles.plansStep}>
-            <h2 className={styles.stepTitle}>Escolha seu plano</h2>
+            {renewal && (
+              <button className={styles.backBtn} onClick={() => navigate('/app')}>
+                <ArrowLeft size={18} />
+                Voltar ao app
+              </button>
+            )}
+            <h2 className={styles.stepTitle}>{renewal ? 'Renove seu plano' : 'Escolha seu plano'}</h2>
             <div className={styles.plansList}>
               {plans.map((plan) => (
                 <button
@@ -433,7 +816,12 @@ export function CheckoutPage() {
                   className={`${styles.planCard} ${plan.is_featured ? styles.planFeatured : ''}`}
                   onClick={() => handleSelectPlan(plan)}
                 >
-                  {plan.is_featured && (
+                  {isSignedInClient && profile?.plan_id === plan.id ? (
+                    <div className={styles.featuredBadge}>
+                      <Check size={12} />
+                      Seu plano atual
+                    </div>
+                  ) : plan.is_featured && (
                     <div className={styles.featuredBadge}>
                       <Star size={12} />
                       Mais Popular
@@ -448,6 +836,18 @@ export function CheckoutPage() {
                       </span>
                     </div>
                   </div>
+                  {plan.billing_mode === 'recurring' && (
+                    <div className={styles.recurringNote}>
+                      <RefreshCw size={14} />
+                      Renovacao automatica, cancele quando quiser
+                    </div>
+                  )}
+                  {plan.trial_days > 0 && !renewal && !isSignedInClient && (
+                    <div className={styles.recurringNote}>
+                      <Gift size={14} />
+                      {plan.trial_days} {plan.trial_days === 1 ? 'dia' : 'dias'} de teste gratis
+                    </div>
+                  )}
                   {plan.description && <p className={styles.planDescription}>{plan.description}</p>}
                   {plan.features && plan.features.length > 0 && (
                     <ul className={styles.planFeatures}>
@@ -482,7 +882,7 @@ export function CheckoutPage() {
               <strong>{selectedPlan.name} - {formatPrice(selectedPlan.price_cents)}</strong>
             </div>
 
-            <h2 className={styles.stepTitle}>Seus dados</h2>
+            <h2 className={styles.stepTitle}>{renewal ? 'Confirme seus dados' : 'Seus dados'}</h2>
 
             <form className={styles.customerForm} onSubmit={handleCustomerSubmit}>
               <div className={styles.formGroup}>
@@ -505,6 +905,7 @@ export function CheckoutPage() {
                   onChange={(e) => setCustomerForm((prev) => ({ ...prev, email: e.target.value }))}
                   placeholder="seu@email.com"
                   className={formErrors.email ? styles.inputError : ''}
+                  readOnly={renewal}
                 />
                 {formErrors.email && <span className={styles.errorText}>{formErrors.email}</span>}
               </div>
@@ -551,13 +952,98 @@ export function CheckoutPage() {
 
             <div className={styles.selectedPlanSummary}>
               <span>Total a pagar:</span>
-              <strong>{formatPrice(selectedPlan.price_cents)}</strong>
+              <strong>
+                {(appliedCoupon || upgradeCreditCents > 0) && (
+                  <s className={styles.originalPrice}>{formatPrice(selectedPlan.price_cents)}</s>
+                )}
+                {formatPrice(totalCents)}
+              </strong>
             </div>
 
+            {upgradeCreditCents > 0 && planChangeQuote && (
+              <div className={styles.planChangeNote}>
+                <ArrowUpCircle size={16} />
+                <span>
+                  Upgrade{planChangeQuote.from_plan_name && <> do <strong>{planChangeQuote.from_plan_name}</strong></>}:
+                  {' '}credito de {formatPrice(upgradeCreditCents)} pelos {planChangeQuote.remaining_days} dias restantes.
+                  O novo plano comeca hoje.
+                </span>
+              </div>
+            )}
+
+            {scheduledStart && (
+              <div className={styles.planChangeNote}>
+                <CalendarClock size={16} />
+                <span>
+                  Seu plano atual continua ate o fim. O novo plano comeca em{' '}
+                  <strong>{new Date(`${scheduledStart}T12:00:00`).toLocaleDateString('pt-BR')}</strong>.
+                </span>
+              </div>
+            )}
+
+            {!isRecurring && (
+              <div className={styles.couponBox}>
+                {appliedCoupon ? (
+                  <div className={styles.couponApplied}>
+                    <Tag size={16} />
+                    <span>
+                      Cupom <strong>{appliedCoupon.code}</strong>: -{formatPrice(appliedCoupon.discount_cents)}
+                    </span>
+                    <button type="button" className={styles.couponRemoveBtn} onClick={handleRemoveCoupon} title="Remover cupom">
+                      <X size={16} />
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <div className={styles.couponInputRow}>
+                      <input
+                        type="text"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleApplyCoupon())}
+                        placeholder="Cupom de desconto"
+                      />
+                      <button
+                        type="button"
+                        className={styles.couponApplyBtn}
+                        onClick={handleApplyCoupon}
+                        disabled={applyingCoupon || !couponInput.trim()}
+                      >
+                        {applyingCoupon ? <Loader2 className={styles.spinner} size={16} /> : 'Aplicar'}
+                      </button>
+                    </div>
+                    {couponError && <span className={styles.errorText}>{couponError}</span>}
+                  </>
+                )}
+              </div>
+            )}
+
+            {isRecurring && (
+              <div className={styles.recurringNote}>
+                <RefreshCw size={14} />
+                Cobrado automaticamente a cada {selectedPlan.duration_days} dias
+              </div>
+            )}
+
+            {selectedPlan.trial_days > 0 && !renewal && !isSignedInClient && (
+              <button className={styles.methodCard} onClick={startTrial}>
+                <div className={styles.methodIcon}>
+                  <Gift size={24} />
+                </div>
+                <div className={styles.methodInfo}>
+                  <span className={styles.methodName}>
+                    Comecar teste gratis de {selectedPlan.trial_days} {selectedPlan.trial_days === 1 ? 'dia' : 'dias'}
+                  </span>
+                  <span className={styles.methodDescription}>Sem cobranca agora, assine quando quiser</span>
+                </div>
+                <ChevronRight size={20} />
+              </button>
+            )}
+
             <h2 className={styles.stepTitle}>Forma de pagamento</h2>
 
             <div className={styles.methodsList}>
-              {checkoutSettings.pix_enabled && (
+              {checkoutSettings.pix_enabled && !cardOnly && (
                 <button className={styles.methodCard} onClick={() => handleSelectMethod('pix')}>
                   <div className={styles.methodIcon}>
                     <QrCode size={24} />
@@ -570,7 +1056,7 @@ export function CheckoutPage() {
                 </button>
               )}
 
-              {checkoutSettings.boleto_enabled && (
+              {checkoutSettings.boleto_enabled && !cardOnly && (
                 <button className={styles.methodCard} onClick={() => handleSelectMethod('boleto')}>
                   <div className={styles.methodIcon}>
                     <Receipt size={24} />
@@ -609,7 +1095,7 @@ export function CheckoutPage() {
 
             <div className={styles.selectedPlanSummary}>
               <span>Total a pagar:</span>
-              <strong>{formatPrice(selectedPlan.price_cents)}</strong>
+              <strong>{formatPrice(totalCents)}</strong>
             </div>
 
             <h2 className={styles.stepTitle}>Dados do Cartao</h2>
@@ -684,9 +1170,10 @@ export function CheckoutPage() {
                     onChange={(e) => setCardForm((prev) => ({ ...prev, installments: parseInt(e.target.value) }))}
                     className={styles.selectInput}
                   >
-                    {installmentOptions.map((opt: any) => (
-                      <option key={opt.value} value={opt.value}>
-                        {opt.label}
+                    {installmentOptions.map((opt) => (
+                      <option key={opt.installments} value={opt.installments}>
+                        {`${opt.installments}x de ${formatPrice(opt.installmentCents)}`
+                          + (opt.interestCents > 0 ? ` (total ${formatPrice(opt.totalCents)})` : ' (sem juros)')}
                       </option>
                     ))}
                   </select>
@@ -700,7 +1187,7 @@ export function CheckoutPage() {
 
               <button type="submit" className={styles.payBtn}>
                 <Lock size={18} />
-                Pagar {formatPrice(selectedPlan.price_cents)}
+                Pagar {formatPrice(cardTotalCents)}
               </button>
             </form>
           </div>
@@ -718,7 +1205,31 @@ export function CheckoutPage() {
         {/* Step: Success */}
         {step === 'success' && paymentData && (
           <div className={styles.successStep}>
-            {selectedMethod === 'pix' && paymentData.pix_qr_code_base64 && (
+            {trialEndDate && (
+              <>
+                <div className={styles.successIconGreen}>
+                  <Gift size={32} />
+                </div>
+                <h2>Teste Gratis Liberado!</h2>
+                <p>
+                  Seu acesso vale ate{' '}
+                  <strong>{new Date(`${trialEndDate}T12:00:00`).toLocaleDateString('pt-BR')}</strong>.
+                  Voce recebera um email com suas credenciais de acesso.
+                </p>
+              </>
+            )}
+
+            {selectedMethod === 'pix' && pixPaid && (
+              <>
+                <div className={styles.successIconGreen}>
+                  <Check size={32} />
+                </div>
+                <h2>Pagamento Confirmado!</h2>
+                <p>{checkoutSettings?.checkout_success_message}</p>
+              </>
+            )}
+
+            {selectedMethod === 'pix' && !pixPaid && paymentData.pix_qr_code && (
               <>
                 <div className={styles.successIcon}>
                   <QrCode size={32} />
@@ -726,13 +1237,15 @@ export function CheckoutPage() {
                 <h2>Pague com PIX</h2>
                 <p>Escaneie o QR Code ou copie o codigo</p>
 
-                <div className={styles.qrCodeContainer}>
-                  <img
-                    src={`data:image/png;base64,${paymentData.pix_qr_code_base64}`}
-                    alt="QR Code PIX"
-                    className={styles.qrCode}
-                  />
-                </div>
+                {paymentData.pix_qr_code_base64 && (
+                  <div className={styles.qrCodeContainer}>
+                    <img
+                      src={`data:image/png;base64,${paymentData.pix_qr_code_base64}`}
+                      alt="QR Code PIX"
+                      className={styles.qrCode}
+                    />
+                  </div>
+                )}
 
                 <button className={styles.copyBtn} onClick={handleCopyPix}>
                   {copied ? (
@@ -757,28 +1270,36 @@ export function CheckoutPage() {
 
                 <div className={styles.waitingNote}>
                   <p>
-                    Apos o pagamento, voce recebera um email com suas credenciais de acesso.
+                    {renewal
+                      ? 'Seu plano sera renovado assim que o pagamento for confirmado.'
+                      : 'Apos o pagamento, voce recebera um email com suas credenciais de acesso.'}
                   </p>
                 </div>
               </>
             )}
 
-            {selectedMethod === 'boleto' && paymentData.boleto_url && (
+            {selectedMethod === 'boleto' && (paymentData.boleto_url || paymentData.boleto_barcode) && (
               <>
                 <div className={styles.successIcon}>
                   <Receipt size={32} />
                 </div>
                 <h2>Boleto Gerado</h2>
-                <p>Clique no botao abaixo para visualizar e pagar</p>
-
-                <a
-                  href={paymentData.boleto_url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className={styles.boletoBtn}
-                >
-                  Visualizar Boleto
-                </a>
+                <p>
+                  {paymentData.boleto_url
+                    ? 'Clique no botao abaixo para visualizar e pagar'
+                    : 'Pague usando o codigo de barras abaixo'}
+                </p>
+
+                {paymentData.boleto_url && (
+                  <a
+                    href={paymentData.boleto_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={styles.boletoBtn}
+                  >
+                    Visualizar Boleto
+                  </a>
+                )}
 
                 {paymentData.boleto_barcode && (
                   <div className={styles.barcodeBox}>
@@ -789,7 +1310,9 @@ export function CheckoutPage() {
 
                 <div className={styles.waitingNote}>
                   <p>
-                    O pagamento sera confirmado em ate 3 dias uteis. Voce recebera um email com suas credenciais de acesso.
+                    {renewal
+                      ? 'O pagamento sera confirmado em ate 3 dias uteis. Seu plano sera renovado em seguida.'
+                      : 'O pagamento sera confirmado em ate 3 dias uteis. Voce recebera um email com suas credenciais de acesso.'}
                   </p>
                 </div>
               </>
@@ -804,6 +1327,28 @@ export function CheckoutPage() {
                 <p>{checkoutSettings?.checkout_success_message}</p>
               </>
             )}
+
+            {isRecurring && (
+              <div className={styles.waitingNote}>
+                <p>
+                  Sua assinatura sera renovada automaticamente a cada {selectedPlan?.duration_days} dias.
+                  Voce pode cancelar a qualquer momento no seu perfil.
+                </p>
+              </div>
+            )}
+
+            {renewal && (
+              paymentConfirmed ? (
+                <div className={styles.expirationNote}>
+                  <Loader2 className={styles.spinner} size={14} />
+                  Voltando para o app...
+                </div>
+              ) : (
+                <button className={styles.continueBtn} onClick={() => navigate('/app')}>
+                  Voltar ao app
+                </button>
+              )
+            )}
           </div>
         )}
 
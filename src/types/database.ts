@@ -73,6 +73,8 @@ export type UnitType = 'gramas' | 'ml' | 'unidade' | 'fatia' | 'colher_sopa' | '
 export type DigestionRating = 'good' | 'poor' | 'terrible';
 export type BowelFrequency = 'once_a_day' | 'every_other_day' | 'constipated' | 'more_than_once';
 export type SleepQuality = 'excellent' | 'good' | 'regular' | 'poor' | 'terrible';
+export type BiologicalSex = 'male' | 'female';
+export type MicronutrientKey = 'colesterol' | 'calcio' | 'magnesio' | 'fosforo' | 'ferro' | 'sodio' | 'potassio' | 'zinco' | 'vitamina_a' | 'vitamina_c';
 
 export interface Profile {
   id: string;
@@ -86,9 +88,14 @@ export interface Profile {
   starting_weight_kg: number | null;
   goal_weight_kg: number | null;
   age: number | null;
+  sex: BiologicalSex | null;  // Used to pick the reference intakes (DRI)
   coaching_start_date: string | null;
   plan_start_date: string | null;
   plan_end_date: string | null;
+  plan_id: string | null;
+  pending_plan_id: string | null;
+  pending_plan_starts_on: string | null;
+  referral_code: string | null;  // Used in the client's referral link (?ref=)
   goals: string | null;
   is_active: boolean;
   created_at: string;
@@ -159,6 +166,7 @@ export interface Meal {
 export interface MealFood {
   id: string;
   meal_id: string;
+  food_id: number | null;
   food_name: string;
   quantity: string;
   quantity_units: number | null;
@@ -170,7 +178,9 @@ export interface FoodSubstitution {
   id: string;
   diet_plan_id: string;
   original_food: string;
+  original_food_id: number | null;
   substitute_food: string;
+  substitute_food_id: number | null;
   substitute_quantity: string;
 }
 
@@ -178,10 +188,13 @@ export interface TemplateFoodSubstitution {
   id: string;
   template_food_id: string;
   substitute_food: string;
+  substitute_food_id: number | null;
   substitute_quantity: string;
 }
 
 export interface MealSubstitutionItem {
+  // Missing on items saved before foods were linked by id
+  food_id?: number | null;
   food_name: string;
   quantity: string;
   unit_type: UnitType;
@@ -274,6 +287,17 @@ export interface TabelaTaco {
   carboidrato: string;
   gordura: string;
   fibra: string;
+  // Micronutrientes por 100g (NULL quando a TACO nao informa)
+  colesterol: string | null;  // mg
+  calcio: string | null;      // mg
+  magnesio: string | null;    // mg
+  fosforo: string | null;     // mg
+  ferro: string | null;       // mg
+  sodio: string | null;       // mg
+  potassio: string | null;    // mg
+  zinco: string | null;       // mg
+  vitamina_a: string | null;  // mcg (RAE)
+  vitamina_c: string | null;  // mg
 }
 
 export interface FoodMetadata {
@@ -339,10 +363,26 @@ export interface ExerciseLogRecord {
 // PAYMENT SYSTEM
 // ============================================
 
-export type PaymentGateway = 'none' | 'mercado_pago' | 'asaas' | 'pagseguro' | 'pagarme';
+export type PaymentGateway = 'none' | 'mercado_pago' | 'asaas' | 'pagseguro' | 'pagarme' | 'fake';
 export type PaymentMethod = 'pix' | 'boleto' | 'credit_card';
 export type PaymentStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'refunded';
 export type AsaasEnvironment = 'sandbox' | 'production';
+export type BillingMode = 'one_time' | 'recurring';
+export type SubscriptionStatus = 'pending' | 'active' | 'cancelled';
+export type CouponDiscountType = 'percent' | 'fixed';
+export type RefundPlanAction = 'keep' | 'shorten' | 'end';
+export type AccessGrantType = 'trial' | 'complimentary';
+
+// Encrypted columns of payment_settings: written through the
+// payment-settings-secrets edge function and never readable by the browser
+export type GatewaySecretField =
+  | 'mp_access_token'
+  | 'mp_webhook_secret'
+  | 'asaas_api_key'
+  | 'asaas_webhook_token'
+  | 'ps_token'
+  | 'pm_api_key'
+  | 'pm_encryption_key';
 
 export interface PaymentSettings {
   id: string;
@@ -354,10 +394,13 @@ export interface PaymentSettings {
   // Mercado Pago credentials
   mp_access_token: string | null;
   mp_public_key: string | null;
+  mp_webhook_secret: string | null;
+  mp_user_id: string | null;
 
   // Asaas credentials
   asaas_api_key: string | null;
   asaas_environment: AsaasEnvironment;
+  asaas_webhook_token: string | null;
 
   // PagSeguro credentials
   ps_email: string | null;
@@ -367,6 +410,9 @@ export interface PaymentSettings {
   pm_api_key: string | null;
   pm_encryption_key: string | null;
 
+  // Last 4 characters of each stored secret, for masked display
+  secret_hints: Partial<Record<GatewaySecretField, string>>;
+
   // Payment methods enabled
   pix_enabled: boolean;
   boleto_enabled: boolean;
@@ -378,6 +424,29 @@ export interface PaymentSettings {
   checkout_description: string | null;
   checkout_success_message: string;
 
+  // Abandoned checkout recovery
+  recovery_email_enabled: boolean;
+  recovery_email_delay_minutes: number;
+
+  // Card installments
+  max_installments: number;
+  min_installment_cents: number;
+  interest_free_installments: number;
+  installment_interest_percent: number;  // monthly, applied past interest_free_installments
+
+  // Referral program
+  referral_enabled: boolean;
+  referral_reward_type: ReferralRewardType;
+  referral_reward_days: number;
+  referral_reward_percent: number;  // discount of the reward coupon
+
+  // Service invoices (NFS-e)
+  invoice_enabled: boolean;
+  invoice_provider: InvoiceProvider;
+  invoice_service_code: string | null;
+  invoice_iss_rate: number;  // percent
+  invoice_municipal_registration: string | null;
+
   created_at: string;
   updated_at: string;
 }
@@ -389,6 +458,11 @@ export interface SubscriptionPlan {
   description: string | null;
   duration_days: number;
   price_cents: number;
+  billing_mode: BillingMode;
+  trial_days: number;  // 0 when the plan has no free trial
+  // Override the owner's installment rules when set
+  max_installments: number | null;
+  interest_free_installments: number | null;
   features: string[];
   is_active: boolean;
   is_featured: boolean;
@@ -402,6 +476,7 @@ export interface Payment {
   owner_id: string;
   client_id: string | null;
   plan_id: string | null;
+  subscription_id: string | null;
 
   // Gateway info
   gateway: PaymentGateway;
@@ -412,6 +487,29 @@ export interface Payment {
   payment_method: PaymentMethod | null;
   status: PaymentStatus;
 
+  // Coupon
+  coupon_id: string | null;
+  coupon_code: string | null;
+  original_amount_cents: number | null;
+  discount_cents: number;
+
+  // Plan change quoted at checkout for a signed-in client
+  plan_change_type: PlanChangeType | null;
+  proration_credit_cents: number;
+
+  // Access granted without payment (zero-value entry)
+  grant_type: AccessGrantType | null;
+  grant_reason: string | null;
+  granted_by: string | null;
+
+  // Client whose referral link brought the purchase
+  referrer_id: string | null;
+  referral_code: string | null;
+
+  // Refunds (status only becomes 'refunded' when fully refunded)
+  refunded_amount_cents: number;
+  refunded_at: string | null;
+
   // Customer info
   customer_email: string;
   customer_name: string;
@@ -432,20 +530,289 @@ export interface Payment {
   card_last_digits: string | null;
   card_brand: string | null;
   installments: number;
+  installment_interest_cents: number;  // already included in amount_cents
 
   // Tracking
   paid_at: string | null;
   webhook_data: Record<string, unknown> | null;
   error_message: string | null;
 
+  // Receipt PDF in the private "receipts" bucket, downloaded via payment-receipt
+  receipt_path: string | null;
+
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Subscription {
+  id: string;
+  owner_id: string;
+  client_id: string | null;
+  plan_id: string | null;
+
+  // Gateway info
+  gateway: Exclude<PaymentGateway, 'none' | 'pagseguro' | 'fake'>;
+  gateway_subscription_id: string;
+
+  payment_method: PaymentMethod | null;
+  amount_cents: number;
+  status: SubscriptionStatus;
+
+  // Customer info
+  customer_email: string;
+  customer_name: string;
+  customer_phone: string | null;
+  customer_cpf: string | null;
+
+  cancelled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  payment_id: string;
+  owner_id: string;
+  amount_cents: number;
+  reason: string;
+  gateway_refund_id: string | null;
+  plan_action: RefundPlanAction;
+  previous_plan_end_date: string | null;
+  new_plan_end_date: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type PlanChangeType = 'new' | 'renewal' | 'upgrade' | 'downgrade';
+
+export interface PlanChange {
+  id: string;
+  client_id: string;
+  payment_id: string | null;
+  from_plan_id: string | null;
+  to_plan_id: string | null;
+  change_type: PlanChangeType;
+  // Scheduled changes take over on effective_date (see plan-expiry-job)
+  status: 'applied' | 'scheduled';
+  credit_cents: number;
+  effective_date: string;
+  previous_plan_end_date: string | null;
+  new_plan_end_date: string | null;
+  created_at: string;
+}
+
+// Response of the plan-change-quote edge function
+export interface PlanChangeQuote {
+  change_type: PlanChangeType;
+  from_plan_id: string | null;
+  from_plan_name: string | null;
+  remaining_days: number;
+  credit_cents: number;
+  min_charge_cents: number;
+  starts_on: string;
+}
+
+export interface Coupon {
+  id: string;
+  owner_id: string;
+  code: string;
+  description: string | null;
+
+  // Discount: percent (1-100) or fixed amount in cents
+  discount_type: CouponDiscountType;
+  discount_value: number;
+
+  // Restrictions
+  valid_from: string | null;
+  valid_until: string | null;
+  max_uses: number | null;
+  uses_count: number;
+  plan_ids: string[] | null;
+  first_purchase_only: boolean;
+  customer_email: string | null;  // Referral rewards: only this customer can redeem
+
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+export interface WebhookEvent {
+  id: string;
+  gateway: Exclude<PaymentGateway, 'none'>;
+  event_id: string;
+  event_type: string | null;
+  payment_id: string | null;
+  payload: Record<string, unknown> | null;
+  status: WebhookEventStatus;
+  error_message: string | null;
+  processed_at: string | null;
+  created_at: string;
+}
+
+export type ScheduledJobStatus = 'running' | 'succeeded' | 'failed';
+
+export interface ScheduledJobRun {
+  id: string;
+  job_name: string;
+  trigger: 'cron' | 'manual';
+  status: ScheduledJobStatus;
+  reminders_sent: number;
+  payments_expired: number;
+  plan_changes_applied: number;
+  clients_deactivated: number;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export type ReferralRewardType = 'days' | 'coupon';
+
+export interface ReferralReward {
+  id: string;
+  owner_id: string;
+  referrer_id: string;
+  referred_client_id: string;
+  payment_id: string;
+  reward_type: ReferralRewardType;
+  reward_days: number | null;
+  coupon_id: string | null;
+  coupon_code: string | null;
+  created_at: string;
+}
+
+export type InvoiceProvider = 'none' | 'mock';
+
+export type InvoiceStatus = 'pending' | 'processing' | 'issued' | 'failed';
+
+export interface Invoice {
+  id: string;
+  owner_id: string;
+  payment_id: string;
+  client_id: string | null;
+  provider: Exclude<InvoiceProvider, 'none'>;
+  status: InvoiceStatus;
+  provider_invoice_id: string | null;
+  invoice_number: string | null;
+  verification_code: string | null;
+  pdf_url: string | null;
+  issued_at: string | null;
+  amount_cents: number;
+  service_description: string | null;
+  attempts: number;
+  next_attempt_at: string | null;  // null once issued or given up
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  owner_id: string;
+  plan_id: string | null;
+  payment_id: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  plan_selected_at: string | null;
+  customer_submitted_at: string | null;
+  recovery_email_sent_at: string | null;
+  resumed_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Row returned by checkout_funnel (sql/checkout_sessions.sql)
+export interface CheckoutFunnel {
+  viewed_count: number;
+  plan_selected_count: number;
+  customer_submitted_count: number;
+  paid_count: number;
+  recovery_sent_count: number;
+  recovered_count: number;
+}
+
+// Rows returned by the revenue analytics RPCs (sql/revenue_analytics.sql)
+export interface RevenueOverview {
+  today_cents: number;
+  week_cents: number;
+  month_cents: number;
+  total_cents: number;
+  approved_count: number;
+  pending_count: number;
+  discount_cents: number;
+  coupon_count: number;
+}
+
+export interface RevenueSummary {
+  revenue_cents: number;
+  refunded_cents: number;
+  payments_count: number;
+  paying_clients: number;
+  arpu_cents: number;
+}
+
+export interface RevenueMonth {
+  month: string;
+  revenue_cents: number;
+  refunded_cents: number;
+  payments_count: number;
+  active_clients: number;
+  arpu_cents: number;
+}
+
+export interface RevenueByPlan {
+  plan_id: string;
+  plan_name: string;
+  revenue_cents: number;
+  payments_count: number;
+  renewed_count: number;
+  churned_count: number;
+}
+
+export interface AccessGrantsSummary {
+  trial_count: number;
+  trial_converted_count: number;
+  complimentary_count: number;
+}
+
+// Row returned by referral_report (sql/referrals.sql)
+export interface ReferralReportRow {
+  referrer_id: string;
+  referrer_name: string;
+  referrer_email: string | null;
+  referral_code: string | null;
+  conversions: number;
+  revenue_cents: number;
+  reward_days: number;
+  coupons_granted: number;
+}
+
+export interface RevenueByMethod {
+  gateway: Exclude<PaymentGateway, 'none'>;
+  payment_method: PaymentMethod | null;
+  revenue_cents: number;
+  payments_count: number;
+}
+
 // Payment with related data for display
 export interface PaymentWithPlan extends Payment {
   plan?: SubscriptionPlan;
   client?: Profile;
+  invoice?: Pick<Invoice, 'status' | 'invoice_number' | 'pdf_url'> | null;
+}
+
+// Invoice with its payment for the failures list
+export interface InvoiceWithPayment extends Invoice {
+  payment?: Pick<Payment, 'customer_name' | 'customer_email'> | null;
+}
+
+// Plan change with plan names for display
+export interface PlanChangeWithPlans extends PlanChange {
+  from_plan?: Pick<SubscriptionPlan, 'name'> | null;
+  to_plan?: Pick<SubscriptionPlan, 'name'> | null;
+  payment?: Pick<Payment, 'grant_type' | 'grant_reason'> | null;
 }
 
 export interface Database {
@@ -551,6 +918,31 @@ export interface Database {
         Insert: Omit<Payment, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<Payment, 'id'>>;
       };
+      subscriptions: {
+        Row: Subscription;
+        Insert: Omit<Subscription, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<Subscription, 'id'>>;
+      };
+      webhook_events: {
+        Row: WebhookEvent;
+        Insert: Omit<WebhookEvent, 'id' | 'created_at'>;
+        Update: Partial<Omit<WebhookEvent, 'id'>>;
+      };
+      payment_refunds: {
+        Row: PaymentRefund;
+        Insert: Omit<PaymentRefund, 'id' | 'created_at'>;
+        Update: Partial<Omit<PaymentRefund, 'id'>>;
+      };
+      scheduled_job_runs: {
+        Row: ScheduledJobRun;
+        Insert: Omit<ScheduledJobRun, 'id' | 'started_at'>;
+        Update: Partial<Omit<ScheduledJobRun, 'id'>>;
+      };
+      coupons: {
+        Row: Coupon;
+        Insert: Omit<Coupon, 'id' | 'uses_count' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<Coupon, 'id'>>;
+      };
     };
   };
 }
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { generateDietDraft, getMealNameForTime, getMealSchedule, parseFoodTerms } from './dietGenerator';
+import type { GeneratorAnamnesis } from './dietGenerator';
+import { calculateMealFoodMacros, sumMacros, toGrams, toResolvedFood } from './nutrition';
+
+// Amostra da TACO (valores por 100g)
+const library = [
+  { id: 1, alimento: 'Pão, trigo, forma, integral', caloria: '253', proteina: '9,4', carboidrato: '49,9', gordura: '3,7', food_metadata: { nome_simplificado: 'Pão integral', peso_por_unidade: 25 } },
+  { id: 2, alimento: 'Aveia, flocos, crua', caloria: '394', proteina: '13,9', carboidrato: '66,6', gordura: '8,5' },
+  { id: 3, alimento: 'Ovo, de galinha, inteiro, cozido/10minutos', caloria: '146', proteina: '13,3', carboidrato: '0,6', gordura: '9,5', food_metadata: { nome_simplificado: 'Ovo cozido', peso_por_unidade: 50 } },
+  { id: 4, alimento: 'Queijo, minas, frescal', caloria: '264', proteina: '17,4', carboidrato: '3,2', gordura: '20,2' },
+  { id: 5, alimento: 'Iogurte, natural', caloria: '51', proteina: '4,1', carboidrato: '1,9', gordura: '3,0' },
+  { id: 6, alimento: 'Banana, prata, crua', caloria: '98', proteina: '1,3', carboidrato: '26,0', gordura: '0,1' },
+  { id: 7, alimento: 'Maçã, Fuji, com casca, crua', caloria: '56', proteina: '0,3', carboidrato: '15,2', gordura: '0,0' },
+  { id: 8, alimento: 'Castanha-do-Brasil, crua', caloria: '643', proteina: '14,5', carboidrato: '15,1', gordura: '63,5' },
+  { id: 9, alimento: 'Arroz, integral, cozido', caloria: '124', proteina: '2,6', carboidrato: '25,8', gordura: '1,0' },
+  { id: 10, alimento: 'Arroz, tipo 1, cozido', caloria: '128', proteina: '2,5', carboidrato: '28,1', gordura: '0,2' },
+  { id: 11, alimento: 'Feijão, carioca, cozido', caloria: '76', proteina: '4,8', carboidrato: '13,6', gordura: '0,5' },
+  { id: 12, alimento: 'Frango, peito, sem pele, grelhado', caloria: '159', proteina: '32,0', carboidrato: '0,0', gordura: '2,5' },
+  { id: 13, alimento: 'Carne, bovina, patinho, sem gordura, grelhado', caloria: '219', proteina: '35,9', carboidrato: '0,0', gordura: '7,3' },
+  { id: 14, alimento: 'Tilápia, filé, grelhado', caloria: '128', proteina: '26,2', carboidrato: '0,0', gordura: '2,7' },
+  { id: 15, alimento: 'Brócolis, cozido', caloria: '25', proteina: '2,1', carboidrato: '4,4', gordura: '0,5' },
+  { id: 16, alimento: 'Azeite, de oliva, extra virgem', caloria: '884', proteina: '0,0', carboidrato: '0,0', gordura: '100,0' },
+].map(toResolvedFood);
+
+const anamnesis: GeneratorAnamnesis = {
+  meals_per_day: 5,
+  meal_times: null,
+  preferred_foods: null,
+  disliked_foods: null,
+  food_allergies: null,
+  gluten_intolerance: false,
+};
+
+const foodNames = (draft: ReturnType<typeof generateDietDraft>) =>
+  draft.meals.flatMap((meal) => meal.foods.map((item) => item.food.alimento));
+
+describe('meal schedule', () => {
+  it('uses the declared times in order, naming numbered meals by time', () => {
+    expect(getMealSchedule({ meals_per_day: 3, meal_times: { '2': '12:30', '1': '7:00', '3': '20:00' } })).toEqual([
+      { name: 'Café da Manhã', time: '07:00' },
+      { name: 'Almoço', time: '12:30' },
+      { name: 'Jantar', time: '20:00' },
+    ]);
+  });
+
+  it('keeps named meals and numbers repeated names', () => {
+    expect(getMealSchedule({ meals_per_day: null, meal_times: { 'Pré-Treino': '17:00', a: '15:30', b: '16:30' } }).map((meal) => meal.name))
+      .toEqual(['a', 'b', 'Pré-Treino']);
+    expect(getMealSchedule({ meals_per_day: null, meal_times: { '1': '15:00', '2': '16:30' } }).map((meal) => meal.name))
+      .toEqual(['Lanche da Tarde', 'Lanche da Tarde 2']);
+  });
+
+  it('falls back to the default schedule for meals_per_day', () => {
+    expect(getMealSchedule({ meals_per_day: 4, meal_times: null })).toHaveLength(4);
+    expect(getMealSchedule({ meals_per_day: null, meal_times: { '1': 'cedo' } })).toHaveLength(5);
+    expect(getMealSchedule({ meals_per_day: 9, meal_times: null })).toHaveLength(6);
+  });
+
+  it('names meals after the time of day', () => {
+    expect(getMealNameForTime('06:30')).toBe('Café da Manhã');
+    expect(getMealNameForTime('13:00')).toBe('Almoço');
+    expect(getMealNameForTime('23:00')).toBe('Ceia');
+  });
+});
+
+describe('parseFoodTerms', () => {
+  it('splits free text into significant words, in the singular', () => {
+    expect(parseFoodTerms('Não gosto de fígado, ovos e peixe cru')).toEqual(
+      expect.arrayContaining([['figado'], ['ovo'], ['peixe', 'cru']])
+    );
+  });
+
+  it('expands named food groups', () => {
+    expect(parseFoodTerms('intolerância à lactose')).toEqual(expect.arrayContaining([['queijo'], ['iogurte']]));
+    expect(parseFoodTerms(null)).toEqual([]);
+  });
+});
+
+describe('generateDietDraft', () => {
+  it('builds every meal from the library', () => {
+    const draft = generateDietDraft(anamnesis, {}, library);
+    expect(draft.meals.map((meal) => meal.name)).toEqual(['Café da Manhã', 'Lanche da Manhã', 'Almoço', 'Lanche da Tarde', 'Jantar']);
+    expect(draft.meals.every((meal) => meal.foods.length > 0)).toBe(true);
+    expect(draft.missing).toEqual([]);
+  });
+
+  it('serves eggs and bread in units when their weight is known', () => {
+    const breakfast = generateDietDraft(anamnesis, {}, library).meals[0];
+    expect(breakfast.foods.map((item) => [item.food.id, item.unit_type, item.amount])).toEqual([
+      [1, 'fatia', 2],
+      [3, 'unidade', 2],
+      [6, 'gramas', 100],
+    ]);
+  });
+
+  it('varies foods between meals', () => {
+    const [, , lunch, , dinner] = generateDietDraft(anamnesis, {}, library).meals;
+    expect(lunch.foods[0].food.id).not.toBe(dinner.foods[0].food.id);
+    expect(lunch.foods[2].food.id).not.toBe(dinner.foods[2].food.id);
+  });
+
+  it('avoids disliked foods, allergens and gluten', () => {
+    const draft = generateDietDraft(
+      { ...anamnesis, disliked_foods: 'frango', food_allergies: 'alergia a ovo e lactose', gluten_intolerance: true },
+      {},
+      library
+    );
+    const names = foodNames(draft).join(' | ');
+    expect(names).not.toMatch(/Frango|Ovo|Queijo|Iogurte|Pão|Aveia/);
+    expect(draft.missing).toContain('Café da Manhã: Carboidrato');
+  });
+
+  it('prefers the foods the client likes', () => {
+    const [, , lunch] = generateDietDraft({ ...anamnesis, preferred_foods: 'Tilápia' }, {}, library).meals;
+    expect(lunch.foods.map((item) => item.food.id)).toContain(14);
+  });
+
+  it('sizes the portions to the macro goals', () => {
+    const goals = { calories: 2200, protein: 150, carbs: 250, fats: 65 };
+    const draft = generateDietDraft(anamnesis, goals, library);
+    const totals = sumMacros(draft.meals.flatMap((meal) => meal.foods.map((item) =>
+      calculateMealFoodMacros({ quantity: toGrams(item.amount, item.unit_type, item.food.peso_por_unidade) }, item.food)
+    )));
+    expect(Math.abs(totals.calories - goals.calories) / goals.calories).toBeLessThan(0.05);
+    expect(Math.abs(totals.protein - goals.protein) / goals.protein).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  DEFAULT_MEAL_SCHEDULES,
+  EXCLUSION_GROUPS,
+  IGNORED_WORDS,
+  MEAL_KINDS,
+  MEAL_NAMES_BY_TIME,
+  MEAL_SLOTS,
+  UNIT_CANDIDATES,
+} from '../constants/dietGenerator';
+import type { GeneratorSlot } from '../constants/dietGenerator';
+import type { Anamnesis, UnitType } from '../types/database';
+import { getMacrosPer100g } from './nutrition';
+import type { ResolvedFood } from './nutrition';
+import { getPortionStep, solvePortions } from './portionSolver';
+import type { MacroGoalTargets, PortionInput } from './portionSolver';
+
+/**
+ * Draft diet built from the client's anamnesis: meals at the declared times
+ * (or a default schedule), foods picked from the library per meal slot while
+ * skipping disliked and allergen items, and portions sized to the macro goals
+ * by the portion solver. The admin reviews the draft in the diet editor.
+ */
+
+export type GeneratorAnamnesis = Pick<
+  Anamnesis,
+  'meals_per_day' | 'meal_times' | 'preferred_foods' | 'disliked_foods' | 'food_allergies' | 'gluten_intolerance'
+>;
+
+export interface GeneratedFood {
+  food: ResolvedFood;
+  unit_type: UnitType;
+  // Quantidade na unidade do alimento (g ou unidades)
+  amount: number;
+}
+
+export interface GeneratedMeal {
+  name: string;
+  suggested_time: string | null;
+  foods: GeneratedFood[];
+}
+
+export interface DietDraft {
+  meals: GeneratedMeal[];
+  // Grupos sem nenhum alimento permitido na biblioteca, ex.: "Almoço: Leguminosa"
+  missing: string[];
+}
+
+const DEFAULT_MEALS_PER_DAY = 5;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+// Chaves de meal_times sem nome de refeicao ("1", "refeicao_2"...)
+const NUMBERED_KEY_PATTERN = /^(refeicao|meal)?[\s_-]?\d+$/i;
+
+// Normaliza texto removendo acentos e pontuacao, em minusculas
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove acentos
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Palavras relevantes de um texto livre, no singular simples ("ovos" -> "ovo")
+function significantWords(text: string): string[] {
+  return normalizeText(text)
+    .split(' ')
+    .filter((word) => word && !IGNORED_WORDS.includes(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word));
+}
+
+// Todas as palavras do termo aparecem (como inicio de palavra) no nome
+function matchesTerm(nameWords: string[], termWords: string[]): boolean {
+  return termWords.length > 0 && termWords.every((term) => nameWords.some((word) => word.startsWith(term)));
+}
+
+/**
+ * Terms of a free-text anamnesis answer ("frango, peixe e ovos"), each as its
+ * significant words, expanded with the food groups it names (lactose, gluten...)
+ */
+export function parseFoodTerms(text: string | null | undefined): string[][] {
+  if (!text) return [];
+  const normalized = ` ${normalizeText(text)} `;
+
+  const terms = text
+    .split(/[,;/\n]|\s+e\s+|\s+ou\s+/i)
+    .map((part) => significantWords(part))
+    .filter((words) => words.length > 0);
+
+  Object.entries(EXCLUSION_GROUPS).forEach(([group, members]) => {
+    if (normalized.includes(` ${group} `)) {
+      members.forEach((member) => terms.push(member.split(' ')));
+    }
+  });
+
+  return terms;
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Meal name for a declared time (breakfast before 10h, lunch until 15h...)
+ */
+export function getMealNameForTime(time: string): string {
+  const minutes = timeToMinutes(time);
+  const match = MEAL_NAMES_BY_TIME.find((entry) => minutes < timeToMinutes(entry.until));
+  return match ? match.name : MEAL_NAMES_BY_TIME[MEAL_NAMES_BY_TIME.length - 1].name;
+}
+
+/**
+ * Meals of the day: the declared meal_times in time order (named after the
+ * key, or after the time for numbered keys), otherwise the default schedule
+ * for meals_per_day
+ */
+export function getMealSchedule(anamnesis: Pick<GeneratorAnamnesis, 'meals_per_day' | 'meal_times'>): { name: string; time: string }[] {
+  const declared = Object.entries(anamnesis.meal_times || {})
+    .filter(([, time]) => typeof time === 'string' && TIME_PATTERN.test(time.trim()))
+    .map(([key, time]) => ({ key: key.trim(), time: time.trim().padStart(5, '0') }))
+    .sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time));
+
+  if (declared.length > 0) {
+    const used = new Map<string, number>();
+    return declared.map(({ key, time }) => {
+      const baseName = key && !NUMBERED_KEY_PATTERN.test(key) ? key : getMealNameForTime(time);
+      const count = (used.get(baseName) || 0) + 1;
+      used.set(baseName, count);
+      return { name: count > 1 ? `${baseName} ${count}` : baseName, time };
+    });
+  }
+
+  const mealsPerDay = Math.min(6, Math.max(3, anamnesis.meals_per_day || DEFAULT_MEALS_PER_DAY));
+  return DEFAULT_MEAL_SCHEDULES[mealsPerDay];
+}
+
+function getMealSlots(mealName: string): GeneratorSlot[] {
+  const baseName = mealName.replace(/\s\d+$/, '');
+  return MEAL_SLOTS[MEAL_KINDS[baseName] || 'snack'];
+}
+
+/**
+ * Builds the draft diet. Without macro goals the portions keep the default
+ * amounts of each slot.
+ */
+export function generateDietDraft(
+  anamnesis: GeneratorAnamnesis | null,
+  goals: MacroGoalTargets,
+  library: ReadonlyArray<ResolvedFood>
+): DietDraft {
+  const excluded = [
+    ...parseFoodTerms(anamnesis?.disliked_foods),
+    ...parseFoodTerms(anamnesis?.food_allergies),
+    ...(anamnesis?.gluten_intolerance ? EXCLUSION_GROUPS.gluten.map((term) => [term]) : []),
+  ];
+  const preferred = parseFoodTerms(anamnesis?.preferred_foods);
+
+  const foods = library
+    .map((food) => ({
+      food,
+      words: normalizeText(`${food.alimento} ${food.nome_simplificado || ''}`).split(' '),
+    }))
+    .filter(({ words }) => !excluded.some((term) => matchesTerm(words, term)));
+
+  // Quantas vezes cada alimento ja entrou, para variar entre refeicoes
+  const usage = new Map<number, number>();
+  const missing: string[] = [];
+  const inputs: PortionInput[] = [];
+
+  const meals = getMealSchedule(anamnesis || { meals_per_day: null, meal_times: null }).map(({ name, time }) => {
+    const mealFoods: GeneratedFood[] = [];
+
+    getMealSlots(name).forEach((slot) => {
+      const options = slot.candidates.flatMap((candidate, rank) => {
+        const candidateWords = candidate.split(' ');
+        return foods
+          .filter(({ words }) => matchesTerm(words, candidateWords))
+          .map(({ food, words }) => ({
+            food,
+            candidate,
+            rank,
+            isPreferred: preferred.some((term) => matchesTerm(words, term)),
+          }));
+      });
+
+      const alreadyInMeal = new Set(mealFoods.map((item) => item.food.id));
+      const choice = options
+        .filter((option) => !alreadyInMeal.has(option.food.id))
+        .sort((a, b) =>
+          Number(b.isPreferred) - Number(a.isPreferred) ||
+          (usage.get(a.food.id) || 0) - (usage.get(b.food.id) || 0) ||
+          a.rank - b.rank ||
+          a.food.id - b.food.id
+        )[0];
+
+      if (!choice) {
+        missing.push(`${name}: ${slot.label}`);
+        return;
+      }
+      usage.set(choice.food.id, (usage.get(choice.food.id) || 0) + 1);
+
+      // Unidades caseiras so quando o alimento tem peso por unidade cadastrado
+      const unitType = choice.food.peso_por_unidade ? UNIT_CANDIDATES[choice.candidate] || 'gramas' : 'gramas';
+      const gramsPerAmount = unitType === 'gramas' ? 1 : choice.food.peso_por_unidade as number;
+      const step = getPortionStep(unitType);
+      const toAmount = (grams: number, round: (value: number) => number) =>
+        Math.max(step, round(grams / gramsPerAmount / step) * step);
+
+      const item: GeneratedFood = {
+        food: choice.food,
+        unit_type: unitType,
+        amount: toAmount(slot.grams, Math.round),
+      };
+      mealFoods.push(item);
+      inputs.push({
+        per100g: getMacrosPer100g(choice.food),
+        unit_type: unitType,
+        peso_por_unidade: choice.food.peso_por_unidade ?? null,
+        amount: item.amount,
+        min: toAmount(slot.min, Math.ceil),
+        max: toAmount(slot.max, Math.floor),
+      });
+    });
+
+    return { name, suggested_time: time, foods: mealFoods };
+  });
+
+  // Porcoes dimensionadas para as metas do dia
+  const amounts = solvePortions(inputs, goals);
+  let index = 0;
+  meals.forEach((meal) => {
+    meal.foods.forEach((item) => {
+      item.amount = amounts[index++];
+    });
+  });
+
+  return { meals, missing };
+}
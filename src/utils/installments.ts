@@ -0,0 +1,55 @@
+import type { PaymentSettings, SubscriptionPlan } from '../types/database';
+
+// Mirrors supabase/functions/_shared/installments.ts, which payment-create
+// uses to validate the installments chosen here
+
+export interface InstallmentOption {
+  installments: number;
+  installmentCents: number;
+  totalCents: number;
+  interestCents: number;
+}
+
+type InstallmentSettings = Partial<Pick<
+  PaymentSettings,
+  'max_installments' | 'min_installment_cents' | 'interest_free_installments' | 'installment_interest_percent'
+>>;
+
+const MAX_INSTALLMENTS = 12;
+
+/**
+ * Installment options for an amount, using the plan overrides over the owner rules.
+ * Paying in full is always offered; installments past the interest-free count
+ * follow the Price table
+ */
+export function getInstallmentOptions(
+  amountCents: number,
+  settings: InstallmentSettings,
+  plan?: Pick<SubscriptionPlan, 'max_installments' | 'interest_free_installments'> | null
+): InstallmentOption[] {
+  const maxInstallments = Math.min(
+    Math.max(plan?.max_installments ?? settings.max_installments ?? MAX_INSTALLMENTS, 1),
+    MAX_INSTALLMENTS
+  );
+  const minInstallmentCents = Math.max(settings.min_installment_cents ?? 500, 0);
+  const interestFree = Math.max(plan?.interest_free_installments ?? settings.interest_free_installments ?? MAX_INSTALLMENTS, 1);
+  const rate = Math.max(Number(settings.installment_interest_percent ?? 0) || 0, 0) / 100;
+
+  const options: InstallmentOption[] = [];
+
+  for (let n = 1; n <= maxInstallments; n++) {
+    let option: InstallmentOption;
+
+    if (n <= interestFree || rate === 0) {
+      option = { installments: n, installmentCents: Math.round(amountCents / n), totalCents: amountCents, interestCents: 0 };
+    } else {
+      const installmentCents = Math.round((amountCents * rate) / (1 - Math.pow(1 + rate, -n)));
+      option = { installments: n, installmentCents, totalCents: installmentCents * n, interestCents: installmentCents * n - amountCents };
+    }
+
+    if (n > 1 && option.installmentCents < minInstallmentCents) break;
+    options.push(option);
+  }
+
+  return options;
+}
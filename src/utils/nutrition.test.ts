@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { UNIT_TYPES } from '../constants/foodUnits';
+import type { UnitType } from '../types/database';
+import {
+  calculateDayTotals,
+  calculateMealFoodMacros,
+  calculateMealFoodMicronutrients,
+  calculatePlanTotals,
+  calculateSubstitutionItemMacros,
+  calculateSubstitutionItemMicronutrients,
+  compareMicronutrients,
+  createFoodLookup,
+  DEFAULT_GRAMS_PER_UNIT,
+  getMicronutrientsPer100g,
+  getReferenceIntakes,
+  isMeasuredUnit,
+  isSameFood,
+  parseBrazilianNumber,
+  sumMacros,
+  sumMicronutrients,
+  toGrams,
+  toNutritionSource,
+  toStoredQuantity,
+} from './nutrition';
+
+// Arroz, tipo 1, cozido (TACO), with a 30g "colher de sopa"
+const rice = { caloria: '128', proteina: '2,5', carboidrato: '28,1', gordura: '0,2', peso_por_unidade: 30 };
+
+const ALL_UNITS = Object.keys(UNIT_TYPES) as UnitType[];
+const MEASURED_UNITS: UnitType[] = ['gramas', 'ml'];
+
+describe('parseBrazilianNumber', () => {
+  it('reads comma decimals, numbers and empty values', () => {
+    expect(parseBrazilianNumber('2,5')).toBe(2.5);
+    expect(parseBrazilianNumber('128')).toBe(128);
+    expect(parseBrazilianNumber(7.5)).toBe(7.5);
+    expect(parseBrazilianNumber('')).toBe(0);
+    expect(parseBrazilianNumber(null)).toBe(0);
+    expect(parseBrazilianNumber('Tr')).toBe(0);
+  });
+});
+
+describe('toGrams', () => {
+  it.each(MEASURED_UNITS)('takes %s amounts as they are, ignoring the unit weight', (unit) => {
+    expect(isMeasuredUnit(unit)).toBe(true);
+    expect(toGrams(150, unit, 30)).toBe(150);
+  });
+
+  it.each(ALL_UNITS.filter((unit) => !MEASURED_UNITS.includes(unit)))(
+    'converts %s with the unit weight, or the default when it is missing',
+    (unit) => {
+      expect(isMeasuredUnit(unit)).toBe(false);
+      expect(toGrams(2, unit, 30)).toBe(60);
+      expect(toGrams(2, unit, null)).toBe(2 * DEFAULT_GRAMS_PER_UNIT);
+      expect(toGrams(2, unit, 0)).toBe(2 * DEFAULT_GRAMS_PER_UNIT);
+    }
+  );
+
+  it('treats a missing unit type as grams', () => {
+    expect(toGrams(80, null, 30)).toBe(80);
+  });
+});
+
+describe('toStoredQuantity', () => {
+  it.each(ALL_UNITS)('stores grams in quantity and the %s count apart', (unit) => {
+    const stored = toStoredQuantity(1.5, unit, 30);
+
+    if (MEASURED_UNITS.includes(unit)) {
+      expect(stored).toEqual({ quantity: '2', quantity_units: null });
+    } else {
+      expect(stored).toEqual({ quantity: '45', quantity_units: 1.5 });
+    }
+  });
+});
+
+describe('food macros', () => {
+  it('scales meal foods by their quantity in grams, whatever the unit', () => {
+    for (const unit of ALL_UNITS) {
+      const macros = calculateMealFoodMacros({ quantity: '60', quantity_units: 2, unit_type: unit } as never, rice);
+      expect(macros.calories).toBeCloseTo(76.8);
+      expect(macros.protein).toBeCloseTo(1.5);
+      expect(macros.carbs).toBeCloseTo(16.86);
+      expect(macros.fats).toBeCloseTo(0.12);
+    }
+  });
+
+  it.each(ALL_UNITS)('reads meal substitution items in %s', (unit) => {
+    const macros = calculateSubstitutionItemMacros({ quantity: '2', unit_type: unit }, rice);
+    const grams = MEASURED_UNITS.includes(unit) ? 2 : 60;
+    expect(macros.calories).toBeCloseTo(1.28 * grams);
+  });
+
+  it('reads the unit weight and simplified name from food_metadata', () => {
+    const source = toNutritionSource({ ...rice, food_metadata: [{ nome_simplificado: 'Arroz', peso_por_unidade: 25 }] });
+    expect(source.peso_por_unidade).toBe(25);
+    expect(source.nome_simplificado).toBe('Arroz');
+    expect(toNutritionSource({ ...rice, food_metadata: null }).peso_por_unidade).toBeNull();
+  });
+});
+
+describe('food references', () => {
+  const rows = [
+    { id: 1, alimento: 'Arroz, tipo 1, cozido', ...rice, food_metadata: { nome_simplificado: 'Arroz', peso_por_unidade: 30 } },
+    { id: 2, alimento: 'Feijao, carioca, cozido', caloria: '76', proteina: '4,8', carboidrato: '13,6', gordura: '0,5' },
+  ];
+  const findFood = createFoodLookup(rows);
+
+  it('finds linked foods by id, even when the saved name is outdated', () => {
+    const food = findFood({ food_id: 1, food_name: 'Arroz branco' });
+    expect(food?.alimento).toBe('Arroz, tipo 1, cozido');
+    expect(food?.peso_por_unidade).toBe(30);
+  });
+
+  it('falls back to the name for foods not linked yet', () => {
+    expect(findFood({ food_id: null, food_name: 'Feijao, carioca, cozido' })?.id).toBe(2);
+    expect(findFood({ food_name: 'Feijao' })).toBeUndefined();
+  });
+
+  it('does not fall back to the name when the id is unknown', () => {
+    expect(findFood({ food_id: 99, food_name: 'Feijao, carioca, cozido' })).toBeUndefined();
+  });
+
+  it('compares by id when both are linked, otherwise by name', () => {
+    expect(isSameFood({ food_id: 1, food_name: 'Arroz branco' }, { food_id: 1, food_name: 'Arroz' })).toBe(true);
+    expect(isSameFood({ food_id: 1, food_name: 'Arroz' }, { food_id: 2, food_name: 'Arroz' })).toBe(false);
+    expect(isSameFood({ food_id: null, food_name: 'arroz' }, { food_id: 1, food_name: 'Arroz' })).toBe(true);
+    expect(isSameFood({ food_name: '' }, { food_name: '' })).toBe(false);
+  });
+});
+
+describe('totals', () => {
+  const breakfast = [{ calories: 300, protein: 20, carbs: 30, fats: 10 }, { calories: 100 }];
+  const lunch = [{ calories: 600, protein: 40, carbs: 60, fats: 20 }];
+
+  it('sums meals, counting missing macros as zero', () => {
+    expect(sumMacros(breakfast)).toEqual({ calories: 400, protein: 20, carbs: 30, fats: 10 });
+    expect(sumMacros([])).toEqual({ calories: 0, protein: 0, carbs: 0, fats: 0 });
+  });
+
+  it('sums every meal of a plan', () => {
+    expect(calculatePlanTotals([{ foods: breakfast }, { foods: lunch }])).toEqual({
+      calories: 1000,
+      protein: 60,
+      carbs: 90,
+      fats: 30,
+    });
+  });
+
+  it('adds extra meal foods to the planned meals of the day', () => {
+    const extraFoods = [{ calories: 150, protein: 5, carbs: 20, fats: 5 }];
+    expect(calculateDayTotals([sumMacros(breakfast)], extraFoods)).toEqual({
+      calories: 550,
+      protein: 25,
+      carbs: 50,
+      fats: 15,
+    });
+  });
+});
+
+describe('micronutrients', () => {
+  // Micronutrients of the rice above; 'Tr' (traces) and missing columns count as zero
+  const riceMicros = getMicronutrientsPer100g({ calcio: '4', ferro: '0,1', sodio: '1', magnesio: 'Tr', vitamina_c: null });
+
+  it('reads the TACO columns per 100g', () => {
+    expect(riceMicros.calcio).toBe(4);
+    expect(riceMicros.ferro).toBe(0.1);
+    expect(riceMicros.magnesio).toBe(0);
+    expect(riceMicros.vitamina_c).toBe(0);
+    expect(riceMicros.zinco).toBe(0);
+  });
+
+  it('carries them through the food lookup', () => {
+    const findFood = createFoodLookup([{ id: 1, alimento: 'Arroz, tipo 1, cozido', ...rice, calcio: '4', sodio: '1' }]);
+    expect(findFood({ food_id: 1 })?.micronutrients).toMatchObject({ calcio: 4, sodio: 1, ferro: 0 });
+  });
+
+  it('scales by grams and household units like the macros', () => {
+    const source = { micronutrients: riceMicros, peso_por_unidade: 30 };
+    expect(calculateMealFoodMicronutrients({ quantity: '150' }, source).calcio).toBeCloseTo(6);
+    expect(calculateSubstitutionItemMicronutrients({ quantity: '2', unit_type: 'colher_sopa' }, source).calcio).toBeCloseTo(2.4);
+  });
+
+  it('sums items, counting missing ones as zero', () => {
+    const total = sumMicronutrients([{ calcio: 100, ferro: 2 }, null, { calcio: 50 }]);
+    expect(total.calcio).toBe(150);
+    expect(total.ferro).toBe(2);
+    expect(total.sodio).toBe(0);
+  });
+
+  it('picks the reference intakes for the age band and sex', () => {
+    expect(getReferenceIntakes(25, 'female')).toMatchObject({ ferro: 18, calcio: 1000, vitamina_c: 75 });
+    expect(getReferenceIntakes(25, 'male')).toMatchObject({ ferro: 8, calcio: 1000, vitamina_c: 90 });
+    expect(getReferenceIntakes(60, 'female')?.calcio).toBe(1200);
+    expect(getReferenceIntakes(60, 'male')?.calcio).toBe(1000);
+    expect(getReferenceIntakes(6, 'male')?.ferro).toBe(10);
+  });
+
+  it('has no references without age and sex', () => {
+    expect(getReferenceIntakes(null, 'female')).toBeNull();
+    expect(getReferenceIntakes(30, null)).toBeNull();
+    expect(getReferenceIntakes(0, 'male')).toBeNull();
+  });
+
+  it('compares totals with the references, flagging upper limits', () => {
+    const totals = sumMicronutrients([{ ferro: 9, sodio: 3450 }]);
+    const rows = compareMicronutrients(totals, getReferenceIntakes(25, 'female'));
+    expect(rows.find((row) => row.key === 'ferro')).toMatchObject({ reference: 18, percentage: 50, isLimit: false });
+    expect(rows.find((row) => row.key === 'sodio')).toMatchObject({ reference: 2300, percentage: 150, isLimit: true });
+
+    const withoutReferences = compareMicronutrients(totals, null);
+    expect(withoutReferences.every((row) => row.reference === null && row.percentage === null)).toBe(true);
+  });
+});
@@ -0,0 +1,331 @@
+import { DRI_AGE_BANDS, DRI_VALUES, MICRONUTRIENT_KEYS, MICRONUTRIENTS } from '../constants/micronutrients';
+import type { BiologicalSex, MicronutrientKey, TabelaTaco, UnitType } from '../types/database';
+
+/**
+ * Shared nutrition math for the client diet, the diet editor, templates and
+ * extra meals, so every screen shows the same totals for the same plan.
+ *
+ * Quantities follow what each table stores:
+ * - meal_foods and template foods: `quantity` is already in grams (or ml);
+ *   `quantity_units` only keeps the unit count typed by the admin
+ * - meal substitution items: `quantity` is in the item's `unit_type`
+ * - extra meal foods: macros are stored already calculated
+ */
+
+export interface MacroTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+// TACO columns per 100g, plus the unit weight from food_metadata when known
+export type NutritionSource = Pick<TabelaTaco, 'caloria' | 'proteina' | 'carboidrato' | 'gordura'> & {
+  peso_por_unidade?: number | null;
+};
+
+/**
+ * Grams assumed per unit when a food has no peso_por_unidade
+ */
+export const DEFAULT_GRAMS_PER_UNIT = 100;
+
+interface MetadataFields {
+  nome_simplificado?: string | null;
+  peso_por_unidade?: number | null;
+}
+
+// tabela_taco row joined with food_metadata (an object or a one-item array,
+// depending on how the relation is embedded)
+interface TacoRowWithMetadata extends Pick<TabelaTaco, 'caloria' | 'proteina' | 'carboidrato' | 'gordura'>,
+  Partial<Pick<TabelaTaco, MicronutrientKey>> {
+  food_metadata?: MetadataFields | MetadataFields[] | null;
+}
+
+/**
+ * How plan, template and substitution rows point at a food: `food_id` when
+ * linked to tabela_taco, `food_name` for rows saved before the link existed
+ */
+export interface FoodReference {
+  food_id?: number | null;
+  food_name?: string | null;
+}
+
+// tabela_taco row found for a reference, with its current name and its
+// micronutrients per 100g
+export type ResolvedFood = ReturnType<typeof toNutritionSource> & Pick<TabelaTaco, 'id' | 'alimento'> & {
+  micronutrients: MicronutrientTotals;
+};
+
+export type FoodLookup = (ref: FoodReference) => ResolvedFood | undefined;
+
+export const EMPTY_MACROS: MacroTotals = { calories: 0, protein: 0, carbs: 0, fats: 0 };
+
+// Amounts in each nutrient's unit (see MICRONUTRIENTS)
+export type MicronutrientTotals = Record<MicronutrientKey, number>;
+
+export interface MicronutrientComparison {
+  key: MicronutrientKey;
+  label: string;
+  unit: 'mg' | 'mcg';
+  amount: number;
+  // Daily reference for the client's age and sex; null when unknown
+  reference: number | null;
+  percentage: number | null;
+  // Limits (sodium, cholesterol) should stay below the reference
+  isLimit: boolean;
+}
+
+/**
+ * Parse numbers in Brazilian format (comma as decimal separator)
+ */
+export function parseBrazilianNumber(value: string | number | null | undefined): number {
+  if (typeof value === 'number') return value;
+  if (!value) return 0;
+
+  const parsed = parseFloat(value.toString().replace(',', '.'));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Units measured directly (1ml is taken as 1g); every other unit is converted
+ * with the food's weight per unit
+ */
+export function isMeasuredUnit(unitType: UnitType | null | undefined): boolean {
+  return !unitType || unitType === 'gramas' || unitType === 'ml';
+}
+
+/**
+ * Grams for an amount typed in a unit
+ */
+export function toGrams(amount: number, unitType: UnitType | null | undefined, pesoPorUnidade?: number | null): number {
+  if (isMeasuredUnit(unitType)) return amount;
+  const gramsPerUnit = pesoPorUnidade && pesoPorUnidade > 0 ? pesoPorUnidade : DEFAULT_GRAMS_PER_UNIT;
+  return amount * gramsPerUnit;
+}
+
+/**
+ * What meal_foods stores for an amount typed in the editor: grams in
+ * `quantity` (rounded) and the unit count in `quantity_units`
+ */
+export function toStoredQuantity(
+  amount: number,
+  unitType: UnitType | null | undefined,
+  pesoPorUnidade?: number | null
+): { quantity: string; quantity_units: number | null } {
+  return {
+    quantity: String(Math.round(toGrams(amount, unitType, pesoPorUnidade))),
+    quantity_units: isMeasuredUnit(unitType) ? null : amount,
+  };
+}
+
+/**
+ * Nutrition source for a tabela_taco row, with the unit weight and simplified
+ * name from its metadata
+ */
+export function toNutritionSource(row: TacoRowWithMetadata): NutritionSource & { nome_simplificado: string | null } {
+  const metadata = Array.isArray(row.food_metadata) ? row.food_metadata[0] : row.food_metadata;
+  return {
+    caloria: row.caloria,
+    proteina: row.proteina,
+    carboidrato: row.carboidrato,
+    gordura: row.gordura,
+    peso_por_unidade: metadata?.peso_por_unidade || null,
+    nome_simplificado: metadata?.nome_simplificado || null,
+  };
+}
+
+export function toResolvedFood(row: TacoRowWithMetadata & Pick<TabelaTaco, 'id' | 'alimento'>): ResolvedFood {
+  return {
+    ...toNutritionSource(row),
+    id: row.id,
+    alimento: row.alimento,
+    micronutrients: getMicronutrientsPer100g(row),
+  };
+}
+
+/**
+ * Lookup over tabela_taco rows: by id first, then by name for unlinked rows
+ */
+export function createFoodLookup(rows: ReadonlyArray<TacoRowWithMetadata & Pick<TabelaTaco, 'id' | 'alimento'>>): FoodLookup {
+  const byId = new Map<number, ResolvedFood>();
+  const byName = new Map<string, ResolvedFood>();
+
+  rows.forEach((row) => {
+    const food = toResolvedFood(row);
+    byId.set(row.id, food);
+    byName.set(row.alimento, food);
+  });
+
+  return (ref) => {
+    if (ref.food_id != null) return byId.get(ref.food_id);
+    return ref.food_name ? byName.get(ref.food_name) : undefined;
+  };
+}
+
+/**
+ * Whether two references point at the same food (by id when both are
+ * linked, otherwise by name, ignoring case)
+ */
+export function isSameFood(a: FoodReference, b: FoodReference): boolean {
+  if (a.food_id != null && b.food_id != null) return a.food_id === b.food_id;
+  return !!a.food_name && !!b.food_name && a.food_name.toLowerCase() === b.food_name.toLowerCase();
+}
+
+export function getMacrosPer100g(food: NutritionSource): MacroTotals {
+  return {
+    calories: parseBrazilianNumber(food.caloria),
+    protein: parseBrazilianNumber(food.proteina),
+    carbs: parseBrazilianNumber(food.carboidrato),
+    fats: parseBrazilianNumber(food.gordura),
+  };
+}
+
+export function scaleMacros(per100g: MacroTotals, grams: number): MacroTotals {
+  const multiplier = grams / 100;
+  return {
+    calories: per100g.calories * multiplier,
+    protein: per100g.protein * multiplier,
+    carbs: per100g.carbs * multiplier,
+    fats: per100g.fats * multiplier,
+  };
+}
+
+/**
+ * Sum of macros; missing values count as zero
+ */
+export function sumMacros(items: ReadonlyArray<Partial<MacroTotals> | null | undefined>): MacroTotals {
+  return items.reduce<MacroTotals>(
+    (total, item) => ({
+      calories: total.calories + (item?.calories || 0),
+      protein: total.protein + (item?.protein || 0),
+      carbs: total.carbs + (item?.carbs || 0),
+      fats: total.fats + (item?.fats || 0),
+    }),
+    { ...EMPTY_MACROS }
+  );
+}
+
+/**
+ * Macros of a meal food or template food (quantity in grams)
+ */
+export function calculateMealFoodMacros(
+  food: { quantity: string | number | null },
+  source: NutritionSource
+): MacroTotals {
+  return scaleMacros(getMacrosPer100g(source), parseBrazilianNumber(food.quantity));
+}
+
+/**
+ * Macros of a meal substitution item (quantity in its unit_type)
+ */
+export function calculateSubstitutionItemMacros(
+  item: { quantity: string | number | null; unit_type?: UnitType | null },
+  source: NutritionSource
+): MacroTotals {
+  const grams = toGrams(parseBrazilianNumber(item.quantity), item.unit_type, source.peso_por_unidade);
+  return scaleMacros(getMacrosPer100g(source), grams);
+}
+
+/**
+ * Totals of a whole plan: every food of every meal
+ */
+export function calculatePlanTotals(meals: ReadonlyArray<{ foods: ReadonlyArray<Partial<MacroTotals>> }>): MacroTotals {
+  return sumMacros(meals.map((meal) => sumMacros(meal.foods)));
+}
+
+/**
+ * Totals of one day: the meal option chosen for each planned meal (only the
+ * ones eaten, when tracking consumption) plus the extra meal foods
+ */
+export function calculateDayTotals(
+  plannedMeals: ReadonlyArray<Partial<MacroTotals>>,
+  extraMealFoods: ReadonlyArray<Partial<MacroTotals>> = []
+): MacroTotals {
+  return sumMacros([sumMacros(plannedMeals), sumMacros(extraMealFoods)]);
+}
+
+export function getMicronutrientsPer100g(row: Partial<Record<MicronutrientKey, string | number | null>>): MicronutrientTotals {
+  return Object.fromEntries(
+    MICRONUTRIENT_KEYS.map((key) => [key, parseBrazilianNumber(row[key])])
+  ) as MicronutrientTotals;
+}
+
+export function scaleMicronutrients(per100g: MicronutrientTotals, grams: number): MicronutrientTotals {
+  return Object.fromEntries(
+    MICRONUTRIENT_KEYS.map((key) => [key, per100g[key] * (grams / 100)])
+  ) as MicronutrientTotals;
+}
+
+/**
+ * Sum of micronutrients; missing values count as zero
+ */
+export function sumMicronutrients(
+  items: ReadonlyArray<Partial<MicronutrientTotals> | null | undefined>
+): MicronutrientTotals {
+  return Object.fromEntries(
+    MICRONUTRIENT_KEYS.map((key) => [key, items.reduce((total, item) => total + (item?.[key] || 0), 0)])
+  ) as MicronutrientTotals;
+}
+
+/**
+ * Daily reference intakes (DRI) for an age and sex, or null when either is
+ * unknown or the age is below the first band
+ */
+export function getReferenceIntakes(
+  age: number | null | undefined,
+  sex: BiologicalSex | null | undefined
+): MicronutrientTotals | null {
+  if (!age || !sex) return null;
+
+  const band = DRI_AGE_BANDS.reduce((found, minAge, index) => (age >= minAge ? index : found), -1);
+  if (band < 0) return null;
+
+  return Object.fromEntries(
+    MICRONUTRIENT_KEYS.map((key) => {
+      const value = DRI_VALUES[key][band];
+      return [key, Array.isArray(value) ? value[sex === 'male' ? 0 : 1] : value];
+    })
+  ) as MicronutrientTotals;
+}
+
+/**
+ * Micronutrients of a meal food or template food (quantity in grams)
+ */
+export function calculateMealFoodMicronutrients(
+  food: { quantity: string | number | null },
+  source: Pick<ResolvedFood, 'micronutrients'>
+): MicronutrientTotals {
+  return scaleMicronutrients(source.micronutrients, parseBrazilianNumber(food.quantity));
+}
+
+/**
+ * Micronutrients of a meal substitution item (quantity in its unit_type)
+ */
+export function calculateSubstitutionItemMicronutrients(
+  item: { quantity: string | number | null; unit_type?: UnitType | null },
+  source: Pick<ResolvedFood, 'micronutrients' | 'peso_por_unidade'>
+): MicronutrientTotals {
+  const grams = toGrams(parseBrazilianNumber(item.quantity), item.unit_type, source.peso_por_unidade);
+  return scaleMicronutrients(source.micronutrients, grams);
+}
+
+/**
+ * Totals side by side with the references, in display order
+ */
+export function compareMicronutrients(
+  totals: MicronutrientTotals,
+  references: MicronutrientTotals | null
+): MicronutrientComparison[] {
+  return MICRONUTRIENT_KEYS.map((key) => {
+    const reference = references?.[key] ?? null;
+    return {
+      key,
+      label: MICRONUTRIENTS[key].label,
+      unit: MICRONUTRIENTS[key].unit,
+      amount: totals[key],
+      reference,
+      percentage: reference ? Math.round((totals[key] / reference) * 100) : null,
+      isLimit: !!MICRONUTRIENTS[key].limit,
+    };
+  });
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getDefaultPortionBounds,
+  getGoalDeviation,
+  getPortionStep,
+  getPortionTotals,
+  solvePortions,
+} from './portionSolver';
+import type { PortionInput } from './portionSolver';
+
+// TACO values per 100g
+const rice: PortionInput = {
+  per100g: { calories: 128, protein: 2.5, carbs: 28.1, fats: 0.2 },
+  unit_type: 'gramas',
+  peso_por_unidade: null,
+  amount: 100,
+  min: 0,
+  max: 400,
+};
+const chicken: PortionInput = {
+  per100g: { calories: 159, protein: 32, carbs: 0, fats: 2.5 },
+  unit_type: 'gramas',
+  peso_por_unidade: null,
+  amount: 100,
+  min: 0,
+  max: 400,
+};
+const oliveOil: PortionInput = {
+  per100g: { calories: 884, protein: 0, carbs: 0, fats: 100 },
+  unit_type: 'gramas',
+  peso_por_unidade: null,
+  amount: 5,
+  min: 0,
+  max: 40,
+};
+// Ovo de 50g e pao de forma em fatias de 25g
+const egg: PortionInput = {
+  per100g: { calories: 146, protein: 13.3, carbs: 0.6, fats: 9.5 },
+  unit_type: 'unidade',
+  peso_por_unidade: 50,
+  amount: 2,
+  min: 1,
+  max: 4,
+};
+const bread: PortionInput = {
+  per100g: { calories: 253, protein: 12, carbs: 44.1, fats: 2.7 },
+  unit_type: 'fatia',
+  peso_por_unidade: 25,
+  amount: 2,
+  min: 1,
+  max: 4,
+};
+
+const isMultipleOf = (value: number, step: number) => Math.abs(value / step - Math.round(value / step)) < 1e-9;
+
+describe('portion steps and bounds', () => {
+  it('rounds grams to 5, whole units and half slices', () => {
+    expect(getPortionStep('gramas')).toBe(5);
+    expect(getPortionStep('ml')).toBe(5);
+    expect(getPortionStep('unidade')).toBe(1);
+    expect(getPortionStep('fatia')).toBe(0.5);
+  });
+
+  it('defaults to half and double the current quantity', () => {
+    expect(getDefaultPortionBounds('gramas', 120)).toEqual({ min: 60, max: 240 });
+    expect(getDefaultPortionBounds('unidade', 3)).toEqual({ min: 1, max: 6 });
+    expect(getDefaultPortionBounds('gramas', 0)).toEqual({ min: 0, max: 200 });
+  });
+});
+
+describe('solvePortions', () => {
+  const foods = [rice, chicken, oliveOil];
+  // Alcancavel: 200g arroz, 150g frango, 10g azeite
+  const goals = getPortionTotals(foods, [200, 150, 10]);
+
+  it('hits reachable goals with quantities rounded to 5g', () => {
+    const amounts = solvePortions(foods, goals);
+    amounts.forEach((amount) => expect(isMultipleOf(amount, 5)).toBe(true));
+    expect(amounts).toEqual([200, 150, 10]);
+  });
+
+  it('reduces the deviation from the goals', () => {
+    const before = getGoalDeviation(getPortionTotals(foods, foods.map((food) => food.amount)), goals);
+    const after = getGoalDeviation(getPortionTotals(foods, solvePortions(foods, goals)), goals);
+    expect(after).toBeLessThan(before);
+  });
+
+  it('respects each food bounds, including fixed foods', () => {
+    const bounded = [{ ...rice, max: 150 }, { ...chicken, min: 100, max: 100 }, oliveOil];
+    const amounts = solvePortions(bounded, goals);
+    expect(amounts[0]).toBeLessThanOrEqual(150);
+    expect(amounts[1]).toBe(100);
+  });
+
+  it('keeps whole units and half slices', () => {
+    const breakfast = [egg, bread];
+    const amounts = solvePortions(breakfast, getPortionTotals(breakfast, [3, 1.5]));
+    expect(amounts).toEqual([3, 1.5]);
+  });
+
+  it('only considers the goals that are set', () => {
+    const amounts = solvePortions([chicken], { protein: 48, calories: null });
+    expect(amounts).toEqual([150]);
+  });
+
+  it('keeps the current quantities without goals', () => {
+    expect(solvePortions(foods, {})).toEqual([100, 100, 5]);
+  });
+});
@@ -0,0 +1,184 @@
+import type { UnitType } from '../types/database';
+import { isMeasuredUnit, toGrams } from './nutrition';
+import type { MacroTotals } from './nutrition';
+
+const MACRO_KEYS: (keyof MacroTotals)[] = ['calories', 'protein', 'carbs', 'fats'];
+
+// Passos de arredondamento: 5g/5ml, unidade inteira e meia porcao nas demais medidas
+const GRAM_STEP = 5;
+const UNIT_STEPS: Partial<Record<UnitType, number>> = {
+  unidade: 1,
+};
+const DEFAULT_UNIT_STEP = 0.5;
+
+// Peso do desvio das quantidades atuais; so desempata solucoes equivalentes
+const STABILITY_WEIGHT = 1e-3;
+const MAX_SWEEPS = 500;
+const MAX_ROUNDING_PASSES = 50;
+
+export type MacroGoalTargets = Partial<Record<keyof MacroTotals, number | null>>;
+
+export interface PortionInput {
+  per100g: MacroTotals;
+  unit_type: UnitType;
+  peso_por_unidade: number | null;
+  // Quantidade atual e limites, na unidade do alimento (g, ml ou unidades)
+  amount: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Rounding step of a food's quantity, in its own unit
+ */
+export function getPortionStep(unitType: UnitType): number {
+  if (isMeasuredUnit(unitType)) return GRAM_STEP;
+  return UNIT_STEPS[unitType] ?? DEFAULT_UNIT_STEP;
+}
+
+/**
+ * Default bounds for a food: half to double the current quantity, or up to
+ * 200g / 2 units when it is still empty
+ */
+export function getDefaultPortionBounds(unitType: UnitType, amount: number): { min: number; max: number } {
+  const step = getPortionStep(unitType);
+  if (amount <= 0) return { min: 0, max: isMeasuredUnit(unitType) ? 200 : 2 };
+  return {
+    min: Math.floor(amount / 2 / step) * step,
+    max: Math.ceil((amount * 2) / step) * step,
+  };
+}
+
+// Macros de uma unidade da quantidade do alimento (1g, 1ml ou 1 unidade)
+function getMacrosPerAmount(food: PortionInput): MacroTotals {
+  const grams = toGrams(1, food.unit_type, food.peso_por_unidade);
+  return {
+    calories: (food.per100g.calories * grams) / 100,
+    protein: (food.per100g.protein * grams) / 100,
+    carbs: (food.per100g.carbs * grams) / 100,
+    fats: (food.per100g.fats * grams) / 100,
+  };
+}
+
+/**
+ * Macro totals of the foods at the given quantities
+ */
+export function getPortionTotals(foods: ReadonlyArray<PortionInput>, amounts: ReadonlyArray<number>): MacroTotals {
+  const totals: MacroTotals = { calories: 0, protein: 0, carbs: 0, fats: 0 };
+  foods.forEach((food, index) => {
+    const perAmount = getMacrosPerAmount(food);
+    MACRO_KEYS.forEach((key) => {
+      totals[key] += perAmount[key] * amounts[index];
+    });
+  });
+  return totals;
+}
+
+/**
+ * Sum of the squared relative deviations from each goal that is set
+ */
+export function getGoalDeviation(totals: MacroTotals, goals: MacroGoalTargets): number {
+  return MACRO_KEYS.reduce((sum, key) => {
+    const goal = goals[key];
+    if (!goal || goal <= 0) return sum;
+    const deviation = (totals[key] - goal) / goal;
+    return sum + deviation * deviation;
+  }, 0);
+}
+
+/**
+ * Quantities (in each food's unit) that get the plan as close as possible to
+ * the macro goals, within each food's bounds and rounded to its unit step.
+ *
+ * Solves the bounded least squares of the relative deviations by coordinate
+ * descent, rounds to the steps and then nudges single foods one step at a time
+ * while that still reduces the deviation. Without goals the current quantities
+ * are returned unchanged.
+ */
+export function solvePortions(foods: ReadonlyArray<PortionInput>, goals: MacroGoalTargets): number[] {
+  const activeKeys = MACRO_KEYS.filter((key) => (goals[key] ?? 0) > 0);
+  if (activeKeys.length === 0 || foods.length === 0) return foods.map((food) => food.amount);
+
+  // Contribuicao relativa de cada unidade de quantidade para cada meta
+  const coefficients = foods.map((food) => {
+    const perAmount = getMacrosPerAmount(food);
+    return activeKeys.map((key) => perAmount[key] / (goals[key] as number));
+  });
+  const bounds = foods.map((food) => ({ min: Math.max(0, food.min), max: Math.max(0, food.min, food.max) }));
+  const scales = bounds.map((bound, index) => Math.max(bound.max - bound.min, getPortionStep(foods[index].unit_type)));
+  const clampToBounds = (value: number, index: number) => Math.min(bounds[index].max, Math.max(bounds[index].min, value));
+
+  const amounts = foods.map((food, index) => clampToBounds(food.amount, index));
+  const residuals = activeKeys.map((_, k) => amounts.reduce((sum, amount, i) => sum + coefficients[i][k] * amount, 0) - 1);
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let largestChange = 0;
+
+    foods.forEach((food, i) => {
+      const stability = STABILITY_WEIGHT / (scales[i] * scales[i]);
+      let numerator = stability * food.amount;
+      let denominator = stability;
+      activeKeys.forEach((_, k) => {
+        const otherResidual = residuals[k] - coefficients[i][k] * amounts[i];
+        numerator -= coefficients[i][k] * otherResidual;
+        denominator += coefficients[i][k] * coefficients[i][k];
+      });
+
+      const next = clampToBounds(numerator / denominator, i);
+      const change = next - amounts[i];
+      if (change !== 0) {
+        activeKeys.forEach((_, k) => {
+          residuals[k] += coefficients[i][k] * change;
+        });
+        amounts[i] = next;
+        largestChange = Math.max(largestChange, Math.abs(change) / scales[i]);
+      }
+    });
+
+    if (largestChange < 1e-6) break;
+  }
+
+  // Arredonda para os passos de cada unidade, dentro dos limites
+  const stepBounds = foods.map((food, index) => {
+    const step = getPortionStep(food.unit_type);
+    const min = Math.ceil(bounds[index].min / step - 1e-9) * step;
+    const max = Math.floor(bounds[index].max / step + 1e-9) * step;
+    return { step, min, max, fits: min <= max };
+  });
+  const rounded = amounts.map((amount, index) => {
+    const { step, min, max, fits } = stepBounds[index];
+    // Limites que nao comportam nenhum passo (ex.: fixo em 33g) ficam sem arredondar
+    if (!fits) return amount;
+    return Math.min(max, Math.max(min, Math.round(amount / step) * step));
+  });
+
+  const deviationOf = (candidate: number[]) => getGoalDeviation(getPortionTotals(foods, candidate), goals);
+  let best = deviationOf(rounded);
+
+  for (let pass = 0; pass < MAX_ROUNDING_PASSES; pass++) {
+    let improved = false;
+
+    foods.forEach((_, i) => {
+      const { step, min, max, fits } = stepBounds[i];
+      if (!fits) return;
+      for (const direction of [1, -1]) {
+        const next = rounded[i] + direction * step;
+        if (next < min - 1e-9 || next > max + 1e-9) continue;
+        const candidate = [...rounded];
+        candidate[i] = next;
+        const deviation = deviationOf(candidate);
+        if (deviation < best - 1e-12) {
+          rounded[i] = next;
+          best = deviation;
+          improved = true;
+          break;
+        }
+      }
+    });
+
+    if (!improved) break;
+  }
+
+  // Evita residuos de ponto flutuante (ex.: 2.4999999) nas quantidades exibidas
+  return rounded.map((amount) => Math.round(amount * 1000) / 1000);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getRenewalPlanId, getRenewalPlans } from './renewal';
+
+const plans = [{ id: 'monthly' }, { id: 'quarterly' }, { id: 'yearly' }];
+
+describe('getRenewalPlanId', () => {
+  it('renews the current plan', () => {
+    expect(getRenewalPlanId({ plan_id: 'quarterly', pending_plan_id: null })).toBe('quarterly');
+  });
+
+  it('prefers the plan scheduled to start next', () => {
+    expect(getRenewalPlanId({ plan_id: 'yearly', pending_plan_id: 'monthly' })).toBe('monthly');
+  });
+
+  it('has nothing to renew without a plan', () => {
+    expect(getRenewalPlanId({ plan_id: null, pending_plan_id: null })).toBeNull();
+    expect(getRenewalPlanId(null)).toBeNull();
+  });
+});
+
+describe('getRenewalPlans', () => {
+  it('lists and preselects the client plan first', () => {
+    const result = getRenewalPlans(plans, 'quarterly');
+    expect(result.selected).toEqual({ id: 'quarterly' });
+    expect(result.plans.map((plan) => plan.id)).toEqual(['quarterly', 'monthly', 'yearly']);
+  });
+
+  it('keeps the checkout order when the client plan is no longer sold', () => {
+    const result = getRenewalPlans(plans, 'retired');
+    expect(result.selected).toBeNull();
+    expect(result.plans).toEqual(plans);
+    expect(getRenewalPlans(plans, null).selected).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import type { Profile, SubscriptionPlan } from '../types/database';
+
+// Plan choice for the in-app renewal (/app/renovar)
+
+/**
+ * Plan the client renews by default: a scheduled change (e.g. a downgrade
+ * waiting for the current plan to end) is the plan they would be on next
+ */
+export function getRenewalPlanId(profile: Pick<Profile, 'plan_id' | 'pending_plan_id'> | null): string | null {
+  if (!profile) return null;
+  return profile.pending_plan_id ?? profile.plan_id;
+}
+
+/**
+ * Plans listed on the renewal, the client's plan first, and the plan to
+ * preselect. Nothing is preselected when the client's plan is no longer
+ * sold, so they pick a new one.
+ */
+export function getRenewalPlans<T extends Pick<SubscriptionPlan, 'id'>>(
+  plans: ReadonlyArray<T>,
+  renewalPlanId: string | null
+): { plans: T[]; selected: T | null } {
+  const selected = plans.find((plan) => plan.id === renewalPlanId) ?? null;
+  if (!selected) return { plans: [...plans], selected: null };
+
+  return {
+    plans: [selected, ...plans.filter((plan) => plan.id !== selected.id)],
+    selected,
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getDefaultRevenueRange, getRenewalRate, getRevenueShares, toDateInput } from './revenueAnalytics';
+
+describe('revenue period', () => {
+  it('formats dates in local time', () => {
+    expect(toDateInput(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+  });
+
+  it('defaults to the last 12 months, current one included', () => {
+    expect(getDefaultRevenueRange(new Date(2026, 9, 19))).toEqual({ start: '2025-11-01', end: '2026-10-19' });
+    expect(getDefaultRevenueRange(new Date(2026, 11, 31))).toEqual({ start: '2026-01-01', end: '2026-12-31' });
+  });
+});
+
+describe('getRenewalRate', () => {
+  it('is the renewed share of the decided periods', () => {
+    expect(getRenewalRate({ renewed_count: 2, churned_count: 1 })).toBe(67);
+    expect(getRenewalRate({ renewed_count: 0, churned_count: 4 })).toBe(0);
+  });
+
+  it('is null when no period was decided', () => {
+    expect(getRenewalRate({ renewed_count: 0, churned_count: 0 })).toBeNull();
+  });
+});
+
+describe('getRevenueShares', () => {
+  it('splits the revenue between the payment methods', () => {
+    expect(getRevenueShares([{ revenue_cents: 7500 }, { revenue_cents: 2500 }, { revenue_cents: 0 }])).toEqual([75, 25, 0]);
+  });
+
+  it('is zero for every row without revenue', () => {
+    expect(getRevenueShares([{ revenue_cents: 0 }, { revenue_cents: 0 }])).toEqual([0, 0]);
+    expect(getRevenueShares([])).toEqual([]);
+  });
+});
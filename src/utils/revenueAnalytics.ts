@@ -0,0 +1,39 @@
+import type { RevenueByMethod, RevenueByPlan } from '../types/database';
+
+// Aggregations over the revenue RPC results shown by RevenueAnalytics
+
+// YYYY-MM-DD in local time, as <input type="date"> and the RPCs expect
+export function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Default analysis period: the last 12 months, current one included,
+ * starting on the first day of the oldest month
+ */
+export function getDefaultRevenueRange(today: Date = new Date()): { start: string; end: string } {
+  return {
+    start: toDateInput(new Date(today.getFullYear(), today.getMonth() - 11, 1)),
+    end: toDateInput(today),
+  };
+}
+
+/**
+ * Share of the ended periods that were renewed, in whole percent. Null when
+ * no period of the plan was decided in the range.
+ */
+export function getRenewalRate(plan: Pick<RevenueByPlan, 'renewed_count' | 'churned_count'>): number | null {
+  const decided = plan.renewed_count + plan.churned_count;
+  return decided > 0 ? Math.round((plan.renewed_count / decided) * 100) : null;
+}
+
+/**
+ * Percent of the period revenue taken by each payment method row, in the
+ * order of the rows. All zero when there was no revenue.
+ */
+export function getRevenueShares(rows: ReadonlyArray<Pick<RevenueByMethod, 'revenue_cents'>>): number[] {
+  const total = rows.reduce((sum, row) => sum + row.revenue_cents, 0);
+  return rows.map((row) => (total > 0 ? (row.revenue_cents / total) * 100 : 0));
+}
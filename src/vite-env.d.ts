@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
+  // Shows the fake gateway outside dev builds (e.g. staging)
+  readonly VITE_ENABLE_FAKE_GATEWAY?: string;
 }
 
 interface ImportMeta {
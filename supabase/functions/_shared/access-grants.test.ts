@@ -0,0 +1,109 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { checkTrialEligibility, grantAccess, TRIAL_ALREADY_USED } from './access-grants.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const plan = { id: 'plan-1', name: 'Plano Mensal', duration_days: 30, price_cents: 10000 };
+
+const customer = { name: 'Maria Silva', email: 'Maria@Example.com', phone: '11999999999', cpf: '123.456.789-09' };
+
+function setup(seed: Record<string, Record<string, unknown>[]> = {}) {
+  const fake = new FakeSupabase({ subscription_plans: [plan], ...seed });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+Deno.test('a trial creates the client for the trial days with a zero-value payment', async () => {
+  const { fake, supabase } = setup();
+
+  const result = await grantAccess(supabase, {
+    ownerId: 'owner-1',
+    type: 'trial',
+    plan,
+    days: 7,
+    customer,
+  }, { now: NOW });
+
+  assertEquals(result.error, null);
+  assertEquals(result.planEndDate, '2026-03-17');
+
+  const [payment] = fake.table('payments');
+  assertEquals(payment.amount_cents, 0);
+  assertEquals(payment.status, 'approved');
+  assertEquals(payment.grant_type, 'trial');
+  assertEquals(payment.customer_cpf, '12345678909');
+  assertEquals(payment.client_id, result.clientId);
+
+  assertEquals(fake.table('profiles')[0].plan_end_date, '2026-03-17');
+  assertEquals(fake.table('plan_changes')[0].change_type, 'new');
+
+  // No receipt for access that was not paid for
+  assertEquals(fake.invokedFunctions.map((call) => call.name), ['send-email']);
+});
+
+Deno.test('trials are refused for known emails, CPFs and existing clients', async () => {
+  const { supabase } = setup({
+    profiles: [{ id: 'client-1', email: 'joao@example.com' }],
+    payments: [
+      { owner_id: 'owner-1', grant_type: 'trial', customer_email: 'maria@example.com', customer_cpf: '11111111111' },
+      { owner_id: 'owner-1', grant_type: 'trial', customer_email: 'ana@example.com', customer_cpf: '12345678909' },
+    ],
+  });
+
+  assertEquals(await checkTrialEligibility(supabase, 'owner-1', customer), TRIAL_ALREADY_USED);
+  assertEquals(await checkTrialEligibility(supabase, 'owner-1', { ...customer, email: 'nova@example.com' }), TRIAL_ALREADY_USED);
+  assertEquals(
+    await checkTrialEligibility(supabase, 'owner-1', { ...customer, email: 'joao@example.com', cpf: null }),
+    'O teste gratis e exclusivo para novos clientes'
+  );
+  assertEquals(await checkTrialEligibility(supabase, 'owner-1', { ...customer, email: 'nova@example.com', cpf: '99999999999' }), null);
+  // Trials with another owner do not count
+  assertEquals(await checkTrialEligibility(supabase, 'owner-2', customer), null);
+});
+
+Deno.test('complimentary access extends an existing client and keeps the reason', async () => {
+  const { fake, supabase } = setup({
+    profiles: [{ id: 'client-1', email: 'maria@example.com', plan_id: 'plan-1', plan_end_date: '2026-03-20' }],
+  });
+
+  const result = await grantAccess(supabase, {
+    ownerId: 'owner-1',
+    type: 'complimentary',
+    plan,
+    days: 15,
+    customer,
+    clientId: 'client-1',
+    reason: 'Compensacao por instabilidade',
+    grantedBy: 'owner-1',
+  }, { now: NOW });
+
+  assertEquals(result.error, null);
+  assertEquals(result.clientId, 'client-1');
+  assertEquals(fake.table('profiles')[0].plan_end_date, '2026-04-04');
+
+  const [payment] = fake.table('payments');
+  assertEquals(payment.grant_type, 'complimentary');
+  assertEquals(payment.grant_reason, 'Compensacao por instabilidade');
+  assertEquals(payment.granted_by, 'owner-1');
+  assertEquals(fake.table('plan_changes')[0].change_type, 'renewal');
+});
+
+Deno.test('grants without days or reason are rejected before anything is written', async () => {
+  const { fake, supabase } = setup();
+  const grant = { ownerId: 'owner-1', plan, customer, clientId: 'client-1' };
+
+  assertEquals((await grantAccess(supabase, { ...grant, type: 'complimentary', days: 0, reason: 'Parceria' })).error, 'Quantidade de dias invalida');
+  assertEquals((await grantAccess(supabase, { ...grant, type: 'complimentary', days: 10, reason: ' ' })).error, 'Motivo da cortesia e obrigatorio');
+  assertEquals(fake.table('payments'), []);
+});
+
+Deno.test('a failed provisioning removes the grant so it can be retried', async () => {
+  const fake = new FakeSupabase({ subscription_plans: [plan] }, { failCreateUser: 'Email rate limit exceeded' });
+  const supabase = fake as unknown as SupabaseClient;
+
+  const result = await grantAccess(supabase, { ownerId: 'owner-1', type: 'trial', plan, days: 7, customer }, { now: NOW });
+
+  assert(result.error);
+  assertEquals(fake.table('payments'), []);
+});
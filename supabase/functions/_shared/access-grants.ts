@@ -0,0 +1,160 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { type ApprovedPlan, handlePaymentApproved } from './payment-approval.ts';
+
+// ===========================================
+// ACCESS GRANTS
+// Free trials started from the checkout and complimentary access given by
+// an admin. Both are recorded as a zero-value approved payment and then go
+// through handlePaymentApproved, so the client is provisioned and the plan
+// history is written exactly as for a purchase.
+// ===========================================
+
+export type AccessGrantType = 'trial' | 'complimentary';
+
+export const TRIAL_ALREADY_USED = 'Teste gratis ja utilizado para este email ou CPF';
+
+export interface AccessGrantCustomer {
+  name: string;
+  email: string;
+  phone?: string | null;
+  cpf?: string | null;
+}
+
+export interface AccessGrant {
+  ownerId: string;
+  type: AccessGrantType;
+  plan: ApprovedPlan;
+  // Days of access; the plan's trial_days for a trial
+  days: number;
+  customer: AccessGrantCustomer;
+  clientId?: string | null;
+  reason?: string | null;
+  grantedBy?: string | null;
+}
+
+export interface AccessGrantResult {
+  error: string | null;
+  paymentId?: string;
+  clientId?: string;
+  planEndDate?: string;
+}
+
+interface AccessGrantOptions {
+  // Injectable clock, mainly for tests
+  now?: Date;
+}
+
+/**
+ * Trials are for new leads only: once per email and per CPF for each owner,
+ * and never for someone who already has an account. Returns the error
+ * message to show, or null when the trial can start. The unique indexes in
+ * sql/access_grants.sql enforce the same rule against concurrent requests.
+ */
+export async function checkTrialEligibility(
+  supabase: SupabaseClient,
+  ownerId: string,
+  customer: AccessGrantCustomer
+): Promise<string | null> {
+  const email = customer.email.trim().toLowerCase();
+  const cpf = normalizeCpf(customer.cpf);
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (profile) {
+    return 'O teste gratis e exclusivo para novos clientes';
+  }
+
+  const { data: trials } = await supabase
+    .from('payments')
+    .select('customer_email, customer_cpf')
+    .eq('owner_id', ownerId)
+    .eq('grant_type', 'trial');
+
+  const used = (trials || []).some((trial: { customer_email: string | null; customer_cpf: string | null }) =>
+    trial.customer_email?.toLowerCase() === email || (cpf !== null && trial.customer_cpf === cpf)
+  );
+
+  return used ? TRIAL_ALREADY_USED : null;
+}
+
+/**
+ * Records the zero-value entry and provisions the client. When provisioning
+ * fails the entry is removed again, so the grant can simply be retried.
+ */
+export async function grantAccess(
+  supabase: SupabaseClient,
+  grant: AccessGrant,
+  options: AccessGrantOptions = {}
+): Promise<AccessGrantResult> {
+  const now = options.now ?? new Date();
+
+  if (!Number.isInteger(grant.days) || grant.days <= 0) {
+    return { error: 'Quantidade de dias invalida' };
+  }
+
+  if (grant.type === 'complimentary' && !grant.reason?.trim()) {
+    return { error: 'Motivo da cortesia e obrigatorio' };
+  }
+
+  if (grant.type === 'trial') {
+    const eligibilityError = await checkTrialEligibility(supabase, grant.ownerId, grant.customer);
+    if (eligibilityError) return { error: eligibilityError };
+  }
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('payments')
+    .insert({
+      owner_id: grant.ownerId,
+      client_id: grant.clientId ?? null,
+      plan_id: grant.plan.id,
+      gateway: 'none',
+      amount_cents: 0,
+      original_amount_cents: grant.plan.price_cents ?? null,
+      payment_method: null,
+      status: 'approved',
+      paid_at: now.toISOString(),
+      grant_type: grant.type,
+      grant_reason: grant.reason?.trim() || null,
+      granted_by: grant.grantedBy ?? null,
+      customer_email: grant.customer.email.trim().toLowerCase(),
+      customer_name: grant.customer.name.trim(),
+      customer_phone: grant.customer.phone || null,
+      customer_cpf: normalizeCpf(grant.customer.cpf),
+    })
+    .select()
+    .single();
+
+  if (paymentError) {
+    // Another request started a trial for the same email or CPF first
+    if (paymentError.code === '23505') return { error: TRIAL_ALREADY_USED };
+    throw new Error(`Error recording access grant: ${paymentError.message}`);
+  }
+
+  const approval = await handlePaymentApproved(
+    supabase,
+    payment,
+    { ...grant.plan, duration_days: grant.days },
+    { now }
+  );
+
+  if (!approval) {
+    await supabase.from('payments').delete().eq('id', payment.id);
+    return { error: 'Erro ao liberar acesso' };
+  }
+
+  return {
+    error: null,
+    paymentId: payment.id,
+    clientId: approval.clientId,
+    planEndDate: approval.planEndDate,
+  };
+}
+
+function normalizeCpf(cpf: string | null | undefined): string | null {
+  const digits = cpf?.replace(/\D/g, '') ?? '';
+  return digits || null;
+}
@@ -0,0 +1,125 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  recordCustomerSubmitted,
+  resumeCheckoutSession,
+  sendCheckoutRecoveryEmails,
+  startCheckoutSession,
+} from './checkout-sessions.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+function setup(seed: Record<string, Record<string, unknown>[]> = {}) {
+  const fake = new FakeSupabase({
+    payment_settings: [
+      { owner_id: 'owner-1', checkout_slug: 'nutri', recovery_email_enabled: true, recovery_email_delay_minutes: 60 },
+    ],
+    subscription_plans: [{ id: 'monthly', name: 'Mensal' }],
+    ...seed,
+  });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+function session(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'session-1',
+    owner_id: 'owner-1',
+    plan_id: 'monthly',
+    payment_id: null,
+    customer_name: 'Ana',
+    customer_email: 'ana@example.com',
+    customer_phone: null,
+    customer_submitted_at: '2026-03-10T10:30:00.000Z',
+    recovery_email_sent_at: null,
+    created_at: '2026-03-10T10:25:00.000Z',
+    ...overrides,
+  };
+}
+
+Deno.test('sessions store the customer once the customer step is submitted', async () => {
+  const { fake, supabase } = setup();
+
+  const id = await startCheckoutSession(supabase, 'owner-1');
+  assertEquals(fake.table('checkout_sessions')[0].customer_email, undefined);
+
+  await recordCustomerSubmitted(supabase, id!, 'monthly', { name: ' Ana ', email: 'Ana@Example.com ' }, { now: NOW });
+
+  const [stored] = fake.table('checkout_sessions');
+  assertEquals(stored.customer_name, 'Ana');
+  assertEquals(stored.customer_email, 'ana@example.com');
+  assertEquals(stored.customer_submitted_at, NOW.toISOString());
+});
+
+Deno.test('recovery emails go out once after the delay with a resume link', async () => {
+  const { fake, supabase } = setup({
+    checkout_sessions: [
+      session(),
+      // Still within the 60 minute delay
+      session({ id: 'recent', customer_submitted_at: '2026-03-10T11:30:00.000Z' }),
+      // Never got past the plan step
+      session({ id: 'anonymous', customer_email: null, customer_submitted_at: null }),
+    ],
+  });
+
+  assertEquals(await sendCheckoutRecoveryEmails(supabase, { now: NOW }), 1);
+  assertEquals(fake.invokedFunctions, [{
+    name: 'send-email',
+    body: {
+      type: 'checkout_recovery',
+      to: 'ana@example.com',
+      data: { name: 'Ana', email: 'ana@example.com', planName: 'Mensal', resumePath: '/checkout/nutri?retomar=session-1' },
+    },
+  }]);
+  assertEquals(fake.table('checkout_sessions')[0].recovery_email_sent_at, NOW.toISOString());
+
+  // Running again sends nothing
+  assertEquals(await sendCheckoutRecoveryEmails(supabase, { now: NOW }), 0);
+});
+
+Deno.test('paid sessions, pending boletos and later purchases are not chased', async () => {
+  const { fake, supabase } = setup({
+    checkout_sessions: [
+      session({ id: 'paid', payment_id: 'pay-paid' }),
+      session({ id: 'boleto', payment_id: 'pay-boleto' }),
+      session({ id: 'pix', payment_id: 'pay-pix', customer_email: 'bia@example.com' }),
+      session({ id: 'bought-later', customer_email: 'caio@example.com' }),
+    ],
+    payments: [
+      { id: 'pay-paid', owner_id: 'owner-1', status: 'approved', payment_method: 'pix' },
+      { id: 'pay-boleto', owner_id: 'owner-1', status: 'pending', payment_method: 'boleto' },
+      { id: 'pay-pix', owner_id: 'owner-1', status: 'pending', payment_method: 'pix' },
+      { id: 'pay-other', owner_id: 'owner-1', status: 'approved', customer_email: 'caio@example.com', created_at: '2026-03-10T11:00:00.000Z' },
+    ],
+  });
+
+  assertEquals(await sendCheckoutRecoveryEmails(supabase, { now: NOW }), 1);
+  assertEquals(fake.invokedFunctions.map((call) => (call.body as { to: string }).to), ['bia@example.com']);
+});
+
+Deno.test('owners who turned recovery off get no emails', async () => {
+  const { fake, supabase } = setup({
+    payment_settings: [
+      { owner_id: 'owner-1', checkout_slug: 'nutri', recovery_email_enabled: false, recovery_email_delay_minutes: 60 },
+    ],
+    checkout_sessions: [session()],
+  });
+
+  assertEquals(await sendCheckoutRecoveryEmails(supabase, { now: NOW }), 0);
+  assertEquals(fake.invokedFunctions, []);
+});
+
+Deno.test('resuming returns the stored customer unless the session was paid', async () => {
+  const { fake, supabase } = setup({
+    checkout_sessions: [session(), session({ id: 'paid', payment_id: 'pay-paid' })],
+    payments: [{ id: 'pay-paid', owner_id: 'owner-1', status: 'approved', payment_method: 'card' }],
+  });
+
+  const resumed = await resumeCheckoutSession(supabase, 'session-1', { now: NOW });
+  assertEquals(resumed?.customer_email, 'ana@example.com');
+  assertEquals(resumed?.plan_id, 'monthly');
+  assertEquals(fake.table('checkout_sessions')[0].resumed_at, NOW.toISOString());
+
+  assertEquals(await resumeCheckoutSession(supabase, 'paid', { now: NOW }), null);
+  assertEquals(await resumeCheckoutSession(supabase, 'missing', { now: NOW }), null);
+});
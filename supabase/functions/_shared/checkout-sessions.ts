@@ -0,0 +1,271 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+
+// ===========================================
+// CHECKOUT SESSIONS
+// Funnel tracking for the public checkout (viewed plans -> chose plan ->
+// submitted data -> paid) and the recovery email sent once for sessions
+// left unpaid. Whether a session was paid is read from its latest payment,
+// so webhooks do not need to know about sessions.
+// ===========================================
+
+// Sessions older than this are not worth a recovery email anymore
+export const RECOVERY_WINDOW_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CheckoutCustomer {
+  name: string;
+  email: string;
+  phone?: string | null;
+}
+
+export interface ResumedCheckoutSession {
+  id: string;
+  owner_id: string;
+  plan_id: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+}
+
+interface CheckoutSessionRow extends ResumedCheckoutSession {
+  payment_id: string | null;
+  customer_submitted_at: string | null;
+  created_at: string;
+}
+
+interface SessionOptions {
+  // Injectable clock, mainly for tests
+  now?: Date;
+}
+
+export async function startCheckoutSession(supabase: SupabaseClient, ownerId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('checkout_sessions')
+    .insert({ owner_id: ownerId })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error starting checkout session:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+export async function recordPlanSelected(
+  supabase: SupabaseClient,
+  sessionId: string,
+  planId: string,
+  options: SessionOptions = {}
+): Promise<boolean> {
+  return await updateSession(supabase, sessionId, {
+    plan_id: planId,
+    plan_selected_at: (options.now ?? new Date()).toISOString(),
+  });
+}
+
+/**
+ * Stores the customer's contact details, which is what makes the session
+ * eligible for a recovery email. Submitting again (e.g. after going back to
+ * fix a typo) just overwrites them.
+ */
+export async function recordCustomerSubmitted(
+  supabase: SupabaseClient,
+  sessionId: string,
+  planId: string,
+  customer: CheckoutCustomer,
+  options: SessionOptions = {}
+): Promise<boolean> {
+  return await updateSession(supabase, sessionId, {
+    plan_id: planId,
+    customer_name: customer.name.trim(),
+    customer_email: customer.email.trim().toLowerCase(),
+    customer_phone: customer.phone || null,
+    customer_submitted_at: (options.now ?? new Date()).toISOString(),
+  });
+}
+
+// Called by payment-create; a retried PIX or card replaces the previous attempt
+export async function linkCheckoutPayment(supabase: SupabaseClient, sessionId: string, ownerId: string, paymentId: string) {
+  const { error } = await supabase
+    .from('checkout_sessions')
+    .update({ payment_id: paymentId })
+    .eq('id', sessionId)
+    .eq('owner_id', ownerId);
+
+  if (error) {
+    console.error('Error linking payment to checkout session:', error);
+  }
+}
+
+/**
+ * Returns the session behind a recovery link so the checkout can pick up
+ * where the customer left, or null when it does not exist or was paid.
+ */
+export async function resumeCheckoutSession(
+  supabase: SupabaseClient,
+  sessionId: string,
+  options: SessionOptions = {}
+): Promise<ResumedCheckoutSession | null> {
+  const { data: session } = await supabase
+    .from('checkout_sessions')
+    .select('id, owner_id, plan_id, payment_id, customer_name, customer_email, customer_phone, customer_submitted_at, created_at')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session || await isSessionSettled(supabase, session)) {
+    return null;
+  }
+
+  await updateSession(supabase, sessionId, { resumed_at: (options.now ?? new Date()).toISOString() });
+
+  return {
+    id: session.id,
+    owner_id: session.owner_id,
+    plan_id: session.plan_id,
+    customer_name: session.customer_name,
+    customer_email: session.customer_email,
+    customer_phone: session.customer_phone,
+  };
+}
+
+/**
+ * Sends one recovery email per unpaid session, once the owner's configured
+ * delay has passed since the customer step. The email is claimed before it
+ * is sent, so overlapping runs never send it twice.
+ */
+export async function sendCheckoutRecoveryEmails(supabase: SupabaseClient, options: SessionOptions = {}): Promise<number> {
+  const now = options.now ?? new Date();
+
+  const { data: owners, error } = await supabase
+    .from('payment_settings')
+    .select('owner_id, checkout_slug, recovery_email_delay_minutes')
+    .eq('recovery_email_enabled', true);
+
+  if (error) {
+    throw new Error(`Error loading recovery settings: ${error.message}`);
+  }
+
+  let sent = 0;
+
+  for (const owner of owners || []) {
+    // Without a public checkout there is nothing to resume
+    if (!owner.checkout_slug) continue;
+
+    const cutoff = new Date(now.getTime() - owner.recovery_email_delay_minutes * 60 * 1000);
+    const oldest = new Date(now.getTime() - RECOVERY_WINDOW_DAYS * DAY_MS);
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('checkout_sessions')
+      .select('id, owner_id, plan_id, payment_id, customer_name, customer_email, customer_phone, customer_submitted_at, created_at')
+      .eq('owner_id', owner.owner_id)
+      .is('recovery_email_sent_at', null)
+      .lte('customer_submitted_at', cutoff.toISOString())
+      .gte('customer_submitted_at', oldest.toISOString());
+
+    if (sessionsError) {
+      throw new Error(`Error loading abandoned checkouts: ${sessionsError.message}`);
+    }
+
+    for (const session of (sessions || []) as CheckoutSessionRow[]) {
+      if (!session.customer_submitted_at || !session.customer_email) continue;
+      if (await isSessionSettled(supabase, session)) continue;
+
+      const { data: claimed } = await supabase
+        .from('checkout_sessions')
+        .update({ recovery_email_sent_at: now.toISOString() })
+        .eq('id', session.id)
+        .is('recovery_email_sent_at', null)
+        .select('id');
+
+      if (!claimed || claimed.length === 0) continue;
+
+      const { error: emailError } = await supabase.functions.invoke('send-email', {
+        body: {
+          type: 'checkout_recovery',
+          to: session.customer_email,
+          data: {
+            name: session.customer_name,
+            email: session.customer_email,
+            planName: await getPlanName(supabase, session.plan_id),
+            resumePath: `/checkout/${owner.checkout_slug}?retomar=${session.id}`,
+          },
+        },
+      });
+
+      if (emailError) {
+        // Release the claim so the next run tries again
+        console.error('Error sending checkout recovery email:', emailError);
+        await supabase
+          .from('checkout_sessions')
+          .update({ recovery_email_sent_at: null })
+          .eq('id', session.id);
+        continue;
+      }
+
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * A session needs no follow-up once its payment went through, while a
+ * boleto is still waiting to be paid, or when the customer bought in
+ * another session since.
+ */
+async function isSessionSettled(supabase: SupabaseClient, session: CheckoutSessionRow): Promise<boolean> {
+  if (session.payment_id) {
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('status, payment_method')
+      .eq('id', session.payment_id)
+      .maybeSingle();
+
+    if (payment && (payment.status === 'approved' || payment.status === 'refunded')) return true;
+    if (payment?.status === 'pending' && payment.payment_method === 'boleto') return true;
+  }
+
+  if (!session.customer_email) return false;
+
+  const { data: laterPayments } = await supabase
+    .from('payments')
+    .select('id')
+    .eq('owner_id', session.owner_id)
+    .eq('customer_email', session.customer_email)
+    .eq('status', 'approved')
+    .gte('created_at', session.created_at)
+    .limit(1);
+
+  return !!laterPayments && laterPayments.length > 0;
+}
+
+async function getPlanName(supabase: SupabaseClient, planId: string | null): Promise<string> {
+  if (!planId) return 'Plano';
+
+  const { data: plan } = await supabase
+    .from('subscription_plans')
+    .select('name')
+    .eq('id', planId)
+    .maybeSingle();
+
+  return plan?.name ?? 'Plano';
+}
+
+async function updateSession(supabase: SupabaseClient, sessionId: string, values: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('checkout_sessions')
+    .update(values)
+    .eq('id', sessionId)
+    .select('id');
+
+  if (error) {
+    console.error('Error updating checkout session:', error);
+    return false;
+  }
+
+  return !!data && data.length > 0;
+}
@@ -0,0 +1,152 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { calculateDiscount, redeemCoupon, validateCoupon } from './coupons.ts';
+import { applyPaymentStatus } from './payment-approval.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const plan = { id: 'plan-1', price_cents: 10000, billing_mode: 'one_time' };
+
+function buildCoupon(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'coupon-1',
+    owner_id: 'owner-1',
+    code: 'BEMVINDO',
+    discount_type: 'percent',
+    discount_value: 20,
+    valid_from: null,
+    valid_until: null,
+    max_uses: null,
+    uses_count: 0,
+    plan_ids: null,
+    first_purchase_only: false,
+    customer_email: null,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+// Mirrors the SQL functions in sql/coupons.sql
+const couponFunctions = {
+  redeem_coupon: (params: Record<string, unknown>, db: FakeSupabase) => {
+    const coupon = db.table('coupons').find((row) => row.id === params.p_coupon_id);
+    if (!coupon || (coupon.max_uses !== null && (coupon.uses_count as number) >= (coupon.max_uses as number))) {
+      return false;
+    }
+    coupon.uses_count = (coupon.uses_count as number) + 1;
+    return true;
+  },
+  release_coupon: (params: Record<string, unknown>, db: FakeSupabase) => {
+    const coupon = db.table('coupons').find((row) => row.id === params.p_coupon_id);
+    if (coupon) coupon.uses_count = Math.max((coupon.uses_count as number) - 1, 0);
+    return null;
+  },
+};
+
+function setup(seed: Record<string, Record<string, unknown>[]> = {}) {
+  const fake = new FakeSupabase({ coupons: [buildCoupon()], ...seed }, { rpc: couponFunctions });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+function validate(supabase: SupabaseClient, overrides: Record<string, unknown> = {}) {
+  return validateCoupon(supabase, {
+    ownerId: 'owner-1',
+    code: ' bemvindo ',
+    plan,
+    customerEmail: 'maria@example.com',
+    customerCpf: '123.456.789-00',
+    now: NOW,
+    ...overrides,
+  });
+}
+
+Deno.test('calculateDiscount handles percent and fixed coupons', () => {
+  assertEquals(calculateDiscount({ discount_type: 'percent', discount_value: 15 }, 9990), 1499);
+  assertEquals(calculateDiscount({ discount_type: 'fixed', discount_value: 2500 }, 9990), 2500);
+  assertEquals(calculateDiscount({ discount_type: 'fixed', discount_value: 20000 }, 9990), 9990);
+});
+
+Deno.test('a valid code is matched case-insensitively and returns the charged amount', async () => {
+  const { supabase } = setup();
+
+  const result = await validate(supabase);
+
+  assertEquals(result.valid, true);
+  if (result.valid) {
+    assertEquals(result.discountCents, 2000);
+    assertEquals(result.finalAmountCents, 8000);
+  }
+});
+
+Deno.test('rejects inactive, out-of-window, exhausted and other-plan coupons', async () => {
+  const cases: [Record<string, unknown>, string][] = [
+    [{ is_active: false }, 'Cupom invalido'],
+    [{ valid_from: '2026-04-01T00:00:00.000Z' }, 'Cupom ainda nao esta valido'],
+    [{ valid_until: '2026-03-01T00:00:00.000Z' }, 'Cupom expirado'],
+    [{ max_uses: 5, uses_count: 5 }, 'Cupom esgotado'],
+    [{ plan_ids: ['plan-2'] }, 'Cupom nao valido para este plano'],
+    [{ discount_type: 'fixed', discount_value: 9950 }, 'Valor com desconto abaixo do minimo permitido'],
+  ];
+
+  for (const [overrides, error] of cases) {
+    const { supabase } = setup({ coupons: [buildCoupon(overrides)] });
+    assertEquals(await validate(supabase), { valid: false, error });
+  }
+});
+
+Deno.test('rejects recurring plans', async () => {
+  const { supabase } = setup();
+
+  const result = await validate(supabase, { plan: { ...plan, billing_mode: 'recurring' } });
+
+  assertEquals(result, { valid: false, error: 'Cupons nao sao validos para planos recorrentes' });
+});
+
+Deno.test('first-purchase coupons reject customers with an approved payment by email or CPF', async () => {
+  const coupons = [buildCoupon({ first_purchase_only: true })];
+  const previous = { owner_id: 'owner-1', status: 'approved', customer_email: 'outra@example.com', customer_cpf: '12345678900' };
+
+  const { supabase: newCustomer } = setup({ coupons });
+  assertEquals((await validate(newCustomer)).valid, true);
+
+  const { supabase: returning } = setup({ coupons, payments: [previous] });
+  assertEquals(await validate(returning), { valid: false, error: 'Cupom valido apenas para a primeira compra' });
+
+  const { supabase: pendingOnly } = setup({ coupons, payments: [{ ...previous, status: 'pending' }] });
+  assertEquals((await validate(pendingOnly)).valid, true);
+});
+
+Deno.test('customer-bound coupons only work for their customer', async () => {
+  const { supabase } = setup({ coupons: [buildCoupon({ customer_email: 'ana@example.com' })] });
+
+  assertEquals((await validate(supabase, { customerEmail: ' Ana@Example.com ' })).valid, true);
+  assertEquals(await validate(supabase), { valid: false, error: 'Cupom valido apenas para outro cliente' });
+  assertEquals(await validate(supabase, { customerEmail: null }), { valid: false, error: 'Cupom valido apenas para outro cliente' });
+});
+
+Deno.test('redeemCoupon never exceeds max_uses', async () => {
+  const { fake, supabase } = setup({ coupons: [buildCoupon({ max_uses: 1 })] });
+
+  assertEquals(await redeemCoupon(supabase, 'coupon-1'), true);
+  assertEquals(await redeemCoupon(supabase, 'coupon-1'), false);
+  assertEquals(fake.table('coupons')[0].uses_count, 1);
+});
+
+Deno.test('an unpaid checkout gives its coupon use back', async () => {
+  const payment = {
+    id: 'payment-1',
+    client_id: null,
+    plan_id: plan.id,
+    coupon_id: 'coupon-1',
+    status: 'pending',
+    customer_email: 'maria@example.com',
+    customer_name: 'Maria Silva',
+    customer_phone: null,
+  };
+  const { fake, supabase } = setup({ coupons: [buildCoupon({ uses_count: 1 })], payments: [payment] });
+
+  await applyPaymentStatus(supabase, payment, 'expired');
+
+  assertEquals(fake.table('coupons')[0].uses_count, 0);
+});
@@ -0,0 +1,160 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+
+// ===========================================
+// COUPONS
+// Shared by coupon-validate (checkout preview) and payment-create, so the
+// discount shown to the customer is exactly the one charged at the gateway.
+// ===========================================
+
+// Gateways refuse charges below R$ 1,00
+export const MIN_CHARGE_CENTS = 100;
+
+export interface Coupon {
+  id: string;
+  owner_id: string;
+  code: string;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  max_uses: number | null;
+  uses_count: number;
+  plan_ids: string[] | null;
+  first_purchase_only: boolean;
+  customer_email: string | null;
+  is_active: boolean;
+}
+
+export interface CouponValidationInput {
+  ownerId: string;
+  code: string;
+  plan: { id: string; price_cents: number; billing_mode?: string | null };
+  customerEmail?: string | null;
+  customerCpf?: string | null;
+  now?: Date;
+}
+
+export type CouponValidation =
+  | { valid: true; coupon: Coupon; discountCents: number; finalAmountCents: number }
+  | { valid: false; error: string };
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function calculateDiscount(coupon: Pick<Coupon, 'discount_type' | 'discount_value'>, priceCents: number): number {
+  const discount = coupon.discount_type === 'percent'
+    ? Math.round((priceCents * coupon.discount_value) / 100)
+    : coupon.discount_value;
+
+  return Math.min(discount, priceCents);
+}
+
+export async function validateCoupon(
+  supabase: SupabaseClient,
+  input: CouponValidationInput
+): Promise<CouponValidation> {
+  const now = input.now ?? new Date();
+
+  const { data: coupon } = await supabase
+    .from('coupons')
+    .select('*')
+    .eq('owner_id', input.ownerId)
+    .eq('code', normalizeCouponCode(input.code))
+    .maybeSingle();
+
+  if (!coupon || !coupon.is_active) {
+    return { valid: false, error: 'Cupom invalido' };
+  }
+
+  // Referral reward coupons are reserved for the referrer
+  if (coupon.customer_email && coupon.customer_email !== input.customerEmail?.trim().toLowerCase()) {
+    return { valid: false, error: 'Cupom valido apenas para outro cliente' };
+  }
+
+  if (coupon.valid_from && new Date(coupon.valid_from) > now) {
+    return { valid: false, error: 'Cupom ainda nao esta valido' };
+  }
+
+  if (coupon.valid_until && new Date(coupon.valid_until) < now) {
+    return { valid: false, error: 'Cupom expirado' };
+  }
+
+  if (coupon.max_uses !== null && coupon.uses_count >= coupon.max_uses) {
+    return { valid: false, error: 'Cupom esgotado' };
+  }
+
+  if (coupon.plan_ids && coupon.plan_ids.length > 0 && !coupon.plan_ids.includes(input.plan.id)) {
+    return { valid: false, error: 'Cupom nao valido para este plano' };
+  }
+
+  // Recurring plans charge the same amount every cycle at the gateway
+  if (input.plan.billing_mode === 'recurring') {
+    return { valid: false, error: 'Cupons nao sao validos para planos recorrentes' };
+  }
+
+  if (coupon.first_purchase_only && await hasPreviousPurchase(supabase, input)) {
+    return { valid: false, error: 'Cupom valido apenas para a primeira compra' };
+  }
+
+  const discountCents = calculateDiscount(coupon, input.plan.price_cents);
+  const finalAmountCents = input.plan.price_cents - discountCents;
+
+  if (finalAmountCents < MIN_CHARGE_CENTS) {
+    return { valid: false, error: 'Valor com desconto abaixo do minimo permitido' };
+  }
+
+  return { valid: true, coupon, discountCents, finalAmountCents };
+}
+
+/**
+ * Reserves one use of the coupon (atomic, respects max_uses).
+ * Returns false when another checkout took the last use first.
+ */
+export async function redeemCoupon(supabase: SupabaseClient, couponId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('redeem_coupon', { p_coupon_id: couponId });
+
+  if (error) {
+    console.error('Error redeeming coupon:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
+// Gives back the use when the payment fails, expires or is never created
+export async function releaseCoupon(supabase: SupabaseClient, couponId: string) {
+  const { error } = await supabase.rpc('release_coupon', { p_coupon_id: couponId });
+
+  if (error) {
+    console.error('Error releasing coupon:', error);
+  }
+}
+
+async function hasPreviousPurchase(supabase: SupabaseClient, input: CouponValidationInput): Promise<boolean> {
+  if (input.customerEmail) {
+    const { data } = await supabase
+      .from('payments')
+      .select('id')
+      .eq('owner_id', input.ownerId)
+      .eq('status', 'approved')
+      .eq('customer_email', input.customerEmail.toLowerCase())
+      .limit(1);
+
+    if (data && data.length > 0) return true;
+  }
+
+  if (input.customerCpf) {
+    const { data } = await supabase
+      .from('payments')
+      .select('id')
+      .eq('owner_id', input.ownerId)
+      .eq('status', 'approved')
+      .eq('customer_cpf', input.customerCpf.replace(/\D/g, ''))
+      .limit(1);
+
+    if (data && data.length > 0) return true;
+  }
+
+  return false;
+}
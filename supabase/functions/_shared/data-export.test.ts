@@ -0,0 +1,134 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+import {
+  buildCsv,
+  buildExportFile,
+  CLIENT_EXPORT_COLUMNS,
+  type ExportPayment,
+  type ExportRequest,
+  getPaymentDateColumn,
+  getPeriodBounds,
+  parseExportRequest,
+  PAYMENT_EXPORT_COLUMNS,
+} from './data-export.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const payment: ExportPayment = {
+  created_at: '2026-03-01T02:00:00.000Z',
+  // 23:30 in Brasilia, still March 1st there
+  paid_at: '2026-03-02T02:30:00.000Z',
+  customer_name: 'Silva; Maria "Mari"',
+  customer_email: 'maria@example.com',
+  customer_cpf: '12345678901',
+  payment_method: 'credit_card',
+  installments: 3,
+  gateway: 'mercado_pago',
+  gateway_payment_id: '1234567890',
+  status: 'approved',
+  amount_cents: 123456,
+  discount_cents: 1000,
+  refunded_amount_cents: 456,
+  coupon_code: 'VERAO10',
+  plan: { name: 'Plano Mensal' },
+};
+
+function parse(input: Record<string, unknown>): ExportRequest {
+  const request = parseExportRequest(input);
+  if ('error' in request) throw new Error(request.error);
+  return request;
+}
+
+Deno.test('export requests are validated and take status lists from query strings', () => {
+  const request = parse({ dataset: 'payments', format: 'xlsx', start: '2026-03-01', end: '2026-03-31', status: 'approved, refunded' });
+
+  assertEquals(request.filters.statuses, ['approved', 'refunded']);
+  assertEquals(parse({}).format, 'csv');
+  assertEquals(parse({}).filters.statuses, []);
+
+  assert('error' in parseExportRequest({ format: 'pdf' }));
+  assert('error' in parseExportRequest({ start: '01/03/2026' }));
+  assert('error' in parseExportRequest({ start: '2026-03-31', end: '2026-03-01' }));
+  assert('error' in parseExportRequest({ status: ['approved', 'paid'] }));
+});
+
+Deno.test('received payments are filtered by payment date, anything else by creation date', () => {
+  const received = parse({ status: ['approved', 'refunded'], start: '2026-03-01', end: '2026-03-31' });
+
+  assertEquals(getPaymentDateColumn(received.filters), 'paid_at');
+  assertEquals(getPaymentDateColumn(parse({ status: 'approved,pending' }).filters), 'created_at');
+  assertEquals(getPaymentDateColumn(parse({}).filters), 'created_at');
+  assertEquals(getPeriodBounds(received.filters), {
+    from: '2026-03-01T00:00:00.000-03:00',
+    to: '2026-03-31T23:59:59.999-03:00',
+  });
+});
+
+Deno.test('CSV uses Brazilian separators, dates and quoting', () => {
+  const csv = buildCsv(PAYMENT_EXPORT_COLUMNS, [payment]);
+  const [header, row] = csv.replace('\uFEFF', '').split('\r\n');
+
+  assert(csv.startsWith('\uFEFF'));
+  assertEquals(header.split(';')[0], 'Data');
+  assertEquals(
+    row,
+    '01/03/2026 23:30;"Silva; Maria ""Mari""";maria@example.com;123.456.789-01;Plano Mensal;Cartao de credito;3;' +
+      'Mercado Pago;1234567890;Aprovado;1.234,56;10,00;4,56;1.230,00;VERAO10'
+  );
+});
+
+Deno.test('CSV text cells cannot start a spreadsheet formula', () => {
+  const rows = ['=HYPERLINK("http://x")', '+cmd|calc', '-2+3', '@SUM(A1)', '\tTab', 'Maria-Silva'].map(
+    (name) => ({ ...payment, customer_name: name, coupon_code: null })
+  );
+  const lines = buildCsv(PAYMENT_EXPORT_COLUMNS, rows).replace('\uFEFF', '').split('\r\n').slice(1, -1);
+
+  assertEquals(lines.map((line) => line.split(';')[1]), [
+    `"'=HYPERLINK(""http://x"")"`,
+    "'+cmd|calc",
+    "'-2+3",
+    "'@SUM(A1)",
+    "'\tTab",
+    'Maria-Silva',
+  ]);
+});
+
+Deno.test('XLSX keeps amounts and dates as numbers with Brazilian formats', () => {
+  const file = buildExportFile(
+    parse({ dataset: 'clients', format: 'xlsx' }),
+    CLIENT_EXPORT_COLUMNS,
+    [{
+      full_name: 'Joao & Filhos <Ltda>',
+      email: 'joao@example.com',
+      phone: null,
+      cpf: '12345678901',
+      plan_name: 'Trimestral',
+      plan_start_date: '2026-03-01',
+      plan_end_date: '2026-05-30',
+    }],
+    NOW
+  );
+
+  assertEquals(file.filename, 'clientes_2026-03-10.xlsx');
+  assertEquals(file.contentType, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+
+  const files = unzipSync(file.body);
+  const sheet = strFromU8(files['xl/worksheets/sheet1.xml']);
+
+  assert(strFromU8(files['xl/styles.xml']).includes('formatCode="dd/mm/yyyy"'));
+  assert(sheet.includes('<t xml:space="preserve">Joao &amp; Filhos &lt;Ltda&gt;</t>'));
+  // 2026-03-01 is day 46082 since the 1899-12-30 spreadsheet epoch
+  assert(sheet.includes('<c r="F2" s="2"><v>46082</v></c>'));
+  // Empty cells are left out
+  assert(!sheet.includes('r="C2"'));
+
+  const payments = unzipSync(buildExportFile(parse({ format: 'xlsx' }), PAYMENT_EXPORT_COLUMNS, [payment], NOW).body);
+  assert(strFromU8(payments['xl/worksheets/sheet1.xml']).includes('<c r="K2" s="1"><v>1234.56</v></c>'));
+});
+
+Deno.test('payment exports are named after their period', () => {
+  const file = buildExportFile(parse({ start: '2026-03-01', end: '2026-03-31' }), PAYMENT_EXPORT_COLUMNS, [], NOW);
+
+  assertEquals(file.filename, 'pagamentos_2026-03-01_a_2026-03-31.csv');
+  assertEquals(buildExportFile(parse({ start: '2026-03-01' }), PAYMENT_EXPORT_COLUMNS, [], NOW).filename, 'pagamentos_2026-03-01_a_hoje.csv');
+});
@@ -0,0 +1,438 @@
+import { strToU8, zipSync } from 'https://esm.sh/fflate@0.8.2';
+import { formatCpf } from './receipts.ts';
+
+// ===========================================
+// DATA EXPORT
+// Payments and the active client roster as CSV or XLSX for the accountant.
+// CSV uses the Excel pt-BR dialect (";" separator, decimal comma, UTF-8 BOM);
+// XLSX keeps amounts and dates as real numbers with Brazilian formats.
+// ===========================================
+
+export type ExportDataset = 'payments' | 'clients';
+export type ExportFormat = 'csv' | 'xlsx';
+
+type CellType = 'text' | 'currency' | 'date' | 'datetime' | 'integer';
+type CellValue = string | number | null;
+
+export interface ExportColumn<T> {
+  header: string;
+  type: CellType;
+  // currency is in cents, date is YYYY-MM-DD, datetime is an ISO timestamp
+  value: (row: T) => CellValue;
+}
+
+export interface PaymentExportFilters {
+  start: string | null;  // YYYY-MM-DD, inclusive
+  end: string | null;
+  statuses: string[];  // Empty = every status
+  planId: string | null;
+  gateway: string | null;
+}
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  filters: PaymentExportFilters;
+}
+
+export interface ExportPayment {
+  created_at: string;
+  paid_at: string | null;
+  customer_name: string;
+  customer_email: string;
+  customer_cpf: string | null;
+  payment_method: string | null;
+  installments: number | null;
+  gateway: string;
+  gateway_payment_id: string | null;
+  status: string;
+  amount_cents: number;
+  discount_cents: number | null;
+  refunded_amount_cents: number | null;
+  coupon_code: string | null;
+  plan: { name: string } | null;
+}
+
+export interface ExportClient {
+  full_name: string;
+  email: string | null;
+  phone: string | null;
+  cpf: string | null;  // From the latest approved payment
+  plan_name: string | null;
+  plan_start_date: string | null;
+  plan_end_date: string | null;
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Uint8Array;
+}
+
+const TIME_ZONE = 'America/Sao_Paulo';
+// Brasilia has had no daylight saving time since 2019
+const TIME_ZONE_OFFSET = '-03:00';
+
+const PAYMENT_STATUSES = ['pending', 'approved', 'rejected', 'expired', 'refunded'];
+// Statuses that have a paid_at, so the period can follow the payment date
+const PAID_STATUSES = ['approved', 'refunded'];
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendente',
+  approved: 'Aprovado',
+  rejected: 'Rejeitado',
+  expired: 'Expirado',
+  refunded: 'Reembolsado',
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  pix: 'PIX',
+  boleto: 'Boleto',
+  credit_card: 'Cartao de credito',
+};
+
+const GATEWAY_LABELS: Record<string, string> = {
+  mercado_pago: 'Mercado Pago',
+  asaas: 'Asaas',
+  pagseguro: 'PagSeguro',
+  pagarme: 'Pagar.me',
+  fake: 'Simulador',
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export const PAYMENT_EXPORT_COLUMNS: ExportColumn<ExportPayment>[] = [
+  { header: 'Data', type: 'datetime', value: (p) => p.paid_at ?? p.created_at },
+  { header: 'Cliente', type: 'text', value: (p) => p.customer_name },
+  { header: 'Email', type: 'text', value: (p) => p.customer_email },
+  { header: 'CPF', type: 'text', value: (p) => (p.customer_cpf ? formatCpf(p.customer_cpf) : null) },
+  { header: 'Plano', type: 'text', value: (p) => p.plan?.name ?? null },
+  { header: 'Forma de pagamento', type: 'text', value: (p) => PAYMENT_METHOD_LABELS[p.payment_method ?? ''] ?? p.payment_method },
+  { header: 'Parcelas', type: 'integer', value: (p) => p.installments ?? 1 },
+  { header: 'Gateway', type: 'text', value: (p) => GATEWAY_LABELS[p.gateway] ?? p.gateway },
+  { header: 'ID no gateway', type: 'text', value: (p) => p.gateway_payment_id },
+  { header: 'Status', type: 'text', value: (p) => STATUS_LABELS[p.status] ?? p.status },
+  { header: 'Valor bruto (R$)', type: 'currency', value: (p) => p.amount_cents },
+  { header: 'Desconto (R$)', type: 'currency', value: (p) => p.discount_cents ?? 0 },
+  { header: 'Reembolsado (R$)', type: 'currency', value: (p) => p.refunded_amount_cents ?? 0 },
+  { header: 'Valor liquido (R$)', type: 'currency', value: (p) => p.amount_cents - (p.refunded_amount_cents ?? 0) },
+  { header: 'Cupom', type: 'text', value: (p) => p.coupon_code },
+];
+
+export const CLIENT_EXPORT_COLUMNS: ExportColumn<ExportClient>[] = [
+  { header: 'Nome', type: 'text', value: (c) => c.full_name },
+  { header: 'Email', type: 'text', value: (c) => c.email },
+  { header: 'Telefone', type: 'text', value: (c) => c.phone },
+  { header: 'CPF', type: 'text', value: (c) => (c.cpf ? formatCpf(c.cpf) : null) },
+  { header: 'Plano', type: 'text', value: (c) => c.plan_name },
+  { header: 'Inicio do plano', type: 'date', value: (c) => c.plan_start_date },
+  { header: 'Fim do plano', type: 'date', value: (c) => c.plan_end_date },
+];
+
+// ===========================================
+// REQUEST
+// ===========================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Reads the export options from a JSON body or query string (status may be
+ * an array or a comma separated list). Returns an error message in
+ * Portuguese when something is off.
+ */
+export function parseExportRequest(input: Record<string, unknown>): ExportRequest | { error: string } {
+  const dataset = input.dataset ?? 'payments';
+  const format = input.format ?? 'csv';
+
+  if (dataset !== 'payments' && dataset !== 'clients') {
+    return { error: 'dataset deve ser payments ou clients' };
+  }
+  if (format !== 'csv' && format !== 'xlsx') {
+    return { error: 'format deve ser csv ou xlsx' };
+  }
+
+  const start = optionalString(input.start);
+  const end = optionalString(input.end);
+
+  if ((start && !DATE_PATTERN.test(start)) || (end && !DATE_PATTERN.test(end))) {
+    return { error: 'Datas devem estar no formato AAAA-MM-DD' };
+  }
+  if (start && end && start > end) {
+    return { error: 'A data inicial deve ser anterior a final' };
+  }
+
+  const rawStatuses = Array.isArray(input.status) ? input.status : String(input.status ?? '').split(',');
+  const statuses = rawStatuses.map((status) => String(status).trim()).filter(Boolean);
+
+  if (statuses.some((status) => !PAYMENT_STATUSES.includes(status))) {
+    return { error: 'Status de pagamento invalido' };
+  }
+
+  return {
+    dataset,
+    format,
+    filters: {
+      start,
+      end,
+      statuses,
+      planId: optionalString(input.plan_id),
+      gateway: optionalString(input.gateway),
+    },
+  };
+}
+
+/**
+ * Column the period applies to. Exports of received payments follow the day
+ * they were paid, which is what the accountant books; anything that includes
+ * unpaid charges follows the day the charge was created.
+ */
+export function getPaymentDateColumn(filters: PaymentExportFilters): 'paid_at' | 'created_at' {
+  const onlyPaid = filters.statuses.length > 0 && filters.statuses.every((status) => PAID_STATUSES.includes(status));
+  return onlyPaid ? 'paid_at' : 'created_at';
+}
+
+// Timestamp bounds of the Brasilia days in the period
+export function getPeriodBounds(filters: PaymentExportFilters): { from: string | null; to: string | null } {
+  return {
+    from: filters.start ? `${filters.start}T00:00:00.000${TIME_ZONE_OFFSET}` : null,
+    to: filters.end ? `${filters.end}T23:59:59.999${TIME_ZONE_OFFSET}` : null,
+  };
+}
+
+export function getExportFilename(request: ExportRequest, now: Date = new Date()): string {
+  const name = request.dataset === 'payments' ? 'pagamentos' : 'clientes';
+  const { start, end } = request.filters;
+  const period = request.dataset === 'payments' && (start || end)
+    ? `${start ?? 'inicio'}_a_${end ?? 'hoje'}`
+    : toLocalParts(now).date;
+  return `${name}_${period}.${request.format}`;
+}
+
+// ===========================================
+// FORMATTING
+// ===========================================
+
+function toLocalParts(date: Date) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+function formatDateBr(isoDate: string): string {
+  const [year, month, day] = isoDate.slice(0, 10).split('-');
+  return `${day}/${month}/${year}`;
+}
+
+function formatCsvCell(type: CellType, value: CellValue): string {
+  if (value === null || value === '') return '';
+
+  switch (type) {
+    case 'currency':
+      return (Number(value) / 100).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    case 'integer':
+      return String(value);
+    case 'date':
+      return formatDateBr(String(value));
+    case 'datetime': {
+      const local = toLocalParts(new Date(value));
+      return `${formatDateBr(local.date)} ${local.time}`;
+    }
+    default:
+      return neutralizeFormula(String(value));
+  }
+}
+
+// Spreadsheets run text starting with these as a formula; customer names come
+// from the public checkout, so a leading quote keeps them plain text
+function neutralizeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+function escapeCsv(text: string): string {
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildCsv<T>(columns: ExportColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map((column) => escapeCsv(column.header)).join(';'),
+    ...rows.map((row) => columns.map((column) => escapeCsv(formatCsvCell(column.type, column.value(row)))).join(';')),
+  ];
+
+  // The BOM makes Excel read the file as UTF-8 instead of Windows-1252
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// ===========================================
+// XLSX
+// A single-sheet workbook written by hand: shared strings and styles are
+// kept to the minimum Excel, LibreOffice and Google Sheets accept.
+// ===========================================
+
+// Indexes into cellXfs in styles.xml
+const XLSX_STYLES: Record<CellType | 'header', number> = {
+  text: 0,
+  integer: 0,
+  currency: 1,
+  date: 2,
+  datetime: 3,
+  header: 4,
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="#,##0.00"/><numFmt numFmtId="165" formatCode="dd/mm/yyyy"/><numFmt numFmtId="166" formatCode="dd/mm/yyyy hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+// Days since 1899-12-30, the spreadsheet epoch, in Brasilia wall time
+function toSerialDate(type: 'date' | 'datetime', value: string): number {
+  const local = type === 'date'
+    ? { date: value.slice(0, 10), time: '00:00' }
+    : toLocalParts(new Date(value));
+  const [year, month, day] = local.date.split('-').map(Number);
+  const [hour, minute] = local.time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute) / 86_400_000 + 25_569;
+}
+
+function xlsxCell(ref: string, type: CellType, value: CellValue): string {
+  if (value === null || value === '') return '';
+
+  switch (type) {
+    case 'currency':
+      return `<c r="${ref}" s="${XLSX_STYLES.currency}"><v>${Number(value) / 100}</v></c>`;
+    case 'integer':
+      return `<c r="${ref}"><v>${Number(value)}</v></c>`;
+    case 'date':
+    case 'datetime':
+      return `<c r="${ref}" s="${XLSX_STYLES[type]}"><v>${toSerialDate(type, String(value))}</v></c>`;
+    default:
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  }
+}
+
+function buildSheetXml<T>(columns: ExportColumn<T>[], rows: T[]): string {
+  const header = columns
+    .map((column, i) => `<c r="${columnLetter(i)}1" s="${XLSX_STYLES.header}" t="inlineStr"><is><t>${escapeXml(column.header)}</t></is></c>`)
+    .join('');
+
+  const body = rows.map((row, r) => {
+    const cells = columns.map((column, i) => xlsxCell(`${columnLetter(i)}${r + 2}`, column.type, column.value(row))).join('');
+    return `<row r="${r + 2}">${cells}</row>`;
+  });
+
+  const widths = columns
+    .map((column, i) => {
+      const width = Math.min(Math.max(column.header.length, column.type === 'text' ? 24 : 14) + 2, 50);
+      return `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`;
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths}</cols>
+<sheetData><row r="1">${header}</row>${body.join('')}</sheetData>
+</worksheet>`;
+}
+
+export function buildXlsx<T>(sheetName: string, columns: ExportColumn<T>[], rows: T[]): Uint8Array {
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    'xl/styles.xml': STYLES_XML,
+    'xl/worksheets/sheet1.xml': buildSheetXml(columns, rows),
+  };
+
+  return zipSync(Object.fromEntries(Object.entries(files).map(([path, xml]) => [path, strToU8(xml)])));
+}
+
+export function buildExportFile<T>(
+  request: ExportRequest,
+  columns: ExportColumn<T>[],
+  rows: T[],
+  now: Date = new Date()
+): ExportFile {
+  const sheetName = request.dataset === 'payments' ? 'Pagamentos' : 'Clientes';
+
+  return {
+    filename: getExportFilename(request, now),
+    contentType: CONTENT_TYPES[request.format],
+    body: request.format === 'xlsx'
+      ? buildXlsx(sheetName, columns, rows)
+      : new TextEncoder().encode(buildCsv(columns, rows)),
+  };
+}
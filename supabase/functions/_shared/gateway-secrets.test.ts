@@ -0,0 +1,42 @@
+import { assertEquals, assertNotEquals, assertRejects } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { decryptGatewaySecrets, decryptSecret, encryptSecret, isEncryptedSecret, secretHint } from './gateway-secrets.ts';
+
+const KEY = 'test-secrets-key';
+
+Deno.test('secrets round-trip and never encrypt to the same value twice', async () => {
+  const first = await encryptSecret('APP_USR-123456789', KEY);
+  const second = await encryptSecret('APP_USR-123456789', KEY);
+
+  assertEquals(isEncryptedSecret(first), true);
+  assertNotEquals(first, second);
+  assertEquals(first.includes('APP_USR'), false);
+  assertEquals(await decryptSecret(first, KEY), 'APP_USR-123456789');
+  assertEquals(await decryptSecret(second, KEY), 'APP_USR-123456789');
+});
+
+Deno.test('decrypting with another key fails', async () => {
+  const encrypted = await encryptSecret('sk_test_abc', KEY);
+  await assertRejects(() => decryptSecret(encrypted, 'another-key'));
+});
+
+Deno.test('legacy plain text values and missing columns are left alone', async () => {
+  const settings = {
+    owner_id: 'owner-1',
+    mp_access_token: await encryptSecret('APP_USR-secret', KEY),
+    ps_token: 'legacy-plain-token',
+    asaas_api_key: null,
+  };
+
+  assertEquals(await decryptGatewaySecrets(settings, KEY), {
+    owner_id: 'owner-1',
+    mp_access_token: 'APP_USR-secret',
+    ps_token: 'legacy-plain-token',
+    asaas_api_key: null,
+  });
+  assertEquals(await decryptGatewaySecrets(null, KEY), null);
+});
+
+Deno.test('hints show the last four characters of long secrets only', () => {
+  assertEquals(secretHint('APP_USR-123456789'), '6789');
+  assertEquals(secretHint('short'), '');
+});
@@ -0,0 +1,92 @@
+// ===========================================
+// GATEWAY SECRETS AT REST
+// Gateway credentials are stored AES-GCM encrypted as "enc:v1:<iv>:<data>"
+// (base64). The key comes from the PAYMENT_SECRETS_KEY function secret and
+// never leaves the edge functions. Values saved before encryption was
+// introduced are plain text and are read as-is until they are replaced.
+// ===========================================
+
+export const GATEWAY_SECRET_FIELDS = [
+  'mp_access_token',
+  'mp_webhook_secret',
+  'asaas_api_key',
+  'asaas_webhook_token',
+  'ps_token',
+  'pm_api_key',
+  'pm_encryption_key',
+] as const;
+
+export type GatewaySecretField = typeof GATEWAY_SECRET_FIELDS[number];
+
+const PREFIX = 'enc:v1:';
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function getSecretsKey(): string {
+  const key = Deno.env.get('PAYMENT_SECRETS_KEY');
+  if (!key) {
+    throw new Error('PAYMENT_SECRETS_KEY is not configured');
+  }
+  return key;
+}
+
+// Any string works as the configured key; it is hashed into a 256-bit AES key
+async function importKey(secretsKey: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(secretsKey));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+export function isEncryptedSecret(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(PREFIX);
+}
+
+export async function encryptSecret(plain: string, secretsKey = getSecretsKey()): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await importKey(secretsKey);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plain));
+  return `${PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(encrypted))}`;
+}
+
+export async function decryptSecret(value: string | null | undefined, secretsKey?: string): Promise<string | null> {
+  if (!value) return null;
+  if (!isEncryptedSecret(value)) return value;
+
+  const [iv, data] = value.slice(PREFIX.length).split(':');
+  const key = await importKey(secretsKey ?? getSecretsKey());
+  const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+  return decoder.decode(decrypted);
+}
+
+/**
+ * Returns a copy of a payment_settings row with every secret column that
+ * was selected decrypted. Columns that were not selected stay absent.
+ */
+export async function decryptGatewaySecrets<T extends object>(settings: T | null, secretsKey?: string): Promise<T | null> {
+  if (!settings) return null;
+
+  const decrypted = { ...settings } as Record<string, unknown>;
+  for (const field of GATEWAY_SECRET_FIELDS) {
+    if (typeof decrypted[field] === 'string') {
+      decrypted[field] = await decryptSecret(decrypted[field] as string, secretsKey);
+    }
+  }
+  return decrypted as T;
+}
+
+// What the admin UI shows instead of the secret
+export function secretHint(plain: string): string {
+  return plain.length > 8 ? plain.slice(-4) : '';
+}
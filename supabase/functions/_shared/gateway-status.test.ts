@@ -0,0 +1,37 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import {
+  mapAsaasStatus,
+  mapMercadoPagoStatus,
+  mapPagarmeStatus,
+  mapPagSeguroOrderStatus,
+} from './gateway-status.ts';
+
+Deno.test('Mercado Pago and Asaas statuses map to ours, unknown ones keep the current', () => {
+  assertEquals(mapMercadoPagoStatus('approved', 'pending'), 'approved');
+  assertEquals(mapMercadoPagoStatus('in_process', 'pending'), 'pending');
+  assertEquals(mapMercadoPagoStatus('cancelled', 'pending'), 'rejected');
+  assertEquals(mapMercadoPagoStatus('charged_back', 'approved'), 'refunded');
+  assertEquals(mapMercadoPagoStatus('something_new', 'pending'), 'pending');
+
+  assertEquals(mapAsaasStatus('CONFIRMED', 'pending'), 'approved');
+  assertEquals(mapAsaasStatus('RECEIVED', 'pending'), 'approved');
+  assertEquals(mapAsaasStatus('OVERDUE', 'pending'), 'expired');
+  assertEquals(mapAsaasStatus('REFUNDED', 'approved'), 'refunded');
+  assertEquals(mapAsaasStatus('DUNNING_REQUESTED', 'pending'), 'pending');
+});
+
+Deno.test('PagSeguro orders are approved by a paid charge or a paid PIX QR code', () => {
+  assertEquals(mapPagSeguroOrderStatus({ charges: [{ status: 'DECLINED' }, { status: 'PAID' }] }, 'pending'), 'approved');
+  assertEquals(mapPagSeguroOrderStatus({ charges: [{ status: 'CANCELED' }] }, 'pending'), 'rejected');
+  assertEquals(mapPagSeguroOrderStatus({ qr_codes: [{ status: 'PAID' }] }, 'pending'), 'approved');
+  assertEquals(mapPagSeguroOrderStatus({ qr_codes: [{ status: 'ACTIVE' }] }, 'pending'), 'pending');
+  assertEquals(mapPagSeguroOrderStatus({}, 'pending'), 'pending');
+});
+
+Deno.test('Pagar.me orders use their charge status, standalone charges their own', () => {
+  assertEquals(mapPagarmeStatus({ status: 'pending', charges: [{ status: 'paid' }] }, 'pending'), 'approved');
+  assertEquals(mapPagarmeStatus({ status: 'failed', charges: [{ status: 'failed' }] }, 'pending'), 'rejected');
+  assertEquals(mapPagarmeStatus({ status: 'paid' }, 'pending'), 'approved');
+  assertEquals(mapPagarmeStatus({ status: 'refunded' }, 'approved'), 'refunded');
+  assertEquals(mapPagarmeStatus({ status: 'underpaid' }, 'pending'), 'pending');
+});
@@ -0,0 +1,101 @@
+// ===========================================
+// GATEWAY STATUS MAPPING
+// Translates each gateway's payment status into ours. Used by the gateway
+// adapters for checkout, webhooks and payment-status polling alike, so all
+// reach the same conclusion for the same gateway response. Unknown statuses
+// keep the current one.
+// ===========================================
+
+interface GatewayCharge {
+  status?: string;
+}
+
+export interface PagSeguroOrder {
+  charges?: GatewayCharge[];
+  qr_codes?: { status?: string }[];
+}
+
+export interface PagarmeOrder {
+  status?: string;
+  charges?: GatewayCharge[];
+}
+
+export function mapMercadoPagoStatus(status: string, currentStatus: string): string {
+  switch (status) {
+    case 'approved':
+      return 'approved';
+    case 'pending':
+    case 'in_process':
+    case 'authorized':
+      return 'pending';
+    case 'rejected':
+    case 'cancelled':
+      return 'rejected';
+    case 'refunded':
+    case 'charged_back':
+      return 'refunded';
+    default:
+      return currentStatus;
+  }
+}
+
+// Status field of GET /payments/{id}; webhooks use the event name instead
+export function mapAsaasStatus(status: string, currentStatus: string): string {
+  switch (status) {
+    case 'RECEIVED':
+    case 'CONFIRMED':
+    case 'RECEIVED_IN_CASH':
+      return 'approved';
+    case 'PENDING':
+    case 'AWAITING_RISK_ANALYSIS':
+      return 'pending';
+    case 'OVERDUE':
+      return 'expired';
+    case 'REFUNDED':
+    case 'REFUND_REQUESTED':
+    case 'CHARGEBACK_REQUESTED':
+      return 'refunded';
+    default:
+      return currentStatus;
+  }
+}
+
+export function mapPagSeguroOrderStatus(order: PagSeguroOrder, currentStatus: string): string {
+  let status = currentStatus;
+
+  for (const charge of order.charges || []) {
+    if (charge.status === 'PAID') {
+      return 'approved';
+    }
+    if (charge.status === 'DECLINED' || charge.status === 'CANCELED') {
+      status = 'rejected';
+    }
+  }
+
+  // PIX orders have no charge until the QR code is paid
+  if (order.qr_codes?.[0]?.status === 'PAID') {
+    return 'approved';
+  }
+
+  return status;
+}
+
+// Accepts an order (checkout payments) or a charge (subscription charges)
+export function mapPagarmeStatus(orderOrCharge: PagarmeOrder, currentStatus: string): string {
+  const chargeStatus = orderOrCharge.charges?.[0]?.status;
+
+  switch (chargeStatus ?? orderOrCharge.status) {
+    case 'paid':
+      return 'approved';
+    case 'pending':
+    case 'processing':
+      return 'pending';
+    case 'failed':
+    case 'canceled':
+      return 'rejected';
+    case 'refunded':
+      return 'refunded';
+    default:
+      return currentStatus;
+  }
+}
@@ -0,0 +1,431 @@
+import { mapAsaasStatus } from '../gateway-status.ts';
+import { credentialFailure, fetchGateway, fetchGatewayJson } from './http.ts';
+import type {
+  ChargeRequest,
+  ChargeResult,
+  CredentialTestResult,
+  CustomerData,
+  GatewayCancelResult,
+  GatewayRefundResult,
+  GatewaySettings,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  PaymentGatewayAdapter,
+  RefundRequest,
+  SubscriptionResult,
+  WebhookRequest,
+} from './types.ts';
+
+// ===========================================
+// ASAAS
+// ===========================================
+
+interface AsaasNotification {
+  id?: string;
+  event?: string;
+  payment?: { id?: string; subscription?: string | null; value?: number };
+  subscription?: { id?: string };
+}
+
+// Asaas only bills in fixed cycles
+const ASAAS_CYCLES: Record<number, string> = {
+  7: 'WEEKLY',
+  14: 'BIWEEKLY',
+  30: 'MONTHLY',
+  60: 'BIMONTHLY',
+  90: 'QUARTERLY',
+  180: 'SEMIANNUALLY',
+  365: 'YEARLY',
+};
+
+const BILLING_TYPES: Record<string, string> = {
+  pix: 'PIX',
+  boleto: 'BOLETO',
+  credit_card: 'CREDIT_CARD',
+};
+
+// Webhooks name the event instead of sending the payment status
+const PAYMENT_EVENT_STATUS: Record<string, string> = {
+  PAYMENT_CONFIRMED: 'approved',
+  PAYMENT_RECEIVED: 'approved',
+  PAYMENT_OVERDUE: 'expired',
+  PAYMENT_DELETED: 'rejected',
+  PAYMENT_REFUNDED: 'refunded',
+};
+
+// Subscription removed at the gateway (by the admin or after failed charges)
+const SUBSCRIPTION_END_EVENTS = ['SUBSCRIPTION_DELETED', 'SUBSCRIPTION_INACTIVATED'];
+
+function getBaseUrl(settings: GatewaySettings): string {
+  return settings.asaas_environment === 'production'
+    ? 'https://api.asaas.com/v3'
+    : 'https://sandbox.asaas.com/api/v3';
+}
+
+async function createCustomer(baseUrl: string, apiKey: string, customer: CustomerData): Promise<string | null> {
+  const customerResponse = await fetch(`${baseUrl}/customers`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'access_token': apiKey,
+    },
+    body: JSON.stringify({
+      name: customer.name,
+      email: customer.email,
+      cpfCnpj: customer.cpf,
+      mobilePhone: customer.phone,
+    }),
+  });
+
+  const customerData = await customerResponse.json();
+
+  if (!customerData.id) {
+    console.error('Asaas customer error:', customerData);
+    return null;
+  }
+
+  return customerData.id;
+}
+
+function getCreditCardFields({ customer, card }: ChargeRequest): Record<string, unknown> {
+  if (!card) return {};
+
+  return {
+    creditCard: {
+      holderName: card.holder_name,
+      number: card.number,
+      expiryMonth: card.exp_month.toString().padStart(2, '0'),
+      expiryYear: card.exp_year.toString(),
+      ccv: card.cvv,
+    },
+    creditCardHolderInfo: {
+      name: customer.name,
+      email: customer.email,
+      cpfCnpj: customer.cpf,
+      phone: customer.phone,
+      postalCode: '00000000', // Required but we don't collect
+      addressNumber: '0',
+    },
+  };
+}
+
+async function createCharge(settings: GatewaySettings, request: ChargeRequest): Promise<ChargeResult> {
+  const { plan, customer, paymentMethod, card } = request;
+  const apiKey = settings.asaas_api_key;
+  const baseUrl = getBaseUrl(settings);
+
+  if (!apiKey) {
+    return { error: 'Credenciais do Asaas nao configuradas' };
+  }
+
+  const billingType = BILLING_TYPES[paymentMethod];
+  if (!billingType) {
+    return { error: 'Metodo de pagamento invalido' };
+  }
+
+  try {
+    const customerId = await createCustomer(baseUrl, apiKey, customer);
+    if (!customerId) {
+      return { error: 'Erro ao criar cliente' };
+    }
+
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + 3);
+
+    const paymentPayload: Record<string, unknown> = {
+      customer: customerId,
+      billingType,
+      value: plan.price_cents / 100,
+      dueDate: dueDate.toISOString().split('T')[0],
+      description: `${plan.name} - ${plan.duration_days} dias`,
+    };
+
+    if (paymentMethod === 'credit_card' && card) {
+      Object.assign(paymentPayload, getCreditCardFields(request));
+      if (card.installments > 1) {
+        paymentPayload.installmentCount = card.installments;
+      }
+    }
+
+    const paymentResponse = await fetch(`${baseUrl}/payments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'access_token': apiKey,
+      },
+      body: JSON.stringify(paymentPayload),
+    });
+
+    const paymentData = await paymentResponse.json();
+
+    if (!paymentData.id) {
+      console.error('Asaas payment error:', paymentData);
+      return { error: paymentData.errors?.[0]?.description || 'Erro ao criar cobranca' };
+    }
+
+    const result: ChargeResult = {
+      gateway_payment_id: paymentData.id,
+      status: mapAsaasStatus(paymentData.status, 'rejected'),
+    };
+
+    if (paymentMethod === 'pix') {
+      const pixData = await fetchGatewayJson<{ payload?: string; encodedImage?: string }>(
+        `${baseUrl}/payments/${paymentData.id}/pixQrCode`,
+        { 'access_token': apiKey }
+      );
+      result.pix_qr_code = pixData?.payload;
+      result.pix_qr_code_base64 = pixData?.encodedImage;
+      const exp = new Date();
+      exp.setMinutes(exp.getMinutes() + 30);
+      result.pix_expiration = exp.toISOString();
+    } else if (paymentMethod === 'boleto') {
+      result.boleto_url = paymentData.bankSlipUrl;
+      result.boleto_barcode = paymentData.nossoNumero;
+      result.boleto_expiration = paymentData.dueDate;
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Asaas Request Error:', error);
+    return { error: 'Erro de comunicacao com Asaas' };
+  }
+}
+
+async function createSubscription(settings: GatewaySettings, request: ChargeRequest): Promise<SubscriptionResult> {
+  const { plan, customer, paymentMethod, card } = request;
+  const apiKey = settings.asaas_api_key;
+  const baseUrl = getBaseUrl(settings);
+
+  if (!apiKey) {
+    return { error: 'Credenciais do Asaas nao configuradas' };
+  }
+
+  const cycle = ASAAS_CYCLES[plan.duration_days];
+  if (!cycle) {
+    return { error: 'Duracao do plano nao suportada pelo Asaas (use 7, 14, 30, 60, 90, 180 ou 365 dias)' };
+  }
+
+  const billingType = BILLING_TYPES[paymentMethod];
+  if (!billingType) {
+    return { error: 'Metodo de pagamento invalido' };
+  }
+
+  try {
+    const customerId = await createCustomer(baseUrl, apiKey, customer);
+    if (!customerId) {
+      return { error: 'Erro ao criar cliente' };
+    }
+
+    const dueDate = new Date();
+    if (paymentMethod !== 'credit_card') {
+      dueDate.setDate(dueDate.getDate() + 3);
+    }
+
+    const subscriptionPayload: Record<string, unknown> = {
+      customer: customerId,
+      billingType,
+      value: plan.price_cents / 100,
+      nextDueDate: dueDate.toISOString().split('T')[0],
+      cycle,
+      description: plan.name,
+    };
+
+    if (paymentMethod === 'credit_card' && card) {
+      Object.assign(subscriptionPayload, getCreditCardFields(request));
+    }
+
+    const subscriptionResponse = await fetch(`${baseUrl}/subscriptions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'access_token': apiKey,
+      },
+      body: JSON.stringify(subscriptionPayload),
+    });
+
+    const subscriptionData = await subscriptionResponse.json();
+
+    if (!subscriptionData.id) {
+      console.error('Asaas subscription error:', subscriptionData);
+      return { error: subscriptionData.errors?.[0]?.description || 'Erro ao criar assinatura' };
+    }
+
+    // Asaas generates the first charge together with the subscription
+    const chargesData = await fetchGatewayJson<{ data?: Record<string, string>[] }>(
+      `${baseUrl}/subscriptions/${subscriptionData.id}/payments`,
+      { 'access_token': apiKey }
+    );
+    const firstCharge = chargesData?.data?.[0];
+
+    const result: SubscriptionResult = {
+      gateway_subscription_id: subscriptionData.id,
+      gateway_payment_id: firstCharge?.id ?? null,
+      status: firstCharge ? mapAsaasStatus(firstCharge.status, 'rejected') : 'pending',
+    };
+
+    if (paymentMethod === 'pix' && firstCharge) {
+      const pixData = await fetchGatewayJson<{ payload?: string; encodedImage?: string; expirationDate?: string }>(
+        `${baseUrl}/payments/${firstCharge.id}/pixQrCode`,
+        { 'access_token': apiKey }
+      );
+      result.pix_qr_code = pixData?.payload;
+      result.pix_qr_code_base64 = pixData?.encodedImage;
+      result.pix_expiration = pixData?.expirationDate;
+    } else if (paymentMethod === 'boleto' && firstCharge) {
+      result.boleto_url = firstCharge.bankSlipUrl;
+      result.boleto_barcode = firstCharge.nossoNumero;
+      result.boleto_expiration = firstCharge.dueDate;
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Asaas Request Error:', error);
+    return { error: 'Erro de comunicacao com Asaas' };
+  }
+}
+
+async function cancelSubscription(settings: GatewaySettings, subscriptionId: string): Promise<GatewayCancelResult> {
+  try {
+    const response = await fetch(`${getBaseUrl(settings)}/subscriptions/${subscriptionId}`, {
+      method: 'DELETE',
+      headers: { 'access_token': settings.asaas_api_key ?? '' },
+    });
+
+    if (!response.ok) {
+      console.error('Asaas Cancel Error:', await response.text());
+      return { error: 'Erro ao cancelar assinatura no Asaas' };
+    }
+
+    return {};
+  } catch (error) {
+    console.error('Asaas Cancel Request Error:', error);
+    return { error: 'Erro de comunicacao com Asaas' };
+  }
+}
+
+async function fetchStatus(
+  settings: GatewaySettings,
+  gatewayPaymentId: string,
+  currentStatus: string
+): Promise<GatewayStatusResult | null> {
+  const data = await fetchGatewayJson<{ status: string }>(
+    `${getBaseUrl(settings)}/payments/${gatewayPaymentId}`,
+    { 'access_token': settings.asaas_api_key ?? '' }
+  );
+  return data ? { status: mapAsaasStatus(data.status, currentStatus), data } : null;
+}
+
+function parseWebhook({ body: rawBody }: WebhookRequest): GatewayWebhookEvent | null {
+  const body = rawBody as AsaasNotification;
+  const event = body.event ?? '';
+
+  if (SUBSCRIPTION_END_EVENTS.includes(event)) {
+    const subscriptionId = body.subscription?.id;
+    if (!subscriptionId) return null;
+
+    return {
+      eventId: body.id ?? `${event}:${subscriptionId}`,
+      eventType: event,
+      kind: 'subscription',
+      resourceId: subscriptionId,
+      gatewayPaymentId: null,
+      gatewaySubscriptionId: subscriptionId,
+      status: 'cancelled',
+      amountCents: null,
+    };
+  }
+
+  const payment = body.payment;
+  const status = PAYMENT_EVENT_STATUS[event];
+
+  if (!payment?.id || !status) {
+    return null;
+  }
+
+  return {
+    eventId: body.id ?? `${event}:${payment.id}`,
+    eventType: event,
+    // Renewal charges of a subscription arrive here before we record them
+    kind: 'payment',
+    resourceId: payment.id,
+    gatewayPaymentId: payment.id,
+    gatewaySubscriptionId: payment.subscription ?? null,
+    status,
+    amountCents: payment.value !== undefined ? Math.round(payment.value * 100) : null,
+  };
+}
+
+async function refund(
+  settings: GatewaySettings,
+  paymentId: string,
+  { amountCents, reason }: RefundRequest
+): Promise<GatewayRefundResult> {
+  try {
+    const response = await fetch(`${getBaseUrl(settings)}/payments/${paymentId}/refund`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'access_token': settings.asaas_api_key ?? '',
+      },
+      body: JSON.stringify({ value: amountCents / 100, description: reason }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('Asaas Refund Error:', data);
+      return { error: data.errors?.[0]?.description || 'Erro ao reembolsar no Asaas' };
+    }
+
+    // Asaas answers with the refunded charge
+    return { gateway_refund_id: data.id ?? null };
+  } catch (error) {
+    console.error('Asaas Refund Request Error:', error);
+    return { error: 'Erro de comunicacao com Asaas' };
+  }
+}
+
+async function testCredentials(settings: GatewaySettings): Promise<CredentialTestResult> {
+  if (!settings.asaas_api_key) {
+    return { valid: false, error: 'Informe a API Key' };
+  }
+
+  const environment = settings.asaas_environment === 'production' ? 'production' : 'sandbox';
+  const baseUrl = getBaseUrl(settings);
+  const headers = { 'access_token': settings.asaas_api_key };
+
+  const account = await fetchGateway<{ name?: string; companyName?: string }>(
+    `${baseUrl}/myAccount/commercialInfo`,
+    headers
+  );
+  if (!account.ok || !account.data) return credentialFailure(account);
+
+  // PIX charges need at least one active key registered in the account
+  const pixKeys = await fetchGateway<{ totalCount?: number }>(
+    `${baseUrl}/pix/addressKeys?status=ACTIVE`,
+    headers
+  );
+
+  return {
+    valid: true,
+    account_name: account.data.companyName || account.data.name || null,
+    environment,
+    methods: {
+      pix: (pixKeys.data?.totalCount ?? 0) > 0,
+      boleto: true,
+      credit_card: true,
+    },
+  };
+}
+
+export const asaasAdapter: PaymentGatewayAdapter = {
+  id: 'asaas',
+  label: 'Asaas',
+  createCharge,
+  createSubscription,
+  cancelSubscription,
+  fetchStatus,
+  parseWebhook,
+  refund,
+  testCredentials,
+};
@@ -0,0 +1,122 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { asaasAdapter } from './asaas.ts';
+import { mercadoPagoAdapter } from './mercado-pago.ts';
+import { pagarmeAdapter } from './pagarme.ts';
+import { pagSeguroAdapter } from './pagseguro.ts';
+
+interface StubResponse {
+  status: number;
+  body?: unknown;
+}
+
+/**
+ * Answers gateway requests by URL while `run` executes. Unknown URLs answer
+ * 404; `null` simulates a network failure. Returns the requested URLs.
+ */
+async function withGatewayResponses(
+  responses: Record<string, StubResponse | null>,
+  run: () => Promise<void>
+): Promise<string[]> {
+  const requested: string[] = [];
+  const originalFetch = globalThis.fetch;
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    requested.push(url);
+
+    const response = url in responses ? responses[url] : { status: 404 };
+    if (!response) return Promise.reject(new TypeError('network error'));
+
+    return Promise.resolve(new Response(JSON.stringify(response.body ?? {}), { status: response.status }));
+  };
+
+  try {
+    await run();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  return requested;
+}
+
+Deno.test('every gateway asks for its credential before calling the API', async () => {
+  const requested = await withGatewayResponses({}, async () => {
+    assertEquals(await mercadoPagoAdapter.testCredentials({}), { valid: false, error: 'Informe o Access Token' });
+    assertEquals(await asaasAdapter.testCredentials({ asaas_api_key: '' }), { valid: false, error: 'Informe a API Key' });
+    assertEquals(await pagSeguroAdapter.testCredentials({}), { valid: false, error: 'Informe o Token' });
+    assertEquals(await pagarmeAdapter.testCredentials({ pm_api_key: null }), { valid: false, error: 'Informe a API Key' });
+  });
+
+  assertEquals(requested, []);
+});
+
+Deno.test('Mercado Pago reports the account, the environment and the active methods', async () => {
+  await withGatewayResponses({
+    'https://api.mercadopago.com/users/me': { status: 200, body: { nickname: 'LOJA', first_name: 'Ana', last_name: 'Souza' } },
+    'https://api.mercadopago.com/v1/payment_methods': {
+      status: 200,
+      body: [
+        { id: 'pix', payment_type_id: 'bank_transfer', status: 'active' },
+        { id: 'bolbradesco', payment_type_id: 'ticket', status: 'inactive' },
+        { id: 'visa', payment_type_id: 'credit_card', status: 'active' },
+      ],
+    },
+  }, async () => {
+    assertEquals(await mercadoPagoAdapter.testCredentials({ mp_access_token: 'TEST-123' }), {
+      valid: true,
+      account_name: 'Ana Souza',
+      environment: 'sandbox',
+      methods: { pix: true, boleto: false, credit_card: true },
+    });
+  });
+});
+
+Deno.test('Asaas uses the configured environment and needs a PIX key for PIX', async () => {
+  const requested = await withGatewayResponses({
+    'https://api.asaas.com/v3/myAccount/commercialInfo': { status: 200, body: { name: 'Ana', companyName: 'Ana Nutri LTDA' } },
+    'https://api.asaas.com/v3/pix/addressKeys?status=ACTIVE': { status: 200, body: { totalCount: 0 } },
+  }, async () => {
+    assertEquals(await asaasAdapter.testCredentials({ asaas_api_key: 'key', asaas_environment: 'production' }), {
+      valid: true,
+      account_name: 'Ana Nutri LTDA',
+      environment: 'production',
+      methods: { pix: false, boleto: true, credit_card: true },
+    });
+  });
+
+  assertEquals(requested.length, 2);
+});
+
+Deno.test('refused credentials and unreachable gateways are told apart', async () => {
+  await withGatewayResponses({
+    'https://sandbox.asaas.com/api/v3/myAccount/commercialInfo': { status: 401 },
+    'https://api.pagseguro.com/public-keys/card': null,
+    'https://api.pagar.me/core/v5/customers?size=1': { status: 500 },
+  }, async () => {
+    assertEquals(await asaasAdapter.testCredentials({ asaas_api_key: 'wrong' }), {
+      valid: false,
+      error: 'Credencial recusada pelo gateway',
+    });
+    assertEquals(await pagSeguroAdapter.testCredentials({ ps_token: 'token' }), {
+      valid: false,
+      error: 'Nao foi possivel conectar ao gateway',
+    });
+    assertEquals(await pagarmeAdapter.testCredentials({ pm_api_key: 'sk_test_123' }), {
+      valid: false,
+      error: 'Gateway respondeu com erro (500)',
+    });
+  });
+});
+
+Deno.test('Pagar.me and PagSeguro accept any working key', async () => {
+  await withGatewayResponses({
+    'https://api.pagseguro.com/public-keys/card': { status: 200, body: { public_key: 'abc' } },
+    'https://api.pagar.me/core/v5/customers?size=1': { status: 200, body: { data: [] } },
+  }, async () => {
+    assertEquals((await pagSeguroAdapter.testCredentials({ ps_token: 'token' })).environment, 'production');
+
+    const pagarme = await pagarmeAdapter.testCredentials({ pm_api_key: 'sk_test_123' });
+    assertEquals(pagarme.valid, true);
+    assertEquals(pagarme.environment, 'sandbox');
+  });
+});
@@ -0,0 +1,92 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { createFakeGatewayAdapter, parseFakeChargeId } from './fake.ts';
+import type { ChargeRequest } from './types.ts';
+
+const NOW = Date.parse('2026-03-10T12:00:00.000Z');
+const DELAY_MS = 10_000;
+
+const request: ChargeRequest = {
+  plan: { id: 'plan-1', name: 'Mensal', duration_days: 30, price_cents: 9900 },
+  customer: { name: 'Maria Silva', email: 'maria@example.com', phone: null, cpf: '12345678909' },
+  paymentMethod: 'pix',
+};
+
+const card = { number: '4111111111111111', holder_name: 'MARIA SILVA', exp_month: 12, exp_year: 2030, cvv: '123', installments: 1 };
+
+function setup() {
+  const clock = { now: NOW };
+  const webhooks: { chargeId: string; delayMs: number }[] = [];
+  const adapter = createFakeGatewayAdapter({
+    delayMs: DELAY_MS,
+    now: () => clock.now,
+    deliverWebhook: (chargeId, delayMs) => webhooks.push({ chargeId, delayMs }),
+  });
+  return { adapter, clock, webhooks };
+}
+
+Deno.test('Fake PIX charges stay pending until the delay, then approve and notify once', async () => {
+  const { adapter, clock, webhooks } = setup();
+
+  const charge = await adapter.createCharge({}, request);
+  const chargeId = charge.gateway_payment_id ?? '';
+
+  assertEquals(charge.status, 'pending');
+  assertEquals(parseFakeChargeId(chargeId)?.settlesAt, NOW + DELAY_MS);
+  assertEquals(webhooks, [{ chargeId, delayMs: DELAY_MS }]);
+  assertEquals((await adapter.fetchStatus({}, chargeId, 'pending'))?.status, 'pending');
+
+  clock.now = NOW + DELAY_MS;
+  assertEquals((await adapter.fetchStatus({}, chargeId, 'pending'))?.status, 'approved');
+
+  const notification = adapter.parseWebhook({
+    body: { id: 'evt-1', type: 'charge.updated', data: { id: chargeId } },
+    query: new URLSearchParams(),
+  });
+  assertEquals(notification?.kind, 'payment');
+  assertEquals(notification?.gatewayPaymentId, chargeId);
+  // The status is never taken from the body
+  assertEquals(notification?.status, null);
+});
+
+Deno.test('Fake customer emails pick the PIX and boleto outcome', async () => {
+  const { adapter, clock } = setup();
+
+  const rejected = await adapter.createCharge({}, {
+    ...request,
+    customer: { ...request.customer, email: 'maria+reject@example.com' },
+  });
+  const expired = await adapter.createCharge({}, {
+    ...request,
+    paymentMethod: 'boleto',
+    customer: { ...request.customer, email: 'maria+expire@example.com' },
+  });
+
+  clock.now = NOW + DELAY_MS;
+  assertEquals((await adapter.fetchStatus({}, rejected.gateway_payment_id ?? '', 'pending'))?.status, 'rejected');
+  assertEquals((await adapter.fetchStatus({}, expired.gateway_payment_id ?? '', 'pending'))?.status, 'expired');
+  assertEquals(expired.boleto_expiration?.length, 10);
+});
+
+Deno.test('Fake card numbers pick immediate or delayed approvals and declines', async () => {
+  const { adapter, webhooks } = setup();
+  const charge = (number: string) => adapter.createCharge({}, { ...request, paymentMethod: 'credit_card', card: { ...card, number } });
+
+  assertEquals((await charge('4111111111111111')).status, 'approved');
+  assertEquals((await charge('4000000000000002')).status, 'rejected');
+  assertEquals(webhooks.length, 0);
+
+  const delayedApproval = await charge('4000000000000003');
+  const delayedDecline = await charge('4000000000000004');
+  assertEquals(delayedApproval.status, 'pending');
+  assertEquals(delayedDecline.status, 'pending');
+  assertEquals(parseFakeChargeId(delayedApproval.gateway_payment_id ?? '')?.status, 'approved');
+  assertEquals(parseFakeChargeId(delayedDecline.gateway_payment_id ?? '')?.status, 'rejected');
+  assertEquals(webhooks.length, 2);
+});
+
+Deno.test('Fake gateway ignores charge ids it did not create', async () => {
+  const { adapter } = setup();
+
+  assertEquals(await adapter.fetchStatus({}, '123456789', 'pending'), null);
+  assertEquals(adapter.parseWebhook({ body: { data: { id: 'ch_abc' } }, query: new URLSearchParams() }), null);
+});
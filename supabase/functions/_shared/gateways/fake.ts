@@ -0,0 +1,182 @@
+import { addDays, addMinutes } from './http.ts';
+import type {
+  ChargeRequest,
+  ChargeResult,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  PaymentGatewayAdapter,
+  WebhookRequest,
+} from './types.ts';
+
+// ===========================================
+// FAKE GATEWAY
+// Simulates PIX, boleto and card payments without a gateway account, so the
+// whole checkout -> webhook -> provisioning flow runs locally. Only offered
+// when the functions run with ALLOW_FAKE_GATEWAY=true.
+//
+// Nothing is stored: each charge id carries its final status and the moment
+// it settles (fake_<status>_<settle ms>_<random>). Until then the charge is
+// pending; afterwards fetchStatus reports the final status and a webhook is
+// delivered to webhook-fake.
+//
+// Outcomes:
+// - Card numbers ending in 0002 are declined, 0003 are approved after the
+//   delay, 0004 are declined after the delay; any other card is approved.
+// - PIX and boleto are paid after the delay, unless the customer email
+//   contains +reject (rejected) or +expire (expired).
+//
+// Recurring plans are not simulated.
+// ===========================================
+
+const DEFAULT_DELAY_SECONDS = 10;
+
+interface FakeChargeOutcome {
+  status: string;
+  delayed: boolean;
+}
+
+export interface FakeGatewayOptions {
+  // How long delayed outcomes stay pending
+  delayMs?: number;
+  // Injectable clock, mainly for tests
+  now?: () => number;
+  // Called for every delayed charge; defaults to posting to webhook-fake
+  deliverWebhook?: (chargeId: string, delayMs: number) => void;
+}
+
+export function isFakeGatewayEnabled(): boolean {
+  return Deno.env.get('ALLOW_FAKE_GATEWAY') === 'true';
+}
+
+function getChargeOutcome({ paymentMethod, card, customer }: ChargeRequest): FakeChargeOutcome {
+  if (paymentMethod === 'credit_card') {
+    const number = card?.number.replace(/\D/g, '') ?? '';
+    if (number.endsWith('0002')) return { status: 'rejected', delayed: false };
+    if (number.endsWith('0003')) return { status: 'approved', delayed: true };
+    if (number.endsWith('0004')) return { status: 'rejected', delayed: true };
+    return { status: 'approved', delayed: false };
+  }
+
+  const email = customer.email.toLowerCase();
+  if (email.includes('+reject')) return { status: 'rejected', delayed: true };
+  if (email.includes('+expire')) return { status: 'expired', delayed: true };
+  return { status: 'approved', delayed: true };
+}
+
+export function parseFakeChargeId(chargeId: string): { status: string; settlesAt: number } | null {
+  const match = /^fake_([a-z]+)_(\d+)_[0-9a-f]+$/.exec(chargeId);
+  return match ? { status: match[1], settlesAt: Number(match[2]) } : null;
+}
+
+// Posts the notification once the charge settles, like a real gateway would
+function postFakeWebhook(chargeId: string, delayMs: number) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  const delivery = new Promise((resolve) => setTimeout(resolve, delayMs))
+    .then(() => fetch(`${supabaseUrl}/functions/v1/webhook-fake`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({
+        id: crypto.randomUUID(),
+        type: 'charge.updated',
+        data: { id: chargeId },
+      }),
+    }))
+    .then((response) => {
+      if (!response.ok) console.error('Fake webhook delivery failed:', chargeId, response.status);
+    })
+    .catch((error) => console.error('Fake webhook delivery error:', chargeId, error));
+
+  // Keeps the edge worker alive until the webhook is out
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+  runtime?.waitUntil(delivery);
+}
+
+export function createFakeGatewayAdapter(options: FakeGatewayOptions = {}): PaymentGatewayAdapter {
+  const delayMs = options.delayMs
+    ?? (parseInt(Deno.env.get('FAKE_GATEWAY_DELAY_SECONDS') ?? '') || DEFAULT_DELAY_SECONDS) * 1000;
+  const now = options.now ?? Date.now;
+  const deliverWebhook = options.deliverWebhook ?? postFakeWebhook;
+
+  function createCharge(_settings: unknown, request: ChargeRequest): Promise<ChargeResult> {
+    const outcome = getChargeOutcome(request);
+    const settlesAt = now() + (outcome.delayed ? delayMs : 0);
+    const random = crypto.randomUUID().replace(/-/g, '').slice(0, 12);
+    const chargeId = `fake_${outcome.status}_${settlesAt}_${random}`;
+
+    const result: ChargeResult = {
+      gateway_payment_id: chargeId,
+      status: outcome.delayed ? 'pending' : outcome.status,
+    };
+
+    if (request.paymentMethod === 'pix') {
+      // Not a valid BR Code: there is nothing to pay
+      result.pix_qr_code = `PIX-SIMULADO-${chargeId}`;
+      result.pix_qr_code_base64 = null;
+      result.pix_expiration = addMinutes(30);
+    } else if (request.paymentMethod === 'boleto') {
+      result.boleto_url = null;
+      result.boleto_barcode = `00000.00000 00000.000000 00000.000000 0 ${String(request.plan.price_cents).padStart(14, '0')}`;
+      result.boleto_expiration = addDays(3);
+    } else {
+      result.card_brand = 'teste';
+    }
+
+    if (outcome.delayed) {
+      deliverWebhook(chargeId, delayMs);
+    }
+
+    return Promise.resolve(result);
+  }
+
+  function fetchStatus(_settings: unknown, gatewayPaymentId: string, currentStatus: string): Promise<GatewayStatusResult | null> {
+    const charge = parseFakeChargeId(gatewayPaymentId);
+    if (!charge) return Promise.resolve(null);
+
+    const status = now() >= charge.settlesAt ? charge.status : currentStatus;
+    return Promise.resolve({
+      status,
+      data: { id: gatewayPaymentId, status, settles_at: new Date(charge.settlesAt).toISOString() },
+    });
+  }
+
+  // The body only names the charge; its status always comes from the id
+  function parseWebhook({ body }: WebhookRequest): GatewayWebhookEvent | null {
+    const data = body.data as { id?: unknown } | undefined;
+    const chargeId = typeof data?.id === 'string' ? data.id : null;
+
+    if (!chargeId || !parseFakeChargeId(chargeId)) {
+      return null;
+    }
+
+    return {
+      eventId: typeof body.id === 'string' ? body.id : null,
+      eventType: typeof body.type === 'string' ? body.type : 'charge.updated',
+      kind: 'payment',
+      resourceId: chargeId,
+      gatewayPaymentId: chargeId,
+      gatewaySubscriptionId: null,
+      status: null,
+      amountCents: null,
+    };
+  }
+
+  return {
+    id: 'fake',
+    label: 'Simulador',
+    createCharge,
+    fetchStatus,
+    parseWebhook,
+    refund: () => Promise.resolve({ gateway_refund_id: `fake_refund_${crypto.randomUUID()}` }),
+    testCredentials: () => Promise.resolve({
+      valid: true,
+      account_name: 'Gateway simulado',
+      environment: 'sandbox',
+      methods: { pix: true, boleto: true, credit_card: true },
+    }),
+  };
+}
@@ -0,0 +1,72 @@
+import type { CredentialTestResult } from './types.ts';
+
+// ===========================================
+// HTTP HELPERS shared by the gateway adapters
+// ===========================================
+
+export interface GatewayResponse<T> {
+  ok: boolean;
+  status: number;
+  data: T | null;
+}
+
+// GET that never throws; status 0 means the gateway could not be reached
+export async function fetchGateway<T>(url: string, headers: Record<string, string>): Promise<GatewayResponse<T>> {
+  try {
+    const response = await fetch(url, { headers });
+    const data = response.ok ? (await response.json()) as T : null;
+    return { ok: response.ok, status: response.status, data };
+  } catch (error) {
+    console.error('Gateway request error:', url, error);
+    return { ok: false, status: 0, data: null };
+  }
+}
+
+// Same as fetchGateway, for lookups that only care about a successful body
+export async function fetchGatewayJson<T>(url: string, headers: Record<string, string>): Promise<T | null> {
+  const response = await fetchGateway<T>(url, headers);
+
+  if (!response.ok) {
+    console.error('Gateway status check failed:', url, response.status);
+  }
+
+  return response.data;
+}
+
+export function credentialFailure(response: GatewayResponse<unknown>): CredentialTestResult {
+  if (response.status === 401 || response.status === 403) {
+    return { valid: false, error: 'Credencial recusada pelo gateway' };
+  }
+  if (response.status === 0) {
+    return { valid: false, error: 'Nao foi possivel conectar ao gateway' };
+  }
+  return { valid: false, error: `Gateway respondeu com erro (${response.status})` };
+}
+
+export async function fetchImageAsBase64(url: string, headers: Record<string, string> = {}): Promise<string | null> {
+  try {
+    const response = await fetch(url, { headers });
+    const buffer = await response.arrayBuffer();
+    return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+  } catch {
+    return null;
+  }
+}
+
+export function toBillingInterval(durationDays: number): { unit: 'day' | 'week' | 'month' | 'year'; count: number } {
+  if (durationDays % 365 === 0) return { unit: 'year', count: durationDays / 365 };
+  if (durationDays % 30 === 0) return { unit: 'month', count: durationDays / 30 };
+  if (durationDays % 7 === 0) return { unit: 'week', count: durationDays / 7 };
+  return { unit: 'day', count: durationDays };
+}
+
+export function addMinutes(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+}
+
+// YYYY-MM-DD, the format gateways use for due dates
+export function addDays(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+}
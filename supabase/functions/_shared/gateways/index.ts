@@ -0,0 +1,32 @@
+import { asaasAdapter } from './asaas.ts';
+import { createFakeGatewayAdapter, isFakeGatewayEnabled } from './fake.ts';
+import { mercadoPagoAdapter } from './mercado-pago.ts';
+import { pagarmeAdapter } from './pagarme.ts';
+import { pagSeguroAdapter } from './pagseguro.ts';
+import type { PaymentGatewayAdapter } from './types.ts';
+
+export type * from './types.ts';
+
+const ADAPTERS: Record<string, PaymentGatewayAdapter> = {
+  mercado_pago: mercadoPagoAdapter,
+  asaas: asaasAdapter,
+  pagseguro: pagSeguroAdapter,
+  pagarme: pagarmeAdapter,
+};
+
+let fakeAdapter: PaymentGatewayAdapter | null = null;
+
+/**
+ * Adapter for a payments.gateway or payment_settings.active_gateway value.
+ * Null for 'none', unknown gateways and the fake gateway when it is not
+ * enabled, so callers answer those the same way.
+ */
+export function getGatewayAdapter(gateway: string | null | undefined): PaymentGatewayAdapter | null {
+  if (gateway === 'fake') {
+    if (!isFakeGatewayEnabled()) return null;
+    fakeAdapter ??= createFakeGatewayAdapter();
+    return fakeAdapter;
+  }
+
+  return gateway ? ADAPTERS[gateway] ?? null : null;
+}
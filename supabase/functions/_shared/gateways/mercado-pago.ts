@@ -0,0 +1,380 @@
+import { mapMercadoPagoStatus } from '../gateway-status.ts';
+import { credentialFailure, fetchGateway, fetchGatewayJson } from './http.ts';
+import type {
+  CardData,
+  ChargeRequest,
+  ChargeResult,
+  CredentialTestResult,
+  CustomerData,
+  GatewayCancelResult,
+  GatewayRefundResult,
+  GatewaySettings,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  PaymentGatewayAdapter,
+  RefundRequest,
+  SubscriptionResult,
+  WebhookRequest,
+} from './types.ts';
+
+// ===========================================
+// MERCADO PAGO
+// ===========================================
+
+const BASE_URL = 'https://api.mercadopago.com';
+
+interface MercadoPagoNotification {
+  id?: string | number;
+  type?: string;
+  action?: string;
+  data?: { id?: string | number };
+}
+
+async function createCardToken(
+  accessToken: string,
+  card: CardData,
+  customer: CustomerData
+): Promise<{ token: string; payment_method_id: string } | { error: string }> {
+  try {
+    const response = await fetch(`${BASE_URL}/v1/card_tokens`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({
+        card_number: card.number,
+        cardholder: {
+          name: card.holder_name,
+          identification: {
+            type: 'CPF',
+            number: customer.cpf,
+          },
+        },
+        expiration_month: card.exp_month,
+        expiration_year: card.exp_year,
+        security_code: card.cvv,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('MP Token Error:', data);
+      return { error: 'Erro ao processar cartao' };
+    }
+
+    return {
+      token: data.id,
+      payment_method_id: data.payment_method?.id || 'visa',
+    };
+  } catch (error) {
+    console.error('MP Token Request Error:', error);
+    return { error: 'Erro ao processar cartao' };
+  }
+}
+
+async function createCharge(
+  settings: GatewaySettings,
+  { plan, customer, paymentMethod, card }: ChargeRequest
+): Promise<ChargeResult> {
+  const accessToken = settings.mp_access_token;
+
+  if (!accessToken) {
+    return { error: 'Credenciais do Mercado Pago nao configuradas' };
+  }
+
+  const paymentData: Record<string, unknown> = {
+    transaction_amount: plan.price_cents / 100,
+    description: `${plan.name} - ${plan.duration_days} dias`,
+    payer: {
+      email: customer.email,
+      first_name: customer.name.split(' ')[0],
+      last_name: customer.name.split(' ').slice(1).join(' ') || customer.name,
+      identification: {
+        type: 'CPF',
+        number: customer.cpf,
+      },
+    },
+  };
+
+  if (paymentMethod === 'pix') {
+    paymentData.payment_method_id = 'pix';
+    const expiration = new Date();
+    expiration.setMinutes(expiration.getMinutes() + 30);
+    paymentData.date_of_expiration = expiration.toISOString();
+  } else if (paymentMethod === 'boleto') {
+    paymentData.payment_method_id = 'bolbradesco';
+    const expiration = new Date();
+    expiration.setDate(expiration.getDate() + 3);
+    paymentData.date_of_expiration = expiration.toISOString();
+  } else if (paymentMethod === 'credit_card' && card) {
+    // For Mercado Pago, we need to create a card token first
+    const tokenResult = await createCardToken(accessToken, card, customer);
+    if ('error' in tokenResult) return tokenResult;
+
+    paymentData.token = tokenResult.token;
+    paymentData.installments = card.installments;
+    paymentData.payment_method_id = tokenResult.payment_method_id;
+  }
+
+  try {
+    const response = await fetch(`${BASE_URL}/v1/payments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+        'X-Idempotency-Key': crypto.randomUUID(),
+      },
+      body: JSON.stringify(paymentData),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('MP Error:', data);
+      return { error: data.message || 'Erro ao processar pagamento' };
+    }
+
+    const result: ChargeResult = {
+      gateway_payment_id: data.id.toString(),
+      status: mapMercadoPagoStatus(data.status, 'pending'),
+    };
+
+    if (paymentMethod === 'pix') {
+      result.pix_qr_code = data.point_of_interaction?.transaction_data?.qr_code;
+      result.pix_qr_code_base64 = data.point_of_interaction?.transaction_data?.qr_code_base64;
+      const exp = new Date();
+      exp.setMinutes(exp.getMinutes() + 30);
+      result.pix_expiration = exp.toISOString();
+    } else if (paymentMethod === 'boleto') {
+      result.boleto_url = data.transaction_details?.external_resource_url;
+      result.boleto_barcode = data.barcode?.content;
+      const exp = new Date();
+      exp.setDate(exp.getDate() + 3);
+      result.boleto_expiration = exp.toISOString().split('T')[0];
+    } else if (paymentMethod === 'credit_card') {
+      result.card_brand = data.payment_method_id;
+    }
+
+    return result;
+  } catch (error) {
+    console.error('MP Request Error:', error);
+    return { error: 'Erro de comunicacao com Mercado Pago' };
+  }
+}
+
+async function createSubscription(
+  settings: GatewaySettings,
+  { plan, customer, paymentMethod, card }: ChargeRequest
+): Promise<SubscriptionResult> {
+  const accessToken = settings.mp_access_token;
+
+  if (!accessToken) {
+    return { error: 'Credenciais do Mercado Pago nao configuradas' };
+  }
+
+  // Preapprovals are charged on the saved card only
+  if (paymentMethod !== 'credit_card' || !card) {
+    return { error: 'Assinaturas no Mercado Pago aceitam apenas cartao de credito' };
+  }
+
+  const tokenResult = await createCardToken(accessToken, card, customer);
+  if ('error' in tokenResult) return tokenResult;
+
+  const inMonths = plan.duration_days % 30 === 0;
+
+  try {
+    const response = await fetch(`${BASE_URL}/preapproval`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+        'X-Idempotency-Key': crypto.randomUUID(),
+      },
+      body: JSON.stringify({
+        reason: plan.name,
+        external_reference: plan.id,
+        payer_email: customer.email,
+        card_token_id: tokenResult.token,
+        back_url: Deno.env.get('APP_URL') || 'https://www.mercadopago.com.br',
+        status: 'authorized',
+        auto_recurring: {
+          frequency: inMonths ? plan.duration_days / 30 : plan.duration_days,
+          frequency_type: inMonths ? 'months' : 'days',
+          transaction_amount: plan.price_cents / 100,
+          currency_id: 'BRL',
+        },
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('MP Preapproval Error:', data);
+      return { error: data.message || 'Erro ao criar assinatura' };
+    }
+
+    const collectorId = data.collector_id?.toString() ?? null;
+
+    return {
+      gateway_subscription_id: data.id,
+      gateway_payment_id: null,
+      status: 'pending',
+      card_brand: tokenResult.payment_method_id,
+      // Renewal notifications only identify the seller account
+      settings_update: collectorId && collectorId !== settings.mp_user_id ? { mp_user_id: collectorId } : undefined,
+    };
+  } catch (error) {
+    console.error('MP Preapproval Request Error:', error);
+    return { error: 'Erro de comunicacao com Mercado Pago' };
+  }
+}
+
+async function cancelSubscription(settings: GatewaySettings, preapprovalId: string): Promise<GatewayCancelResult> {
+  try {
+    const response = await fetch(`${BASE_URL}/preapproval/${preapprovalId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${settings.mp_access_token}`,
+      },
+      body: JSON.stringify({ status: 'cancelled' }),
+    });
+
+    if (!response.ok) {
+      console.error('MP Cancel Error:', await response.text());
+      return { error: 'Erro ao cancelar assinatura no Mercado Pago' };
+    }
+
+    return {};
+  } catch (error) {
+    console.error('MP Cancel Request Error:', error);
+    return { error: 'Erro de comunicacao com Mercado Pago' };
+  }
+}
+
+async function fetchStatus(
+  settings: GatewaySettings,
+  gatewayPaymentId: string,
+  currentStatus: string
+): Promise<GatewayStatusResult | null> {
+  const data = await fetchGatewayJson<{ status: string }>(
+    `${BASE_URL}/v1/payments/${gatewayPaymentId}`,
+    { 'Authorization': `Bearer ${settings.mp_access_token}` }
+  );
+  return data ? { status: mapMercadoPagoStatus(data.status, currentStatus), data } : null;
+}
+
+function parseWebhook({ body: rawBody, query }: WebhookRequest): GatewayWebhookEvent | null {
+  const body = rawBody as MercadoPagoNotification;
+
+  // Mercado Pago sends 'payment' or 'payment.updated' action; recurring plans
+  // also send preapproval and authorized payment (renewal charge) notifications
+  const isPaymentEvent = body.type === 'payment' || body.action === 'payment.created' || body.action === 'payment.updated';
+  const isSubscriptionEvent = body.type === 'subscription_preapproval' || body.type === 'subscription_authorized_payment';
+
+  // The signed data.id comes in the query string; older notifications only send it in the body
+  const dataId = query.get('data.id') ?? body.data?.id?.toString();
+
+  if ((!isPaymentEvent && !isSubscriptionEvent) || !dataId) {
+    return null;
+  }
+
+  // Notifications carry no status: it is always fetched with the owner's token
+  const base = {
+    eventId: body.id?.toString() ?? null,
+    eventType: body.action ?? body.type ?? '',
+    resourceId: dataId,
+    status: null,
+    amountCents: null,
+  };
+
+  if (body.type === 'subscription_preapproval') {
+    return { ...base, kind: 'subscription', gatewayPaymentId: null, gatewaySubscriptionId: dataId };
+  }
+
+  if (body.type === 'subscription_authorized_payment') {
+    // An authorized payment only points to its charge and preapproval once fetched
+    return { ...base, kind: 'subscription_charge', gatewayPaymentId: null, gatewaySubscriptionId: null };
+  }
+
+  return { ...base, kind: 'payment', gatewayPaymentId: dataId, gatewaySubscriptionId: null };
+}
+
+async function refund(
+  settings: GatewaySettings,
+  paymentId: string,
+  { amountCents, isPartial }: RefundRequest
+): Promise<GatewayRefundResult> {
+  try {
+    const response = await fetch(`${BASE_URL}/v1/payments/${paymentId}/refunds`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${settings.mp_access_token}`,
+        'X-Idempotency-Key': crypto.randomUUID(),
+      },
+      // An empty body refunds the whole payment
+      body: JSON.stringify(isPartial ? { amount: amountCents / 100 } : {}),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('MP Refund Error:', data);
+      return { error: data.message || 'Erro ao reembolsar no Mercado Pago' };
+    }
+
+    return { gateway_refund_id: data.id?.toString() ?? null };
+  } catch (error) {
+    console.error('MP Refund Request Error:', error);
+    return { error: 'Erro de comunicacao com Mercado Pago' };
+  }
+}
+
+async function testCredentials(settings: GatewaySettings): Promise<CredentialTestResult> {
+  if (!settings.mp_access_token) {
+    return { valid: false, error: 'Informe o Access Token' };
+  }
+
+  const headers = { 'Authorization': `Bearer ${settings.mp_access_token}` };
+
+  const account = await fetchGateway<{ nickname?: string; first_name?: string; last_name?: string }>(
+    `${BASE_URL}/users/me`,
+    headers
+  );
+  if (!account.ok || !account.data) return credentialFailure(account);
+
+  const methods = await fetchGateway<{ id: string; payment_type_id: string; status: string }[]>(
+    `${BASE_URL}/v1/payment_methods`,
+    headers
+  );
+  const active = (methods.data || []).filter((method) => method.status === 'active');
+
+  const fullName = [account.data.first_name, account.data.last_name].filter(Boolean).join(' ');
+
+  return {
+    valid: true,
+    account_name: fullName || account.data.nickname || null,
+    // Test credentials are issued with the TEST- prefix
+    environment: settings.mp_access_token.startsWith('TEST-') ? 'sandbox' : 'production',
+    methods: {
+      pix: active.some((method) => method.id === 'pix'),
+      boleto: active.some((method) => method.payment_type_id === 'ticket'),
+      credit_card: active.some((method) => method.payment_type_id === 'credit_card'),
+    },
+  };
+}
+
+export const mercadoPagoAdapter: PaymentGatewayAdapter = {
+  id: 'mercado_pago',
+  label: 'Mercado Pago',
+  createCharge,
+  createSubscription,
+  cancelSubscription,
+  fetchStatus,
+  parseWebhook,
+  refund,
+  testCredentials,
+};
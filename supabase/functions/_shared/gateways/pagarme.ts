@@ -0,0 +1,452 @@
+import { mapPagarmeStatus, type PagarmeOrder } from '../gateway-status.ts';
+import { credentialFailure, fetchGateway, fetchGatewayJson, fetchImageAsBase64, toBillingInterval } from './http.ts';
+import type {
+  ChargeRequest,
+  ChargeResult,
+  CredentialTestResult,
+  GatewayCancelResult,
+  GatewayRefundResult,
+  GatewaySettings,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  PaymentGatewayAdapter,
+  RefundRequest,
+  SubscriptionResult,
+  WebhookRequest,
+} from './types.ts';
+
+// ===========================================
+// PAGAR.ME
+// Core API v5, same host for test and live keys.
+// ===========================================
+
+const BASE_URL = 'https://api.pagar.me/core/v5';
+
+interface PagarmeNotification {
+  id?: string;
+  type?: string;
+  data?: {
+    id?: string;
+    amount?: number;
+    charge?: { id?: string };
+    subscription?: { id?: string };
+  };
+}
+
+// Order and charge events map straight to a payment status
+const PAYMENT_EVENT_STATUS: Record<string, string> = {
+  'order.paid': 'approved',
+  'charge.paid': 'approved',
+  'order.payment_failed': 'rejected',
+  'charge.payment_failed': 'rejected',
+  'order.canceled': 'rejected',
+  'charge.refunded': 'refunded',
+};
+
+// We never collect the address; the API requires one for cards
+const PLACEHOLDER_BILLING_ADDRESS = {
+  line_1: 'Rua Exemplo, 123',
+  zip_code: '00000000',
+  city: 'Sao Paulo',
+  state: 'SP',
+  country: 'BR',
+};
+
+function getAuthHeader(apiKey: string): string {
+  return 'Basic ' + btoa(apiKey + ':');
+}
+
+async function createCharge(
+  settings: GatewaySettings,
+  { plan, customer, paymentMethod, card }: ChargeRequest
+): Promise<ChargeResult> {
+  const apiKey = settings.pm_api_key;
+
+  if (!apiKey) {
+    return { error: 'Credenciais do Pagar.me nao configuradas' };
+  }
+
+  const authHeader = getAuthHeader(apiKey);
+
+  try {
+    // Create customer first
+    const customerPayload = {
+      name: customer.name,
+      email: customer.email,
+      document: customer.cpf,
+      type: 'individual',
+      document_type: 'CPF',
+      phones: customer.phone ? {
+        mobile_phone: {
+          country_code: '55',
+          area_code: customer.phone.replace(/\D/g, '').slice(0, 2),
+          number: customer.phone.replace(/\D/g, '').slice(2),
+        },
+      } : undefined,
+    };
+
+    const customerResponse = await fetch(`${BASE_URL}/customers`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': authHeader,
+      },
+      body: JSON.stringify(customerPayload),
+    });
+
+    const customerData = await customerResponse.json();
+
+    if (!customerData.id && !customerResponse.ok) {
+      // Try to find existing customer
+      const searchData = await fetchGatewayJson<{ data?: { id: string }[] }>(
+        `${BASE_URL}/customers?email=${encodeURIComponent(customer.email)}`,
+        { 'Authorization': authHeader }
+      );
+      if (searchData?.data?.[0]?.id) {
+        customerData.id = searchData.data[0].id;
+      } else {
+        console.error('Pagar.me customer error:', customerData);
+        return { error: 'Erro ao criar cliente' };
+      }
+    }
+
+    // Create order with payment
+    const payments: Record<string, unknown>[] = [];
+
+    if (paymentMethod === 'pix') {
+      payments.push({
+        payment_method: 'pix',
+        pix: {
+          expires_in: 1800, // 30 minutes
+        },
+      });
+    } else if (paymentMethod === 'boleto') {
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + 3);
+      payments.push({
+        payment_method: 'boleto',
+        boleto: {
+          instructions: `Pagamento referente ao plano ${plan.name}`,
+          due_at: dueDate.toISOString(),
+        },
+      });
+    } else if (paymentMethod === 'credit_card' && card) {
+      payments.push({
+        payment_method: 'credit_card',
+        credit_card: {
+          installments: card.installments,
+          card: {
+            number: card.number,
+            holder_name: card.holder_name,
+            exp_month: card.exp_month,
+            exp_year: card.exp_year,
+            cvv: card.cvv,
+            billing_address: PLACEHOLDER_BILLING_ADDRESS,
+          },
+        },
+      });
+    }
+
+    const orderResponse = await fetch(`${BASE_URL}/orders`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': authHeader,
+      },
+      body: JSON.stringify({
+        customer_id: customerData.id,
+        items: [{
+          amount: plan.price_cents,
+          description: plan.name,
+          quantity: 1,
+        }],
+        payments,
+      }),
+    });
+
+    const orderData = await orderResponse.json();
+
+    if (!orderData.id) {
+      console.error('Pagar.me order error:', orderData);
+      return { error: orderData.message || 'Erro ao criar cobranca' };
+    }
+
+    const charge = orderData.charges?.[0];
+    const result: ChargeResult = {
+      gateway_payment_id: orderData.id,
+      status: mapPagarmeStatus(orderData, 'pending'),
+    };
+
+    if (paymentMethod === 'pix' && charge?.last_transaction) {
+      const txn = charge.last_transaction;
+      result.pix_qr_code = txn.qr_code;
+      result.pix_qr_code_base64 = txn.qr_code_url ? await fetchImageAsBase64(txn.qr_code_url) : null;
+      result.pix_expiration = txn.expires_at;
+    } else if (paymentMethod === 'boleto' && charge?.last_transaction) {
+      const txn = charge.last_transaction;
+      result.boleto_url = txn.pdf;
+      result.boleto_barcode = txn.line;
+      result.boleto_expiration = txn.due_at?.split('T')[0];
+    } else if (paymentMethod === 'credit_card') {
+      result.card_brand = charge?.last_transaction?.card?.brand;
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Pagar.me Request Error:', error);
+    return { error: 'Erro de comunicacao com Pagar.me' };
+  }
+}
+
+async function createSubscription(
+  settings: GatewaySettings,
+  { plan, customer, paymentMethod, card }: ChargeRequest
+): Promise<SubscriptionResult> {
+  const apiKey = settings.pm_api_key;
+
+  if (!apiKey) {
+    return { error: 'Credenciais do Pagar.me nao configuradas' };
+  }
+
+  if (paymentMethod !== 'credit_card' || !card) {
+    return { error: 'Assinaturas no Pagar.me aceitam apenas cartao de credito' };
+  }
+
+  const interval = toBillingInterval(plan.duration_days);
+
+  const subscriptionPayload: Record<string, unknown> = {
+    payment_method: 'credit_card',
+    interval: interval.unit,
+    interval_count: interval.count,
+    billing_type: 'prepaid',
+    installments: 1,
+    currency: 'BRL',
+    customer: {
+      name: customer.name,
+      email: customer.email,
+      document: customer.cpf,
+      type: 'individual',
+      document_type: 'CPF',
+    },
+    items: [{
+      description: plan.name,
+      quantity: 1,
+      pricing_scheme: {
+        scheme_type: 'unit',
+        price: plan.price_cents,
+      },
+    }],
+    card: {
+      number: card.number,
+      holder_name: card.holder_name,
+      exp_month: card.exp_month,
+      exp_year: card.exp_year,
+      cvv: card.cvv,
+      billing_address: PLACEHOLDER_BILLING_ADDRESS,
+    },
+    metadata: {
+      plan_id: plan.id,
+    },
+  };
+
+  try {
+    const response = await fetch(`${BASE_URL}/subscriptions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': getAuthHeader(apiKey),
+      },
+      body: JSON.stringify(subscriptionPayload),
+    });
+
+    const data = await response.json();
+
+    if (!data.id) {
+      console.error('Pagar.me subscription error:', data);
+      return { error: data.message || 'Erro ao criar assinatura' };
+    }
+
+    // The first invoice is charged asynchronously and arrives via invoice.* webhooks
+    return {
+      gateway_subscription_id: data.id,
+      gateway_payment_id: null,
+      status: 'pending',
+      card_brand: data.card?.brand,
+    };
+  } catch (error) {
+    console.error('Pagar.me Request Error:', error);
+    return { error: 'Erro de comunicacao com Pagar.me' };
+  }
+}
+
+async function cancelSubscription(settings: GatewaySettings, subscriptionId: string): Promise<GatewayCancelResult> {
+  try {
+    const response = await fetch(`${BASE_URL}/subscriptions/${subscriptionId}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': getAuthHeader(settings.pm_api_key ?? ''),
+      },
+      body: JSON.stringify({ cancel_pending_invoices: true }),
+    });
+
+    if (!response.ok) {
+      console.error('Pagar.me Cancel Error:', await response.text());
+      return { error: 'Erro ao cancelar assinatura no Pagar.me' };
+    }
+
+    return {};
+  } catch (error) {
+    console.error('Pagar.me Cancel Request Error:', error);
+    return { error: 'Erro de comunicacao com Pagar.me' };
+  }
+}
+
+async function fetchStatus(
+  settings: GatewaySettings,
+  gatewayPaymentId: string,
+  currentStatus: string
+): Promise<GatewayStatusResult | null> {
+  // Checkout payments store the order id, subscription charges the charge id
+  const resource = gatewayPaymentId.startsWith('ch_') ? 'charges' : 'orders';
+  const data = await fetchGatewayJson<PagarmeOrder>(
+    `${BASE_URL}/${resource}/${gatewayPaymentId}`,
+    { 'Authorization': getAuthHeader(settings.pm_api_key ?? '') }
+  );
+  return data ? { status: mapPagarmeStatus(data, currentStatus), data } : null;
+}
+
+function parseWebhook({ body: rawBody }: WebhookRequest): GatewayWebhookEvent | null {
+  const body = rawBody as PagarmeNotification;
+  const eventType = body.type ?? '';
+  const data = body.data;
+
+  if (!data?.id) {
+    return null;
+  }
+
+  const base = {
+    eventId: body.id ?? `${eventType}:${data.id}`,
+    eventType,
+    resourceId: data.id,
+  };
+
+  if (eventType === 'subscription.canceled') {
+    return {
+      ...base,
+      kind: 'subscription',
+      gatewayPaymentId: null,
+      gatewaySubscriptionId: data.id,
+      status: 'cancelled',
+      amountCents: null,
+    };
+  }
+
+  // Each invoice is one billing cycle; its charge is the payment we record
+  if (eventType === 'invoice.paid' || eventType === 'invoice.payment_failed') {
+    return {
+      ...base,
+      kind: 'subscription_charge',
+      gatewayPaymentId: data.charge?.id ?? data.id,
+      gatewaySubscriptionId: data.subscription?.id ?? null,
+      status: eventType === 'invoice.paid' ? 'approved' : 'rejected',
+      amountCents: data.amount ?? null,
+    };
+  }
+
+  const status = PAYMENT_EVENT_STATUS[eventType];
+  if (!status) {
+    return null;
+  }
+
+  return {
+    ...base,
+    kind: 'payment',
+    gatewayPaymentId: data.id,
+    gatewaySubscriptionId: null,
+    status,
+    amountCents: data.amount ?? null,
+  };
+}
+
+async function refund(
+  settings: GatewaySettings,
+  gatewayPaymentId: string,
+  { amountCents }: RefundRequest
+): Promise<GatewayRefundResult> {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Authorization': getAuthHeader(settings.pm_api_key ?? ''),
+  };
+
+  try {
+    // Checkout payments store the order id, subscription charges the charge id
+    let chargeId: string | undefined = gatewayPaymentId;
+
+    if (!gatewayPaymentId.startsWith('ch_')) {
+      const orderResponse = await fetch(`${BASE_URL}/orders/${gatewayPaymentId}`, { headers });
+      const order = await orderResponse.json();
+      chargeId = orderResponse.ok ? order.charges?.[0]?.id : undefined;
+
+      if (!chargeId) {
+        console.error('Pagar.me Order Error:', order);
+        return { error: 'Cobranca nao encontrada no Pagar.me' };
+      }
+    }
+
+    const response = await fetch(`${BASE_URL}/charges/${chargeId}`, {
+      method: 'DELETE',
+      headers,
+      body: JSON.stringify({ amount: amountCents }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('Pagar.me Refund Error:', data);
+      return { error: data.message || 'Erro ao reembolsar no Pagar.me' };
+    }
+
+    return { gateway_refund_id: data.last_transaction?.id ?? chargeId };
+  } catch (error) {
+    console.error('Pagar.me Refund Request Error:', error);
+    return { error: 'Erro de comunicacao com Pagar.me' };
+  }
+}
+
+async function testCredentials(settings: GatewaySettings): Promise<CredentialTestResult> {
+  if (!settings.pm_api_key) {
+    return { valid: false, error: 'Informe a API Key' };
+  }
+
+  // Secret keys are scoped to an account; listing one customer proves the key works
+  const customers = await fetchGateway<{ data?: unknown[] }>(
+    `${BASE_URL}/customers?size=1`,
+    { 'Authorization': getAuthHeader(settings.pm_api_key) }
+  );
+  if (!customers.ok) return credentialFailure(customers);
+
+  return {
+    valid: true,
+    account_name: null,
+    // Same host for both environments; test keys carry "_test_"
+    environment: settings.pm_api_key.includes('_test_') ? 'sandbox' : 'production',
+    methods: {
+      pix: true,
+      boleto: true,
+      credit_card: true,
+    },
+  };
+}
+
+export const pagarmeAdapter: PaymentGatewayAdapter = {
+  id: 'pagarme',
+  label: 'Pagar.me',
+  createCharge,
+  createSubscription,
+  cancelSubscription,
+  fetchStatus,
+  parseWebhook,
+  refund,
+  testCredentials,
+};
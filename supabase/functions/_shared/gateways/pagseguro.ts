@@ -0,0 +1,264 @@
+import { mapPagSeguroOrderStatus, type PagSeguroOrder } from '../gateway-status.ts';
+import { credentialFailure, fetchGateway, fetchGatewayJson, fetchImageAsBase64 } from './http.ts';
+import type {
+  ChargeRequest,
+  ChargeResult,
+  CredentialTestResult,
+  GatewayRefundResult,
+  GatewaySettings,
+  GatewayStatusResult,
+  GatewayWebhookEvent,
+  PaymentGatewayAdapter,
+  RefundRequest,
+  WebhookRequest,
+} from './types.ts';
+
+// ===========================================
+// PAGSEGURO
+// Orders API v4. No native recurring billing, so no subscriptions.
+// ===========================================
+
+const BASE_URL = 'https://api.pagseguro.com';
+
+interface PagSeguroLink {
+  media?: string;
+  href?: string;
+}
+
+async function createCharge(
+  settings: GatewaySettings,
+  { plan, customer, paymentMethod, card }: ChargeRequest
+): Promise<ChargeResult> {
+  const token = settings.ps_token;
+  const email = settings.ps_email;
+
+  if (!token || !email) {
+    return { error: 'Credenciais do PagSeguro nao configuradas' };
+  }
+
+  try {
+    const paymentPayload: Record<string, unknown> = {
+      reference_id: crypto.randomUUID(),
+      customer: {
+        name: customer.name,
+        email: customer.email,
+        tax_id: customer.cpf,
+        phones: customer.phone ? [{
+          country: '55',
+          area: customer.phone.slice(0, 2),
+          number: customer.phone.slice(2),
+          type: 'MOBILE',
+        }] : [],
+      },
+      items: [{
+        reference_id: plan.id,
+        name: plan.name,
+        quantity: 1,
+        unit_amount: plan.price_cents,
+      }],
+    };
+
+    if (paymentMethod === 'pix') {
+      paymentPayload.qr_codes = [{
+        amount: { value: plan.price_cents },
+        expiration_date: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+      }];
+    } else if (paymentMethod === 'boleto') {
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + 3);
+      paymentPayload.boletos = [{
+        amount: { value: plan.price_cents },
+        due_date: dueDate.toISOString().split('T')[0],
+        instruction_lines: {
+          line_1: `Pagamento referente ao plano ${plan.name}`,
+          line_2: `Valido por ${plan.duration_days} dias`,
+        },
+        holder: {
+          name: customer.name,
+          tax_id: customer.cpf,
+          email: customer.email,
+        },
+      }];
+    } else if (paymentMethod === 'credit_card' && card) {
+      paymentPayload.charges = [{
+        reference_id: crypto.randomUUID(),
+        description: `${plan.name} - ${plan.duration_days} dias`,
+        amount: {
+          value: plan.price_cents,
+          currency: 'BRL',
+        },
+        payment_method: {
+          type: 'CREDIT_CARD',
+          installments: card.installments,
+          capture: true,
+          card: {
+            number: card.number,
+            exp_month: card.exp_month.toString().padStart(2, '0'),
+            exp_year: card.exp_year.toString(),
+            security_code: card.cvv,
+            holder: {
+              name: card.holder_name,
+            },
+          },
+        },
+      }];
+    }
+
+    const response = await fetch(`${BASE_URL}/orders`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(paymentPayload),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('PagSeguro Error:', data);
+      return { error: data.error_messages?.[0]?.description || 'Erro ao processar pagamento' };
+    }
+
+    const result: ChargeResult = {
+      gateway_payment_id: data.id,
+      status: 'pending',
+    };
+
+    if (paymentMethod === 'pix' && data.qr_codes?.[0]) {
+      const qrCode = data.qr_codes[0];
+      result.pix_qr_code = qrCode.text;
+      // PagSeguro only links to the PNG; fetch it so the checkout can show it inline
+      const pngLink = (qrCode.links as PagSeguroLink[] | undefined)?.find((link) => link.media === 'image/png');
+      if (pngLink?.href) {
+        result.pix_qr_code_base64 = await fetchImageAsBase64(pngLink.href);
+      }
+      result.pix_expiration = qrCode.expiration_date;
+    } else if (paymentMethod === 'boleto' && data.boletos?.[0]) {
+      const boleto = data.boletos[0];
+      result.boleto_url = (boleto.links as PagSeguroLink[] | undefined)?.find((link) => link.media === 'application/pdf')?.href;
+      result.boleto_barcode = boleto.barcode;
+      result.boleto_expiration = boleto.due_date;
+    } else if (paymentMethod === 'credit_card' && data.charges?.[0]) {
+      const charge = data.charges[0];
+      result.status = charge.status === 'PAID' ? 'approved' : 'pending';
+      result.card_brand = charge.payment_method?.card?.brand;
+    }
+
+    return result;
+  } catch (error) {
+    console.error('PagSeguro Request Error:', error);
+    return { error: 'Erro de comunicacao com PagSeguro' };
+  }
+}
+
+async function fetchStatus(
+  settings: GatewaySettings,
+  gatewayPaymentId: string,
+  currentStatus: string
+): Promise<GatewayStatusResult | null> {
+  const data = await fetchGatewayJson<PagSeguroOrder>(
+    `${BASE_URL}/orders/${gatewayPaymentId}`,
+    { 'Authorization': `Bearer ${settings.ps_token}` }
+  );
+  return data ? { status: mapPagSeguroOrderStatus(data, currentStatus), data } : null;
+}
+
+// PagSeguro notifications are not signed: the body only tells which order to
+// fetch with the owner's token, and that order is the source of truth
+function parseWebhook({ body }: WebhookRequest): GatewayWebhookEvent | null {
+  const orderId = typeof body.id === 'string' ? body.id : null;
+
+  if (!orderId) {
+    return null;
+  }
+
+  return {
+    // PagSeguro has no event id; the handler uses one per order status
+    eventId: null,
+    eventType: 'order',
+    kind: 'payment',
+    resourceId: orderId,
+    gatewayPaymentId: orderId,
+    gatewaySubscriptionId: null,
+    status: null,
+    amountCents: null,
+  };
+}
+
+async function refund(
+  settings: GatewaySettings,
+  orderId: string,
+  { amountCents }: RefundRequest
+): Promise<GatewayRefundResult> {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${settings.ps_token}`,
+  };
+
+  try {
+    // payments stores the order id; refunds are made on its charge
+    const orderResponse = await fetch(`${BASE_URL}/orders/${orderId}`, { headers });
+    const order = await orderResponse.json();
+    const chargeId = order.charges?.[0]?.id;
+
+    if (!orderResponse.ok || !chargeId) {
+      console.error('PagSeguro Order Error:', order);
+      return { error: 'Cobranca nao encontrada no PagSeguro' };
+    }
+
+    const response = await fetch(`${BASE_URL}/charges/${chargeId}/cancel`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ amount: { value: amountCents } }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('PagSeguro Refund Error:', data);
+      return { error: data.error_messages?.[0]?.description || 'Erro ao reembolsar no PagSeguro' };
+    }
+
+    return { gateway_refund_id: data.id ?? chargeId };
+  } catch (error) {
+    console.error('PagSeguro Refund Request Error:', error);
+    return { error: 'Erro de comunicacao com PagSeguro' };
+  }
+}
+
+async function testCredentials(settings: GatewaySettings): Promise<CredentialTestResult> {
+  if (!settings.ps_token) {
+    return { valid: false, error: 'Informe o Token' };
+  }
+
+  // The orders API exposes no account details; reading the card public key
+  // is the lightest authenticated call
+  const publicKey = await fetchGateway<{ public_key?: string }>(
+    `${BASE_URL}/public-keys/card`,
+    { 'Authorization': `Bearer ${settings.ps_token}` }
+  );
+  if (!publicKey.ok) return credentialFailure(publicKey);
+
+  return {
+    valid: true,
+    account_name: null,
+    // Charges are always created against the production API
+    environment: 'production',
+    methods: {
+      pix: true,
+      boleto: true,
+      credit_card: true,
+    },
+  };
+}
+
+export const pagSeguroAdapter: PaymentGatewayAdapter = {
+  id: 'pagseguro',
+  label: 'PagSeguro',
+  createCharge,
+  fetchStatus,
+  parseWebhook,
+  refund,
+  testCredentials,
+};
@@ -0,0 +1,153 @@
+// ===========================================
+// PAYMENT GATEWAY ADAPTERS
+// Everything the edge functions need from a gateway, behind one interface.
+// Each gateway lives in its own module; getGatewayAdapter() picks the one
+// a payment or the payment settings point to.
+// ===========================================
+
+export type GatewayId = 'mercado_pago' | 'asaas' | 'pagseguro' | 'pagarme' | 'fake';
+
+export type GatewayPaymentMethod = 'pix' | 'boleto' | 'credit_card';
+
+// Decrypted payment_settings columns the adapters read
+export interface GatewaySettings {
+  mp_access_token?: string | null;
+  mp_user_id?: string | null;
+  asaas_api_key?: string | null;
+  asaas_environment?: string | null;
+  ps_token?: string | null;
+  ps_email?: string | null;
+  pm_api_key?: string | null;
+}
+
+export interface CustomerData {
+  name: string;
+  email: string;
+  phone: string | null;
+  cpf: string;
+}
+
+export interface CardData {
+  number: string;
+  holder_name: string;
+  exp_month: number;
+  exp_year: number;
+  cvv: string;
+  installments: number;
+}
+
+export interface ChargePlan {
+  id: string;
+  name: string;
+  duration_days: number;
+  // Amount to charge, already discounted
+  price_cents: number;
+}
+
+export interface ChargeRequest {
+  plan: ChargePlan;
+  customer: CustomerData;
+  paymentMethod: GatewayPaymentMethod;
+  card?: CardData;
+}
+
+// Fields are stored as-is on the payments row
+export interface ChargeResult {
+  error?: string;
+  gateway_payment_id?: string | null;
+  status?: string;
+  pix_qr_code?: string | null;
+  pix_qr_code_base64?: string | null;
+  pix_expiration?: string | null;
+  boleto_url?: string | null;
+  boleto_barcode?: string | null;
+  boleto_expiration?: string | null;
+  card_brand?: string | null;
+}
+
+// The first charge comes back with the same fields as a one-time payment.
+// When the gateway charges asynchronously there is no gateway_payment_id
+// yet: the webhook fills it in when the charge arrives.
+export interface SubscriptionResult extends ChargeResult {
+  gateway_subscription_id?: string;
+  // Account details learned while subscribing, saved back to payment_settings
+  settings_update?: Partial<GatewaySettings>;
+}
+
+export interface GatewayStatusResult {
+  status: string;
+  // Raw gateway response, kept as webhook_data
+  data: unknown;
+}
+
+export interface RefundRequest {
+  amountCents: number;
+  reason: string;
+  // False when the refund covers everything still refundable
+  isPartial: boolean;
+}
+
+export interface GatewayRefundResult {
+  error?: string;
+  gateway_refund_id?: string | null;
+}
+
+export interface GatewayCancelResult {
+  error?: string;
+}
+
+export interface CredentialTestResult {
+  valid: boolean;
+  error?: string;
+  account_name?: string | null;
+  environment?: 'sandbox' | 'production';
+  methods?: {
+    pix: boolean;
+    boleto: boolean;
+    credit_card: boolean;
+  };
+}
+
+/**
+ * A notification reduced to what the webhook handlers act on:
+ * - payment: a checkout payment, or a subscription charge not recorded yet
+ * - subscription_charge: one billing cycle of a gateway subscription
+ * - subscription: the subscription itself changed (e.g. was cancelled)
+ */
+export interface GatewayWebhookEvent {
+  // Null when the gateway sends no event id; the handler derives one
+  eventId: string | null;
+  eventType: string;
+  kind: 'payment' | 'subscription_charge' | 'subscription';
+  // Id of whatever the notification is about, as sent by the gateway
+  resourceId: string;
+  gatewayPaymentId: string | null;
+  gatewaySubscriptionId: string | null;
+  // Our payment status ('cancelled' for subscription events), or null when
+  // the notification cannot be trusted for it and the gateway must be asked
+  status: string | null;
+  amountCents: number | null;
+}
+
+export interface WebhookRequest {
+  body: Record<string, unknown>;
+  // Some gateways put the resource id in the query string
+  query: URLSearchParams;
+}
+
+export interface PaymentGatewayAdapter {
+  id: GatewayId;
+  label: string;
+  createCharge(settings: GatewaySettings, request: ChargeRequest): Promise<ChargeResult>;
+  // Only gateways with native recurring billing implement subscriptions
+  createSubscription?(settings: GatewaySettings, request: ChargeRequest): Promise<SubscriptionResult>;
+  // Stops further charges; implemented by every gateway with createSubscription
+  cancelSubscription?(settings: GatewaySettings, gatewaySubscriptionId: string): Promise<GatewayCancelResult>;
+  // Null when the gateway could not be reached; unknown statuses keep the current one
+  fetchStatus(settings: GatewaySettings, gatewayPaymentId: string, currentStatus: string): Promise<GatewayStatusResult | null>;
+  // Null when the notification is not about anything we track
+  parseWebhook(request: WebhookRequest): GatewayWebhookEvent | null;
+  refund(settings: GatewaySettings, gatewayPaymentId: string, request: RefundRequest): Promise<GatewayRefundResult>;
+  // Read-only calls: nothing is created or charged
+  testCredentials(settings: GatewaySettings): Promise<CredentialTestResult>;
+}
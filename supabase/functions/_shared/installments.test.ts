@@ -0,0 +1,64 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import {
+  calculateInstallment,
+  findInstallmentOption,
+  getInstallmentOptions,
+  resolveInstallmentRules,
+} from './installments.ts';
+
+const settings = {
+  max_installments: 12,
+  min_installment_cents: 1000,
+  interest_free_installments: 3,
+  installment_interest_percent: '2.99',
+};
+
+Deno.test('plan overrides replace the owner limits and missing values use the defaults', () => {
+  assertEquals(resolveInstallmentRules(settings), {
+    maxInstallments: 12,
+    minInstallmentCents: 1000,
+    interestFreeInstallments: 3,
+    monthlyInterestPercent: 2.99,
+  });
+  assertEquals(resolveInstallmentRules(settings, { max_installments: 6, interest_free_installments: null }).maxInstallments, 6);
+  assertEquals(resolveInstallmentRules(settings, { max_installments: null, interest_free_installments: 6 }).interestFreeInstallments, 6);
+  assertEquals(resolveInstallmentRules({}), {
+    maxInstallments: 12,
+    minInstallmentCents: 500,
+    interestFreeInstallments: 12,
+    monthlyInterestPercent: 0,
+  });
+});
+
+Deno.test('installments past the interest-free count follow the Price table', () => {
+  const rules = resolveInstallmentRules(settings);
+
+  assertEquals(calculateInstallment(10000, 3, rules), { installments: 3, installmentCents: 3333, totalCents: 10000, interestCents: 0 });
+  assertEquals(calculateInstallment(10000, 4, rules), { installments: 4, installmentCents: 2690, totalCents: 10760, interestCents: 760 });
+  assertEquals(calculateInstallment(10000, 12, rules), { installments: 12, installmentCents: 1004, totalCents: 12048, interestCents: 2048 });
+
+  // Without a rate every installment is interest-free
+  const noInterest = resolveInstallmentRules({ ...settings, installment_interest_percent: 0 });
+  assertEquals(calculateInstallment(10000, 12, noInterest).interestCents, 0);
+});
+
+Deno.test('options stop at the maximum and at the minimum installment value', () => {
+  const rules = resolveInstallmentRules(settings);
+
+  assertEquals(getInstallmentOptions(10000, rules).length, 12);
+  assertEquals(getInstallmentOptions(10000, { ...rules, maxInstallments: 6 }).length, 6);
+  // R$ 45,00 reaches R$ 10,00 per installment only up to 4x
+  assertEquals(getInstallmentOptions(4500, rules).map((option) => option.installments), [1, 2, 3, 4]);
+  // Paying in full is offered even below the minimum
+  assertEquals(getInstallmentOptions(800, rules).map((option) => option.installments), [1]);
+});
+
+Deno.test('requested installments outside the rules are not found', () => {
+  const rules = resolveInstallmentRules(settings, { max_installments: 6 });
+
+  assertEquals(findInstallmentOption(10000, 6, rules)?.totalCents, 11070);
+  assertEquals(findInstallmentOption(10000, 7, rules), null);
+  assertEquals(findInstallmentOption(10000, 0, rules), null);
+  assertEquals(findInstallmentOption(10000, 2.5, rules), null);
+  assertEquals(findInstallmentOption(1500, 2, rules), null);
+});
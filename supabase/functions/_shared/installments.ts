@@ -0,0 +1,109 @@
+// ===========================================
+// INSTALLMENTS
+// Card installment rules of an owner, with per-plan overrides. payment-create
+// validates the installments the checkout sent and charges the interest;
+// src/utils/installments.ts mirrors the calculation for the checkout preview.
+// ===========================================
+
+export interface InstallmentSettings {
+  max_installments?: number | null;
+  min_installment_cents?: number | null;
+  interest_free_installments?: number | null;
+  installment_interest_percent?: number | string | null;
+}
+
+export interface InstallmentPlanOverrides {
+  max_installments?: number | null;
+  interest_free_installments?: number | null;
+}
+
+export interface InstallmentRules {
+  maxInstallments: number;
+  minInstallmentCents: number;
+  interestFreeInstallments: number;
+  monthlyInterestPercent: number;
+}
+
+export interface InstallmentOption {
+  installments: number;
+  installmentCents: number;
+  totalCents: number;
+  interestCents: number;
+}
+
+// Most card brands in Brazil stop at 12 installments
+export const MAX_INSTALLMENTS = 12;
+
+// Defaults of the payment_settings columns in sql/installments.sql
+const DEFAULT_RULES: InstallmentRules = {
+  maxInstallments: MAX_INSTALLMENTS,
+  minInstallmentCents: 500,
+  interestFreeInstallments: MAX_INSTALLMENTS,
+  monthlyInterestPercent: 0,
+};
+
+export function resolveInstallmentRules(
+  settings: InstallmentSettings,
+  plan?: InstallmentPlanOverrides | null
+): InstallmentRules {
+  const maxInstallments = plan?.max_installments ?? settings.max_installments ?? DEFAULT_RULES.maxInstallments;
+  const interestFreeInstallments = plan?.interest_free_installments
+    ?? settings.interest_free_installments
+    ?? DEFAULT_RULES.interestFreeInstallments;
+
+  return {
+    maxInstallments: Math.min(Math.max(maxInstallments, 1), MAX_INSTALLMENTS),
+    minInstallmentCents: Math.max(settings.min_installment_cents ?? DEFAULT_RULES.minInstallmentCents, 0),
+    interestFreeInstallments: Math.max(interestFreeInstallments, 1),
+    // NUMERIC columns arrive as strings from PostgREST
+    monthlyInterestPercent: Math.max(Number(settings.installment_interest_percent ?? 0) || 0, 0),
+  };
+}
+
+// Installments above the interest-free count follow the Price table
+// (fixed installments with compound monthly interest)
+export function calculateInstallment(amountCents: number, installments: number, rules: InstallmentRules): InstallmentOption {
+  const rate = rules.monthlyInterestPercent / 100;
+
+  if (installments <= rules.interestFreeInstallments || rate === 0) {
+    return {
+      installments,
+      installmentCents: Math.round(amountCents / installments),
+      totalCents: amountCents,
+      interestCents: 0,
+    };
+  }
+
+  const installmentCents = Math.round((amountCents * rate) / (1 - Math.pow(1 + rate, -installments)));
+  const totalCents = installmentCents * installments;
+
+  return {
+    installments,
+    installmentCents,
+    totalCents,
+    interestCents: totalCents - amountCents,
+  };
+}
+
+// Paying in full is always offered; further installments only while each
+// one is worth at least the minimum
+export function getInstallmentOptions(amountCents: number, rules: InstallmentRules): InstallmentOption[] {
+  const options: InstallmentOption[] = [];
+
+  for (let n = 1; n <= rules.maxInstallments; n++) {
+    const option = calculateInstallment(amountCents, n, rules);
+    if (n > 1 && option.installmentCents < rules.minInstallmentCents) break;
+    options.push(option);
+  }
+
+  return options;
+}
+
+export function findInstallmentOption(
+  amountCents: number,
+  installments: number,
+  rules: InstallmentRules
+): InstallmentOption | null {
+  if (!Number.isInteger(installments)) return null;
+  return getInstallmentOptions(amountCents, rules).find((option) => option.installments === installments) ?? null;
+}
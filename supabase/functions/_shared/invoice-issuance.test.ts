@@ -0,0 +1,158 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { MAX_INVOICE_ATTEMPTS, processInvoiceQueue, queueInvoice, retryInvoice } from './invoice-issuance.ts';
+import { createMockInvoiceProvider } from './invoice-providers/mock.ts';
+import type { InvoiceIssueResult, InvoiceProviderAdapter } from './invoice-providers/types.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const plan = { id: 'plan-1', name: 'Plano Mensal', duration_days: 30 };
+
+function buildPayment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'payment-1',
+    owner_id: 'owner-1',
+    client_id: 'client-1',
+    plan_id: plan.id,
+    status: 'approved',
+    amount_cents: 9900,
+    paid_at: '2026-03-10T11:59:00.000Z',
+    customer_email: 'maria@example.com',
+    customer_name: 'Maria',
+    customer_cpf: '123.456.789-09',
+    grant_type: null,
+    ...overrides,
+  };
+}
+
+function setup(payment = buildPayment(), settings: Record<string, unknown> = {}) {
+  const fake = new FakeSupabase({
+    subscription_plans: [plan],
+    profiles: [{ id: 'client-1', role: 'client', full_name: 'Maria Silva', email: 'maria@example.com' }],
+    payments: [payment],
+    payment_settings: [{
+      owner_id: 'owner-1',
+      invoice_enabled: true,
+      invoice_provider: 'mock',
+      invoice_service_code: '04.10',
+      invoice_iss_rate: '2.00',
+      ...settings,
+    }],
+  }, {
+    uniqueKeys: { invoices: [['payment_id']] },
+  });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+// Fails like an unavailable city hall until told otherwise
+function createFlakyProvider() {
+  const state = { down: true, calls: 0 };
+  const mock = createMockInvoiceProvider({ now: () => NOW.getTime() });
+  const provider: InvoiceProviderAdapter = {
+    ...mock,
+    issue(settings, payload): Promise<InvoiceIssueResult> {
+      state.calls++;
+      return state.down
+        ? Promise.resolve({ status: 'failed', error: 'Prefeitura indisponivel', retryable: true })
+        : mock.issue(settings, payload);
+    },
+  };
+  return { provider, state };
+}
+
+Deno.test('approved payments are invoiced with the plan as the service and the profile as the customer', async () => {
+  const { fake, supabase } = setup();
+  const payloads: unknown[] = [];
+  const mock = createMockInvoiceProvider({ now: () => NOW.getTime() });
+  const provider: InvoiceProviderAdapter = {
+    ...mock,
+    issue(settings, payload) {
+      payloads.push(payload);
+      return mock.issue(settings, payload);
+    },
+  };
+
+  const invoice = await queueInvoice(supabase, 'payment-1', { now: NOW, provider });
+
+  assertEquals(invoice?.status, 'issued');
+  assertEquals(payloads, [{
+    reference: 'payment-1',
+    issuedOn: '2026-03-10',
+    amountCents: 9900,
+    serviceCode: '04.10',
+    serviceDescription: 'Acompanhamento nutricional - Plano Mensal (30 dias)',
+    issRatePercent: 2,
+    municipalRegistration: null,
+    customer: { name: 'Maria Silva', cpf: '12345678909', email: 'maria@example.com' },
+  }]);
+
+  const [row] = fake.table('invoices');
+  assertEquals(row.status, 'issued');
+  assertEquals(row.attempts, 1);
+  assertEquals(row.next_attempt_at, null);
+  assert(row.invoice_number);
+  assert(row.pdf_url);
+
+  // A second delivery of the same approval does not issue again
+  assertEquals(await queueInvoice(supabase, 'payment-1', { now: NOW, provider }), null);
+  assertEquals(fake.table('invoices').length, 1);
+  assertEquals(payloads.length, 1);
+});
+
+Deno.test('grants, zero-value payments and owners with invoicing off are not invoiced', async () => {
+  const provider = createMockInvoiceProvider({ now: () => NOW.getTime() });
+
+  const grant = setup(buildPayment({ grant_type: 'trial', amount_cents: 0 }));
+  assertEquals(await queueInvoice(grant.supabase, 'payment-1', { now: NOW, provider }), null);
+  assertEquals(grant.fake.table('invoices').length, 0);
+
+  const free = setup(buildPayment({ amount_cents: 0 }));
+  assertEquals(await queueInvoice(free.supabase, 'payment-1', { now: NOW, provider }), null);
+
+  const disabled = setup(buildPayment(), { invoice_enabled: false });
+  assertEquals(await queueInvoice(disabled.supabase, 'payment-1', { now: NOW, provider }), null);
+  assertEquals(disabled.fake.table('invoices').length, 0);
+});
+
+Deno.test('retryable failures back off through the queue until the attempts run out', async () => {
+  const { fake, supabase } = setup();
+  const { provider, state } = createFlakyProvider();
+
+  const queued = await queueInvoice(supabase, 'payment-1', { now: NOW, provider });
+  assertEquals(queued?.status, 'pending');
+  assertEquals(fake.table('invoices')[0].next_attempt_at, '2026-03-10T12:05:00.000Z');
+  assertEquals(fake.table('invoices')[0].last_error, 'Prefeitura indisponivel');
+
+  // Not due yet
+  assertEquals(await processInvoiceQueue(supabase, { now: NOW, provider }), { processed: 0, issued: 0, failed: 0 });
+
+  for (let attempt = 2; attempt <= MAX_INVOICE_ATTEMPTS; attempt++) {
+    const due = new Date(fake.table('invoices')[0].next_attempt_at as string);
+    await processInvoiceQueue(supabase, { now: due, provider });
+  }
+
+  const [row] = fake.table('invoices');
+  assertEquals(row.status, 'failed');
+  assertEquals(row.attempts, MAX_INVOICE_ATTEMPTS);
+  assertEquals(row.next_attempt_at, null);
+  assertEquals(state.calls, MAX_INVOICE_ATTEMPTS);
+
+  // An admin retry starts over, and issues once the provider is back
+  state.down = false;
+  assertEquals(await retryInvoice(supabase, 'other-owner', row.id as string, { now: NOW, provider }), null);
+  const retried = await retryInvoice(supabase, 'owner-1', row.id as string, { now: NOW, provider });
+  assertEquals(retried?.status, 'issued');
+  assertEquals(fake.table('invoices')[0].attempts, 1);
+});
+
+Deno.test('payments without a CPF fail at once without reaching the provider', async () => {
+  const { fake, supabase } = setup(buildPayment({ customer_cpf: null }));
+  const { provider, state } = createFlakyProvider();
+
+  const invoice = await queueInvoice(supabase, 'payment-1', { now: NOW, provider });
+
+  assertEquals(invoice?.status, 'failed');
+  assertEquals(fake.table('invoices')[0].last_error, 'CPF do cliente nao informado no pagamento');
+  assertEquals(state.calls, 0);
+});
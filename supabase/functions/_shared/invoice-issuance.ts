@@ -0,0 +1,384 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { getInvoiceProvider } from './invoice-providers/index.ts';
+import type {
+  InvoiceIssueResult,
+  InvoicePayload,
+  InvoiceProviderAdapter,
+  InvoiceSettings,
+} from './invoice-providers/index.ts';
+
+// ===========================================
+// INVOICE ISSUANCE (NFS-e)
+// handlePaymentApproved queues one invoice per paid payment and tries to
+// issue it right away. Failures the provider may recover from go back to the
+// queue with a growing delay and are picked up by invoice-retry; data errors
+// and exhausted retries stay failed until an admin retries them from the
+// financial dashboard.
+// ===========================================
+
+export const MAX_INVOICE_ATTEMPTS = 5;
+
+// Wait before attempt 2, 3, ... after a retryable failure
+const RETRY_DELAYS_MINUTES = [5, 30, 120, 360];
+
+// How often an invoice the provider is still processing is checked again
+const PROCESSING_POLL_MINUTES = 5;
+
+const QUEUE_BATCH_SIZE = 50;
+
+export type InvoiceStatus = 'pending' | 'processing' | 'issued' | 'failed';
+
+export interface InvoiceRecord {
+  id: string;
+  owner_id: string;
+  payment_id: string;
+  provider: string;
+  status: InvoiceStatus;
+  provider_invoice_id: string | null;
+  attempts: number;
+}
+
+export interface InvoicePaymentData {
+  id: string;
+  amount_cents: number;
+  paid_at?: string | null;
+  customer_email: string;
+  customer_name: string;
+  customer_cpf: string | null;
+}
+
+export interface InvoiceClientData {
+  full_name?: string | null;
+  email?: string | null;
+}
+
+export interface InvoicePlanData {
+  name: string;
+  duration_days: number;
+}
+
+export interface InvoiceQueueResult {
+  processed: number;
+  issued: number;
+  failed: number;
+}
+
+interface InvoiceOptions {
+  // Injectable clock, mainly for tests
+  now?: Date;
+  // Injectable provider, mainly for tests; defaults to the configured one
+  provider?: InvoiceProviderAdapter;
+}
+
+const INVOICE_COLUMNS = 'id, owner_id, payment_id, provider, status, provider_invoice_id, attempts';
+
+function addMinutes(date: Date, minutes: number): string {
+  return new Date(date.getTime() + minutes * 60_000).toISOString();
+}
+
+/**
+ * Invoice data for a payment. The service is described from the plan, and
+ * the customer from the client profile, falling back to what was typed at
+ * checkout. Returns an error message when the payment cannot be invoiced
+ * as is (no CPF), which no retry will fix.
+ */
+export function buildInvoicePayload(
+  settings: InvoiceSettings,
+  payment: InvoicePaymentData,
+  client: InvoiceClientData | null,
+  plan: InvoicePlanData | null,
+  now: Date
+): { payload: InvoicePayload } | { error: string } {
+  const cpf = payment.customer_cpf?.replace(/\D/g, '') ?? '';
+  if (!cpf) {
+    return { error: 'CPF do cliente nao informado no pagamento' };
+  }
+
+  const serviceDescription = plan
+    ? `Acompanhamento nutricional - ${plan.name} (${plan.duration_days} dias)`
+    : 'Acompanhamento nutricional';
+
+  return {
+    payload: {
+      reference: payment.id,
+      issuedOn: (payment.paid_at ? new Date(payment.paid_at) : now).toISOString().split('T')[0],
+      amountCents: payment.amount_cents,
+      serviceCode: settings.invoice_service_code ?? null,
+      serviceDescription,
+      issRatePercent: Number(settings.invoice_iss_rate ?? 0),
+      municipalRegistration: settings.invoice_municipal_registration ?? null,
+      customer: {
+        name: client?.full_name || payment.customer_name,
+        cpf,
+        email: client?.email || payment.customer_email,
+      },
+    },
+  };
+}
+
+/**
+ * Queues the invoice for an approved payment and tries to issue it. Nothing
+ * happens for grants, zero-value payments, owners with invoicing off and
+ * payments that already have an invoice. Never throws: invoicing must not
+ * undo an approval.
+ */
+export async function queueInvoice(
+  supabase: SupabaseClient,
+  paymentId: string,
+  options: InvoiceOptions = {}
+): Promise<InvoiceRecord | null> {
+  try {
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('id, owner_id, client_id, amount_cents, grant_type')
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (!payment || payment.grant_type || payment.amount_cents <= 0) return null;
+
+    const { data: settings } = await supabase
+      .from('payment_settings')
+      .select('invoice_enabled, invoice_provider')
+      .eq('owner_id', payment.owner_id)
+      .maybeSingle();
+
+    if (!settings?.invoice_enabled || !settings.invoice_provider || settings.invoice_provider === 'none') {
+      return null;
+    }
+
+    const now = options.now ?? new Date();
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .insert({
+        owner_id: payment.owner_id,
+        payment_id: payment.id,
+        client_id: payment.client_id,
+        provider: settings.invoice_provider,
+        status: 'pending',
+        amount_cents: payment.amount_cents,
+        attempts: 0,
+        next_attempt_at: now.toISOString(),
+      })
+      .select(INVOICE_COLUMNS)
+      .single();
+
+    if (error) {
+      // Already queued by another delivery of the same approval
+      if (error.code !== '23505') {
+        console.error('Error queueing invoice:', error);
+      }
+      return null;
+    }
+
+    return await issueInvoice(supabase, invoice as InvoiceRecord, options);
+  } catch (error) {
+    console.error('Error issuing invoice for payment', paymentId, error);
+    return null;
+  }
+}
+
+/**
+ * One issuance attempt for a queued invoice: sends it to the provider (or
+ * checks on it while the provider is still processing) and records the
+ * outcome. The attempt is claimed on the attempts counter, so concurrent
+ * runs never send the same invoice twice. Returns the updated invoice, or
+ * null when another run claimed it.
+ */
+export async function issueInvoice(
+  supabase: SupabaseClient,
+  invoice: InvoiceRecord,
+  options: InvoiceOptions = {}
+): Promise<InvoiceRecord | null> {
+  const now = options.now ?? new Date();
+  const attempts = invoice.attempts + 1;
+
+  const { data: claimed } = await supabase
+    .from('invoices')
+    .update({ attempts })
+    .eq('id', invoice.id)
+    .eq('attempts', invoice.attempts)
+    .in('status', ['pending', 'processing'])
+    .select('id');
+
+  if (!claimed?.length) return null;
+
+  const provider = options.provider ?? getInvoiceProvider(invoice.provider);
+  if (!provider) {
+    return recordOutcome(supabase, invoice, attempts, {
+      status: 'failed',
+      error: 'Provedor de NFS-e nao disponivel',
+      retryable: false,
+    }, now);
+  }
+
+  const { data: settings } = await supabase
+    .from('payment_settings')
+    .select('invoice_provider, invoice_service_code, invoice_iss_rate, invoice_municipal_registration')
+    .eq('owner_id', invoice.owner_id)
+    .maybeSingle();
+
+  let result: InvoiceIssueResult | null;
+
+  try {
+    if (invoice.status === 'processing' && invoice.provider_invoice_id) {
+      result = await provider.fetchStatus(settings ?? {}, invoice.provider_invoice_id);
+    } else {
+      const built = await loadInvoicePayload(supabase, settings ?? {}, invoice.payment_id, now);
+      if ('error' in built) {
+        return recordOutcome(supabase, invoice, attempts, { status: 'failed', error: built.error, retryable: false }, now);
+      }
+
+      await supabase
+        .from('invoices')
+        .update({ service_description: built.payload.serviceDescription })
+        .eq('id', invoice.id);
+
+      result = await provider.issue(settings ?? {}, built.payload);
+    }
+  } catch (error) {
+    console.error('Error calling invoice provider:', error);
+    result = null;
+  }
+
+  return recordOutcome(supabase, invoice, attempts, result ?? {
+    status: 'failed',
+    error: 'Provedor de NFS-e nao respondeu',
+    retryable: true,
+  }, now);
+}
+
+async function loadInvoicePayload(
+  supabase: SupabaseClient,
+  settings: InvoiceSettings,
+  paymentId: string,
+  now: Date
+): Promise<{ payload: InvoicePayload } | { error: string }> {
+  const { data: payment } = await supabase
+    .from('payments')
+    .select('id, client_id, plan_id, amount_cents, paid_at, customer_email, customer_name, customer_cpf')
+    .eq('id', paymentId)
+    .maybeSingle();
+
+  if (!payment) return { error: 'Pagamento nao encontrado' };
+
+  const [{ data: client }, { data: plan }] = await Promise.all([
+    payment.client_id
+      ? supabase.from('profiles').select('full_name, email').eq('id', payment.client_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+    payment.plan_id
+      ? supabase.from('subscription_plans').select('name, duration_days').eq('id', payment.plan_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  return buildInvoicePayload(settings, payment, client, plan, now);
+}
+
+async function recordOutcome(
+  supabase: SupabaseClient,
+  invoice: InvoiceRecord,
+  attempts: number,
+  result: InvoiceIssueResult,
+  now: Date
+): Promise<InvoiceRecord> {
+  let update: Record<string, unknown>;
+
+  if (result.status === 'issued') {
+    update = {
+      status: 'issued',
+      provider_invoice_id: result.providerInvoiceId ?? invoice.provider_invoice_id,
+      invoice_number: result.invoiceNumber ?? null,
+      verification_code: result.verificationCode ?? null,
+      pdf_url: result.pdfUrl ?? null,
+      issued_at: now.toISOString(),
+      next_attempt_at: null,
+      last_error: null,
+    };
+  } else if (result.status === 'processing') {
+    update = {
+      status: 'processing',
+      provider_invoice_id: result.providerInvoiceId ?? invoice.provider_invoice_id,
+      next_attempt_at: addMinutes(now, PROCESSING_POLL_MINUTES),
+    };
+  } else if (result.retryable && attempts < MAX_INVOICE_ATTEMPTS) {
+    update = {
+      status: invoice.status,
+      next_attempt_at: addMinutes(now, RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1]),
+      last_error: result.error ?? null,
+    };
+  } else {
+    update = {
+      status: 'failed',
+      next_attempt_at: null,
+      last_error: result.error ?? null,
+    };
+  }
+
+  const { error } = await supabase.from('invoices').update(update).eq('id', invoice.id);
+  if (error) {
+    console.error('Error recording invoice outcome:', error);
+  }
+
+  return { ...invoice, ...update, attempts } as InvoiceRecord;
+}
+
+/**
+ * Works the retry queue: every pending or processing invoice whose next
+ * attempt is due. Meant for the invoice-retry schedule.
+ */
+export async function processInvoiceQueue(
+  supabase: SupabaseClient,
+  options: InvoiceOptions = {}
+): Promise<InvoiceQueueResult> {
+  const now = options.now ?? new Date();
+  const result: InvoiceQueueResult = { processed: 0, issued: 0, failed: 0 };
+
+  const { data: due, error } = await supabase
+    .from('invoices')
+    .select(INVOICE_COLUMNS)
+    .in('status', ['pending', 'processing'])
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(QUEUE_BATCH_SIZE);
+
+  if (error) {
+    console.error('Error loading invoice queue:', error);
+    return result;
+  }
+
+  for (const invoice of (due ?? []) as InvoiceRecord[]) {
+    const updated = await issueInvoice(supabase, invoice, { ...options, now });
+    if (!updated) continue;
+
+    result.processed++;
+    if (updated.status === 'issued') result.issued++;
+    if (updated.status === 'failed') result.failed++;
+  }
+
+  return result;
+}
+
+/**
+ * Manual retry of a failed invoice (from the financial dashboard), with a
+ * fresh set of attempts. Returns null when the invoice is not the owner's or
+ * is not failed.
+ */
+export async function retryInvoice(
+  supabase: SupabaseClient,
+  ownerId: string,
+  invoiceId: string,
+  options: InvoiceOptions = {}
+): Promise<InvoiceRecord | null> {
+  const { data: reset } = await supabase
+    .from('invoices')
+    .update({ status: 'pending', attempts: 0, last_error: null, next_attempt_at: (options.now ?? new Date()).toISOString() })
+    .eq('id', invoiceId)
+    .eq('owner_id', ownerId)
+    .eq('status', 'failed')
+    .select(INVOICE_COLUMNS)
+    .maybeSingle();
+
+  if (!reset) return null;
+
+  return issueInvoice(supabase, reset as InvoiceRecord, options);
+}
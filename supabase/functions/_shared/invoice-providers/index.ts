@@ -0,0 +1,24 @@
+import { createMockInvoiceProvider, isMockInvoiceProviderEnabled } from './mock.ts';
+import type { InvoiceProviderAdapter } from './types.ts';
+
+export type * from './types.ts';
+
+// Real providers register here, keyed by payment_settings.invoice_provider
+const PROVIDERS: Record<string, InvoiceProviderAdapter> = {};
+
+let mockProvider: InvoiceProviderAdapter | null = null;
+
+/**
+ * Provider for a payment_settings.invoice_provider or invoices.provider
+ * value. Null for 'none', unknown providers and the mock provider when it is
+ * not enabled, so callers answer those the same way.
+ */
+export function getInvoiceProvider(provider: string | null | undefined): InvoiceProviderAdapter | null {
+  if (provider === 'mock') {
+    if (!isMockInvoiceProviderEnabled()) return null;
+    mockProvider ??= createMockInvoiceProvider();
+    return mockProvider;
+  }
+
+  return provider ? PROVIDERS[provider] ?? null : null;
+}
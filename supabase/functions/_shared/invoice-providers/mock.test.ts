@@ -0,0 +1,46 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { createMockInvoiceProvider, isValidCpf, parseMockInvoiceId } from './mock.ts';
+import type { InvoicePayload } from './types.ts';
+
+const NOW = Date.parse('2026-03-10T12:00:00.000Z');
+
+const payload: InvoicePayload = {
+  reference: 'payment-1',
+  issuedOn: '2026-03-10',
+  amountCents: 9900,
+  serviceCode: '04.10',
+  serviceDescription: 'Acompanhamento nutricional - Mensal (30 dias)',
+  issRatePercent: 2,
+  municipalRegistration: null,
+  customer: { name: 'Maria Silva', cpf: '12345678909', email: 'maria@example.com' },
+};
+
+Deno.test('CPF check digits are validated', () => {
+  assertEquals(isValidCpf('123.456.789-09'), true);
+  assertEquals(isValidCpf('12345678900'), false);
+  assertEquals(isValidCpf('11111111111'), false);
+  assertEquals(isValidCpf('1234567890'), false);
+});
+
+Deno.test('Mock invoices are issued at once and can be looked up again', async () => {
+  const provider = createMockInvoiceProvider({ now: () => NOW });
+
+  const issued = await provider.issue({}, payload);
+  assertEquals(issued.status, 'issued');
+  assertEquals(issued.invoiceNumber?.startsWith('2026'), true);
+  assertEquals(parseMockInvoiceId(issued.providerInvoiceId ?? '')?.invoiceNumber, issued.invoiceNumber);
+  assertEquals(await provider.fetchStatus({}, issued.providerInvoiceId ?? ''), issued);
+  assertEquals(await provider.fetchStatus({}, 'other_123'), null);
+});
+
+Deno.test('Mock invoices fail for invalid CPFs and +nfse-down emails', async () => {
+  const provider = createMockInvoiceProvider({ now: () => NOW });
+
+  const invalid = await provider.issue({}, { ...payload, customer: { ...payload.customer, cpf: '12345678900' } });
+  assertEquals(invalid.status, 'failed');
+  assertEquals(invalid.retryable, false);
+
+  const down = await provider.issue({}, { ...payload, customer: { ...payload.customer, email: 'maria+nfse-down@example.com' } });
+  assertEquals(down.status, 'failed');
+  assertEquals(down.retryable, true);
+});
@@ -0,0 +1,89 @@
+import type { InvoiceIssueResult, InvoicePayload, InvoiceProviderAdapter, InvoiceSettings } from './types.ts';
+
+// ===========================================
+// MOCK NFS-E PROVIDER
+// Issues invoices without a provider account, so the approval -> invoice ->
+// retry flow runs locally. Only offered when the functions run with
+// ALLOW_MOCK_INVOICES=true.
+//
+// Nothing is stored: the invoice number is derived from the clock and the
+// provider id carries it (mock_<number>_<verification code>). The PDF link
+// is a placeholder; nothing is served there.
+//
+// Outcomes:
+// - CPFs with wrong check digits are refused (not retryable), like a city
+//   hall would.
+// - Customer emails containing +nfse-down fail as if the city hall were
+//   unavailable (retryable).
+// - Anything else is issued right away.
+// ===========================================
+
+export interface MockInvoiceProviderOptions {
+  // Injectable clock, mainly for tests
+  now?: () => number;
+}
+
+export function isMockInvoiceProviderEnabled(): boolean {
+  return Deno.env.get('ALLOW_MOCK_INVOICES') === 'true';
+}
+
+export function isValidCpf(cpf: string): boolean {
+  const digits = cpf.replace(/\D/g, '');
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * (length + 1 - i);
+    }
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+}
+
+export function parseMockInvoiceId(providerInvoiceId: string): { invoiceNumber: string; verificationCode: string } | null {
+  const match = /^mock_(\d+)_([0-9A-F]+)$/.exec(providerInvoiceId);
+  return match ? { invoiceNumber: match[1], verificationCode: match[2] } : null;
+}
+
+function issuedResult(invoiceNumber: string, verificationCode: string): InvoiceIssueResult {
+  return {
+    status: 'issued',
+    providerInvoiceId: `mock_${invoiceNumber}_${verificationCode}`,
+    invoiceNumber,
+    verificationCode,
+    pdfUrl: `https://nfse.mock.invalid/notas/${invoiceNumber}.pdf`,
+  };
+}
+
+export function createMockInvoiceProvider(options: MockInvoiceProviderOptions = {}): InvoiceProviderAdapter {
+  const now = options.now ?? (() => Date.now());
+
+  return {
+    id: 'mock',
+    label: 'Simulador de NFS-e',
+
+    issue(_settings: InvoiceSettings, payload: InvoicePayload): Promise<InvoiceIssueResult> {
+      if (!isValidCpf(payload.customer.cpf)) {
+        return Promise.resolve({ status: 'failed', error: 'CPF do tomador invalido', retryable: false });
+      }
+
+      if (payload.customer.email.toLowerCase().includes('+nfse-down')) {
+        return Promise.resolve({ status: 'failed', error: 'Prefeitura indisponivel', retryable: true });
+      }
+
+      const issuedAt = new Date(now());
+      const invoiceNumber = `${issuedAt.getUTCFullYear()}${String(now() % 1_000_000).padStart(6, '0')}`;
+      const verificationCode = crypto.randomUUID().replace(/-/g, '').slice(0, 8).toUpperCase();
+
+      return Promise.resolve(issuedResult(invoiceNumber, verificationCode));
+    },
+
+    fetchStatus(_settings: InvoiceSettings, providerInvoiceId: string): Promise<InvoiceIssueResult | null> {
+      const parsed = parseMockInvoiceId(providerInvoiceId);
+      return Promise.resolve(parsed ? issuedResult(parsed.invoiceNumber, parsed.verificationCode) : null);
+    },
+  };
+}
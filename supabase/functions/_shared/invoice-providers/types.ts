@@ -0,0 +1,57 @@
+// ===========================================
+// NFS-E PROVIDER ADAPTERS
+// Everything invoice issuance needs from a provider, behind one interface.
+// Each provider lives in its own module; getInvoiceProvider() picks the one
+// payment_settings.invoice_provider points to.
+// ===========================================
+
+export type InvoiceProviderId = 'mock';
+
+// payment_settings columns the providers read
+export interface InvoiceSettings {
+  invoice_provider?: string | null;
+  invoice_service_code?: string | null;
+  invoice_iss_rate?: number | string | null;
+  invoice_municipal_registration?: string | null;
+}
+
+export interface InvoicePayload {
+  // Our payment id; providers use it to refuse issuing the same invoice twice
+  reference: string;
+  // Competence date (YYYY-MM-DD)
+  issuedOn: string;
+  amountCents: number;
+  serviceCode: string | null;
+  serviceDescription: string;
+  issRatePercent: number;
+  municipalRegistration: string | null;
+  customer: {
+    name: string;
+    cpf: string;
+    email: string;
+  };
+}
+
+/**
+ * - issued: the invoice exists, with its number and PDF
+ * - processing: accepted by the provider, to be checked again later
+ * - failed: refused; retryable when the same request may work later
+ *   (provider or city hall unavailable), not when the data is wrong
+ */
+export interface InvoiceIssueResult {
+  status: 'issued' | 'processing' | 'failed';
+  providerInvoiceId?: string | null;
+  invoiceNumber?: string | null;
+  verificationCode?: string | null;
+  pdfUrl?: string | null;
+  error?: string;
+  retryable?: boolean;
+}
+
+export interface InvoiceProviderAdapter {
+  id: InvoiceProviderId;
+  label: string;
+  issue(settings: InvoiceSettings, payload: InvoicePayload): Promise<InvoiceIssueResult>;
+  // Null when the provider could not be reached
+  fetchStatus(settings: InvoiceSettings, providerInvoiceId: string): Promise<InvoiceIssueResult | null>;
+}
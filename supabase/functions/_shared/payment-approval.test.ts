@@ -0,0 +1,201 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { generatePassword, handlePaymentApproved } from './payment-approval.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+// Run with: deno test supabase/functions/_shared
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const plan = { id: 'plan-1', name: 'Plano Mensal', duration_days: 30 };
+
+function buildPayment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'payment-1',
+    client_id: null,
+    plan_id: plan.id,
+    customer_email: 'Maria@Example.com',
+    customer_name: 'Maria Silva',
+    customer_phone: '11999999999',
+    ...overrides,
+  };
+}
+
+function setup(seed: Record<string, Record<string, unknown>[]> = {}, options = {}) {
+  const fake = new FakeSupabase({
+    subscription_plans: [plan],
+    payments: [buildPayment()],
+    ...seed,
+  }, {
+    functions: {
+      'payment-receipt': (body) => ({ url: `https://storage.example.com/receipts/${(body as { payment_id: string }).payment_id}.pdf` }),
+    },
+    ...options,
+  });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+Deno.test('creates a new client, links the payment and sends the welcome email', async () => {
+  const { fake, supabase } = setup();
+
+  const result = await handlePaymentApproved(supabase, buildPayment(), plan, { now: NOW });
+
+  assert(result);
+  assertEquals(result.isNewClient, true);
+  assertEquals(result.planEndDate, '2026-04-09');
+
+  const [profile] = fake.table('profiles');
+  assertEquals(profile.id, result.clientId);
+  assertEquals(profile.email, 'maria@example.com');
+  assertEquals(profile.role, 'client');
+  assertEquals(profile.plan_start_date, '2026-03-10');
+  assertEquals(profile.plan_end_date, '2026-04-09');
+  assertEquals(profile.is_active, true);
+
+  assertEquals(fake.table('payments')[0].client_id, result.clientId);
+
+  assertEquals(fake.invokedFunctions.map((call) => call.name), ['payment-receipt', 'send-email']);
+  const email = fake.invokedFunctions[1].body as { type: string; to: string; data: { password: string; receiptUrl: string } };
+  assertEquals(email.type, 'welcome');
+  assertEquals(email.to, 'maria@example.com');
+  assertEquals(email.data.password.length, 8);
+  assertEquals(email.data.receiptUrl, 'https://storage.example.com/receipts/payment-1.pdf');
+});
+
+Deno.test('loads the plan when it is not passed in', async () => {
+  const { fake, supabase } = setup();
+
+  const result = await handlePaymentApproved(supabase, buildPayment(), undefined, { now: NOW });
+
+  assertEquals(result?.planEndDate, '2026-04-09');
+  assertEquals(fake.table('profiles').length, 1);
+});
+
+Deno.test('returns null without side effects when the plan does not exist', async () => {
+  const { fake, supabase } = setup({ subscription_plans: [] });
+
+  const result = await handlePaymentApproved(supabase, buildPayment(), null, { now: NOW });
+
+  assertEquals(result, null);
+  assertEquals(fake.table('profiles').length, 0);
+  assertEquals(fake.invokedFunctions.length, 0);
+});
+
+Deno.test('extends a linked client from the current end date while the plan is still active', async () => {
+  const { fake, supabase } = setup({
+    profiles: [{ id: 'client-1', email: 'maria@example.com', plan_end_date: '2026-03-20', is_active: true }],
+    payments: [buildPayment({ client_id: 'client-1' })],
+  });
+
+  const result = await handlePaymentApproved(supabase, buildPayment({ client_id: 'client-1' }), plan, { now: NOW });
+
+  assertEquals(result, { clientId: 'client-1', isNewClient: false, planEndDate: '2026-04-19' });
+  assertEquals(fake.table('profiles')[0].plan_end_date, '2026-04-19');
+  assertEquals(fake.createdUsers.length, 0);
+
+  const email = fake.invokedFunctions.find((call) => call.name === 'send-email')?.body as { type: string };
+  assertEquals(email.type, 'renewal');
+});
+
+Deno.test('renews an expired client from today and reactivates the profile', async () => {
+  const { fake, supabase } = setup({
+    profiles: [{ id: 'client-1', email: 'maria@example.com', plan_end_date: '2026-01-01', is_active: false }],
+  });
+
+  const result = await handlePaymentApproved(supabase, buildPayment({ client_id: 'client-1' }), plan, { now: NOW });
+
+  assertEquals(result?.planEndDate, '2026-04-09');
+  assertEquals(fake.table('profiles')[0].is_active, true);
+});
+
+Deno.test('matches an existing client by email, extends the plan and links the payment', async () => {
+  const { fake, supabase } = setup({
+    profiles: [{ id: 'client-1', email: 'maria@example.com', plan_end_date: '2026-03-20', is_active: true }],
+  });
+
+  const result = await handlePaymentApproved(supabase, buildPayment(), plan, { now: NOW });
+
+  assertEquals(result, { clientId: 'client-1', isNewClient: false, planEndDate: '2026-04-19' });
+  assertEquals(fake.table('payments')[0].client_id, 'client-1');
+  assertEquals(fake.createdUsers.length, 0);
+});
+
+Deno.test('returns null and sends no email when the auth user cannot be created', async () => {
+  const { fake, supabase } = setup({}, { failCreateUser: 'User already registered' });
+
+  const result = await handlePaymentApproved(supabase, buildPayment(), plan, { now: NOW });
+
+  assertEquals(result, null);
+  assertEquals(fake.table('profiles').length, 0);
+  assertEquals(fake.table('payments')[0].client_id, null);
+  assertEquals(fake.invokedFunctions.length, 0);
+});
+
+Deno.test('generatePassword only uses unambiguous characters', () => {
+  for (let i = 0; i < 50; i++) {
+    const password = generatePassword();
+    assertEquals(password.length, 8);
+    assert(/^[A-HJ-NP-Za-km-z2-9]+$/.test(password), password);
+  }
+});
+
+Deno.test('records the plan of a new client', async () => {
+  const { fake, supabase } = setup();
+
+  const result = await handlePaymentApproved(supabase, buildPayment(), plan, { now: NOW });
+
+  assertEquals(fake.table('profiles')[0].plan_id, plan.id);
+  const [change] = fake.table('plan_changes');
+  assertEquals(change.client_id, result?.clientId);
+  assertEquals(change.change_type, 'new');
+  assertEquals(change.status, 'applied');
+  assertEquals(change.new_plan_end_date, '2026-04-09');
+});
+
+Deno.test('a quoted upgrade replaces the current plan today', async () => {
+  const premium = { id: 'plan-2', name: 'Plano Premium', duration_days: 30, price_cents: 20000 };
+  const { fake, supabase } = setup({
+    subscription_plans: [{ ...plan, price_cents: 10000 }, premium],
+    profiles: [{ id: 'client-1', email: 'maria@example.com', plan_id: plan.id, plan_start_date: '2026-02-23', plan_end_date: '2026-03-25', is_active: true }],
+  });
+
+  const result = await handlePaymentApproved(
+    supabase,
+    buildPayment({ client_id: 'client-1', plan_id: premium.id, plan_change_type: 'upgrade', proration_credit_cents: 5000 }),
+    premium,
+    { now: NOW }
+  );
+
+  assertEquals(result?.planEndDate, '2026-04-09');
+  const [profile] = fake.table('profiles');
+  assertEquals(profile.plan_id, premium.id);
+  assertEquals(profile.plan_start_date, '2026-03-10');
+  assertEquals(profile.plan_end_date, '2026-04-09');
+
+  const [change] = fake.table('plan_changes');
+  assertEquals(change.change_type, 'upgrade');
+  assertEquals(change.from_plan_id, plan.id);
+  assertEquals(change.credit_cents, 5000);
+  assertEquals(change.previous_plan_end_date, '2026-03-25');
+});
+
+Deno.test('switching plans without a quote is scheduled for when the current plan ends', async () => {
+  const basic = { id: 'plan-0', name: 'Plano Basico', duration_days: 30, price_cents: 5000 };
+  const { fake, supabase } = setup({
+    subscription_plans: [{ ...plan, price_cents: 10000 }, basic],
+    profiles: [{ id: 'client-1', email: 'maria@example.com', plan_id: plan.id, plan_end_date: '2026-03-20', is_active: true }],
+  });
+
+  const result = await handlePaymentApproved(supabase, buildPayment({ plan_id: basic.id }), basic, { now: NOW });
+
+  assertEquals(result?.planEndDate, '2026-04-19');
+  const [profile] = fake.table('profiles');
+  assertEquals(profile.plan_id, plan.id);
+  assertEquals(profile.pending_plan_id, basic.id);
+  assertEquals(profile.pending_plan_starts_on, '2026-03-20');
+
+  const [change] = fake.table('plan_changes');
+  assertEquals(change.change_type, 'downgrade');
+  assertEquals(change.status, 'scheduled');
+  assertEquals(change.effective_date, '2026-03-20');
+});
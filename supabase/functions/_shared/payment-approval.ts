@@ -0,0 +1,465 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { releaseCoupon } from './coupons.ts';
+import { queueInvoice } from './invoice-issuance.ts';
+import {
+  calculatePlanEndDate,
+  classifyPlanChange,
+  type ClientPlanState,
+  getCurrentPlanId,
+  isImmediateUpgrade,
+  isPlanActive,
+  type PlanChangePlan,
+  type PlanChangeRecord,
+  type PlanChangeType,
+  recordPlanChange,
+} from './plan-changes.ts';
+import { grantReferralReward } from './referrals.ts';
+
+// ===========================================
+// SHARED PAYMENT APPROVAL
+// Used by payment-create and every webhook-* function so that an approved
+// payment provisions (or renews) the client exactly the same way everywhere.
+// ===========================================
+
+export interface ApprovedPayment {
+  id: string;
+  owner_id?: string | null;
+  client_id: string | null;
+  plan_id: string | null;
+  customer_email: string;
+  customer_name: string;
+  customer_phone: string | null;
+  // Set by payment-create when a signed-in client was quoted a plan change
+  plan_change_type?: PlanChangeType | null;
+  proration_credit_cents?: number | null;
+  // Trials and complimentary access (zero-value, no receipt)
+  grant_type?: string | null;
+  // Client whose referral link brought the purchase
+  referrer_id?: string | null;
+}
+
+export interface ApprovedPlan {
+  id: string;
+  name: string;
+  duration_days: number;
+  price_cents?: number;
+  billing_mode?: string;
+}
+
+export interface PaymentApprovalResult {
+  clientId: string;
+  isNewClient: boolean;
+  planEndDate: string;
+}
+
+interface PaymentApprovalOptions {
+  // Injectable clock, mainly for tests
+  now?: Date;
+}
+
+export async function handlePaymentApproved(
+  supabase: SupabaseClient,
+  payment: ApprovedPayment,
+  plan?: ApprovedPlan | null,
+  options: PaymentApprovalOptions = {}
+): Promise<PaymentApprovalResult | null> {
+  const result = await provisionClient(supabase, payment, plan, options);
+
+  if (result && payment.referrer_id) {
+    await grantReferralReward(supabase, payment, result.clientId, options);
+  }
+
+  if (result && !payment.grant_type) {
+    await queueInvoice(supabase, payment.id, options);
+  }
+
+  return result;
+}
+
+async function provisionClient(
+  supabase: SupabaseClient,
+  payment: ApprovedPayment,
+  plan: ApprovedPlan | null | undefined,
+  options: PaymentApprovalOptions
+): Promise<PaymentApprovalResult | null> {
+  console.log('Processing approved payment:', payment.id);
+
+  if (!plan) {
+    const { data } = await supabase
+      .from('subscription_plans')
+      .select('*')
+      .eq('id', payment.plan_id)
+      .maybeSingle();
+    plan = data;
+  }
+
+  if (!plan) {
+    console.error('Plan not found for payment:', payment.id);
+    return null;
+  }
+
+  const today = options.now ? new Date(options.now) : new Date();
+  const customerEmail = payment.customer_email.toLowerCase();
+
+  // Resolve the client: explicit link first, then by email
+  let existingProfile: ExistingProfile | null = null;
+
+  if (payment.client_id) {
+    const { data } = await supabase
+      .from('profiles')
+      .select(EXISTING_PROFILE_COLUMNS)
+      .eq('id', payment.client_id)
+      .maybeSingle();
+    existingProfile = data;
+  }
+
+  if (!existingProfile) {
+    const { data } = await supabase
+      .from('profiles')
+      .select(EXISTING_PROFILE_COLUMNS)
+      .eq('email', customerEmail)
+      .maybeSingle();
+    existingProfile = data;
+  }
+
+  // Existing client - renew, upgrade or schedule the new plan
+  if (existingProfile) {
+    const change = await planExistingClientChange(supabase, existingProfile, payment, plan, today);
+
+    const { error: updateError } = await supabase
+      .from('profiles')
+      .update({ ...change.profileUpdate, is_active: true })
+      .eq('id', existingProfile.id);
+
+    if (updateError) {
+      console.error('Error renewing profile:', updateError);
+      return null;
+    }
+
+    if (payment.client_id !== existingProfile.id) {
+      await linkPaymentToClient(supabase, payment.id, existingProfile.id);
+    }
+
+    await recordPlanChange(supabase, { ...change.record, clientId: existingProfile.id, paymentId: payment.id });
+
+    console.log(`Plan ${change.record.changeType} (${change.record.status}) for existing client:`, existingProfile.id);
+
+    await sendPaymentEmail(supabase, 'renewal', customerEmail, {
+      name: payment.customer_name,
+      email: customerEmail,
+      planName: plan.name,
+      planEndDate: change.planEndDate.toLocaleDateString('pt-BR'),
+      receiptUrl: payment.grant_type ? null : await getReceiptUrl(supabase, payment.id),
+    });
+
+    return {
+      clientId: existingProfile.id,
+      isNewClient: false,
+      planEndDate: toDateString(change.planEndDate),
+    };
+  }
+
+  // New client - create auth user and profile
+  const planEndDate = calculatePlanEndDate(null, plan.duration_days, today);
+  const password = generatePassword();
+
+  const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+    email: customerEmail,
+    password,
+    email_confirm: true,
+    user_metadata: { full_name: payment.customer_name },
+  });
+
+  if (authError || !authUser?.user) {
+    console.error('Error creating auth user:', authError);
+    return null;
+  }
+
+  const { error: profileError } = await supabase
+    .from('profiles')
+    .insert({
+      id: authUser.user.id,
+      role: 'client',
+      full_name: payment.customer_name,
+      email: customerEmail,
+      phone: payment.customer_phone,
+      plan_id: plan.id,
+      plan_start_date: toDateString(today),
+      plan_end_date: toDateString(planEndDate),
+      is_active: true,
+    });
+
+  if (profileError) {
+    console.error('Error creating profile:', profileError);
+    return null;
+  }
+
+  await linkPaymentToClient(supabase, payment.id, authUser.user.id);
+
+  await recordPlanChange(supabase, {
+    clientId: authUser.user.id,
+    paymentId: payment.id,
+    fromPlanId: null,
+    toPlanId: plan.id,
+    changeType: 'new',
+    status: 'applied',
+    effectiveDate: toDateString(today),
+    previousPlanEndDate: null,
+    newPlanEndDate: toDateString(planEndDate),
+  });
+
+  console.log('Created new user:', authUser.user.id);
+
+  await sendPaymentEmail(supabase, 'welcome', customerEmail, {
+    name: payment.customer_name,
+    email: customerEmail,
+    password,
+    planName: plan.name,
+    planEndDate: planEndDate.toLocaleDateString('pt-BR'),
+    receiptUrl: payment.grant_type ? null : await getReceiptUrl(supabase, payment.id),
+  });
+
+  return {
+    clientId: authUser.user.id,
+    isNewClient: true,
+    planEndDate: toDateString(planEndDate),
+  };
+}
+
+/**
+ * Moves a payment to a new status and, when it becomes approved, provisions
+ * the client. The update only succeeds if the row still has the status we
+ * read, so two concurrent notifications can never approve the same payment
+ * twice. Returns true when this call performed the transition.
+ */
+export async function applyPaymentStatus(
+  supabase: SupabaseClient,
+  payment: ApprovedPayment & { status: string; coupon_id?: string | null },
+  newStatus: string,
+  extraFields: Record<string, unknown> = {}
+): Promise<boolean> {
+  if (newStatus === payment.status) {
+    return false;
+  }
+
+  const updateData: Record<string, unknown> = {
+    ...extraFields,
+    status: newStatus,
+  };
+
+  if (newStatus === 'approved') {
+    updateData.paid_at = new Date().toISOString();
+  }
+
+  const { data: updated, error } = await supabase
+    .from('payments')
+    .update(updateData)
+    .eq('id', payment.id)
+    .eq('status', payment.status)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Error updating payment status: ${error.message}`);
+  }
+
+  if (!updated || updated.length === 0) {
+    console.log('Payment status already changed by another request:', payment.id);
+    return false;
+  }
+
+  // A checkout that was never paid should not keep a coupon use
+  if (payment.coupon_id && payment.status === 'pending' && (newStatus === 'rejected' || newStatus === 'expired')) {
+    await releaseCoupon(supabase, payment.coupon_id);
+  }
+
+  if (newStatus === 'approved') {
+    await handlePaymentApproved(supabase, payment);
+  }
+
+  return true;
+}
+
+// ===========================================
+// PLAN CHANGES FOR EXISTING CLIENTS
+// ===========================================
+
+const EXISTING_PROFILE_COLUMNS = 'id, plan_id, plan_end_date, pending_plan_id, pending_plan_starts_on';
+
+interface ExistingProfile extends ClientPlanState {
+  id: string;
+}
+
+interface ExistingClientChange {
+  profileUpdate: Record<string, unknown>;
+  record: Omit<PlanChangeRecord, 'clientId' | 'paymentId'>;
+  planEndDate: Date;
+}
+
+/**
+ * Decides what an approved purchase does to a client who already has a
+ * profile:
+ * - a one-off upgrade quoted at checkout replaces the current plan today,
+ *   since its unused days were already credited on the price;
+ * - any other switch to a different plan while the current one is active is
+ *   scheduled for when it ends, and the days are added as before;
+ * - everything else (same plan, lapsed plan, no known plan) renews.
+ */
+async function planExistingClientChange(
+  supabase: SupabaseClient,
+  profile: ExistingProfile,
+  payment: ApprovedPayment,
+  plan: ApprovedPlan,
+  today: Date
+): Promise<ExistingClientChange> {
+  const currentPlanId = getCurrentPlanId(profile, today);
+  const isActive = isPlanActive(profile.plan_end_date, today);
+  const base = {
+    fromPlanId: currentPlanId,
+    toPlanId: plan.id,
+    previousPlanEndDate: profile.plan_end_date,
+  };
+
+  if (isImmediateUpgrade(payment.plan_change_type, plan) && isActive) {
+    const planEndDate = calculatePlanEndDate(null, plan.duration_days, today);
+    return {
+      profileUpdate: {
+        plan_id: plan.id,
+        plan_start_date: toDateString(today),
+        plan_end_date: toDateString(planEndDate),
+        pending_plan_id: null,
+        pending_plan_starts_on: null,
+      },
+      record: {
+        ...base,
+        changeType: 'upgrade',
+        status: 'applied',
+        creditCents: payment.proration_credit_cents ?? 0,
+        effectiveDate: toDateString(today),
+        newPlanEndDate: toDateString(planEndDate),
+      },
+      planEndDate,
+    };
+  }
+
+  const planEndDate = calculatePlanEndDate(profile.plan_end_date, plan.duration_days, today);
+  const changeType = payment.plan_change_type ?? await classifyAgainstPlan(supabase, currentPlanId, plan);
+
+  if (isActive && currentPlanId && currentPlanId !== plan.id) {
+    return {
+      profileUpdate: {
+        plan_id: currentPlanId,
+        plan_end_date: toDateString(planEndDate),
+        pending_plan_id: plan.id,
+        pending_plan_starts_on: profile.plan_end_date,
+      },
+      record: {
+        ...base,
+        // A stale quote can still say renewal; switching plans mid-term never is one
+        changeType: changeType === 'renewal' || changeType === 'new' ? 'downgrade' : changeType,
+        status: 'scheduled',
+        effectiveDate: profile.plan_end_date!,
+        newPlanEndDate: toDateString(planEndDate),
+      },
+      planEndDate,
+    };
+  }
+
+  return {
+    profileUpdate: {
+      plan_id: plan.id,
+      plan_end_date: toDateString(planEndDate),
+      pending_plan_id: null,
+      pending_plan_starts_on: null,
+    },
+    record: {
+      ...base,
+      changeType,
+      status: 'applied',
+      effectiveDate: isActive ? profile.plan_end_date! : toDateString(today),
+      newPlanEndDate: toDateString(planEndDate),
+    },
+    planEndDate,
+  };
+}
+
+// Used when the purchase was not quoted, e.g. a guest checkout matched by email
+async function classifyAgainstPlan(
+  supabase: SupabaseClient,
+  currentPlanId: string | null,
+  plan: ApprovedPlan
+): Promise<PlanChangeType> {
+  let currentPlan: PlanChangePlan | null = null;
+
+  if (currentPlanId && currentPlanId !== plan.id) {
+    const { data } = await supabase
+      .from('subscription_plans')
+      .select('id, price_cents, duration_days')
+      .eq('id', currentPlanId)
+      .maybeSingle();
+    currentPlan = data;
+  } else if (currentPlanId) {
+    return 'renewal';
+  }
+
+  return classifyPlanChange(currentPlan, { id: plan.id, price_cents: plan.price_cents ?? 0, duration_days: plan.duration_days });
+}
+
+export function generatePassword(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
+  const randomValues = crypto.getRandomValues(new Uint32Array(8));
+  let password = '';
+  for (const value of randomValues) {
+    password += chars.charAt(value % chars.length);
+  }
+  return password;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+async function linkPaymentToClient(supabase: SupabaseClient, paymentId: string, clientId: string) {
+  const { error } = await supabase
+    .from('payments')
+    .update({ client_id: clientId })
+    .eq('id', paymentId);
+
+  if (error) {
+    console.error('Error linking payment to client:', error);
+  }
+}
+
+// Generates the receipt through payment-receipt; without it the email is sent without the link
+async function getReceiptUrl(supabase: SupabaseClient, paymentId: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('payment-receipt', {
+      body: { payment_id: paymentId },
+    });
+
+    if (error || !data?.url) {
+      console.error('Error generating receipt:', error || data?.error);
+      return null;
+    }
+
+    return data.url;
+  } catch (receiptError) {
+    console.error('Error generating receipt:', receiptError);
+    return null;
+  }
+}
+
+async function sendPaymentEmail(
+  supabase: SupabaseClient,
+  type: 'welcome' | 'renewal',
+  to: string,
+  data: Record<string, string | null>
+) {
+  try {
+    await supabase.functions.invoke('send-email', {
+      body: { type, to, data },
+    });
+    console.log(`${type} email sent`);
+  } catch (emailError) {
+    console.error(`Error sending ${type} email:`, emailError);
+  }
+}
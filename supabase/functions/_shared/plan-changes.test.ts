@@ -0,0 +1,162 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  applyScheduledPlanChanges,
+  applyUpgradeCredit,
+  calculatePlanEndDate,
+  calculateUpgradeCredit,
+  classifyPlanChange,
+  getCurrentPlanId,
+  getRemainingDays,
+  quotePlanChange,
+} from './plan-changes.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const monthly = { id: 'monthly', price_cents: 10000, duration_days: 30, billing_mode: 'one_time' };
+const quarterly = { id: 'quarterly', price_cents: 27000, duration_days: 90, billing_mode: 'one_time' };
+const premium = { id: 'premium', price_cents: 20000, duration_days: 30, billing_mode: 'one_time' };
+
+function setup(seed: Record<string, Record<string, unknown>[]> = {}) {
+  const fake = new FakeSupabase({ subscription_plans: [monthly, quarterly, premium], ...seed });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+function client(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'client-1',
+    role: 'client',
+    plan_id: 'monthly',
+    plan_end_date: '2026-03-25',
+    pending_plan_id: null,
+    pending_plan_starts_on: null,
+    ...overrides,
+  };
+}
+
+Deno.test('plan changes are classified by price per day', () => {
+  assertEquals(classifyPlanChange(null, monthly), 'new');
+  assertEquals(classifyPlanChange(monthly, monthly), 'renewal');
+  assertEquals(classifyPlanChange(monthly, premium), 'upgrade');
+  // Dearer in total but cheaper per day
+  assertEquals(classifyPlanChange(monthly, quarterly), 'downgrade');
+  assertEquals(classifyPlanChange(premium, monthly), 'downgrade');
+});
+
+Deno.test('upgrade credit covers the unused days and keeps a minimum charge', () => {
+  assertEquals(getRemainingDays('2026-03-25', NOW), 15);
+  assertEquals(getRemainingDays('2026-03-10', NOW), 0);
+  assertEquals(getRemainingDays(null, NOW), 0);
+
+  assertEquals(calculateUpgradeCredit(10000, 30, 15), 5000);
+  // Days stacked by earlier renewals are never credited beyond one period
+  assertEquals(calculateUpgradeCredit(10000, 30, 45), 10000);
+  assertEquals(calculateUpgradeCredit(0, 30, 15), 0);
+
+  assertEquals(applyUpgradeCredit(20000, 5000), 5000);
+  assertEquals(applyUpgradeCredit(5200, 5000), 4700);
+  assertEquals(applyUpgradeCredit(400, 5000), 0);
+});
+
+Deno.test('calculatePlanEndDate only extends from an end date in the future', () => {
+  assertEquals(calculatePlanEndDate(null, 10, NOW).toISOString(), '2026-03-20T12:00:00.000Z');
+  assertEquals(calculatePlanEndDate('2026-03-01', 10, NOW).toISOString(), '2026-03-20T12:00:00.000Z');
+  assertEquals(calculatePlanEndDate('2026-03-15', 10, NOW).toISOString().split('T')[0], '2026-03-25');
+});
+
+Deno.test('a pending plan counts as current from its start date', () => {
+  const state = client({ pending_plan_id: 'premium', pending_plan_starts_on: '2026-03-10' });
+
+  assertEquals(getCurrentPlanId(state, NOW), 'premium');
+  assertEquals(getCurrentPlanId({ ...state, pending_plan_starts_on: '2026-03-11' }, NOW), 'monthly');
+});
+
+Deno.test('quotes credit the amount actually paid for the current plan', async () => {
+  const { supabase } = setup({
+    profiles: [client()],
+    payments: [
+      { client_id: 'client-1', plan_id: 'monthly', status: 'approved', amount_cents: 8000, refunded_amount_cents: 2000, paid_at: '2026-02-23T10:00:00Z' },
+      { client_id: 'client-1', plan_id: 'monthly', status: 'approved', amount_cents: 10000, refunded_amount_cents: 0, paid_at: '2026-01-24T10:00:00Z' },
+    ],
+  });
+
+  assertEquals(await quotePlanChange(supabase, 'client-1', premium, { now: NOW }), {
+    changeType: 'upgrade',
+    fromPlanId: 'monthly',
+    remainingDays: 15,
+    creditCents: 3000,
+    startsOn: '2026-03-10',
+  });
+});
+
+Deno.test('a plan with no approved payment earns no upgrade credit', async () => {
+  const { supabase } = setup({ profiles: [client()] });
+
+  const quote = await quotePlanChange(supabase, 'client-1', premium, { now: NOW });
+  assertEquals(quote.changeType, 'upgrade');
+  assertEquals(quote.remainingDays, 15);
+  assertEquals(quote.creditCents, 0);
+});
+
+Deno.test('a plan given by an access grant earns no upgrade credit', async () => {
+  const { supabase } = setup({
+    profiles: [client()],
+    payments: [
+      { client_id: 'client-1', plan_id: 'monthly', status: 'approved', amount_cents: 0, grant_type: 'trial', paid_at: '2026-03-01T10:00:00Z' },
+    ],
+  });
+
+  assertEquals((await quotePlanChange(supabase, 'client-1', premium, { now: NOW })).creditCents, 0);
+});
+
+Deno.test('downgrades and renewals start when the current plan ends', async () => {
+  const { supabase } = setup({ profiles: [client({ plan_id: 'premium' })] });
+
+  const downgrade = await quotePlanChange(supabase, 'client-1', monthly, { now: NOW });
+  assertEquals(downgrade.changeType, 'downgrade');
+  assertEquals(downgrade.creditCents, 0);
+  assertEquals(downgrade.startsOn, '2026-03-25');
+
+  assertEquals((await quotePlanChange(supabase, 'client-1', premium, { now: NOW })).changeType, 'renewal');
+});
+
+Deno.test('lapsed plans get no credit and recurring upgrades wait for the current plan', async () => {
+  const { supabase } = setup({ profiles: [client({ plan_end_date: '2026-03-01' })] });
+
+  const lapsed = await quotePlanChange(supabase, 'client-1', premium, { now: NOW });
+  assertEquals(lapsed.creditCents, 0);
+  assertEquals(lapsed.startsOn, '2026-03-10');
+
+  const active = setup({ profiles: [client()] });
+  const recurring = await quotePlanChange(active.supabase, 'client-1', { ...premium, billing_mode: 'recurring' }, { now: NOW });
+  assertEquals(recurring.changeType, 'upgrade');
+  assertEquals(recurring.creditCents, 0);
+  assertEquals(recurring.startsOn, '2026-03-25');
+});
+
+Deno.test('scheduled plans are promoted on their start date', async () => {
+  const { fake, supabase } = setup({
+    profiles: [
+      client({ id: 'due', plan_id: 'premium', plan_end_date: '2026-04-09', pending_plan_id: 'monthly', pending_plan_starts_on: '2026-03-10' }),
+      client({ id: 'later', plan_id: 'premium', pending_plan_id: 'monthly', pending_plan_starts_on: '2026-03-25' }),
+      client({ id: 'none' }),
+    ],
+    plan_changes: [
+      { client_id: 'due', to_plan_id: 'monthly', status: 'scheduled', effective_date: '2026-03-10' },
+      { client_id: 'later', to_plan_id: 'monthly', status: 'scheduled', effective_date: '2026-03-25' },
+    ],
+  });
+
+  assertEquals(await applyScheduledPlanChanges(supabase, { now: NOW }), 1);
+
+  const [due, later] = fake.table('profiles');
+  assertEquals(due.plan_id, 'monthly');
+  assertEquals(due.plan_start_date, '2026-03-10');
+  assertEquals(due.pending_plan_id, null);
+  assertEquals(later.plan_id, 'premium');
+  assertEquals(fake.table('plan_changes').map((change) => change.status), ['applied', 'scheduled']);
+
+  // Running again changes nothing
+  assertEquals(await applyScheduledPlanChanges(supabase, { now: NOW }), 0);
+});
@@ -0,0 +1,290 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+
+// ===========================================
+// PLAN CHANGES
+// Which plan a client is on and what buying another one does to it. An
+// upgrade starts right away with the unused days of the current plan
+// credited on the price; a downgrade is scheduled for when the current plan
+// ends and promoted by plan-expiry-job on that day.
+// ===========================================
+
+export type PlanChangeType = 'new' | 'renewal' | 'upgrade' | 'downgrade';
+
+// Upgrades never cost less than this, however much credit is left
+export const MIN_UPGRADE_CHARGE_CENTS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlanChangePlan {
+  id: string;
+  price_cents: number;
+  duration_days: number;
+  billing_mode?: string;
+}
+
+export interface ClientPlanState {
+  plan_id: string | null;
+  plan_end_date: string | null;
+  pending_plan_id: string | null;
+  pending_plan_starts_on: string | null;
+}
+
+export interface PlanChangeQuote {
+  changeType: PlanChangeType;
+  fromPlanId: string | null;
+  remainingDays: number;
+  creditCents: number;
+  // Date the new plan takes over (YYYY-MM-DD)
+  startsOn: string;
+}
+
+export interface PlanChangeRecord {
+  clientId: string;
+  paymentId: string | null;
+  fromPlanId: string | null;
+  toPlanId: string;
+  changeType: PlanChangeType;
+  status: 'applied' | 'scheduled';
+  creditCents?: number;
+  effectiveDate: string;
+  previousPlanEndDate: string | null;
+  newPlanEndDate: string | null;
+}
+
+interface PlanChangeOptions {
+  // Injectable clock, mainly for tests
+  now?: Date;
+}
+
+/**
+ * Compares plans by price per day, so a cheaper quarterly plan is not
+ * mistaken for an upgrade over a monthly one. Plans that cost the same per
+ * day count as a downgrade: the switch waits for the current plan to end.
+ */
+export function classifyPlanChange(current: PlanChangePlan | null, next: PlanChangePlan): PlanChangeType {
+  if (!current) return 'new';
+  if (current.id === next.id) return 'renewal';
+  return getDailyRate(next) > getDailyRate(current) ? 'upgrade' : 'downgrade';
+}
+
+// Whole days left until plan_end_date, counting today; 0 once it has passed
+export function getRemainingDays(planEndDate: string | null, today: Date): number {
+  if (!planEndDate) return 0;
+  const end = new Date(`${planEndDate}T00:00:00.000Z`).getTime();
+  return Math.max(0, Math.ceil((end - startOfDay(today).getTime()) / DAY_MS));
+}
+
+/**
+ * Value of the unused days of the current plan, at the rate the client
+ * actually paid for it.
+ */
+export function calculateUpgradeCredit(paidCents: number, durationDays: number, remainingDays: number): number {
+  if (paidCents <= 0 || durationDays <= 0 || remainingDays <= 0) return 0;
+  return Math.floor((paidCents * Math.min(remainingDays, durationDays)) / durationDays);
+}
+
+/**
+ * Part of the credit that can be used on a charge of `amountCents`, keeping
+ * the charge at MIN_UPGRADE_CHARGE_CENTS at least.
+ */
+export function applyUpgradeCredit(amountCents: number, creditCents: number): number {
+  return Math.max(0, Math.min(creditCents, amountCents - MIN_UPGRADE_CHARGE_CENTS));
+}
+
+// The pending plan already counts as current once its start date is reached
+export function getCurrentPlanId(state: ClientPlanState, today: Date): string | null {
+  if (state.pending_plan_id && state.pending_plan_starts_on && state.pending_plan_starts_on <= toDateString(today)) {
+    return state.pending_plan_id;
+  }
+  return state.plan_id;
+}
+
+export function isImmediateUpgrade(changeType: PlanChangeType | null | undefined, plan: { billing_mode?: string }): boolean {
+  return changeType === 'upgrade' && plan.billing_mode !== 'recurring';
+}
+
+export function isPlanActive(planEndDate: string | null, today: Date): boolean {
+  return getRemainingDays(planEndDate, today) > 0;
+}
+
+/**
+ * Returns the new plan end date: extends from the current end date while it
+ * is still in the future, otherwise starts counting from today.
+ */
+export function calculatePlanEndDate(currentEndDate: string | null, durationDays: number, today: Date): Date {
+  let base = new Date(today);
+
+  if (currentEndDate) {
+    const currentEnd = new Date(currentEndDate);
+    if (currentEnd > today) {
+      base = currentEnd;
+    }
+  }
+
+  const endDate = new Date(base);
+  endDate.setDate(endDate.getDate() + durationDays);
+  return endDate;
+}
+
+/**
+ * Works out what buying `plan` would do for a signed-in client. Only
+ * one-off plans are upgraded right away with credit: recurring plans are
+ * charged by the gateway at the catalog price, so they start when the
+ * current plan ends, like a downgrade.
+ */
+export async function quotePlanChange(
+  supabase: SupabaseClient,
+  clientId: string,
+  plan: PlanChangePlan,
+  options: PlanChangeOptions = {}
+): Promise<PlanChangeQuote> {
+  const today = options.now ? new Date(options.now) : new Date();
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('plan_id, plan_end_date, pending_plan_id, pending_plan_starts_on')
+    .eq('id', clientId)
+    .maybeSingle();
+
+  const currentPlanId = profile ? getCurrentPlanId(profile, today) : null;
+  const remainingDays = profile ? getRemainingDays(profile.plan_end_date, today) : 0;
+
+  let currentPlan: PlanChangePlan | null = null;
+  if (currentPlanId) {
+    const { data } = await supabase
+      .from('subscription_plans')
+      .select('id, price_cents, duration_days, billing_mode')
+      .eq('id', currentPlanId)
+      .maybeSingle();
+    currentPlan = data;
+  }
+
+  const changeType = classifyPlanChange(currentPlan, plan);
+  const quote: PlanChangeQuote = {
+    changeType,
+    fromPlanId: currentPlan?.id ?? null,
+    remainingDays,
+    creditCents: 0,
+    startsOn: toDateString(today),
+  };
+
+  // Nothing left of the current plan: any plan simply starts today
+  if (remainingDays === 0 || !currentPlan) {
+    return quote;
+  }
+
+  if (isImmediateUpgrade(changeType, plan)) {
+    const paidCents = await getPaidCents(supabase, clientId, currentPlan);
+    quote.creditCents = calculateUpgradeCredit(paidCents, currentPlan.duration_days, remainingDays);
+  } else {
+    quote.startsOn = profile!.plan_end_date!;
+  }
+
+  return quote;
+}
+
+export async function recordPlanChange(supabase: SupabaseClient, change: PlanChangeRecord) {
+  const { error } = await supabase
+    .from('plan_changes')
+    .insert({
+      client_id: change.clientId,
+      payment_id: change.paymentId,
+      from_plan_id: change.fromPlanId,
+      to_plan_id: change.toPlanId,
+      change_type: change.changeType,
+      status: change.status,
+      credit_cents: change.creditCents ?? 0,
+      effective_date: change.effectiveDate,
+      previous_plan_end_date: change.previousPlanEndDate,
+      new_plan_end_date: change.newPlanEndDate,
+    });
+
+  if (error) {
+    console.error('Error recording plan change:', error);
+  }
+}
+
+/**
+ * Promotes pending plans whose start date has been reached. The profile is
+ * only updated while it still has the pending plan we read, so a purchase
+ * approved in the meantime is never overwritten.
+ */
+export async function applyScheduledPlanChanges(supabase: SupabaseClient, options: PlanChangeOptions = {}): Promise<number> {
+  const today = toDateString(options.now ?? new Date());
+
+  const { data: clients, error } = await supabase
+    .from('profiles')
+    .select('id, pending_plan_id, pending_plan_starts_on')
+    .eq('role', 'client')
+    .lte('pending_plan_starts_on', today);
+
+  if (error) {
+    throw new Error(`Error loading scheduled plan changes: ${error.message}`);
+  }
+
+  let applied = 0;
+
+  for (const client of clients || []) {
+    if (!client.pending_plan_id || !client.pending_plan_starts_on) continue;
+
+    const { data: updated, error: updateError } = await supabase
+      .from('profiles')
+      .update({
+        plan_id: client.pending_plan_id,
+        plan_start_date: client.pending_plan_starts_on,
+        pending_plan_id: null,
+        pending_plan_starts_on: null,
+      })
+      .eq('id', client.id)
+      .eq('pending_plan_id', client.pending_plan_id)
+      .select('id');
+
+    if (updateError) {
+      console.error('Error applying scheduled plan change:', updateError);
+      continue;
+    }
+
+    if (!updated || updated.length === 0) continue;
+
+    await supabase
+      .from('plan_changes')
+      .update({ status: 'applied' })
+      .eq('client_id', client.id)
+      .eq('status', 'scheduled')
+      .lte('effective_date', today);
+
+    applied++;
+  }
+
+  return applied;
+}
+
+// Net amount of the last paid payment for the plan. Plans given by an access
+// grant (trials, courtesies) were never paid, so they earn no credit
+async function getPaidCents(supabase: SupabaseClient, clientId: string, plan: PlanChangePlan): Promise<number> {
+  const { data: payments } = await supabase
+    .from('payments')
+    .select('amount_cents, refunded_amount_cents')
+    .eq('client_id', clientId)
+    .eq('plan_id', plan.id)
+    .eq('status', 'approved')
+    .is('grant_type', null)
+    .order('paid_at', { ascending: false })
+    .limit(1);
+
+  const payment = payments?.[0];
+  if (!payment) return 0;
+  return payment.amount_cents - (payment.refunded_amount_cents ?? 0);
+}
+
+function getDailyRate(plan: PlanChangePlan): number {
+  return plan.price_cents / Math.max(plan.duration_days, 1);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(`${toDateString(date)}T00:00:00.000Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
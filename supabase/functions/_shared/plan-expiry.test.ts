@@ -0,0 +1,116 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  deactivateLapsedClients,
+  expireStalePayments,
+  getReminderThreshold,
+  sendExpiryReminders,
+} from './plan-expiry.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const NOW = new Date('2026-03-10T11:00:00.000Z');
+
+function client(id: string, planEndDate: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    role: 'client',
+    full_name: `Cliente ${id}`,
+    email: `${id}@example.com`,
+    plan_end_date: planEndDate,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+function setup(seed: Record<string, Record<string, unknown>[]>) {
+  const fake = new FakeSupabase(seed, {
+    uniqueKeys: { plan_expiry_notifications: [['client_id', 'plan_end_date', 'threshold_days']] },
+    rpc: { release_coupon: () => null },
+  });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+Deno.test('getReminderThreshold picks the closest threshold not yet passed', () => {
+  assertEquals(getReminderThreshold(8), null);
+  assertEquals(getReminderThreshold(7), 7);
+  assertEquals(getReminderThreshold(5), 7);
+  assertEquals(getReminderThreshold(3), 3);
+  assertEquals(getReminderThreshold(1), 1);
+  assertEquals(getReminderThreshold(0), 1);
+  assertEquals(getReminderThreshold(-1), null);
+});
+
+Deno.test('reminders are sent once per client and threshold', async () => {
+  const { fake, supabase } = setup({
+    profiles: [
+      client('a', '2026-03-17'),
+      client('b', '2026-03-13'),
+      client('c', '2026-03-30'),
+      client('d', '2026-03-11', { is_active: false }),
+    ],
+    payments: [{ id: 'p1', client_id: 'a', plan_id: 'plan-1', status: 'approved', paid_at: '2026-02-15' }],
+    subscription_plans: [{ id: 'plan-1', name: 'Plano Mensal' }],
+  });
+
+  assertEquals(await sendExpiryReminders(supabase, { now: NOW }), 2);
+  assertEquals(await sendExpiryReminders(supabase, { now: NOW }), 0);
+
+  const emails = fake.invokedFunctions.map((call) => call.body as { to: string; data: { planName: string } });
+  assertEquals(emails.map((email) => email.to), ['a@example.com', 'b@example.com']);
+  assertEquals(emails[0].data.planName, 'Plano Mensal');
+  assertEquals(
+    fake.table('plan_expiry_notifications').map((row) => [row.client_id, row.threshold_days]),
+    [['a', 7], ['b', 3]]
+  );
+});
+
+Deno.test('clients with an active subscription get no reminder', async () => {
+  const { fake, supabase } = setup({
+    profiles: [client('a', '2026-03-11')],
+    subscriptions: [{ id: 'sub-1', client_id: 'a', status: 'active' }],
+  });
+
+  assertEquals(await sendExpiryReminders(supabase, { now: NOW }), 0);
+  assertEquals(fake.invokedFunctions.length, 0);
+});
+
+Deno.test('stale PIX and boleto payments expire and release their coupon', async () => {
+  const base = { status: 'pending', client_id: null, plan_id: 'plan-1', customer_email: 'x@example.com', customer_name: 'X', customer_phone: null };
+  const { fake, supabase } = setup({
+    payments: [
+      { ...base, id: 'pix-old', payment_method: 'pix', pix_expiration: '2026-03-10T10:00:00.000Z', coupon_id: 'coupon-1' },
+      { ...base, id: 'pix-new', payment_method: 'pix', pix_expiration: '2026-03-10T12:00:00.000Z' },
+      { ...base, id: 'boleto-old', payment_method: 'boleto', boleto_expiration: '2026-03-06' },
+      { ...base, id: 'boleto-grace', payment_method: 'boleto', boleto_expiration: '2026-03-08' },
+      { ...base, id: 'card', payment_method: 'credit_card' },
+    ],
+  });
+
+  assertEquals(await expireStalePayments(supabase, { now: NOW }), 2);
+
+  const statuses = Object.fromEntries(fake.table('payments').map((row) => [row.id, row.status]));
+  assertEquals(statuses, {
+    'pix-old': 'expired',
+    'pix-new': 'pending',
+    'boleto-old': 'expired',
+    'boleto-grace': 'pending',
+    'card': 'pending',
+  });
+  assertEquals(fake.rpcCalls, [{ name: 'release_coupon', params: { p_coupon_id: 'coupon-1' } }]);
+});
+
+Deno.test('clients are deactivated only after the grace period', async () => {
+  const { fake, supabase } = setup({
+    profiles: [
+      client('a', '2026-03-02'),
+      client('b', '2026-03-03'),
+      client('c', '2026-03-20'),
+      { ...client('admin', '2026-01-01'), role: 'admin' },
+    ],
+  });
+
+  assertEquals(await deactivateLapsedClients(supabase, 7, { now: NOW }), 1);
+
+  const active = Object.fromEntries(fake.table('profiles').map((row) => [row.id, row.is_active]));
+  assertEquals(active, { a: false, b: true, c: true, admin: true });
+});
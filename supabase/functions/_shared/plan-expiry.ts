@@ -0,0 +1,213 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { applyPaymentStatus } from './payment-approval.ts';
+
+// ===========================================
+// PLAN EXPIRY ROUTINE
+// The three daily tasks run by plan-expiry-job. Each one is safe to run more
+// than once a day: reminders are claimed before they are sent, and payments
+// and profiles are only changed while still in their old state.
+// ===========================================
+
+// Days before plan_end_date on which clients are reminded
+export const REMINDER_THRESHOLDS = [7, 3, 1];
+
+// Boletos paid on the due date can take a few days to be confirmed
+export const BOLETO_GRACE_DAYS = 3;
+
+export const DEFAULT_DEACTIVATE_AFTER_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RoutineOptions {
+  // Injectable clock, mainly for tests
+  now?: Date;
+}
+
+/**
+ * Returns the reminder due for a plan ending in `daysLeft` days: the
+ * smallest threshold not yet passed, so a day missed by the cron still gets
+ * its reminder. Null when the plan is too far away or already over.
+ */
+export function getReminderThreshold(daysLeft: number): number | null {
+  if (daysLeft < 0) return null;
+  const due = REMINDER_THRESHOLDS.filter((threshold) => daysLeft <= threshold);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+export async function sendExpiryReminders(supabase: SupabaseClient, options: RoutineOptions = {}): Promise<number> {
+  const today = startOfDay(options.now ?? new Date());
+  const lastDay = addDays(today, Math.max(...REMINDER_THRESHOLDS));
+
+  const { data: clients, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, plan_end_date')
+    .eq('role', 'client')
+    .eq('is_active', true)
+    .gte('plan_end_date', toDateString(today))
+    .lte('plan_end_date', toDateString(lastDay));
+
+  if (error) {
+    throw new Error(`Error loading expiring clients: ${error.message}`);
+  }
+
+  let sent = 0;
+
+  for (const client of clients || []) {
+    if (!client.email) continue;
+
+    const daysLeft = Math.round((new Date(client.plan_end_date).getTime() - today.getTime()) / DAY_MS);
+    const threshold = getReminderThreshold(daysLeft);
+    if (threshold === null) continue;
+
+    // Recurring subscribers are renewed by the gateway, no reminder needed
+    if (await hasActiveSubscription(supabase, client.id)) continue;
+
+    // Claim the reminder first; a concurrent run hits the unique constraint
+    const { error: claimError } = await supabase
+      .from('plan_expiry_notifications')
+      .insert({ client_id: client.id, plan_end_date: client.plan_end_date, threshold_days: threshold });
+
+    if (claimError) {
+      if (claimError.code !== '23505') {
+        console.error('Error claiming expiry reminder:', claimError);
+      }
+      continue;
+    }
+
+    const { error: emailError } = await supabase.functions.invoke('send-email', {
+      body: {
+        type: 'expiring',
+        to: client.email,
+        data: {
+          name: client.full_name,
+          email: client.email,
+          planName: await getLastPlanName(supabase, client.id),
+          planEndDate: new Date(`${client.plan_end_date}T12:00:00`).toLocaleDateString('pt-BR'),
+        },
+      },
+    });
+
+    if (emailError) {
+      // Release the claim so the next run tries again
+      console.error('Error sending expiry reminder:', emailError);
+      await supabase
+        .from('plan_expiry_notifications')
+        .delete()
+        .eq('client_id', client.id)
+        .eq('plan_end_date', client.plan_end_date)
+        .eq('threshold_days', threshold);
+      continue;
+    }
+
+    sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Moves pending PIX and boleto payments past their expiration to 'expired'
+ * through applyPaymentStatus, which also gives back any reserved coupon.
+ */
+export async function expireStalePayments(supabase: SupabaseClient, options: RoutineOptions = {}): Promise<number> {
+  const now = options.now ?? new Date();
+  const boletoCutoff = addDays(startOfDay(now), -BOLETO_GRACE_DAYS);
+
+  const [pixResult, boletoResult] = await Promise.all([
+    supabase
+      .from('payments')
+      .select('*')
+      .eq('status', 'pending')
+      .eq('payment_method', 'pix')
+      .lt('pix_expiration', now.toISOString()),
+    supabase
+      .from('payments')
+      .select('*')
+      .eq('status', 'pending')
+      .eq('payment_method', 'boleto')
+      .lt('boleto_expiration', toDateString(boletoCutoff)),
+  ]);
+
+  const loadError = pixResult.error || boletoResult.error;
+  if (loadError) {
+    throw new Error(`Error loading stale payments: ${loadError.message}`);
+  }
+
+  let expired = 0;
+
+  for (const payment of [...(pixResult.data || []), ...(boletoResult.data || [])]) {
+    if (await applyPaymentStatus(supabase, payment, 'expired')) {
+      expired++;
+    }
+  }
+
+  return expired;
+}
+
+export async function deactivateLapsedClients(
+  supabase: SupabaseClient,
+  afterDays: number,
+  options: RoutineOptions = {}
+): Promise<number> {
+  const cutoff = addDays(startOfDay(options.now ?? new Date()), -afterDays);
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ is_active: false })
+    .eq('role', 'client')
+    .eq('is_active', true)
+    .lt('plan_end_date', toDateString(cutoff))
+    .select('id');
+
+  if (error) {
+    throw new Error(`Error deactivating clients: ${error.message}`);
+  }
+
+  return data?.length ?? 0;
+}
+
+async function hasActiveSubscription(supabase: SupabaseClient, clientId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('subscriptions')
+    .select('id')
+    .eq('client_id', clientId)
+    .eq('status', 'active')
+    .limit(1);
+
+  return !!data && data.length > 0;
+}
+
+async function getLastPlanName(supabase: SupabaseClient, clientId: string): Promise<string> {
+  const { data: payments } = await supabase
+    .from('payments')
+    .select('plan_id')
+    .eq('client_id', clientId)
+    .eq('status', 'approved')
+    .order('paid_at', { ascending: false })
+    .limit(1);
+
+  const planId = payments?.[0]?.plan_id;
+  if (!planId) return 'Plano';
+
+  const { data: plan } = await supabase
+    .from('subscription_plans')
+    .select('name')
+    .eq('id', planId)
+    .maybeSingle();
+
+  return plan?.name ?? 'Plano';
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(`${toDateString(date)}T00:00:00.000Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,61 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { buildReceiptData, formatCents, formatCpf, renderReceiptPdf } from './receipts.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const payment = {
+  id: 'a1b2c3d4-0000-4000-8000-000000000000',
+  amount_cents: 17910,
+  original_amount_cents: 19900,
+  discount_cents: 1990,
+  coupon_code: 'VERAO10',
+  refunded_amount_cents: 0,
+  payment_method: 'credit_card',
+  installments: 3,
+  customer_name: 'Maria Conceição',
+  customer_email: 'maria@example.com',
+  customer_cpf: '12345678901',
+  paid_at: '2026-03-09T15:30:00.000Z',
+};
+
+Deno.test('receipt data carries the discount and the payment method', () => {
+  const data = buildReceiptData(payment, { name: 'Plano Mensal', duration_days: 30 }, 'Dra. Ana', NOW);
+
+  assertEquals(data.receiptNumber, 'A1B2C3D4');
+  assertEquals(data.originalAmountCents, 19900);
+  assertEquals(data.discountCents, 1990);
+  assertEquals(data.amountCents, 17910);
+  assertEquals(data.paymentMethod, 'Cartao de credito (3x)');
+  assertEquals(data.paidAt.toISOString(), '2026-03-09T15:30:00.000Z');
+});
+
+Deno.test('payments without coupon data fall back to the charged amount', () => {
+  const data = buildReceiptData(
+    { ...payment, original_amount_cents: null, discount_cents: null, coupon_code: null, payment_method: 'pix', installments: 1 },
+    null,
+    null,
+    NOW
+  );
+
+  assertEquals(data.originalAmountCents, 17910);
+  assertEquals(data.discountCents, 0);
+  assertEquals(data.planName, 'Plano');
+  assertEquals(data.paymentMethod, 'PIX');
+});
+
+Deno.test('amounts and CPF are formatted the Brazilian way', () => {
+  assertEquals(formatCents(17910), 'R$ 179,10');
+  assertEquals(formatCpf('12345678901'), '123.456.789-01');
+  assertEquals(formatCpf('123'), '123');
+});
+
+Deno.test('renders a PDF even with characters outside Latin-1 and an invalid logo', async () => {
+  const data = buildReceiptData({ ...payment, customer_name: 'Łukasz Nguyễn 😀' }, null, null, NOW);
+  const pdf = await renderReceiptPdf(data, {
+    appName: 'Nutri App',
+    primaryColor: 'not-a-color',
+    logo: { bytes: new Uint8Array([1, 2, 3]), type: 'png' },
+  });
+
+  assertEquals(new TextDecoder().decode(pdf.slice(0, 5)), '%PDF-');
+});
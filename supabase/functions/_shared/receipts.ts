@@ -0,0 +1,243 @@
+import { PDFDocument, type PDFFont, type PDFImage, rgb, StandardFonts } from 'https://esm.sh/pdf-lib@1.17.1';
+
+// ===========================================
+// PAYMENT RECEIPTS
+// A one-page PDF proving an approved payment, branded with the app_settings
+// name, primary color and logo. Generated once by payment-receipt and kept in
+// the private "receipts" storage bucket.
+// ===========================================
+
+export interface ReceiptPayment {
+  id: string;
+  amount_cents: number;
+  original_amount_cents: number | null;
+  discount_cents: number | null;
+  coupon_code: string | null;
+  refunded_amount_cents: number | null;
+  payment_method: string | null;
+  installments: number | null;
+  customer_name: string;
+  customer_email: string;
+  customer_cpf: string | null;
+  paid_at: string | null;
+}
+
+export interface ReceiptBranding {
+  appName: string;
+  primaryColor: string | null;
+  logo: { bytes: Uint8Array; type: 'png' | 'jpg' } | null;
+}
+
+export interface ReceiptData {
+  receiptNumber: string;
+  issuedAt: Date;
+  paidAt: Date;
+  issuerName: string | null;
+  customerName: string;
+  customerEmail: string;
+  customerCpf: string | null;
+  planName: string;
+  planDurationDays: number | null;
+  paymentMethod: string;
+  originalAmountCents: number;
+  discountCents: number;
+  couponCode: string | null;
+  amountCents: number;
+  refundedAmountCents: number;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  pix: 'PIX',
+  boleto: 'Boleto',
+  credit_card: 'Cartao de credito',
+};
+
+const DEFAULT_PRIMARY_COLOR = '#1c4c9b';
+
+export function buildReceiptData(
+  payment: ReceiptPayment,
+  plan: { name: string; duration_days: number } | null,
+  issuerName: string | null,
+  issuedAt = new Date()
+): ReceiptData {
+  const discountCents = payment.discount_cents ?? 0;
+  let paymentMethod = PAYMENT_METHOD_LABELS[payment.payment_method ?? ''] ?? 'Outro';
+  if (payment.payment_method === 'credit_card' && payment.installments && payment.installments > 1) {
+    paymentMethod += ` (${payment.installments}x)`;
+  }
+
+  return {
+    receiptNumber: payment.id.slice(0, 8).toUpperCase(),
+    issuedAt,
+    paidAt: new Date(payment.paid_at ?? issuedAt),
+    issuerName,
+    customerName: payment.customer_name,
+    customerEmail: payment.customer_email,
+    customerCpf: payment.customer_cpf,
+    planName: plan?.name ?? 'Plano',
+    planDurationDays: plan?.duration_days ?? null,
+    paymentMethod,
+    originalAmountCents: payment.original_amount_cents ?? payment.amount_cents + discountCents,
+    discountCents,
+    couponCode: payment.coupon_code,
+    amountCents: payment.amount_cents,
+    refundedAmountCents: payment.refunded_amount_cents ?? 0,
+  };
+}
+
+export function formatCents(cents: number): string {
+  return (cents / 100)
+    .toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })
+    .replace(/\u00a0/g, ' ');
+}
+
+export function formatCpf(cpf: string): string {
+  const digits = cpf.replace(/\D/g, '');
+  if (digits.length !== 11) return cpf;
+  return `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6, 9)}-${digits.slice(9)}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+}
+
+// The standard PDF fonts only cover Latin-1; anything else loses its accent or becomes "?"
+function toPdfText(text: string): string {
+  return Array.from(text.normalize('NFC'))
+    .map((char) => {
+      if (char.charCodeAt(0) <= 0xff) return char;
+      const stripped = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      return stripped.length === 1 && stripped.charCodeAt(0) <= 0xff ? stripped : '?';
+    })
+    .join('');
+}
+
+function hexToRgb(hex: string | null) {
+  const valid = hex && /^#[0-9a-f]{6}$/i.test(hex) ? hex : DEFAULT_PRIMARY_COLOR;
+  const value = parseInt(valid.slice(1), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+export async function renderReceiptPdf(data: ReceiptData, branding: ReceiptBranding): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Recibo ${data.receiptNumber}`);
+  pdf.setAuthor(branding.appName);
+
+  const page = pdf.addPage([595.28, 841.89]); // A4
+  const { width, height } = page.getSize();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  const primary = hexToRgb(branding.primaryColor);
+  const textColor = rgb(0.03, 0.05, 0.08);
+  const mutedColor = rgb(0.29, 0.33, 0.41);
+  const margin = 48;
+
+  const draw = (text: string, x: number, y: number, font: PDFFont, size: number, color = textColor) => {
+    page.drawText(toPdfText(text), { x, y, font, size, color });
+  };
+
+  // Right-aligned text ending at the right margin
+  const drawRight = (text: string, y: number, font: PDFFont, size: number, color = textColor) => {
+    const safeText = toPdfText(text);
+    page.drawText(safeText, { x: width - margin - font.widthOfTextAtSize(safeText, size), y, font, size, color });
+  };
+
+  // Header band with logo and app name
+  const headerHeight = 96;
+  page.drawRectangle({ x: 0, y: height - headerHeight, width, height: headerHeight, color: primary });
+
+  let titleX = margin;
+  const logo = await embedLogo(pdf, branding.logo);
+  if (logo) {
+    const scaled = logo.scaleToFit(120, 48);
+    page.drawImage(logo, { x: margin, y: height - headerHeight / 2 - scaled.height / 2, ...scaled });
+    titleX += scaled.width + 16;
+  }
+  draw(branding.appName, titleX, height - headerHeight / 2 - 7, bold, 18, rgb(1, 1, 1));
+
+  // Title
+  let y = height - headerHeight - 48;
+  draw('Recibo de pagamento', margin, y, bold, 22);
+  drawRight(`N. ${data.receiptNumber}`, y + 4, bold, 12, mutedColor);
+
+  y -= 22;
+  draw(`Pago em ${formatDate(data.paidAt)}`, margin, y, regular, 11, mutedColor);
+
+  // Parties
+  if (data.issuerName) {
+    y -= 40;
+    draw('EMITIDO POR', margin, y, bold, 9, mutedColor);
+    y -= 16;
+    draw(data.issuerName, margin, y, bold, 12);
+  }
+
+  y -= 40;
+  draw('RECEBEMOS DE', margin, y, bold, 9, mutedColor);
+  y -= 16;
+  draw(data.customerName, margin, y, bold, 12);
+  y -= 15;
+  draw(data.customerEmail, margin, y, regular, 10, mutedColor);
+  if (data.customerCpf) {
+    y -= 14;
+    draw(`CPF ${formatCpf(data.customerCpf)}`, margin, y, regular, 10, mutedColor);
+  }
+
+  // Amounts table
+  y -= 44;
+  page.drawLine({ start: { x: margin, y }, end: { x: width - margin, y }, thickness: 1, color: rgb(0.89, 0.91, 0.94) });
+
+  const rows: [string, string][] = [
+    [
+      data.planDurationDays ? `${data.planName} (${data.planDurationDays} dias)` : data.planName,
+      formatCents(data.originalAmountCents),
+    ],
+  ];
+  if (data.discountCents > 0) {
+    rows.push([data.couponCode ? `Desconto (cupom ${data.couponCode})` : 'Desconto', `- ${formatCents(data.discountCents)}`]);
+  }
+  rows.push(['Forma de pagamento', data.paymentMethod]);
+
+  for (const [label, value] of rows) {
+    y -= 26;
+    draw(label, margin, y, regular, 11);
+    drawRight(value, y, regular, 11);
+  }
+
+  y -= 20;
+  page.drawLine({ start: { x: margin, y }, end: { x: width - margin, y }, thickness: 1, color: rgb(0.89, 0.91, 0.94) });
+
+  y -= 30;
+  draw('Total pago', margin, y, bold, 14);
+  drawRight(formatCents(data.amountCents), y, bold, 14, primary);
+
+  if (data.refundedAmountCents > 0) {
+    y -= 22;
+    draw('Reembolsado', margin, y, regular, 11, mutedColor);
+    drawRight(`- ${formatCents(data.refundedAmountCents)}`, y, regular, 11, mutedColor);
+  }
+
+  // Footer
+  draw(
+    `Documento gerado automaticamente em ${formatDate(data.issuedAt)}. Este recibo nao substitui a nota fiscal.`,
+    margin,
+    margin,
+    regular,
+    8,
+    mutedColor
+  );
+
+  return await pdf.save();
+}
+
+async function embedLogo(pdf: PDFDocument, logo: ReceiptBranding['logo']): Promise<PDFImage | null> {
+  if (!logo) return null;
+
+  try {
+    return logo.type === 'png' ? await pdf.embedPng(logo.bytes) : await pdf.embedJpg(logo.bytes);
+  } catch (error) {
+    // A broken logo should never block the receipt
+    console.error('Error embedding receipt logo:', error);
+    return null;
+  }
+}
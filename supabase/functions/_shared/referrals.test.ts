@@ -0,0 +1,146 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { handlePaymentApproved } from './payment-approval.ts';
+import { resolveReferrer } from './referrals.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const plan = { id: 'plan-1', name: 'Plano Mensal', duration_days: 30 };
+
+const referrer = {
+  id: 'referrer-1',
+  role: 'client',
+  full_name: 'Ana Souza',
+  email: 'ana@example.com',
+  plan_end_date: '2026-03-20',
+  referral_code: 'ANA12345',
+};
+
+function buildPayment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'payment-1',
+    owner_id: 'owner-1',
+    client_id: null,
+    plan_id: plan.id,
+    customer_email: 'maria@example.com',
+    customer_name: 'Maria Silva',
+    customer_phone: null,
+    referrer_id: referrer.id,
+    ...overrides,
+  };
+}
+
+function setup(settings: Record<string, unknown> = {}) {
+  const fake = new FakeSupabase({
+    subscription_plans: [plan],
+    profiles: [{ ...referrer }],
+    payments: [buildPayment()],
+    payment_settings: [{
+      owner_id: 'owner-1',
+      referral_enabled: true,
+      referral_reward_type: 'days',
+      referral_reward_days: 15,
+      referral_reward_percent: 20,
+      ...settings,
+    }],
+  }, {
+    uniqueKeys: { referral_rewards: [['referred_client_id']] },
+  });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+function rewardEmails(fake: FakeSupabase) {
+  return fake.invokedFunctions
+    .filter((call) => (call.body as { type?: string }).type === 'referral_reward')
+    .map((call) => call.body as { to: string; data: { rewardDescription: string } });
+}
+
+// Referrer with an approved purchase from owner-1
+function setupReferrerLookup() {
+  const fake = new FakeSupabase({
+    profiles: [{ ...referrer }],
+    payments: [{ id: 'payment-0', owner_id: 'owner-1', client_id: referrer.id, status: 'approved' }],
+  });
+  return fake as unknown as SupabaseClient;
+}
+
+Deno.test('referral codes resolve case-insensitively and never to the buyer', async () => {
+  const supabase = setupReferrerLookup();
+  const lookup = { ownerId: 'owner-1', customerEmail: 'maria@example.com' };
+
+  assertEquals(await resolveReferrer(supabase, { ...lookup, code: ' ana12345 ' }), { id: referrer.id, referralCode: 'ANA12345' });
+  assertEquals(await resolveReferrer(supabase, { ...lookup, code: 'ANA12345', customerEmail: 'Ana@Example.com' }), null);
+  assertEquals(await resolveReferrer(supabase, { ...lookup, code: 'NOPE' }), null);
+  assertEquals(await resolveReferrer(supabase, { ...lookup, code: '' }), null);
+});
+
+Deno.test('a signed-in client cannot refer themselves under another email', async () => {
+  const supabase = setupReferrerLookup();
+
+  assertEquals(
+    await resolveReferrer(supabase, { ownerId: 'owner-1', code: 'ANA12345', customerEmail: 'outro@example.com', customerId: referrer.id }),
+    null
+  );
+});
+
+Deno.test('referral codes only work on the checkout of the referrer owner', async () => {
+  const supabase = setupReferrerLookup();
+
+  assertEquals(await resolveReferrer(supabase, { ownerId: 'owner-2', code: 'ANA12345', customerEmail: 'maria@example.com' }), null);
+});
+
+Deno.test('the first approved purchase adds the reward days to the referrer plan', async () => {
+  const { fake, supabase } = setup();
+
+  const result = await handlePaymentApproved(supabase, buildPayment(), plan, { now: NOW });
+
+  assert(result);
+  const [reward] = fake.table('referral_rewards');
+  assertEquals(reward.referrer_id, referrer.id);
+  assertEquals(reward.referred_client_id, result.clientId);
+  assertEquals(reward.reward_days, 15);
+  assertEquals(fake.table('profiles').find((row) => row.id === referrer.id)?.plan_end_date, '2026-04-04');
+
+  const [email] = rewardEmails(fake);
+  assertEquals(email.to, 'ana@example.com');
+  assert(email.data.rewardDescription.startsWith('15 dias a mais'));
+});
+
+Deno.test('coupon rewards create a single-use coupon for the referrer', async () => {
+  const { fake, supabase } = setup({ referral_reward_type: 'coupon' });
+
+  await handlePaymentApproved(supabase, buildPayment(), plan, { now: NOW });
+
+  const [coupon] = fake.table('coupons');
+  assertEquals(coupon.owner_id, 'owner-1');
+  assertEquals(coupon.discount_type, 'percent');
+  assertEquals(coupon.discount_value, 20);
+  assertEquals(coupon.max_uses, 1);
+  assertEquals(coupon.customer_email, 'ana@example.com');
+  assertEquals(coupon.valid_until, '2026-06-08T12:00:00.000Z');
+  assert((coupon.code as string).startsWith('INDICA-ANA12345-'));
+
+  const [reward] = fake.table('referral_rewards');
+  assertEquals(reward.coupon_id, coupon.id);
+  assertEquals(reward.coupon_code, coupon.code);
+  assertEquals(fake.table('profiles').find((row) => row.id === referrer.id)?.plan_end_date, '2026-03-20');
+});
+
+Deno.test('later purchases, grants and disabled programs earn nothing', async () => {
+  const { fake, supabase } = setup();
+
+  await handlePaymentApproved(supabase, buildPayment(), plan, { now: NOW });
+  await handlePaymentApproved(supabase, buildPayment({ id: 'payment-2' }), plan, { now: NOW });
+  assertEquals(fake.table('referral_rewards').length, 1);
+  assertEquals(rewardEmails(fake).length, 1);
+
+  const trial = setup();
+  await handlePaymentApproved(trial.supabase, buildPayment({ grant_type: 'trial' }), plan, { now: NOW });
+  assertEquals(trial.fake.table('referral_rewards').length, 0);
+
+  const disabled = setup({ referral_enabled: false });
+  await handlePaymentApproved(disabled.supabase, buildPayment(), plan, { now: NOW });
+  assertEquals(disabled.fake.table('referral_rewards').length, 0);
+  assertEquals(disabled.fake.table('profiles').find((row) => row.id === referrer.id)?.plan_end_date, '2026-03-20');
+});
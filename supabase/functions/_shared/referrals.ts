@@ -0,0 +1,215 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { normalizeCouponCode } from './coupons.ts';
+import { calculatePlanEndDate } from './plan-changes.ts';
+
+// ===========================================
+// REFERRALS
+// Clients share /checkout/<slug>?ref=<referral_code>. payment-create stores
+// the referrer on the payment and handlePaymentApproved rewards them once
+// the referred client's first purchase is approved: extra plan days or a
+// single-use coupon, as set in payment_settings.
+// ===========================================
+
+export type ReferralRewardType = 'days' | 'coupon';
+
+// Reward coupons only work for the referrer and expire after this many days
+export const REFERRAL_COUPON_VALID_DAYS = 90;
+
+export interface Referrer {
+  id: string;
+  referralCode: string;
+}
+
+export interface ReferredPayment {
+  id: string;
+  owner_id?: string | null;
+  referrer_id?: string | null;
+  grant_type?: string | null;
+}
+
+export interface ReferralReward {
+  referrerId: string;
+  type: ReferralRewardType;
+  days: number | null;
+  couponCode: string | null;
+}
+
+interface ReferralOptions {
+  // Injectable clock, mainly for tests
+  now?: Date;
+}
+
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export interface ReferrerLookup {
+  ownerId: string;
+  code: string | null | undefined;
+  customerEmail: string;
+  // Profile the checkout is linked to, when the buyer is already a client
+  customerId?: string | null;
+}
+
+/**
+ * Finds the client behind a referral code. Only clients of the checkout's
+ * owner (with an approved payment to them) can refer; unknown codes and
+ * clients referring themselves are ignored rather than failing the checkout.
+ */
+export async function resolveReferrer(
+  supabase: SupabaseClient,
+  { ownerId, code, customerEmail, customerId }: ReferrerLookup
+): Promise<Referrer | null> {
+  if (!code?.trim()) return null;
+
+  const { data: referrer } = await supabase
+    .from('profiles')
+    .select('id, email, referral_code')
+    .eq('referral_code', normalizeReferralCode(code))
+    .eq('role', 'client')
+    .maybeSingle();
+
+  if (
+    !referrer ||
+    referrer.id === customerId ||
+    referrer.email?.toLowerCase() === customerEmail.trim().toLowerCase()
+  ) {
+    return null;
+  }
+
+  const { data: ownerPayments } = await supabase
+    .from('payments')
+    .select('id')
+    .eq('owner_id', ownerId)
+    .eq('client_id', referrer.id)
+    .eq('status', 'approved')
+    .limit(1);
+
+  if (!ownerPayments || ownerPayments.length === 0) return null;
+
+  return { id: referrer.id, referralCode: referrer.referral_code };
+}
+
+/**
+ * Rewards the referrer of an approved purchase. Only the first purchase of
+ * each referred client counts (referral_rewards is unique per referred
+ * client), and nothing is granted while the owner has the program off.
+ * Returns the reward, or null when none was due.
+ */
+export async function grantReferralReward(
+  supabase: SupabaseClient,
+  payment: ReferredPayment,
+  referredClientId: string,
+  options: ReferralOptions = {}
+): Promise<ReferralReward | null> {
+  if (!payment.referrer_id || !payment.owner_id || payment.grant_type || payment.referrer_id === referredClientId) {
+    return null;
+  }
+
+  const { data: settings } = await supabase
+    .from('payment_settings')
+    .select('referral_enabled, referral_reward_type, referral_reward_days, referral_reward_percent')
+    .eq('owner_id', payment.owner_id)
+    .maybeSingle();
+
+  if (!settings?.referral_enabled) return null;
+
+  const { data: referrer } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, plan_end_date, referral_code')
+    .eq('id', payment.referrer_id)
+    .maybeSingle();
+
+  if (!referrer) return null;
+
+  const type: ReferralRewardType = settings.referral_reward_type === 'coupon' ? 'coupon' : 'days';
+  const days = type === 'days' ? settings.referral_reward_days : null;
+  const couponCode = type === 'coupon'
+    ? normalizeCouponCode(`INDICA-${referrer.referral_code}-${crypto.randomUUID().slice(0, 4)}`)
+    : null;
+
+  // Claim the reward first so concurrent approvals cannot grant it twice
+  const { data: reward, error: rewardError } = await supabase
+    .from('referral_rewards')
+    .insert({
+      owner_id: payment.owner_id,
+      referrer_id: referrer.id,
+      referred_client_id: referredClientId,
+      payment_id: payment.id,
+      reward_type: type,
+      reward_days: days,
+      coupon_code: couponCode,
+    })
+    .select('id')
+    .single();
+
+  if (rewardError) {
+    if (rewardError.code !== '23505') {
+      console.error('Error recording referral reward:', rewardError);
+    }
+    return null;
+  }
+
+  let rewardDescription: string;
+
+  if (type === 'days') {
+    const today = options.now ? new Date(options.now) : new Date();
+    const planEndDate = calculatePlanEndDate(referrer.plan_end_date, days!, today);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ plan_end_date: planEndDate.toISOString().split('T')[0] })
+      .eq('id', referrer.id);
+
+    if (error) {
+      console.error('Error extending referrer plan:', error);
+      await supabase.from('referral_rewards').delete().eq('id', reward.id);
+      return null;
+    }
+
+    rewardDescription = `${days} dias a mais no seu plano, que agora vai ate ${planEndDate.toLocaleDateString('pt-BR')}`;
+  } else {
+    const validUntil = new Date(options.now ?? new Date());
+    validUntil.setUTCDate(validUntil.getUTCDate() + REFERRAL_COUPON_VALID_DAYS);
+
+    const { data: coupon, error } = await supabase
+      .from('coupons')
+      .insert({
+        owner_id: payment.owner_id,
+        code: couponCode,
+        description: `Indicacao de ${referrer.full_name}`,
+        discount_type: 'percent',
+        discount_value: settings.referral_reward_percent,
+        valid_until: validUntil.toISOString(),
+        max_uses: 1,
+        customer_email: referrer.email.toLowerCase(),
+        is_active: true,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error creating referral coupon:', error);
+      await supabase.from('referral_rewards').delete().eq('id', reward.id);
+      return null;
+    }
+
+    await supabase.from('referral_rewards').update({ coupon_id: coupon.id }).eq('id', reward.id);
+
+    rewardDescription = `um cupom de ${settings.referral_reward_percent}% de desconto: ${couponCode}, valido ate ${validUntil.toLocaleDateString('pt-BR')}`;
+  }
+
+  try {
+    await supabase.functions.invoke('send-email', {
+      body: {
+        type: 'referral_reward',
+        to: referrer.email,
+        data: { name: referrer.full_name, email: referrer.email, rewardDescription },
+      },
+    });
+  } catch (emailError) {
+    console.error('Error sending referral reward email:', emailError);
+  }
+
+  return { referrerId: referrer.id, type, days, couponCode };
+}
@@ -0,0 +1,115 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { calculateRefundedPlanEndDate, recordRefund, validateRefund } from './refunds.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const payment = {
+  id: 'payment-1',
+  owner_id: 'owner-1',
+  client_id: 'client-1',
+  status: 'approved',
+  amount_cents: 10000,
+  refunded_amount_cents: 0,
+};
+
+function setup(planEndDate = '2026-04-09') {
+  const fake = new FakeSupabase({
+    payments: [{ ...payment }],
+    profiles: [{ id: 'client-1', plan_end_date: planEndDate }],
+  });
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+Deno.test('validateRefund rejects amounts above what is left and non-approved payments', () => {
+  const request = { amountCents: 4000, reason: 'Desistencia', planAction: 'keep' as const };
+
+  assertEquals(validateRefund(payment, request), null);
+  assertEquals(
+    validateRefund({ ...payment, refunded_amount_cents: 7000 }, request),
+    'Valor do reembolso maior que o disponivel'
+  );
+  assertEquals(
+    validateRefund({ ...payment, status: 'pending' }, request),
+    'Apenas pagamentos aprovados podem ser reembolsados'
+  );
+  assertEquals(validateRefund(payment, { ...request, reason: ' ' }), 'Motivo do reembolso e obrigatorio');
+  assertEquals(
+    validateRefund(payment, { ...request, planAction: 'shorten' }),
+    'Informe quantos dias remover do plano'
+  );
+});
+
+Deno.test('calculateRefundedPlanEndDate never moves the plan before yesterday', () => {
+  assertEquals(calculateRefundedPlanEndDate('2026-04-09', 'keep', 0, NOW), '2026-04-09');
+  assertEquals(calculateRefundedPlanEndDate('2026-04-09', 'end', 0, NOW), '2026-03-09');
+  assertEquals(calculateRefundedPlanEndDate('2026-04-09', 'shorten', 15, NOW), '2026-03-25');
+  assertEquals(calculateRefundedPlanEndDate('2026-04-09', 'shorten', 90, NOW), '2026-03-09');
+  assertEquals(calculateRefundedPlanEndDate(null, 'end', 0, NOW), null);
+});
+
+Deno.test('a partial refund keeps the payment approved and accumulates the amount', async () => {
+  const { fake, supabase } = setup();
+
+  const first = await recordRefund(
+    supabase,
+    payment,
+    { amountCents: 3000, reason: 'Desconto combinado', planAction: 'keep', gatewayRefundId: 'r1', refundedBy: 'owner-1' },
+    { now: NOW }
+  );
+
+  assertEquals(first, { refundedAmountCents: 3000, fullyRefunded: false, planEndDate: '2026-04-09' });
+  assertEquals(fake.table('payments')[0].status, 'approved');
+
+  const second = await recordRefund(
+    supabase,
+    { ...payment, refunded_amount_cents: 3000 },
+    { amountCents: 7000, reason: 'Cancelamento', planAction: 'end', gatewayRefundId: 'r2', refundedBy: 'owner-1' },
+    { now: NOW }
+  );
+
+  assertEquals(second.fullyRefunded, true);
+  assertEquals(fake.table('payments')[0].status, 'refunded');
+  assertEquals(fake.table('payments')[0].refunded_amount_cents, 10000);
+  assertEquals(fake.table('profiles')[0].plan_end_date, '2026-03-09');
+  assertEquals(fake.table('payment_refunds').length, 2);
+  assertEquals(fake.table('payment_refunds')[1].previous_plan_end_date, '2026-04-09');
+  assertEquals(fake.table('payment_refunds')[1].new_plan_end_date, '2026-03-09');
+});
+
+Deno.test('concurrent refunds of the same payment add up', async () => {
+  const { fake, supabase } = setup();
+  const keep = { reason: 'Desconto combinado', planAction: 'keep' as const, refundedBy: 'owner-1' };
+
+  // Both requests read the payment before either recorded its refund
+  await recordRefund(supabase, payment, { ...keep, amountCents: 3000, gatewayRefundId: 'r1' }, { now: NOW });
+  const second = await recordRefund(supabase, payment, { ...keep, amountCents: 2000, gatewayRefundId: 'r2' }, { now: NOW });
+
+  assertEquals(second.refundedAmountCents, 5000);
+  assertEquals(fake.table('payments')[0].refunded_amount_cents, 5000);
+  assertEquals(fake.table('payments')[0].status, 'approved');
+  assertEquals(fake.table('payment_refunds').length, 2);
+});
+
+Deno.test('shortening the plan removes days from the client end date', async () => {
+  const { fake, supabase } = setup();
+
+  const result = await recordRefund(
+    supabase,
+    payment,
+    {
+      amountCents: 10000,
+      reason: 'Arrependimento',
+      planAction: 'shorten',
+      removeDays: 30,
+      gatewayRefundId: null,
+      refundedBy: 'owner-1',
+    },
+    { now: NOW }
+  );
+
+  assertEquals(result.planEndDate, '2026-03-10');
+  assertEquals(fake.table('profiles')[0].plan_end_date, '2026-03-10');
+  assertEquals(fake.table('payment_refunds')[0].plan_action, 'shorten');
+});
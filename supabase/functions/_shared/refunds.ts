@@ -0,0 +1,223 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+
+// ===========================================
+// REFUNDS
+// Bookkeeping for payment-refund once the gateway has accepted the refund:
+// refund history, payment totals and the client's access.
+// ===========================================
+
+// Tries at recording a refund while other refunds change the payment total
+const MAX_REFUND_UPDATE_ATTEMPTS = 3;
+
+export type RefundPlanAction = 'keep' | 'shorten' | 'end';
+
+export interface RefundablePayment {
+  id: string;
+  owner_id: string;
+  client_id: string | null;
+  status: string;
+  amount_cents: number;
+  refunded_amount_cents: number | null;
+}
+
+export interface RefundRequest {
+  amountCents: number;
+  reason: string;
+  planAction: RefundPlanAction;
+  // Days removed from the plan when planAction is 'shorten'
+  removeDays?: number;
+}
+
+export interface RefundRecord extends RefundRequest {
+  gatewayRefundId: string | null;
+  refundedBy: string;
+}
+
+export interface RefundResult {
+  refundedAmountCents: number;
+  fullyRefunded: boolean;
+  planEndDate: string | null;
+}
+
+interface RefundOptions {
+  // Injectable clock, mainly for tests
+  now?: Date;
+}
+
+export function getRefundableAmount(payment: RefundablePayment): number {
+  return payment.amount_cents - (payment.refunded_amount_cents || 0);
+}
+
+/**
+ * Checks a refund request against the payment before anything is sent to
+ * the gateway. Returns the error message to show, or null when valid.
+ */
+export function validateRefund(payment: RefundablePayment, request: RefundRequest): string | null {
+  if (payment.status !== 'approved') {
+    return 'Apenas pagamentos aprovados podem ser reembolsados';
+  }
+
+  if (!Number.isInteger(request.amountCents) || request.amountCents <= 0) {
+    return 'Valor do reembolso invalido';
+  }
+
+  if (request.amountCents > getRefundableAmount(payment)) {
+    return 'Valor do reembolso maior que o disponivel';
+  }
+
+  if (!request.reason?.trim()) {
+    return 'Motivo do reembolso e obrigatorio';
+  }
+
+  if (!['keep', 'shorten', 'end'].includes(request.planAction)) {
+    return 'Acao sobre o plano invalida';
+  }
+
+  if (request.planAction === 'shorten' && (!request.removeDays || request.removeDays <= 0)) {
+    return 'Informe quantos dias remover do plano';
+  }
+
+  return null;
+}
+
+/**
+ * Returns the plan end date after a refund. Ending the plan sets it to
+ * yesterday, which is how the app treats a plan as expired; shortening never
+ * goes further back than that.
+ */
+export function calculateRefundedPlanEndDate(
+  currentEndDate: string | null,
+  action: RefundPlanAction,
+  removeDays: number,
+  today: Date
+): string | null {
+  if (action === 'keep' || !currentEndDate) {
+    return currentEndDate;
+  }
+
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (action === 'end') {
+    return toDateString(yesterday);
+  }
+
+  const shortened = new Date(currentEndDate);
+  shortened.setDate(shortened.getDate() - removeDays);
+  return toDateString(shortened < yesterday ? yesterday : shortened);
+}
+
+export async function recordRefund(
+  supabase: SupabaseClient,
+  payment: RefundablePayment,
+  refund: RefundRecord,
+  options: RefundOptions = {}
+): Promise<RefundResult> {
+  const now = options.now ? new Date(options.now) : new Date();
+  const { refundedAmountCents, fullyRefunded } = await addRefundedAmount(supabase, payment, refund.amountCents, now);
+
+  let previousEndDate: string | null = null;
+  let planEndDate: string | null = null;
+
+  if (payment.client_id) {
+    const { data: client } = await supabase
+      .from('profiles')
+      .select('id, plan_end_date')
+      .eq('id', payment.client_id)
+      .maybeSingle();
+
+    previousEndDate = client?.plan_end_date ?? null;
+    planEndDate = calculateRefundedPlanEndDate(previousEndDate, refund.planAction, refund.removeDays || 0, now);
+
+    if (client && planEndDate !== previousEndDate) {
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({ plan_end_date: planEndDate })
+        .eq('id', client.id);
+
+      if (profileError) {
+        console.error('Error adjusting plan after refund:', profileError);
+        planEndDate = previousEndDate;
+      }
+    }
+  }
+
+  const { error: refundError } = await supabase
+    .from('payment_refunds')
+    .insert({
+      payment_id: payment.id,
+      owner_id: payment.owner_id,
+      amount_cents: refund.amountCents,
+      reason: refund.reason.trim(),
+      gateway_refund_id: refund.gatewayRefundId,
+      plan_action: refund.planAction,
+      previous_plan_end_date: previousEndDate,
+      new_plan_end_date: planEndDate,
+      created_by: refund.refundedBy,
+    });
+
+  if (refundError) {
+    console.error('Error recording refund history:', refundError);
+  }
+
+  return { refundedAmountCents, fullyRefunded, planEndDate };
+}
+
+/**
+ * Adds the refund to the payment total. The update only applies while the
+ * total is still the one we read; a concurrent refund of the same payment
+ * makes it re-read and add on top, so no refund is lost.
+ */
+async function addRefundedAmount(
+  supabase: SupabaseClient,
+  payment: RefundablePayment,
+  amountCents: number,
+  now: Date
+): Promise<{ refundedAmountCents: number; fullyRefunded: boolean }> {
+  let current = payment;
+
+  for (let attempt = 1; ; attempt++) {
+    const previousCents = current.refunded_amount_cents || 0;
+    const refundedAmountCents = previousCents + amountCents;
+    const fullyRefunded = refundedAmountCents >= current.amount_cents;
+
+    const { data: updated, error } = await supabase
+      .from('payments')
+      .update({
+        refunded_amount_cents: refundedAmountCents,
+        refunded_at: now.toISOString(),
+        status: fullyRefunded ? 'refunded' : current.status,
+      })
+      .eq('id', payment.id)
+      .eq('refunded_amount_cents', previousCents)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Error updating refunded payment: ${error.message}`);
+    }
+
+    if (updated && updated.length > 0) {
+      return { refundedAmountCents, fullyRefunded };
+    }
+
+    if (attempt >= MAX_REFUND_UPDATE_ATTEMPTS) {
+      throw new Error('Error updating refunded payment: changed by concurrent refunds');
+    }
+
+    const { data: reloaded, error: reloadError } = await supabase
+      .from('payments')
+      .select('id, owner_id, client_id, status, amount_cents, refunded_amount_cents')
+      .eq('id', payment.id)
+      .single();
+
+    if (reloadError || !reloaded) {
+      throw new Error(`Error reloading refunded payment: ${reloadError?.message}`);
+    }
+
+    current = reloaded;
+  }
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,138 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { cancelSubscriptionRecord, recordSubscriptionCharge } from './subscriptions.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const plan = { id: 'plan-1', name: 'Plano Mensal', duration_days: 30 };
+
+const subscription = {
+  id: 'sub-1',
+  owner_id: 'owner-1',
+  client_id: null,
+  plan_id: plan.id,
+  gateway: 'asaas',
+  gateway_subscription_id: 'sub_asaas_1',
+  payment_method: 'credit_card',
+  amount_cents: 9900,
+  status: 'pending',
+  customer_email: 'maria@example.com',
+  customer_name: 'Maria Silva',
+  customer_phone: null,
+  customer_cpf: '12345678900',
+};
+
+// Row created by payment-create before the gateway charged the first cycle
+const placeholder = {
+  id: 'payment-1',
+  owner_id: 'owner-1',
+  client_id: null,
+  plan_id: plan.id,
+  subscription_id: subscription.id,
+  gateway: 'asaas',
+  gateway_payment_id: null,
+  status: 'pending',
+  customer_email: 'maria@example.com',
+  customer_name: 'Maria Silva',
+  customer_phone: null,
+  created_at: '2026-03-01T00:00:00.000Z',
+};
+
+function setup(payments: Record<string, unknown>[] = [placeholder]) {
+  const fake = new FakeSupabase(
+    { subscription_plans: [plan], subscriptions: [subscription], payments },
+    { uniqueKeys: { payments: [['gateway', 'gateway_payment_id']] } }
+  );
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+Deno.test('the first charge fills the checkout placeholder and activates the subscription', async () => {
+  const { fake, supabase } = setup();
+
+  const changed = await recordSubscriptionCharge(supabase, subscription, {
+    gatewayPaymentId: 'pay_1',
+    status: 'approved',
+  });
+
+  assertEquals(changed, true);
+  assertEquals(fake.table('payments').length, 1);
+  assertEquals(fake.table('payments')[0].gateway_payment_id, 'pay_1');
+  assertEquals(fake.table('payments')[0].status, 'approved');
+
+  const [client] = fake.table('profiles');
+  assertEquals(fake.table('subscriptions')[0].status, 'active');
+  assertEquals(fake.table('subscriptions')[0].client_id, client.id);
+});
+
+Deno.test('a first charge stored at checkout still activates and links the subscription', async () => {
+  // Asaas returns the first charge with the subscription, so payment-create already stored its id
+  const { fake, supabase } = setup([{ ...placeholder, gateway_payment_id: 'pay_1' }]);
+
+  const changed = await recordSubscriptionCharge(supabase, subscription, {
+    gatewayPaymentId: 'pay_1',
+    status: 'approved',
+  });
+
+  assertEquals(changed, true);
+  assertEquals(fake.table('payments').length, 1);
+  assertEquals(fake.table('payments')[0].status, 'approved');
+
+  const [client] = fake.table('profiles');
+  assertEquals(fake.table('subscriptions')[0].status, 'active');
+  assertEquals(fake.table('subscriptions')[0].client_id, client.id);
+});
+
+Deno.test('each renewal charge is a new payment that extends the plan again', async () => {
+  const { fake, supabase } = setup();
+
+  await recordSubscriptionCharge(supabase, subscription, { gatewayPaymentId: 'pay_1', status: 'approved' });
+  const firstEndDate = fake.table('profiles')[0].plan_end_date as string;
+
+  const active = { ...subscription, ...fake.table('subscriptions')[0] } as typeof subscription;
+  await recordSubscriptionCharge(supabase, active, {
+    gatewayPaymentId: 'pay_2',
+    status: 'approved',
+    amountCents: 9900,
+  });
+
+  const payments = fake.table('payments');
+  assertEquals(payments.length, 2);
+  assertEquals(payments[1].subscription_id, subscription.id);
+  assertEquals(payments[1].client_id, fake.table('profiles')[0].id);
+  assertEquals(payments[1].status, 'approved');
+
+  const expected = new Date(firstEndDate);
+  expected.setDate(expected.getDate() + 30);
+  assertEquals(fake.table('profiles')[0].plan_end_date, expected.toISOString().split('T')[0]);
+  assertEquals(fake.createdUsers.length, 1);
+});
+
+Deno.test('a repeated charge notification does not extend the plan twice', async () => {
+  const { fake, supabase } = setup();
+
+  await recordSubscriptionCharge(supabase, subscription, { gatewayPaymentId: 'pay_1', status: 'approved' });
+  const endDate = fake.table('profiles')[0].plan_end_date;
+
+  const changed = await recordSubscriptionCharge(supabase, subscription, { gatewayPaymentId: 'pay_1', status: 'approved' });
+
+  assertEquals(changed, false);
+  assertEquals(fake.table('payments').length, 1);
+  assertEquals(fake.table('profiles')[0].plan_end_date, endDate);
+});
+
+Deno.test('a failed renewal is recorded without touching the plan', async () => {
+  const { fake, supabase } = setup([]);
+
+  await recordSubscriptionCharge(supabase, subscription, { gatewayPaymentId: 'pay_9', status: 'rejected' });
+
+  assertEquals(fake.table('payments')[0].status, 'rejected');
+  assertEquals(fake.table('profiles').length, 0);
+  assertEquals(fake.table('subscriptions')[0].status, 'pending');
+});
+
+Deno.test('cancelSubscriptionRecord only cancels once', async () => {
+  const { fake, supabase } = setup();
+
+  assertEquals(await cancelSubscriptionRecord(supabase, subscription.id), true);
+  assertEquals(await cancelSubscriptionRecord(supabase, subscription.id), false);
+  assertEquals(fake.table('subscriptions')[0].status, 'cancelled');
+});
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { applyPaymentStatus } from './payment-approval.ts';
+
+// ===========================================
+// RECURRING SUBSCRIPTIONS
+// Every charge a gateway makes for a subscription becomes its own payments
+// row. Approving that row goes through applyPaymentStatus, so each renewal
+// extends plan_end_date exactly like a one-time purchase does.
+// ===========================================
+
+export interface SubscriptionRecord {
+  id: string;
+  owner_id: string;
+  client_id: string | null;
+  plan_id: string | null;
+  gateway: string;
+  gateway_subscription_id: string;
+  payment_method: string | null;
+  amount_cents: number;
+  status: string;
+  customer_email: string;
+  customer_name: string;
+  customer_phone: string | null;
+  customer_cpf: string | null;
+}
+
+export interface SubscriptionCharge {
+  gatewayPaymentId: string;
+  status: string;
+  amountCents?: number;
+  webhookData?: unknown;
+}
+
+export async function findSubscription(
+  supabase: SupabaseClient,
+  gateway: string,
+  gatewaySubscriptionId: string
+): Promise<SubscriptionRecord | null> {
+  const { data } = await supabase
+    .from('subscriptions')
+    .select('*')
+    .eq('gateway', gateway)
+    .eq('gateway_subscription_id', gatewaySubscriptionId)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Records a charge made by the gateway for a subscription and applies its
+ * status. The first charge fills the placeholder row created by payment-create;
+ * later charges are inserted as new payments. Returns true when the payment
+ * status changed.
+ */
+export async function recordSubscriptionCharge(
+  supabase: SupabaseClient,
+  subscription: SubscriptionRecord,
+  charge: SubscriptionCharge
+): Promise<boolean> {
+  const payment = await findOrCreateChargePayment(supabase, subscription, charge);
+
+  const changed = await applyPaymentStatus(supabase, payment, charge.status, {
+    webhook_data: charge.webhookData ?? null,
+  });
+
+  if (changed && charge.status === 'approved') {
+    // The approval links (or creates) the client; keep the subscription in sync
+    const { data: approved } = await supabase
+      .from('payments')
+      .select('client_id')
+      .eq('id', payment.id)
+      .maybeSingle();
+
+    await supabase
+      .from('subscriptions')
+      .update({
+        status: subscription.status === 'cancelled' ? 'cancelled' : 'active',
+        client_id: approved?.client_id ?? subscription.client_id,
+      })
+      .eq('id', subscription.id);
+  }
+
+  return changed;
+}
+
+/**
+ * Marks a subscription as cancelled. Returns false when it already was, so
+ * repeated cancellation notifications are harmless.
+ */
+export async function cancelSubscriptionRecord(supabase: SupabaseClient, subscriptionId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+    .eq('id', subscriptionId)
+    .neq('status', 'cancelled')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Error cancelling subscription: ${error.message}`);
+  }
+
+  return !!data && data.length > 0;
+}
+
+async function findOrCreateChargePayment(
+  supabase: SupabaseClient,
+  subscription: SubscriptionRecord,
+  charge: SubscriptionCharge
+) {
+  const existing = await findChargePayment(supabase, subscription.gateway, charge.gatewayPaymentId);
+  if (existing) return existing;
+
+  // First charge: claim the placeholder created at checkout
+  const { data: placeholder } = await supabase
+    .from('payments')
+    .select('id')
+    .eq('subscription_id', subscription.id)
+    .is('gateway_payment_id', null)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (placeholder) {
+    const { data: claimed } = await supabase
+      .from('payments')
+      .update({ gateway_payment_id: charge.gatewayPaymentId })
+      .eq('id', placeholder.id)
+      .is('gateway_payment_id', null)
+      .select('*');
+
+    if (claimed && claimed.length > 0) {
+      return claimed[0];
+    }
+  }
+
+  // Renewal charge: new payment row, approved through the normal status transition
+  const { data: inserted, error } = await supabase
+    .from('payments')
+    .insert({
+      owner_id: subscription.owner_id,
+      client_id: subscription.client_id,
+      plan_id: subscription.plan_id,
+      subscription_id: subscription.id,
+      gateway: subscription.gateway,
+      gateway_payment_id: charge.gatewayPaymentId,
+      amount_cents: charge.amountCents ?? subscription.amount_cents,
+      payment_method: subscription.payment_method,
+      status: 'pending',
+      customer_email: subscription.customer_email,
+      customer_name: subscription.customer_name,
+      customer_phone: subscription.customer_phone,
+      customer_cpf: subscription.customer_cpf,
+    })
+    .select()
+    .single();
+
+  if (!error && inserted) {
+    return inserted;
+  }
+
+  // 23505 = another delivery recorded this charge first
+  if (error?.code === '23505') {
+    const raced = await findChargePayment(supabase, subscription.gateway, charge.gatewayPaymentId);
+    if (raced) return raced;
+  }
+
+  throw new Error(`Error recording subscription charge: ${error?.message}`);
+}
+
+async function findChargePayment(supabase: SupabaseClient, gateway: string, gatewayPaymentId: string) {
+  const { data } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('gateway', gateway)
+    .eq('gateway_payment_id', gatewayPaymentId)
+    .maybeSingle();
+
+  return data;
+}
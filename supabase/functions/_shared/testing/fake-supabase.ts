@@ -0,0 +1,272 @@
+// ===========================================
+// IN-MEMORY SUPABASE STAND-IN (tests only)
+// Implements the small subset of the supabase-js query builder used by the
+// edge functions: select/insert/update/delete with eq/neq/in/is/lt/lte/gt/gte
+// filters, order, limit, single and maybeSingle, plus rpc and
+// functions.invoke with handlers supplied by the test.
+// ===========================================
+
+type Row = Record<string, unknown>;
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string; code?: string } | null;
+}
+
+interface FakeSupabaseOptions {
+  // Unique constraints per table, e.g. { profiles: [['email']] }
+  uniqueKeys?: Record<string, string[][]>;
+  // Makes auth.admin.createUser fail with the given message
+  failCreateUser?: string;
+  // Database functions callable through rpc()
+  rpc?: Record<string, (params: Row, db: FakeSupabase) => unknown>;
+  // Responses of edge functions called through functions.invoke(); others return { success: true }
+  functions?: Record<string, (body: unknown) => unknown>;
+}
+
+export interface InvokedFunction {
+  name: string;
+  body: unknown;
+}
+
+export interface RpcCall {
+  name: string;
+  params: Row;
+}
+
+type Filter = (row: Row) => boolean;
+
+class FakeQueryBuilder implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private values: Row = {};
+  private filters: Filter[] = [];
+  private orderBy: { column: string; ascending: boolean } | null = null;
+  private maxRows: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select() {
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  update(values: Row) {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: unknown) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push((row) => compare(row[column], value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push((row) => compare(row[column], value) <= 0);
+    return this;
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push((row) => compare(row[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push((row) => compare(row[column], value) >= 0);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderBy = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    const rows = this.db.table(this.table);
+    let affected: Row[];
+
+    switch (this.operation) {
+      case 'insert': {
+        affected = [];
+        for (const input of this.payload) {
+          const row: Row = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...input };
+          const violation = this.db.findUniqueViolation(this.table, row);
+          if (violation) {
+            return { data: null, error: { message: `duplicate key value violates unique constraint (${violation})`, code: '23505' } };
+          }
+          rows.push(row);
+          affected.push(row);
+        }
+        break;
+      }
+      case 'update':
+        affected = rows.filter((row) => this.matches(row));
+        for (const row of affected) Object.assign(row, this.values);
+        break;
+      case 'delete':
+        affected = rows.filter((row) => this.matches(row));
+        this.db.setTable(this.table, rows.filter((row) => !affected.includes(row)));
+        break;
+      default:
+        affected = rows.filter((row) => this.matches(row));
+    }
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      affected = [...affected].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+
+    if (this.maxRows !== null) {
+      affected = affected.slice(0, this.maxRows);
+    }
+
+    const data = affected.map((row) => ({ ...row }));
+
+    if (this.mode === 'many') {
+      return { data, error: null };
+    }
+
+    if (data.length > 1) {
+      return { data: null, error: { message: 'Multiple rows returned', code: 'PGRST116' } };
+    }
+
+    if (data.length === 0) {
+      return this.mode === 'single'
+        ? { data: null, error: { message: 'No rows returned', code: 'PGRST116' } }
+        : { data: null, error: null };
+    }
+
+    return { data: data[0], error: null };
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((filter) => filter(row));
+  }
+}
+
+export class FakeSupabase {
+  readonly invokedFunctions: InvokedFunction[] = [];
+  readonly createdUsers: { id: string; email: string }[] = [];
+  readonly rpcCalls: RpcCall[] = [];
+
+  private tables = new Map<string, Row[]>();
+
+  readonly auth = {
+    admin: {
+      createUser: (attributes: { email: string; password: string }) => {
+        if (this.options.failCreateUser) {
+          return Promise.resolve({ data: { user: null }, error: { message: this.options.failCreateUser } });
+        }
+        const user = { id: crypto.randomUUID(), email: attributes.email };
+        this.createdUsers.push(user);
+        return Promise.resolve({ data: { user }, error: null });
+      },
+    },
+  };
+
+  readonly functions = {
+    invoke: (name: string, options: { body?: unknown } = {}) => {
+      this.invokedFunctions.push({ name, body: options.body });
+      const handler = this.options.functions?.[name];
+      return Promise.resolve({ data: handler ? handler(options.body) : { success: true }, error: null });
+    },
+  };
+
+  constructor(seed: Record<string, Row[]> = {}, private options: FakeSupabaseOptions = {}) {
+    for (const [name, rows] of Object.entries(seed)) {
+      this.tables.set(name, rows.map((row) => ({ ...row })));
+    }
+  }
+
+  from(table: string) {
+    return new FakeQueryBuilder(this, table);
+  }
+
+  rpc(name: string, params: Row = {}) {
+    this.rpcCalls.push({ name, params });
+    const handler = this.options.rpc?.[name];
+    if (!handler) {
+      return Promise.resolve({ data: null, error: { message: `function ${name} does not exist` } });
+    }
+    return Promise.resolve({ data: handler(params, this), error: null });
+  }
+
+  table(name: string): Row[] {
+    if (!this.tables.has(name)) this.tables.set(name, []);
+    return this.tables.get(name)!;
+  }
+
+  setTable(name: string, rows: Row[]) {
+    this.tables.set(name, rows);
+  }
+
+  findUniqueViolation(table: string, candidate: Row): string | null {
+    for (const columns of this.options.uniqueKeys?.[table] ?? []) {
+      const clash = this.table(table).some((row) => columns.every((column) => row[column] === candidate[column]));
+      if (clash) return columns.join(', ');
+    }
+    return null;
+  }
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : 1;
+}
@@ -0,0 +1,81 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { applyPaymentStatus } from './payment-approval.ts';
+import { runWebhookEventOnce } from './webhook-events.ts';
+import { FakeSupabase } from './testing/fake-supabase.ts';
+
+const plan = { id: 'plan-1', name: 'Plano Mensal', duration_days: 30 };
+
+const payment = {
+  id: 'payment-1',
+  owner_id: 'owner-1',
+  client_id: null,
+  plan_id: plan.id,
+  status: 'pending',
+  customer_email: 'maria@example.com',
+  customer_name: 'Maria Silva',
+  customer_phone: null,
+};
+
+const event = {
+  gateway: 'asaas',
+  eventId: 'evt_1',
+  eventType: 'PAYMENT_RECEIVED',
+  paymentId: payment.id,
+  payload: {},
+};
+
+function setup() {
+  const fake = new FakeSupabase(
+    { subscription_plans: [plan], payments: [payment] },
+    { uniqueKeys: { webhook_events: [['gateway', 'event_id']] } }
+  );
+  return { fake, supabase: fake as unknown as SupabaseClient };
+}
+
+Deno.test('a redelivered event does not provision the client twice', async () => {
+  const { fake, supabase } = setup();
+  const approve = () => applyPaymentStatus(supabase, payment, 'approved');
+
+  assertEquals(await runWebhookEventOnce(supabase, event, approve), 'processed');
+  assertEquals(await runWebhookEventOnce(supabase, event, approve), 'duplicate');
+
+  assertEquals(fake.createdUsers.length, 1);
+  assertEquals(fake.table('profiles').length, 1);
+  assertEquals(fake.table('webhook_events').length, 1);
+  assertEquals(fake.table('webhook_events')[0].status, 'processed');
+});
+
+Deno.test('different events for an already approved payment are ignored', async () => {
+  const { fake, supabase } = setup();
+
+  await runWebhookEventOnce(supabase, event, () => applyPaymentStatus(supabase, payment, 'approved'));
+  // Second event carries the stale 'pending' snapshot read before the first one finished
+  const result = await runWebhookEventOnce(
+    supabase,
+    { ...event, eventId: 'evt_2', eventType: 'PAYMENT_CONFIRMED' },
+    () => applyPaymentStatus(supabase, payment, 'approved')
+  );
+
+  assertEquals(result, 'ignored');
+  assertEquals(fake.createdUsers.length, 1);
+  assertEquals(fake.table('payments')[0].status, 'approved');
+  assertEquals(fake.invokedFunctions.filter((call) => call.name === 'send-email').length, 1);
+});
+
+Deno.test('a failed event is recorded and can be retried', async () => {
+  const { fake, supabase } = setup();
+
+  await assertRejects(() =>
+    runWebhookEventOnce(supabase, event, () => Promise.reject(new Error('gateway offline')))
+  );
+  assertEquals(fake.table('webhook_events')[0].status, 'failed');
+  assertEquals(fake.table('webhook_events')[0].error_message, 'gateway offline');
+
+  const result = await runWebhookEventOnce(supabase, event, () => applyPaymentStatus(supabase, payment, 'approved'));
+
+  assertEquals(result, 'processed');
+  assertEquals(fake.table('webhook_events')[0].status, 'processed');
+  assertEquals(fake.table('webhook_events')[0].error_message, null);
+  assertEquals(fake.createdUsers.length, 1);
+});
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+
+// ===========================================
+// WEBHOOK EVENT LOG (idempotency)
+// Every delivery is claimed in webhook_events, keyed by (gateway, event_id).
+// A redelivery of an event that was already processed is skipped; an event
+// whose processing failed can be claimed again by the gateway's retry.
+// ===========================================
+
+export interface WebhookEventInput {
+  gateway: string;
+  eventId: string;
+  eventType: string | null;
+  paymentId: string | null;
+  payload: unknown;
+}
+
+export type WebhookClaim =
+  | { claimed: true; id: string }
+  | { claimed: false; id: string | null };
+
+export async function claimWebhookEvent(supabase: SupabaseClient, event: WebhookEventInput): Promise<WebhookClaim> {
+  const { data: inserted, error } = await supabase
+    .from('webhook_events')
+    .insert({
+      gateway: event.gateway,
+      event_id: event.eventId,
+      event_type: event.eventType,
+      payment_id: event.paymentId,
+      payload: event.payload,
+      status: 'processing',
+    })
+    .select('id')
+    .single();
+
+  if (!error && inserted) {
+    return { claimed: true, id: inserted.id };
+  }
+
+  // 23505 = unique_violation: this event was delivered before
+  if (error?.code !== '23505') {
+    throw new Error(`Error recording webhook event: ${error?.message}`);
+  }
+
+  const { data: existing } = await supabase
+    .from('webhook_events')
+    .select('id, status')
+    .eq('gateway', event.gateway)
+    .eq('event_id', event.eventId)
+    .maybeSingle();
+
+  if (existing?.status !== 'failed') {
+    return { claimed: false, id: existing?.id ?? null };
+  }
+
+  // Retry of a failed delivery - only one concurrent retry may win the claim
+  const { data: reclaimed } = await supabase
+    .from('webhook_events')
+    .update({ status: 'processing', error_message: null })
+    .eq('id', existing.id)
+    .eq('status', 'failed')
+    .select('id');
+
+  return reclaimed && reclaimed.length > 0
+    ? { claimed: true, id: existing.id }
+    : { claimed: false, id: existing.id };
+}
+
+/**
+ * Claims the event and runs the handler at most once per successful delivery.
+ * The handler returns whether it changed anything; failures are recorded and
+ * rethrown so the gateway retries the notification.
+ */
+export async function runWebhookEventOnce(
+  supabase: SupabaseClient,
+  event: WebhookEventInput,
+  handler: () => Promise<boolean>
+): Promise<'duplicate' | 'processed' | 'ignored'> {
+  const claim = await claimWebhookEvent(supabase, event);
+
+  if (!claim.claimed) {
+    console.log('Duplicate webhook event skipped:', event.gateway, event.eventId);
+    return 'duplicate';
+  }
+
+  try {
+    const changed = await handler();
+    await completeWebhookEvent(supabase, claim.id, changed ? 'processed' : 'ignored');
+    return changed ? 'processed' : 'ignored';
+  } catch (error) {
+    await completeWebhookEvent(
+      supabase,
+      claim.id,
+      'failed',
+      error instanceof Error ? error.message : String(error)
+    );
+    throw error;
+  }
+}
+
+export async function completeWebhookEvent(
+  supabase: SupabaseClient,
+  id: string,
+  status: 'processed' | 'ignored' | 'failed',
+  errorMessage?: string
+) {
+  const { error } = await supabase
+    .from('webhook_events')
+    .update({
+      status,
+      error_message: errorMessage ?? null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating webhook event:', error);
+  }
+}
@@ -0,0 +1,57 @@
+import { assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import {
+  hmacHex,
+  verifyAsaasToken,
+  verifyMercadoPagoSignature,
+  verifyPagarmeSignature,
+} from './webhook-security.ts';
+
+const SECRET = 'webhook-secret';
+
+Deno.test('verifyMercadoPagoSignature accepts the signed manifest and rejects tampering', async () => {
+  const v1 = await hmacHex('SHA-256', SECRET, 'id:123456;request-id:req-1;ts:1700000000;');
+  const params = {
+    signatureHeader: `ts=1700000000,v1=${v1}`,
+    requestId: 'req-1',
+    dataId: '123456',
+    secret: SECRET,
+  };
+
+  assertEquals(await verifyMercadoPagoSignature(params), true);
+  assertEquals(await verifyMercadoPagoSignature({ ...params, dataId: '999999' }), false);
+  assertEquals(await verifyMercadoPagoSignature({ ...params, secret: 'other' }), false);
+  assertEquals(await verifyMercadoPagoSignature({ ...params, signatureHeader: null }), false);
+  assertEquals(await verifyMercadoPagoSignature({ ...params, secret: null }), false);
+});
+
+Deno.test('verifyMercadoPagoSignature lowercases alphanumeric data ids', async () => {
+  const v1 = await hmacHex('SHA-256', SECRET, 'id:abc123;request-id:req-1;ts:1;');
+
+  const valid = await verifyMercadoPagoSignature({
+    signatureHeader: `ts=1,v1=${v1}`,
+    requestId: 'req-1',
+    dataId: 'ABC123',
+    secret: SECRET,
+  });
+
+  assertEquals(valid, true);
+});
+
+Deno.test('verifyAsaasToken requires the configured token', () => {
+  assertEquals(verifyAsaasToken('token-1', 'token-1'), true);
+  assertEquals(verifyAsaasToken('token-2', 'token-1'), false);
+  assertEquals(verifyAsaasToken(null, 'token-1'), false);
+  assertEquals(verifyAsaasToken('token-1', null), false);
+});
+
+Deno.test('verifyPagarmeSignature checks the HMAC of the raw body', async () => {
+  const body = '{"id":"hook_1","type":"order.paid"}';
+  const sha1 = await hmacHex('SHA-1', SECRET, body);
+  const sha256 = await hmacHex('SHA-256', SECRET, body);
+
+  assertEquals(await verifyPagarmeSignature(body, `sha1=${sha1}`, SECRET), true);
+  assertEquals(await verifyPagarmeSignature(body, `sha256=${sha256}`, SECRET), true);
+  assertEquals(await verifyPagarmeSignature(`${body} `, `sha1=${sha1}`, SECRET), false);
+  assertEquals(await verifyPagarmeSignature(body, `md5=${sha1}`, SECRET), false);
+  assertEquals(await verifyPagarmeSignature(body, null, SECRET), false);
+});
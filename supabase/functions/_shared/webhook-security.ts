@@ -0,0 +1,92 @@
+// ===========================================
+// WEBHOOK AUTHENTICITY CHECKS
+// Each gateway proves a notification is genuine in a different way:
+// - Mercado Pago: HMAC-SHA256 in the x-signature header
+// - Asaas: static access token in the asaas-access-token header
+// - Pagar.me: HMAC of the raw body in the X-Hub-Signature header
+// - PagSeguro: no signature, the order is looked up again via the API
+// ===========================================
+
+const encoder = new TextEncoder();
+
+export async function hmacHex(algorithm: 'SHA-1' | 'SHA-256', secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: algorithm },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Constant-time comparison so signatures cannot be guessed byte by byte
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < Math.max(aBytes.length, bBytes.length); i++) {
+    diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Validates the Mercado Pago x-signature header ("ts=...,v1=...").
+ * The signed manifest is "id:<data.id>;request-id:<x-request-id>;ts:<ts>;"
+ */
+export async function verifyMercadoPagoSignature(params: {
+  signatureHeader: string | null;
+  requestId: string | null;
+  dataId: string | null;
+  secret: string | null;
+}): Promise<boolean> {
+  const { signatureHeader, requestId, dataId, secret } = params;
+  if (!signatureHeader || !secret) return false;
+
+  const parts = Object.fromEntries(
+    signatureHeader.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+
+  if (!parts.ts || !parts.v1) return false;
+
+  let manifest = '';
+  if (dataId) manifest += `id:${/^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId};`;
+  if (requestId) manifest += `request-id:${requestId};`;
+  manifest += `ts:${parts.ts};`;
+
+  const expected = await hmacHex('SHA-256', secret, manifest);
+  return timingSafeEqual(expected, parts.v1);
+}
+
+export function verifyAsaasToken(headerToken: string | null, expectedToken: string | null): boolean {
+  if (!headerToken || !expectedToken) return false;
+  return timingSafeEqual(headerToken, expectedToken);
+}
+
+/**
+ * Validates the Pagar.me X-Hub-Signature header ("sha1=<hex>" or "sha256=<hex>"),
+ * an HMAC of the raw request body signed with the account secret key.
+ */
+export async function verifyPagarmeSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  secret: string | null
+): Promise<boolean> {
+  if (!signatureHeader || !secret) return false;
+
+  const [prefix, signature] = signatureHeader.split('=');
+  if (!signature) return false;
+
+  const algorithm = prefix.toLowerCase() === 'sha256' ? 'SHA-256' : prefix.toLowerCase() === 'sha1' ? 'SHA-1' : null;
+  if (!algorithm) return false;
+
+  const expected = await hmacHex(algorithm, secret, rawBody);
+  return timingSafeEqual(expected, signature.toLowerCase());
+}
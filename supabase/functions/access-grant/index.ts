@@ -0,0 +1,123 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { grantAccess } from '../_shared/access-grants.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RequestBody {
+  client_id: string;
+  plan_id: string;
+  days: number;
+  reason: string;
+}
+
+// Complimentary access given by an admin from the client profile. Recorded
+// as a zero-value payment so it appears in reports and plan history.
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Identify the caller from their session token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: caller } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (caller?.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Apenas administradores podem conceder cortesias' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { client_id, plan_id, days, reason }: RequestBody = await req.json();
+
+    if (!client_id || !plan_id) {
+      return new Response(
+        JSON.stringify({ error: 'Dados incompletos' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: client } = await supabase
+      .from('profiles')
+      .select('id, full_name, email, phone')
+      .eq('id', client_id)
+      .eq('role', 'client')
+      .maybeSingle();
+
+    if (!client) {
+      return new Response(
+        JSON.stringify({ error: 'Cliente nao encontrado' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: plan } = await supabase
+      .from('subscription_plans')
+      .select('id, name, duration_days, price_cents, billing_mode')
+      .eq('id', plan_id)
+      .eq('owner_id', user.id)
+      .maybeSingle();
+
+    if (!plan) {
+      return new Response(
+        JSON.stringify({ error: 'Plano nao encontrado' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await grantAccess(supabase, {
+      ownerId: user.id,
+      type: 'complimentary',
+      plan,
+      days: Number(days),
+      customer: { name: client.full_name, email: client.email, phone: client.phone },
+      clientId: client.id,
+      reason,
+      grantedBy: user.id,
+    });
+
+    if (result.error) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        payment_id: result.paymentId,
+        plan_end_date: result.planEndDate,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
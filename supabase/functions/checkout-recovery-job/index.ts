@@ -0,0 +1,62 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { sendCheckoutRecoveryEmails } from '../_shared/checkout-sessions.ts';
+import { timingSafeEqual } from '../_shared/webhook-security.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Runs every 15 minutes with pg_cron (see sql/checkout_sessions.sql), so the
+// delay configured in PaymentSettings is honoured within that margin.
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The cron call authenticates with the service role key, admins with their session
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    let authorized = token !== '' && timingSafeEqual(token, supabaseServiceKey);
+
+    if (!authorized && token) {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (user) {
+        const { data: caller } = await supabase
+          .from('profiles')
+          .select('role')
+          .eq('id', user.id)
+          .maybeSingle();
+        authorized = caller?.role === 'admin';
+      }
+    }
+
+    if (!authorized) {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const recoveryEmailsSent = await sendCheckoutRecoveryEmails(supabase);
+
+    console.log('Checkout recovery job finished:', { recovery_emails_sent: recoveryEmailsSent });
+
+    return new Response(
+      JSON.stringify({ recovery_emails_sent: recoveryEmailsSent }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
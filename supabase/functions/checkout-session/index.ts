@@ -0,0 +1,122 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  recordCustomerSubmitted,
+  recordPlanSelected,
+  resumeCheckoutSession,
+  startCheckoutSession,
+} from '../_shared/checkout-sessions.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RequestBody {
+  action: 'start' | 'select_plan' | 'submit_customer' | 'resume';
+  owner_id?: string;
+  session_id?: string;
+  plan_id?: string;
+  customer?: { name?: string; email?: string; phone?: string };
+}
+
+// Funnel tracking called by the public checkout as the customer moves
+// through it, and the lookup behind the recovery email's resume link.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { action, owner_id, session_id, plan_id, customer }: RequestBody = await req.json();
+
+    if (action === 'start') {
+      if (!owner_id) {
+        return new Response(
+          JSON.stringify({ error: 'Dados incompletos' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: settings } = await supabase
+        .from('payment_settings')
+        .select('owner_id')
+        .eq('owner_id', owner_id)
+        .maybeSingle();
+
+      if (!settings) {
+        return new Response(
+          JSON.stringify({ error: 'Checkout nao encontrado' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const sessionId = await startCheckoutSession(supabase, owner_id);
+
+      return new Response(
+        JSON.stringify({ session_id: sessionId }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!session_id) {
+      return new Response(
+        JSON.stringify({ error: 'Dados incompletos' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    switch (action) {
+      case 'select_plan': {
+        if (!plan_id) break;
+        const updated = await recordPlanSelected(supabase, session_id, plan_id);
+        return new Response(
+          JSON.stringify({ success: updated }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'submit_customer': {
+        if (!plan_id || !customer?.name || !customer?.email) break;
+        const updated = await recordCustomerSubmitted(supabase, session_id, plan_id, {
+          name: customer.name,
+          email: customer.email,
+          phone: customer.phone,
+        });
+        return new Response(
+          JSON.stringify({ success: updated }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'resume': {
+        const session = await resumeCheckoutSession(supabase, session_id);
+        if (!session) {
+          return new Response(
+            JSON.stringify({ error: 'Sessao nao encontrada ou ja paga' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        return new Response(
+          JSON.stringify({ session }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Dados incompletos' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
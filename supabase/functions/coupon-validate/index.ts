@@ -0,0 +1,77 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { validateCoupon } from '../_shared/coupons.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Preview used by the public checkout. payment-create validates the code again
+// before charging, so this response is informative only.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { owner_id, plan_id, code, customer_email, customer_cpf } = await req.json();
+
+    if (!owner_id || !plan_id || !code) {
+      return new Response(
+        JSON.stringify({ error: 'Dados incompletos' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: plan } = await supabase
+      .from('subscription_plans')
+      .select('id, price_cents, billing_mode')
+      .eq('id', plan_id)
+      .eq('owner_id', owner_id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!plan) {
+      return new Response(
+        JSON.stringify({ error: 'Plano nao encontrado' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await validateCoupon(supabase, {
+      ownerId: owner_id,
+      code,
+      plan,
+      customerEmail: customer_email,
+      customerCpf: customer_cpf,
+    });
+
+    if (!result.valid) {
+      return new Response(
+        JSON.stringify({ valid: false, error: result.error }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        valid: true,
+        code: result.coupon.code,
+        discount_cents: result.discountCents,
+        final_amount_cents: result.finalAmountCents,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
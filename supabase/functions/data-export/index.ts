@@ -0,0 +1,203 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  buildExportFile,
+  CLIENT_EXPORT_COLUMNS,
+  type ExportClient,
+  type ExportPayment,
+  type ExportRequest,
+  getPaymentDateColumn,
+  getPeriodBounds,
+  parseExportRequest,
+  PAYMENT_EXPORT_COLUMNS,
+} from '../_shared/data-export.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, accept',
+  'Access-Control-Expose-Headers': 'content-disposition',
+};
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Downloads payments or the active client roster as CSV or XLSX. Called from
+// the financial dashboard and directly by the admin, e.g.:
+//   GET /functions/v1/data-export?dataset=payments&format=xlsx&start=2026-03-01&end=2026-03-31&status=approved,refunded
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Identify the caller from their session token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: caller } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (caller?.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Apenas administradores podem exportar dados' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = req.method === 'GET'
+      ? Object.fromEntries(new URL(req.url).searchParams)
+      : await req.json();
+    const request = parseExportRequest(input);
+
+    if ('error' in request) {
+      return new Response(
+        JSON.stringify({ error: request.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const file = request.dataset === 'payments'
+      ? buildExportFile(request, PAYMENT_EXPORT_COLUMNS, await loadPayments(supabase, user.id, request))
+      : buildExportFile(request, CLIENT_EXPORT_COLUMNS, await loadClients(supabase, user.id));
+
+    // supabase-js only hands binary bodies back as a Blob for octet-stream,
+    // so the dashboard asks for that; other callers get the real type
+    const contentType = req.headers.get('Accept') === 'application/octet-stream'
+      ? 'application/octet-stream'
+      : file.contentType;
+
+    // slice() copies into a plain ArrayBuffer-backed array, which Response accepts
+    return new Response(file.body.slice(), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro ao exportar dados' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+// ===========================================
+// PAYMENTS
+// ===========================================
+
+async function loadPayments(supabase: SupabaseClient, ownerId: string, request: ExportRequest): Promise<ExportPayment[]> {
+  const { filters } = request;
+  const dateColumn = getPaymentDateColumn(filters);
+  const { from, to } = getPeriodBounds(filters);
+  const payments: ExportPayment[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('payments')
+      .select('*, plan:subscription_plans(name)')
+      .eq('owner_id', ownerId);
+
+    if (filters.statuses.length > 0) query = query.in('status', filters.statuses);
+    if (filters.planId) query = query.eq('plan_id', filters.planId);
+    if (filters.gateway) query = query.eq('gateway', filters.gateway);
+    if (from) query = query.gte(dateColumn, from);
+    if (to) query = query.lte(dateColumn, to);
+
+    const { data, error } = await query
+      .order(dateColumn, { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    payments.push(...(data as ExportPayment[]));
+    if (data.length < PAGE_SIZE) return payments;
+  }
+}
+
+// ===========================================
+// CLIENTS
+// Active clients with their plan dates. CPF and plan name come from the
+// latest approved payment, since profiles do not keep them.
+// ===========================================
+
+interface ClientRow {
+  id: string;
+  full_name: string;
+  email: string | null;
+  phone: string | null;
+  plan_start_date: string | null;
+  plan_end_date: string | null;
+}
+
+interface LatestPayment {
+  client_id: string;
+  customer_cpf: string | null;
+  plan: { name: string } | null;
+}
+
+async function loadClients(supabase: SupabaseClient, ownerId: string): Promise<ExportClient[]> {
+  const { data: clients, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, phone, plan_start_date, plan_end_date')
+    .eq('role', 'client')
+    .eq('is_active', true)
+    .order('full_name', { ascending: true });
+
+  if (error) throw error;
+
+  const latestByClient = new Map<string, LatestPayment>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error: paymentsError } = await supabase
+      .from('payments')
+      .select('client_id, customer_cpf, plan:subscription_plans(name)')
+      .eq('owner_id', ownerId)
+      .eq('status', 'approved')
+      .not('client_id', 'is', null)
+      .order('paid_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (paymentsError) throw paymentsError;
+
+    for (const payment of data as LatestPayment[]) {
+      if (!latestByClient.has(payment.client_id)) {
+        latestByClient.set(payment.client_id, payment);
+      }
+    }
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return (clients as ClientRow[]).map((client) => {
+    const latest = latestByClient.get(client.id);
+    return {
+      full_name: client.full_name,
+      email: client.email,
+      phone: client.phone,
+      cpf: latest?.customer_cpf ?? null,
+      plan_name: latest?.plan?.name ?? null,
+      plan_start_date: client.plan_start_date,
+      plan_end_date: client.plan_end_date,
+    };
+  });
+}
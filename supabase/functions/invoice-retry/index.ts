@@ -0,0 +1,89 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { processInvoiceQueue, retryInvoice } from '../_shared/invoice-issuance.ts';
+import { timingSafeEqual } from '../_shared/webhook-security.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Without a body it works the NFS-e retry queue; pg_cron calls it that way
+// every 10 minutes (see sql/invoices.sql). Admins send { invoice_id } to
+// retry one of their failed invoices from the financial dashboard.
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The cron call authenticates with the service role key, admins with their session
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const isCron = token !== '' && timingSafeEqual(token, supabaseServiceKey);
+    let adminId: string | null = null;
+
+    if (!isCron && token) {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (user) {
+        const { data: caller } = await supabase
+          .from('profiles')
+          .select('role')
+          .eq('id', user.id)
+          .maybeSingle();
+        if (caller?.role === 'admin') adminId = user.id;
+      }
+    }
+
+    if (!isCron && !adminId) {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.invoice_id) {
+      if (!adminId) {
+        return new Response(
+          JSON.stringify({ error: 'Nao autorizado' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const invoice = await retryInvoice(supabase, adminId, body.invoice_id);
+
+      if (!invoice) {
+        return new Response(
+          JSON.stringify({ error: 'Nota fiscal nao encontrada ou nao esta com falha' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ status: invoice.status }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await processInvoiceQueue(supabase);
+
+    console.log('Invoice retry job finished:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,169 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { buildReceiptData, type ReceiptBranding, type ReceiptPayment, renderReceiptPdf } from '../_shared/receipts.ts';
+import { timingSafeEqual } from '../_shared/webhook-security.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'receipts';
+
+// Links in emails stay valid for a month; the profile page asks for a fresh one
+const SIGNED_URL_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+// Returns a download link for the receipt of an approved payment, generating
+// and storing the PDF the first time. Called by the payment approval flow
+// (service role) and by the client or admin the payment belongs to.
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { payment_id } = await req.json();
+
+    if (!payment_id) {
+      return new Response(
+        JSON.stringify({ error: 'payment_id e obrigatorio' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', payment_id)
+      .maybeSingle();
+
+    // Internal calls use the service role key; everyone else only sees their own payments
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    let allowed = !!token && timingSafeEqual(token, supabaseServiceKey);
+
+    if (!allowed && token && payment) {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      allowed = !!user && (user.id === payment.client_id || user.id === payment.owner_id);
+    }
+
+    if (!payment || !allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Pagamento nao encontrado' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!payment.paid_at) {
+      return new Response(
+        JSON.stringify({ error: 'Recibo disponivel apenas para pagamentos aprovados' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let receiptPath: string | null = payment.receipt_path;
+
+    if (!receiptPath) {
+      receiptPath = `${payment.owner_id}/${payment.id}.pdf`;
+      const pdf = await generateReceipt(supabase, payment);
+
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(receiptPath, pdf, { contentType: 'application/pdf', upsert: true });
+
+      if (uploadError) {
+        console.error('Error uploading receipt:', uploadError);
+        return new Response(
+          JSON.stringify({ error: 'Erro ao gerar recibo' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      await supabase
+        .from('payments')
+        .update({ receipt_path: receiptPath })
+        .eq('id', payment.id);
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(receiptPath, SIGNED_URL_TTL_SECONDS, { download: `recibo-${payment.id.slice(0, 8)}.pdf` });
+
+    if (signError || !signed) {
+      console.error('Error signing receipt URL:', signError);
+      return new Response(
+        JSON.stringify({ error: 'Erro ao gerar recibo' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ url: signed.signedUrl }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+// ===========================================
+// RECEIPT GENERATION
+// ===========================================
+
+async function generateReceipt(
+  supabase: SupabaseClient,
+  payment: ReceiptPayment & { owner_id: string; plan_id: string | null }
+): Promise<Uint8Array> {
+  const { data: plan } = await supabase
+    .from('subscription_plans')
+    .select('name, duration_days')
+    .eq('id', payment.plan_id)
+    .maybeSingle();
+
+  const { data: owner } = await supabase
+    .from('profiles')
+    .select('full_name')
+    .eq('id', payment.owner_id)
+    .maybeSingle();
+
+  const { data: appSettings } = await supabase
+    .from('app_settings')
+    .select('app_name, color_primary, logo_main_url')
+    .limit(1)
+    .maybeSingle();
+
+  const branding: ReceiptBranding = {
+    appName: appSettings?.app_name || 'Nutri App',
+    primaryColor: appSettings?.color_primary ?? null,
+    logo: await fetchLogo(appSettings?.logo_main_url ?? null),
+  };
+
+  return await renderReceiptPdf(buildReceiptData(payment, plan, owner?.full_name ?? null), branding);
+}
+
+// Only PNG and JPEG can be embedded; other formats are left out of the receipt
+async function fetchLogo(url: string | null): Promise<ReceiptBranding['logo']> {
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+
+    const contentType = response.headers.get('content-type') ?? '';
+    const type = contentType.includes('png') ? 'png' : contentType.includes('jpeg') || contentType.includes('jpg') ? 'jpg' : null;
+    if (!type) return null;
+
+    return { bytes: new Uint8Array(await response.arrayBuffer()), type };
+  } catch (error) {
+    console.error('Error fetching receipt logo:', error);
+    return null;
+  }
+}
@@ -0,0 +1,146 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { decryptGatewaySecrets } from '../_shared/gateway-secrets.ts';
+import { getGatewayAdapter } from '../_shared/gateways/index.ts';
+import { getRefundableAmount, recordRefund, validateRefund } from '../_shared/refunds.ts';
+import type { RefundPlanAction } from '../_shared/refunds.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RequestBody {
+  payment_id: string;
+  amount_cents?: number;  // Omitted = everything still refundable
+  reason: string;
+  plan_action?: RefundPlanAction;
+  remove_days?: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Identify the caller from their session token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body: RequestBody = await req.json();
+
+    if (!body.payment_id) {
+      return new Response(
+        JSON.stringify({ error: 'payment_id e obrigatorio' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: caller } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', body.payment_id)
+      .maybeSingle();
+
+    // Only the admin who received the payment may refund it
+    if (!payment || payment.owner_id !== user.id || caller?.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Pagamento nao encontrado' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const refund = {
+      amountCents: body.amount_cents ?? getRefundableAmount(payment),
+      reason: body.reason,
+      planAction: body.plan_action || 'keep',
+      removeDays: body.remove_days,
+    };
+
+    const validationError = validateRefund(payment, refund);
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!payment.gateway_payment_id) {
+      return new Response(
+        JSON.stringify({ error: 'Pagamento sem identificador no gateway' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: storedSettings } = await supabase
+      .from('payment_settings')
+      .select('*')
+      .eq('owner_id', payment.owner_id)
+      .single();
+    const settings = await decryptGatewaySecrets(storedSettings);
+
+    if (!settings) {
+      return new Response(
+        JSON.stringify({ error: 'Configuracoes de pagamento nao encontradas' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Refund at the gateway that charged the payment, which may no longer be the active one
+    const gateway = getGatewayAdapter(payment.gateway);
+    const refundResult = gateway
+      ? await gateway.refund(settings, payment.gateway_payment_id, {
+        amountCents: refund.amountCents,
+        reason: refund.reason,
+        isPartial: refund.amountCents < getRefundableAmount(payment),
+      })
+      : { error: 'Gateway nao suportado' };
+
+    if (refundResult.error) {
+      return new Response(
+        JSON.stringify({ error: refundResult.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await recordRefund(supabase, payment, {
+      ...refund,
+      gatewayRefundId: refundResult.gateway_refund_id ?? null,
+      refundedBy: user.id,
+    });
+
+    return new Response(
+      JSON.stringify({
+        refunded_amount_cents: result.refundedAmountCents,
+        status: result.fullyRefunded ? 'refunded' : payment.status,
+        plan_end_date: result.planEndDate,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
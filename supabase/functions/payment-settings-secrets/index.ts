@@ -0,0 +1,116 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  encryptSecret,
+  GATEWAY_SECRET_FIELDS,
+  isEncryptedSecret,
+  secretHint,
+  type GatewaySecretField,
+} from '../_shared/gateway-secrets.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RequestBody {
+  // New value to store, or null to remove the secret
+  secrets: Partial<Record<GatewaySecretField, string | null>>;
+}
+
+// The only way gateway secrets are written: the browser can neither read nor
+// write the secret columns (see sql/gateway_secrets.sql)
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Identify the caller from their session token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    const { data: caller } = user
+      ? await supabase.from('profiles').select('role').eq('id', user.id).maybeSingle()
+      : { data: null };
+
+    if (!user || caller?.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body: RequestBody = await req.json();
+    const fields = Object.keys(body.secrets || {}) as GatewaySecretField[];
+
+    if (fields.some((field) => !GATEWAY_SECRET_FIELDS.includes(field))) {
+      return new Response(
+        JSON.stringify({ error: 'Campo de credencial invalido' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: existing } = await supabase
+      .from('payment_settings')
+      .select(['id', 'secret_hints', ...GATEWAY_SECRET_FIELDS].join(', '))
+      .eq('owner_id', user.id)
+      .maybeSingle();
+
+    const current = (existing ?? {}) as Record<string, unknown>;
+    const secretHints: Record<string, string> = { ...(current.secret_hints as Record<string, string> | null) };
+    const update: Record<string, string | null> = {};
+
+    for (const field of fields) {
+      const value = body.secrets[field]?.trim() || null;
+      update[field] = value ? await encryptSecret(value) : null;
+      if (value) {
+        secretHints[field] = secretHint(value);
+      } else {
+        delete secretHints[field];
+      }
+    }
+
+    // Values saved before encryption was introduced are encrypted on the way
+    for (const field of GATEWAY_SECRET_FIELDS) {
+      const stored = current[field];
+      if (!(field in update) && typeof stored === 'string' && stored && !isEncryptedSecret(stored)) {
+        update[field] = await encryptSecret(stored);
+        secretHints[field] ??= secretHint(stored);
+      }
+    }
+
+    const { error } = existing
+      ? await supabase
+        .from('payment_settings')
+        .update({ ...update, secret_hints: secretHints })
+        .eq('owner_id', user.id)
+      : await supabase
+        .from('payment_settings')
+        .insert({ ...update, secret_hints: secretHints, owner_id: user.id });
+
+    if (error) {
+      console.error('Error saving gateway secrets:', error);
+      return new Response(
+        JSON.stringify({ error: 'Erro ao salvar credenciais' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ secret_hints: secretHints }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
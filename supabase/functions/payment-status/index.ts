@@ -1,5 +1,9 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { decryptGatewaySecrets } from '../_shared/gateway-secrets.ts';
+import { getGatewayAdapter } from '../_shared/gateways/index.ts';
+import { applyPaymentStatus } from '../_shared/payment-approval.ts';
+import { recordSubscriptionCharge, type SubscriptionRecord } from '../_shared/subscriptions.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -40,70 +44,63 @@ serve(async (req) => {
       );
     }
 
-    // If already approved, return immediately
-    if (payment.status === 'approved') {
+    // Only pending payments with a gateway reference can still change here;
+    // everything else is settled by webhooks, refunds or the daily job
+    if (payment.status !== 'pending' || !payment.gateway_payment_id) {
       return new Response(
-        JSON.stringify({ status: 'approved', paid_at: payment.paid_at }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // If expired or rejected, return that status
-    if (payment.status === 'expired' || payment.status === 'rejected') {
-      return new Response(
-        JSON.stringify({ status: payment.status }),
+        JSON.stringify({ status: payment.status, paid_at: payment.paid_at }),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
     // Get payment settings to check with gateway
-    const { data: settings } = await supabase
+    const { data: storedSettings } = await supabase
       .from('payment_settings')
       .select('*')
       .eq('owner_id', payment.owner_id)
       .single();
+    const settings = await decryptGatewaySecrets(storedSettings);
+
+    // Ask the gateway that created the payment, not the one active today
+    const gateway = getGatewayAdapter(payment.gateway);
 
-    if (!settings) {
+    if (!settings || !gateway) {
       return new Response(
-        JSON.stringify({ status: payment.status }),
+        JSON.stringify({ status: payment.status, paid_at: payment.paid_at }),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Check payment status with gateway
-    let gatewayStatus;
-
-    switch (settings.active_gateway) {
-      case 'mercado_pago':
-        gatewayStatus = await checkMercadoPagoStatus(settings, payment.gateway_payment_id);
-        break;
-      case 'asaas':
-        gatewayStatus = await checkAsaasStatus(settings, payment.gateway_payment_id);
-        break;
-      default:
-        gatewayStatus = { status: payment.status };
-    }
-
-    // Update payment if status changed
-    if (gatewayStatus.status !== payment.status) {
-      const updateData: any = {
-        status: gatewayStatus.status,
-      };
-
-      if (gatewayStatus.status === 'approved') {
-        updateData.paid_at = new Date().toISOString();
+    const gatewayResult = await gateway.fetchStatus(settings, payment.gateway_payment_id, payment.status);
+
+    if (gatewayResult && gatewayResult.status !== payment.status) {
+      // Same path as the webhooks: compare-and-set on the status, so an approval
+      // seen here and by a webhook provisions the client and sends the email once
+      if (payment.subscription_id) {
+        const subscription = await loadSubscription(supabase, payment.subscription_id);
+        if (subscription) {
+          await recordSubscriptionCharge(supabase, subscription, {
+            gatewayPaymentId: payment.gateway_payment_id,
+            status: gatewayResult.status,
+            webhookData: gatewayResult.data,
+          });
+        }
+      } else {
+        await applyPaymentStatus(supabase, payment, gatewayResult.status, { webhook_data: gatewayResult.data });
       }
-
-      await supabase
-        .from('payments')
-        .update(updateData)
-        .eq('id', payment_id);
     }
 
+    // Re-read: a concurrent webhook may have settled the payment first
+    const { data: current } = await supabase
+      .from('payments')
+      .select('status, paid_at')
+      .eq('id', payment_id)
+      .single();
+
     return new Response(
       JSON.stringify({
-        status: gatewayStatus.status,
-        paid_at: gatewayStatus.status === 'approved' ? new Date().toISOString() : null,
+        status: current?.status ?? payment.status,
+        paid_at: current?.paid_at ?? null,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -116,72 +113,12 @@ serve(async (req) => {
   }
 });
 
-async function checkMercadoPagoStatus(settings: any, gatewayPaymentId: string): Promise<{ status: string }> {
-  try {
-    const response = await fetch(`https://api.mercadopago.com/v1/payments/${gatewayPaymentId}`, {
-      headers: {
-        'Authorization': `Bearer ${settings.mp_access_token}`,
-      },
-    });
-
-    const data = await response.json();
-
-    // Map Mercado Pago status to our status
-    switch (data.status) {
-      case 'approved':
-        return { status: 'approved' };
-      case 'pending':
-      case 'in_process':
-      case 'authorized':
-        return { status: 'pending' };
-      case 'rejected':
-      case 'cancelled':
-        return { status: 'rejected' };
-      case 'refunded':
-      case 'charged_back':
-        return { status: 'refunded' };
-      default:
-        return { status: 'pending' };
-    }
-  } catch (error) {
-    console.error('MP status check error:', error);
-    return { status: 'pending' };
-  }
-}
-
-async function checkAsaasStatus(settings: any, gatewayPaymentId: string): Promise<{ status: string }> {
-  const environment = settings.asaas_environment || 'sandbox';
-  const baseUrl = environment === 'production'
-    ? 'https://api.asaas.com/v3'
-    : 'https://sandbox.asaas.com/api/v3';
+async function loadSubscription(supabase: SupabaseClient, subscriptionId: string): Promise<SubscriptionRecord | null> {
+  const { data } = await supabase
+    .from('subscriptions')
+    .select('*')
+    .eq('id', subscriptionId)
+    .maybeSingle();
 
-  try {
-    const response = await fetch(`${baseUrl}/payments/${gatewayPaymentId}`, {
-      headers: {
-        'access_token': settings.asaas_api_key,
-      },
-    });
-
-    const data = await response.json();
-
-    // Map Asaas status to our status
-    switch (data.status) {
-      case 'RECEIVED':
-      case 'CONFIRMED':
-        return { status: 'approved' };
-      case 'PENDING':
-      case 'AWAITING_RISK_ANALYSIS':
-        return { status: 'pending' };
-      case 'OVERDUE':
-        return { status: 'expired' };
-      case 'REFUNDED':
-      case 'REFUND_REQUESTED':
-        return { status: 'refunded' };
-      default:
-        return { status: 'rejected' };
-    }
-  } catch (error) {
-    console.error('Asaas status check error:', error);
-    return { status: 'pending' };
-  }
+  return data;
 }
@@ -0,0 +1,81 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { decryptGatewaySecrets } from '../_shared/gateway-secrets.ts';
+import { getGatewayAdapter, type GatewaySettings } from '../_shared/gateways/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RequestBody {
+  gateway: string;
+  // Values typed in the form; missing ones fall back to the saved settings
+  credentials?: GatewaySettings;
+}
+
+// Read-only calls against the gateway: nothing is created or charged
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Identify the caller from their session token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    const { data: caller } = user
+      ? await supabase.from('profiles').select('role').eq('id', user.id).maybeSingle()
+      : { data: null };
+
+    if (!user || caller?.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body: RequestBody = await req.json();
+
+    if (!body.gateway) {
+      return new Response(
+        JSON.stringify({ error: 'gateway e obrigatorio' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: storedSettings } = await supabase
+      .from('payment_settings')
+      .select('mp_access_token, asaas_api_key, asaas_environment, ps_token, pm_api_key')
+      .eq('owner_id', user.id)
+      .maybeSingle();
+    const saved = await decryptGatewaySecrets(storedSettings);
+
+    const credentials: GatewaySettings = { ...saved };
+    for (const [key, value] of Object.entries(body.credentials || {})) {
+      if (value) credentials[key as keyof GatewaySettings] = value;
+    }
+
+    const gateway = getGatewayAdapter(body.gateway);
+    const result = gateway
+      ? await gateway.testCredentials(credentials)
+      : { valid: false, error: 'Gateway nao suportado' };
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
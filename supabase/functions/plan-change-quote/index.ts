@@ -0,0 +1,88 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { applyUpgradeCredit, MIN_UPGRADE_CHARGE_CENTS, quotePlanChange } from '../_shared/plan-changes.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Preview shown to signed-in clients at checkout. payment-create quotes the
+// change again before charging, so this response is informative only.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Identify the caller from their session token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { plan_id } = await req.json();
+
+    if (!plan_id) {
+      return new Response(
+        JSON.stringify({ error: 'Dados incompletos' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: plan } = await supabase
+      .from('subscription_plans')
+      .select('id, price_cents, duration_days, billing_mode')
+      .eq('id', plan_id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!plan) {
+      return new Response(
+        JSON.stringify({ error: 'Plano nao encontrado' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const quote = await quotePlanChange(supabase, user.id, plan);
+
+    let fromPlanName: string | null = null;
+    if (quote.fromPlanId) {
+      const { data: fromPlan } = await supabase
+        .from('subscription_plans')
+        .select('name')
+        .eq('id', quote.fromPlanId)
+        .maybeSingle();
+      fromPlanName = fromPlan?.name ?? null;
+    }
+
+    return new Response(
+      JSON.stringify({
+        change_type: quote.changeType,
+        from_plan_id: quote.fromPlanId,
+        from_plan_name: fromPlanName,
+        remaining_days: quote.remainingDays,
+        // Before any coupon; the checkout caps it again on the discounted price
+        credit_cents: applyUpgradeCredit(plan.price_cents, quote.creditCents),
+        min_charge_cents: MIN_UPGRADE_CHARGE_CENTS,
+        starts_on: quote.startsOn,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,116 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import {
+  DEFAULT_DEACTIVATE_AFTER_DAYS,
+  deactivateLapsedClients,
+  expireStalePayments,
+  sendExpiryReminders,
+} from '../_shared/plan-expiry.ts';
+import { applyScheduledPlanChanges } from '../_shared/plan-changes.ts';
+import { timingSafeEqual } from '../_shared/webhook-security.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const JOB_NAME = 'plan-expiry';
+
+// Daily routine scheduled with pg_cron (see sql/scheduled_jobs.sql).
+// Admins can also run it by hand from the FinancialDashboard.
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The cron call authenticates with the service role key, admins with their session
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    let trigger: 'cron' | 'manual' | null = null;
+
+    if (token && timingSafeEqual(token, supabaseServiceKey)) {
+      trigger = 'cron';
+    } else if (token) {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (user) {
+        const { data: caller } = await supabase
+          .from('profiles')
+          .select('role')
+          .eq('id', user.id)
+          .maybeSingle();
+        if (caller?.role === 'admin') trigger = 'manual';
+      }
+    }
+
+    if (!trigger) {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const deactivateAfterDays = parseInt(Deno.env.get('DEACTIVATE_AFTER_DAYS') ?? '') || DEFAULT_DEACTIVATE_AFTER_DAYS;
+
+    const { data: run, error: runError } = await supabase
+      .from('scheduled_job_runs')
+      .insert({ job_name: JOB_NAME, trigger, status: 'running' })
+      .select('id')
+      .single();
+
+    if (runError) {
+      console.error('Error recording job run:', runError);
+    }
+
+    // Each task runs even if a previous one failed; failures are reported together
+    const errors: string[] = [];
+
+    const runTask = async (name: string, task: () => Promise<number>): Promise<number> => {
+      try {
+        return await task();
+      } catch (error) {
+        console.error(`Task ${name} failed:`, error);
+        errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+        return 0;
+      }
+    };
+
+    const remindersSent = await runTask('reminders', () => sendExpiryReminders(supabase));
+    const paymentsExpired = await runTask('payments', () => expireStalePayments(supabase));
+    const planChangesApplied = await runTask('plan changes', () => applyScheduledPlanChanges(supabase));
+    const clientsDeactivated = await runTask('deactivation', () => deactivateLapsedClients(supabase, deactivateAfterDays));
+
+    const result = {
+      status: errors.length > 0 ? 'failed' : 'succeeded',
+      reminders_sent: remindersSent,
+      payments_expired: paymentsExpired,
+      plan_changes_applied: planChangesApplied,
+      clients_deactivated: clientsDeactivated,
+      error_message: errors.length > 0 ? errors.join('\n') : null,
+    };
+
+    if (run) {
+      await supabase
+        .from('scheduled_job_runs')
+        .update({ ...result, finished_at: new Date().toISOString() })
+        .eq('id', run.id);
+    }
+
+    console.log('Plan expiry job finished:', result);
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
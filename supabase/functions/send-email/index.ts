@@ -8,13 +8,16 @@ const corsHeaders = {
 interface WelcomeEmailData {
   name: string;
   email: string;
-  password: string;
+  password?: string;
   planName: string;
   planEndDate: string;
+  receiptUrl?: string | null;  // Welcome and renewal: signed link to the payment receipt PDF
+  resumePath?: string;  // Checkout recovery: checkout path that resumes the abandoned session
+  rewardDescription?: string;  // Referral reward: what the referrer earned
 }
 
 interface EmailRequest {
-  type: 'welcome' | 'renewal' | 'expiring';
+  type: 'welcome' | 'renewal' | 'expiring' | 'checkout_recovery' | 'referral_reward';
   to: string;
   data: WelcomeEmailData;
 }
@@ -55,6 +58,14 @@ serve(async (req) => {
         subject = 'Seu plano esta expirando';
         html = getExpiringEmailHtml(data);
         break;
+      case 'checkout_recovery':
+        subject = 'Sua compra esta quase concluida';
+        html = getCheckoutRecoveryEmailHtml(data);
+        break;
+      case 'referral_reward':
+        subject = 'Voce ganhou um presente pela sua indicacao!';
+        html = getReferralRewardEmailHtml(data);
+        break;
       default:
         return new Response(
           JSON.stringify({ error: 'Tipo de email invalido' }),
@@ -102,6 +113,14 @@ serve(async (req) => {
   }
 });
 
+function getReceiptLinkHtml(data: WelcomeEmailData): string {
+  if (!data.receiptUrl) return '';
+
+  return `<p style="margin: 0 0 24px; font-size: 14px; color: #4a5568;">
+                <a href="${data.receiptUrl}" style="color: #1c4c9b; font-weight: 600;">Baixar recibo do pagamento</a>
+              </p>`;
+}
+
 function getWelcomeEmailHtml(data: WelcomeEmailData): string {
   return `
 <!DOCTYPE html>
@@ -150,6 +169,8 @@ function getWelcomeEmailHtml(data: WelcomeEmailData): string {
                 Seu plano e valido ate <strong>${data.planEndDate}</strong>.
               </p>
 
+              ${getReceiptLinkHtml(data)}
+
               <a href="${Deno.env.get('APP_URL') || '#'}/login" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #1c4c9b, #263066); color: white; text-decoration: none; border-radius: 10px; font-weight: 600; font-size: 16px;">
                 Acessar Agora
               </a>
@@ -202,6 +223,8 @@ function getRenewalEmailHtml(data: WelcomeEmailData): string {
                 </p>
               </div>
 
+              ${getReceiptLinkHtml(data)}
+
               <a href="${Deno.env.get('APP_URL') || '#'}/app" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #1c4c9b, #263066); color: white; text-decoration: none; border-radius: 10px; font-weight: 600; font-size: 16px;">
                 Continuar Acessando
               </a>
@@ -261,3 +284,87 @@ function getExpiringEmailHtml(data: WelcomeEmailData): string {
 </html>
   `;
 }
+
+function getCheckoutRecoveryEmailHtml(data: WelcomeEmailData): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Finalize sua compra</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #f5f7fa;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" width="100%" style="max-width: 480px; margin: 0 auto; background-color: #ffffff; border-radius: 16px; box-shadow: 0 4px 12px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="padding: 40px 32px; text-align: center;">
+              <h1 style="margin: 0 0 16px; font-size: 24px; font-weight: 700; color: #080d15;">
+                Sua compra esta quase concluida
+              </h1>
+
+              <p style="margin: 0 0 24px; font-size: 16px; color: #4a5568; line-height: 1.6;">
+                Ola ${data.name}, notamos que voce nao finalizou o pagamento do plano <strong>${data.planName}</strong>.
+              </p>
+
+              <p style="margin: 0 0 32px; font-size: 14px; color: #4a5568; line-height: 1.6;">
+                Seus dados ja estao preenchidos. Basta escolher a forma de pagamento para concluir.
+              </p>
+
+              <a href="${Deno.env.get('APP_URL') || '#'}${data.resumePath ?? ''}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #1c4c9b, #263066); color: white; text-decoration: none; border-radius: 10px; font-weight: 600; font-size: 16px;">
+                Finalizar Compra
+              </a>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+}
+
+function getReferralRewardEmailHtml(data: WelcomeEmailData): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Indicacao Recompensada</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #f5f7fa;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" width="100%" style="max-width: 480px; margin: 0 auto; background-color: #ffffff; border-radius: 16px; box-shadow: 0 4px 12px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="padding: 40px 32px; text-align: center;">
+              <h1 style="margin: 0 0 16px; font-size: 24px; font-weight: 700; color: #080d15;">
+                Obrigado pela indicacao!
+              </h1>
+
+              <p style="margin: 0 0 24px; font-size: 16px; color: #4a5568; line-height: 1.6;">
+                Ola ${data.name}, alguem que voce indicou acabou de se tornar cliente.
+              </p>
+
+              <p style="margin: 0 0 32px; font-size: 14px; color: #4a5568; line-height: 1.6;">
+                Como agradecimento, voce ganhou ${data.rewardDescription ?? 'uma recompensa'}.
+              </p>
+
+              <a href="${Deno.env.get('APP_URL') || '#'}/app/perfil" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #1c4c9b, #263066); color: white; text-decoration: none; border-radius: 10px; font-weight: 600; font-size: 16px;">
+                Indicar Mais Amigos
+              </a>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+}
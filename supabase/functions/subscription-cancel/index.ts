@@ -0,0 +1,117 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { decryptGatewaySecrets } from '../_shared/gateway-secrets.ts';
+import { getGatewayAdapter } from '../_shared/gateways/index.ts';
+import { cancelSubscriptionRecord } from '../_shared/subscriptions.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Identify the caller from their session token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Nao autorizado' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { subscription_id } = await req.json();
+
+    if (!subscription_id) {
+      return new Response(
+        JSON.stringify({ error: 'subscription_id e obrigatorio' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: subscription } = await supabase
+      .from('subscriptions')
+      .select('*')
+      .eq('id', subscription_id)
+      .maybeSingle();
+
+    // Only the subscriber or the admin who owns the plan may cancel
+    const { data: caller } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    const canCancel = subscription && (
+      subscription.client_id === user.id ||
+      (subscription.owner_id === user.id && caller?.role === 'admin')
+    );
+
+    if (!canCancel) {
+      return new Response(
+        JSON.stringify({ error: 'Assinatura nao encontrada' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (subscription.status === 'cancelled') {
+      return new Response(
+        JSON.stringify({ status: 'cancelled' }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: storedSettings } = await supabase
+      .from('payment_settings')
+      .select('*')
+      .eq('owner_id', subscription.owner_id)
+      .single();
+    const settings = await decryptGatewaySecrets(storedSettings);
+
+    if (!settings) {
+      return new Response(
+        JSON.stringify({ error: 'Configuracoes de pagamento nao encontradas' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Cancel at the gateway first so no further charges are made
+    const gateway = getGatewayAdapter(subscription.gateway);
+    const cancelResult = gateway?.cancelSubscription
+      ? await gateway.cancelSubscription(settings, subscription.gateway_subscription_id)
+      : { error: 'Gateway nao suportado' };
+
+    if (cancelResult.error) {
+      return new Response(
+        JSON.stringify({ error: cancelResult.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The client keeps access until the current plan_end_date
+    await cancelSubscriptionRecord(supabase, subscription.id);
+
+    return new Response(
+      JSON.stringify({ status: 'cancelled' }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
@@ -0,0 +1,93 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { grantAccess } from '../_shared/access-grants.ts';
+import { linkCheckoutPayment } from '../_shared/checkout-sessions.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RequestBody {
+  owner_id: string;
+  plan_id: string;
+  customer: {
+    name: string;
+    email: string;
+    phone?: string | null;
+    cpf: string;
+  };
+  checkout_session_id?: string;
+}
+
+// Starts the free trial of a plan from the public checkout. The client is
+// created right away, as for an approved payment, with access for the
+// plan's trial_days.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { owner_id, plan_id, customer, checkout_session_id }: RequestBody = await req.json();
+
+    if (!owner_id || !plan_id || !customer?.name || !customer?.email || !customer?.cpf) {
+      return new Response(
+        JSON.stringify({ error: 'Dados incompletos' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: plan } = await supabase
+      .from('subscription_plans')
+      .select('id, name, duration_days, price_cents, billing_mode, trial_days')
+      .eq('id', plan_id)
+      .eq('owner_id', owner_id)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!plan || !plan.trial_days || plan.trial_days <= 0) {
+      return new Response(
+        JSON.stringify({ error: 'Este plano nao oferece teste gratis' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await grantAccess(supabase, {
+      ownerId: owner_id,
+      type: 'trial',
+      plan,
+      days: plan.trial_days,
+      customer,
+    });
+
+    if (result.error) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (checkout_session_id) {
+      await linkCheckoutPayment(supabase, checkout_session_id, owner_id, result.paymentId!);
+    }
+
+    return new Response(
+      JSON.stringify({
+        payment_id: result.paymentId,
+        plan_end_date: result.planEndDate,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Erro interno do servidor' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,11 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { decryptGatewaySecrets } from '../_shared/gateway-secrets.ts';
+import { asaasAdapter } from '../_shared/gateways/asaas.ts';
+import { applyPaymentStatus } from '../_shared/payment-approval.ts';
+import { cancelSubscriptionRecord, findSubscription, recordSubscriptionCharge } from '../_shared/subscriptions.ts';
+import { runWebhookEventOnce } from '../_shared/webhook-events.ts';
+import { verifyAsaasToken } from '../_shared/webhook-security.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,83 +25,98 @@ serve(async (req) => {
     const body = await req.json();
     console.log('Asaas Webhook received:', JSON.stringify(body));
 
-    // Asaas sends event type in the body
-    const event = body.event;
-    const payment = body.payment;
+    const notification = asaasAdapter.parseWebhook({ body, query: new URL(req.url).searchParams });
 
-    if (!payment?.id) {
+    if (!notification) {
       return new Response('OK', { status: 200 });
     }
 
-    // Only process payment events
-    const paymentEvents = [
-      'PAYMENT_CONFIRMED',
-      'PAYMENT_RECEIVED',
-      'PAYMENT_OVERDUE',
-      'PAYMENT_DELETED',
-      'PAYMENT_REFUNDED',
-    ];
+    const event = {
+      gateway: 'asaas',
+      eventId: notification.eventId ?? `${notification.eventType}:${notification.resourceId}`,
+      eventType: notification.eventType,
+      payload: body,
+    };
+
+    // Asaas sends the token configured in the webhook panel on every notification
+    const isAuthentic = async (ownerId: string) => {
+      const { data: storedSettings } = await supabase
+        .from('payment_settings')
+        .select('asaas_webhook_token')
+        .eq('owner_id', ownerId)
+        .maybeSingle();
+      const settings = await decryptGatewaySecrets(storedSettings);
+
+      return verifyAsaasToken(req.headers.get('asaas-access-token'), settings?.asaas_webhook_token ?? null);
+    };
+
+    // Subscription removed at the gateway (by the admin or after failed charges)
+    if (notification.kind === 'subscription') {
+      const subscription = notification.gatewaySubscriptionId
+        ? await findSubscription(supabase, 'asaas', notification.gatewaySubscriptionId)
+        : null;
+
+      if (!subscription) {
+        return new Response('OK', { status: 200 });
+      }
+
+      if (!(await isAuthentic(subscription.owner_id))) {
+        console.error('Invalid Asaas access token for subscription:', subscription.id);
+        return new Response('Invalid token', { status: 401 });
+      }
+
+      await runWebhookEventOnce(
+        supabase,
+        { ...event, paymentId: null },
+        () => cancelSubscriptionRecord(supabase, subscription.id)
+      );
 
-    if (!paymentEvents.includes(event)) {
       return new Response('OK', { status: 200 });
     }
 
+    const gatewayPaymentId = notification.resourceId;
+
     // Find payment in our database
-    const { data: dbPayment, error: paymentError } = await supabase
+    const { data: dbPayment } = await supabase
       .from('payments')
       .select('*')
-      .eq('gateway_payment_id', payment.id)
+      .eq('gateway_payment_id', gatewayPaymentId)
       .eq('gateway', 'asaas')
       .maybeSingle();
 
-    if (paymentError || !dbPayment) {
-      console.log('Payment not found:', payment.id);
-      return new Response('OK', { status: 200 });
-    }
+    // Subscription charges go through the subscription so it is activated and
+    // linked to the client; renewals are not in our database yet, while the
+    // first charge was stored by payment-create
+    const subscription = notification.gatewaySubscriptionId
+      ? await findSubscription(supabase, 'asaas', notification.gatewaySubscriptionId)
+      : null;
 
-    // Map status
-    let newStatus;
-    switch (event) {
-      case 'PAYMENT_CONFIRMED':
-      case 'PAYMENT_RECEIVED':
-        newStatus = 'approved';
-        break;
-      case 'PAYMENT_OVERDUE':
-        newStatus = 'expired';
-        break;
-      case 'PAYMENT_DELETED':
-        newStatus = 'rejected';
-        break;
-      case 'PAYMENT_REFUNDED':
-        newStatus = 'refunded';
-        break;
-      default:
-        newStatus = dbPayment.status;
-    }
-
-    if (newStatus === dbPayment.status) {
+    if (!dbPayment && !subscription) {
+      console.log('Payment not found:', gatewayPaymentId);
       return new Response('OK', { status: 200 });
     }
 
-    // Update payment
-    const updateData: any = {
-      status: newStatus,
-      webhook_data: body,
-    };
-
-    if (newStatus === 'approved') {
-      updateData.paid_at = new Date().toISOString();
+    if (!(await isAuthentic(dbPayment?.owner_id ?? subscription!.owner_id))) {
+      console.error('Invalid Asaas access token for payment:', gatewayPaymentId);
+      return new Response('Invalid token', { status: 401 });
     }
 
-    await supabase
-      .from('payments')
-      .update(updateData)
-      .eq('id', dbPayment.id);
-
-    // Handle approved payment
-    if (newStatus === 'approved') {
-      await handlePaymentApproved(supabase, dbPayment);
-    }
+    // Asaas events name the outcome, so the status comes from the notification
+    const newStatus = notification.status ?? dbPayment?.status ?? 'pending';
+
+    // Updates the status and, if approved, creates or renews the user
+    await runWebhookEventOnce(
+      supabase,
+      { ...event, paymentId: dbPayment?.id ?? null },
+      () => subscription
+        ? recordSubscriptionCharge(supabase, subscription, {
+          gatewayPaymentId,
+          status: newStatus,
+          amountCents: notification.amountCents ?? undefined,
+          webhookData: body,
+        })
+        : applyPaymentStatus(supabase, dbPayment!, newStatus, { webhook_data: body })
+    );
 
     return new Response('OK', { status: 200 });
   } catch (error) {
@@ -103,110 +124,3 @@ serve(async (req) => {
     return new Response('Error', { status: 500 });
   }
 });
-
-async function handlePaymentApproved(supabase: any, payment: any) {
-  // Get plan
-  const { data: plan } = await supabase
-    .from('subscription_plans')
-    .select('*')
-    .eq('id', payment.plan_id)
-    .single();
-
-  if (!plan) return;
-
-  const today = new Date();
-  const planEndDate = new Date(today);
-  planEndDate.setDate(planEndDate.getDate() + plan.duration_days);
-
-  if (payment.client_id) {
-    const { data: existingProfile } = await supabase
-      .from('profiles')
-      .select('plan_end_date')
-      .eq('id', payment.client_id)
-      .single();
-
-    let newEndDate = planEndDate;
-    if (existingProfile?.plan_end_date) {
-      const currentEnd = new Date(existingProfile.plan_end_date);
-      if (currentEnd > today) {
-        newEndDate = new Date(currentEnd);
-        newEndDate.setDate(newEndDate.getDate() + plan.duration_days);
-      }
-    }
-
-    await supabase
-      .from('profiles')
-      .update({ plan_end_date: newEndDate.toISOString().split('T')[0], is_active: true })
-      .eq('id', payment.client_id);
-    return;
-  }
-
-  const { data: existingUser } = await supabase
-    .from('profiles')
-    .select('id')
-    .eq('email', payment.customer_email)
-    .maybeSingle();
-
-  if (existingUser) {
-    await supabase
-      .from('profiles')
-      .update({ plan_end_date: planEndDate.toISOString().split('T')[0], is_active: true })
-      .eq('id', existingUser.id);
-    await supabase.from('payments').update({ client_id: existingUser.id }).eq('id', payment.id);
-    return;
-  }
-
-  // Create new user
-  const password = generatePassword();
-  const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-    email: payment.customer_email,
-    password,
-    email_confirm: true,
-    user_metadata: { full_name: payment.customer_name },
-  });
-
-  if (authError) {
-    console.error('Auth error:', authError);
-    return;
-  }
-
-  await supabase.from('profiles').insert({
-    id: authUser.user.id,
-    role: 'client',
-    full_name: payment.customer_name,
-    email: payment.customer_email,
-    phone: payment.customer_phone,
-    plan_start_date: today.toISOString().split('T')[0],
-    plan_end_date: planEndDate.toISOString().split('T')[0],
-    is_active: true,
-  });
-
-  await supabase.from('payments').update({ client_id: authUser.user.id }).eq('id', payment.id);
-
-  try {
-    await supabase.functions.invoke('send-email', {
-      body: {
-        type: 'welcome',
-        to: payment.customer_email,
-        data: {
-          name: payment.customer_name,
-          email: payment.customer_email,
-          password,
-          planName: plan.name,
-          planEndDate: planEndDate.toLocaleDateString('pt-BR'),
-        },
-      },
-    });
-  } catch (e) {
-    console.error('Email error:', e);
-  }
-}
-
-function generatePassword(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
-  let password = '';
-  for (let i = 0; i < 8; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return password;
-}
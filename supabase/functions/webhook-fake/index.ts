@@ -0,0 +1,77 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { getGatewayAdapter } from '../_shared/gateways/index.ts';
+import { applyPaymentStatus } from '../_shared/payment-approval.ts';
+import { runWebhookEventOnce } from '../_shared/webhook-events.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Notifications sent by the fake gateway once a simulated charge settles.
+// Like PagSeguro, the body is not trusted: the status comes from the charge id.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const gateway = getGatewayAdapter('fake');
+
+    // Disabled unless ALLOW_FAKE_GATEWAY=true
+    if (!gateway) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json();
+    console.log('Fake gateway webhook received:', JSON.stringify(body));
+
+    const notification = gateway.parseWebhook({ body, query: new URL(req.url).searchParams });
+
+    if (!notification) {
+      return new Response('OK', { status: 200 });
+    }
+
+    const { data: dbPayment } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('gateway_payment_id', notification.resourceId)
+      .eq('gateway', 'fake')
+      .maybeSingle();
+
+    if (!dbPayment) {
+      console.log('Payment not found:', notification.resourceId);
+      return new Response('OK', { status: 200 });
+    }
+
+    const charge = await gateway.fetchStatus({}, notification.resourceId, dbPayment.status);
+
+    if (!charge) {
+      return new Response('OK', { status: 200 });
+    }
+
+    // Updates the status and, if approved, creates or renews the user
+    await runWebhookEventOnce(
+      supabase,
+      {
+        gateway: 'fake',
+        // One event per charge status, whatever id the body claims
+        eventId: `${notification.resourceId}:${charge.status}`,
+        eventType: notification.eventType,
+        paymentId: dbPayment.id,
+        payload: body,
+      },
+      () => applyPaymentStatus(supabase, dbPayment, charge.status, { webhook_data: charge.data })
+    );
+
+    return new Response('OK', { status: 200 });
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return new Response('Error', { status: 500 });
+  }
+});
@@ -1,9 +1,16 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { decryptGatewaySecrets } from '../_shared/gateway-secrets.ts';
+import { mapMercadoPagoStatus } from '../_shared/gateway-status.ts';
+import { mercadoPagoAdapter } from '../_shared/gateways/mercado-pago.ts';
+import { applyPaymentStatus } from '../_shared/payment-approval.ts';
+import { cancelSubscriptionRecord, findSubscription, recordSubscriptionCharge } from '../_shared/subscriptions.ts';
+import { runWebhookEventOnce } from '../_shared/webhook-events.ts';
+import { verifyMercadoPagoSignature } from '../_shared/webhook-security.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-signature, x-request-id',
 };
 
 serve(async (req) => {
@@ -20,245 +27,132 @@ serve(async (req) => {
     const body = await req.json();
     console.log('Webhook received:', JSON.stringify(body));
 
-    // Mercado Pago sends 'payment' or 'payment.updated' action
-    if (body.type !== 'payment' && body.action !== 'payment.created' && body.action !== 'payment.updated') {
-      return new Response('OK', { status: 200 });
-    }
+    const notification = mercadoPagoAdapter.parseWebhook({ body, query: new URL(req.url).searchParams });
 
-    const paymentId = body.data?.id;
-    if (!paymentId) {
-      console.log('No payment ID in webhook');
+    if (!notification) {
       return new Response('OK', { status: 200 });
     }
 
-    // Find payment in our database
-    const { data: payment, error: paymentError } = await supabase
-      .from('payments')
-      .select('*, payment_settings:owner_id(mp_access_token)')
-      .eq('gateway_payment_id', paymentId.toString())
-      .eq('gateway', 'mercado_pago')
-      .maybeSingle();
+    const dataId = notification.resourceId;
+    const isSubscriptionEvent = notification.kind !== 'payment';
 
-    if (paymentError || !payment) {
-      console.log('Payment not found:', paymentId);
+    // Find payment in our database
+    const { data: payment } = !isSubscriptionEvent
+      ? await supabase
+        .from('payments')
+        .select('*')
+        .eq('gateway_payment_id', dataId)
+        .eq('gateway', 'mercado_pago')
+        .maybeSingle()
+      : { data: null };
+
+    // Subscription notifications only identify the seller account
+    const settingsQuery = supabase
+      .from('payment_settings')
+      .select('owner_id, mp_access_token, mp_webhook_secret');
+
+    const { data: storedSettings } = payment
+      ? await settingsQuery.eq('owner_id', payment.owner_id).maybeSingle()
+      : isSubscriptionEvent && body.user_id
+        ? await settingsQuery.eq('mp_user_id', body.user_id.toString()).maybeSingle()
+        : { data: null };
+    const settings = await decryptGatewaySecrets(storedSettings);
+
+    if (!settings) {
+      console.log('Payment not found:', dataId);
       return new Response('OK', { status: 200 });
     }
 
-    // Get full payment details from Mercado Pago
-    const mpResponse = await fetch(`https://api.mercadopago.com/v1/payments/${paymentId}`, {
-      headers: {
-        'Authorization': `Bearer ${payment.payment_settings?.mp_access_token}`,
-      },
+    // Reject notifications that were not signed with the owner's webhook secret
+    const validSignature = await verifyMercadoPagoSignature({
+      signatureHeader: req.headers.get('x-signature'),
+      requestId: req.headers.get('x-request-id'),
+      dataId,
+      secret: settings.mp_webhook_secret ?? null,
     });
 
-    const mpPayment = await mpResponse.json();
-    console.log('MP Payment status:', mpPayment.status);
-
-    // Map status
-    let newStatus;
-    switch (mpPayment.status) {
-      case 'approved':
-        newStatus = 'approved';
-        break;
-      case 'pending':
-      case 'in_process':
-      case 'authorized':
-        newStatus = 'pending';
-        break;
-      case 'rejected':
-      case 'cancelled':
-        newStatus = 'rejected';
-        break;
-      case 'refunded':
-      case 'charged_back':
-        newStatus = 'refunded';
-        break;
-      default:
-        newStatus = payment.status;
-    }
-
-    // Only process if status changed
-    if (newStatus === payment.status) {
-      return new Response('OK', { status: 200 });
+    if (!validSignature) {
+      console.error('Invalid Mercado Pago signature for:', dataId);
+      return new Response('Invalid signature', { status: 401 });
     }
 
-    // Update payment status
-    const updateData: any = {
-      status: newStatus,
-      webhook_data: mpPayment,
+    const event = {
+      gateway: 'mercado_pago',
+      eventId: notification.eventId ?? req.headers.get('x-request-id') ?? `${notification.eventType}:${dataId}`,
+      eventType: notification.eventType,
+      paymentId: payment?.id ?? null,
+      payload: body,
     };
 
-    if (newStatus === 'approved') {
-      updateData.paid_at = new Date().toISOString();
-    }
-
-    await supabase
-      .from('payments')
-      .update(updateData)
-      .eq('id', payment.id);
-
-    // If payment is approved, create or update user
-    if (newStatus === 'approved') {
-      await handlePaymentApproved(supabase, payment);
-    }
-
-    return new Response('OK', { status: 200 });
-  } catch (error) {
-    console.error('Webhook error:', error);
-    return new Response('Error', { status: 500 });
-  }
-});
-
-async function handlePaymentApproved(supabase: any, payment: any) {
-  console.log('Processing approved payment:', payment.id);
-
-  // Get plan details
-  const { data: plan } = await supabase
-    .from('subscription_plans')
-    .select('*')
-    .eq('id', payment.plan_id)
-    .single();
-
-  if (!plan) {
-    console.error('Plan not found');
-    return;
-  }
-
-  // Calculate plan dates
-  const today = new Date();
-  const planEndDate = new Date(today);
-  planEndDate.setDate(planEndDate.getDate() + plan.duration_days);
-
-  // Check if client already exists
-  if (payment.client_id) {
-    // Existing client - extend plan
-    const { data: existingProfile } = await supabase
-      .from('profiles')
-      .select('plan_end_date')
-      .eq('id', payment.client_id)
-      .single();
-
-    let newEndDate = planEndDate;
+    const fetchFromMercadoPago = async (path: string) => {
+      const mpResponse = await fetch(`https://api.mercadopago.com${path}`, {
+        headers: {
+          'Authorization': `Bearer ${settings.mp_access_token}`,
+        },
+      });
 
-    // If existing plan hasn't expired, add to it
-    if (existingProfile?.plan_end_date) {
-      const currentEnd = new Date(existingProfile.plan_end_date);
-      if (currentEnd > today) {
-        newEndDate = new Date(currentEnd);
-        newEndDate.setDate(newEndDate.getDate() + plan.duration_days);
+      if (!mpResponse.ok) {
+        throw new Error(`Mercado Pago lookup failed with status ${mpResponse.status}`);
       }
-    }
-
-    await supabase
-      .from('profiles')
-      .update({
-        plan_end_date: newEndDate.toISOString().split('T')[0],
-        is_active: true,
-      })
-      .eq('id', payment.client_id);
-
-    console.log('Extended plan for existing client:', payment.client_id);
-    return;
-  }
 
-  // Check if user already exists by email
-  const { data: existingUser } = await supabase
-    .from('profiles')
-    .select('id')
-    .eq('email', payment.customer_email)
-    .maybeSingle();
+      return await mpResponse.json();
+    };
 
-  if (existingUser) {
-    // Update existing user's plan
-    await supabase
-      .from('profiles')
-      .update({
-        plan_end_date: planEndDate.toISOString().split('T')[0],
-        is_active: true,
-      })
-      .eq('id', existingUser.id);
+    // ===========================================
+    // SUBSCRIPTION EVENTS
+    // ===========================================
 
-    // Link payment to user
-    await supabase
-      .from('payments')
-      .update({ client_id: existingUser.id })
-      .eq('id', payment.id);
+    if (isSubscriptionEvent) {
+      await runWebhookEventOnce(supabase, event, async () => {
+        if (notification.kind === 'subscription') {
+          const preapproval = await fetchFromMercadoPago(`/preapproval/${dataId}`);
+          const subscription = await findSubscription(supabase, 'mercado_pago', preapproval.id);
 
-    console.log('Updated existing user:', existingUser.id);
-    return;
-  }
+          if (!subscription || subscription.owner_id !== settings.owner_id || preapproval.status !== 'cancelled') {
+            return false;
+          }
 
-  // Generate random password
-  const password = generatePassword();
+          return await cancelSubscriptionRecord(supabase, subscription.id);
+        }
 
-  // Create new auth user
-  const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-    email: payment.customer_email,
-    password: password,
-    email_confirm: true,
-    user_metadata: {
-      full_name: payment.customer_name,
-    },
-  });
+        // Authorized payment = one billing cycle of a preapproval
+        const authorizedPayment = await fetchFromMercadoPago(`/authorized_payments/${dataId}`);
+        const subscription = await findSubscription(supabase, 'mercado_pago', authorizedPayment.preapproval_id);
 
-  if (authError) {
-    console.error('Error creating auth user:', authError);
-    return;
-  }
+        // Scheduled cycles have no payment yet; they are notified again once charged
+        if (!subscription || subscription.owner_id !== settings.owner_id || !authorizedPayment.payment?.id) {
+          return false;
+        }
 
-  // Create profile
-  const { error: profileError } = await supabase
-    .from('profiles')
-    .insert({
-      id: authUser.user.id,
-      role: 'client',
-      full_name: payment.customer_name,
-      email: payment.customer_email,
-      phone: payment.customer_phone,
-      plan_start_date: today.toISOString().split('T')[0],
-      plan_end_date: planEndDate.toISOString().split('T')[0],
-      is_active: true,
-    });
+        return await recordSubscriptionCharge(supabase, subscription, {
+          gatewayPaymentId: authorizedPayment.payment.id.toString(),
+          status: mapMercadoPagoStatus(authorizedPayment.payment.status, 'pending'),
+          amountCents: Math.round(authorizedPayment.transaction_amount * 100),
+          webhookData: authorizedPayment,
+        });
+      });
 
-  if (profileError) {
-    console.error('Error creating profile:', profileError);
-    return;
-  }
+      return new Response('OK', { status: 200 });
+    }
 
-  // Update payment with client_id
-  await supabase
-    .from('payments')
-    .update({ client_id: authUser.user.id })
-    .eq('id', payment.id);
+    // ===========================================
+    // PAYMENT EVENTS
+    // ===========================================
 
-  console.log('Created new user:', authUser.user.id);
+    await runWebhookEventOnce(supabase, event, async () => {
+      // Get full payment details from Mercado Pago
+      const result = await mercadoPagoAdapter.fetchStatus(settings, dataId, payment.status);
+      if (!result) {
+        throw new Error('Mercado Pago payment lookup failed');
+      }
 
-  // Send welcome email with credentials
-  try {
-    await supabase.functions.invoke('send-email', {
-      body: {
-        type: 'welcome',
-        to: payment.customer_email,
-        data: {
-          name: payment.customer_name,
-          email: payment.customer_email,
-          password: password,
-          planName: plan.name,
-          planEndDate: planEndDate.toLocaleDateString('pt-BR'),
-        },
-      },
+      // Updates the status and, if approved, creates or renews the user
+      return await applyPaymentStatus(supabase, payment, result.status, { webhook_data: result.data });
     });
-    console.log('Welcome email sent');
-  } catch (emailError) {
-    console.error('Error sending welcome email:', emailError);
-  }
-}
 
-function generatePassword(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
-  let password = '';
-  for (let i = 0; i < 8; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length));
+    return new Response('OK', { status: 200 });
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return new Response('Error', { status: 500 });
   }
-  return password;
-}
+});
@@ -1,9 +1,15 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { decryptGatewaySecrets } from '../_shared/gateway-secrets.ts';
+import { pagarmeAdapter } from '../_shared/gateways/pagarme.ts';
+import { applyPaymentStatus } from '../_shared/payment-approval.ts';
+import { cancelSubscriptionRecord, findSubscription, recordSubscriptionCharge } from '../_shared/subscriptions.ts';
+import { runWebhookEventOnce } from '../_shared/webhook-events.ts';
+import { verifyPagarmeSignature } from '../_shared/webhook-security.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-hub-signature',
 };
 
 serve(async (req) => {
@@ -16,33 +22,84 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const body = await req.json();
+    // The signature covers the raw body, so read it before parsing
+    const rawBody = await req.text();
+    const body = JSON.parse(rawBody);
     console.log('Pagar.me Webhook received:', JSON.stringify(body));
 
-    // Pagar.me sends events with type and data
-    const eventType = body.type;
-    const data = body.data;
+    // Only order/charge events, plus invoice/subscription events of recurring plans
+    const notification = pagarmeAdapter.parseWebhook({ body, query: new URL(req.url).searchParams });
 
-    if (!data?.id) {
+    if (!notification) {
       return new Response('OK', { status: 200 });
     }
 
-    // Only process order/charge events
-    const relevantEvents = [
-      'order.paid',
-      'order.payment_failed',
-      'order.canceled',
-      'charge.paid',
-      'charge.payment_failed',
-      'charge.refunded',
-    ];
-
-    if (!relevantEvents.includes(eventType)) {
+    const { eventType } = notification;
+
+    const isAuthentic = async (ownerId: string) => {
+      const { data: storedSettings } = await supabase
+        .from('payment_settings')
+        .select('pm_api_key')
+        .eq('owner_id', ownerId)
+        .maybeSingle();
+      const settings = await decryptGatewaySecrets(storedSettings);
+
+      return await verifyPagarmeSignature(
+        rawBody,
+        req.headers.get('x-hub-signature'),
+        settings?.pm_api_key ?? null
+      );
+    };
+
+    const eventId = notification.eventId ?? `${eventType}:${notification.resourceId}`;
+
+    // ===========================================
+    // SUBSCRIPTION EVENTS
+    // ===========================================
+
+    if (notification.kind !== 'payment') {
+      const gatewaySubscriptionId = notification.gatewaySubscriptionId;
+      const subscription = gatewaySubscriptionId
+        ? await findSubscription(supabase, 'pagarme', gatewaySubscriptionId)
+        : null;
+
+      if (!subscription) {
+        console.log('Subscription not found:', gatewaySubscriptionId);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (!(await isAuthentic(subscription.owner_id))) {
+        console.error('Invalid Pagar.me signature for subscription:', gatewaySubscriptionId);
+        return new Response('Invalid signature', { status: 401 });
+      }
+
+      await runWebhookEventOnce(
+        supabase,
+        { gateway: 'pagarme', eventId, eventType, paymentId: null, payload: body },
+        () => {
+          if (notification.kind === 'subscription') {
+            return cancelSubscriptionRecord(supabase, subscription.id);
+          }
+
+          // Each invoice is one billing cycle; its charge is the payment we record
+          return recordSubscriptionCharge(supabase, subscription, {
+            gatewayPaymentId: notification.gatewayPaymentId ?? notification.resourceId,
+            status: notification.status ?? 'rejected',
+            amountCents: notification.amountCents ?? undefined,
+            webhookData: body,
+          });
+        }
+      );
+
       return new Response('OK', { status: 200 });
     }
 
+    // ===========================================
+    // ORDER / CHARGE EVENTS
+    // ===========================================
+
     // Get the order/charge ID
-    const orderId = data.id;
+    const orderId = notification.resourceId;
 
     // Find payment in our database
     const { data: dbPayment, error: paymentError } = await supabase
@@ -57,50 +114,25 @@ serve(async (req) => {
       return new Response('OK', { status: 200 });
     }
 
-    // Map status based on event type
-    let newStatus;
-    switch (eventType) {
-      case 'order.paid':
-      case 'charge.paid':
-        newStatus = 'approved';
-        break;
-      case 'order.payment_failed':
-      case 'charge.payment_failed':
-        newStatus = 'rejected';
-        break;
-      case 'order.canceled':
-        newStatus = 'rejected';
-        break;
-      case 'charge.refunded':
-        newStatus = 'refunded';
-        break;
-      default:
-        newStatus = dbPayment.status;
-    }
-
-    if (newStatus === dbPayment.status) {
-      return new Response('OK', { status: 200 });
-    }
-
-    // Update payment
-    const updateData: any = {
-      status: newStatus,
-      webhook_data: body,
-    };
-
-    if (newStatus === 'approved') {
-      updateData.paid_at = new Date().toISOString();
+    if (!(await isAuthentic(dbPayment.owner_id))) {
+      console.error('Invalid Pagar.me signature for order:', orderId);
+      return new Response('Invalid signature', { status: 401 });
     }
 
-    await supabase
-      .from('payments')
-      .update(updateData)
-      .eq('id', dbPayment.id);
-
-    // Handle approved payment
-    if (newStatus === 'approved') {
-      await handlePaymentApproved(supabase, dbPayment);
-    }
+    const newStatus = notification.status ?? dbPayment.status;
+
+    // Updates the status and, if approved, creates or renews the user
+    await runWebhookEventOnce(
+      supabase,
+      {
+        gateway: 'pagarme',
+        eventId,
+        eventType,
+        paymentId: dbPayment.id,
+        payload: body,
+      },
+      () => applyPaymentStatus(supabase, dbPayment, newStatus, { webhook_data: body })
+    );
 
     return new Response('OK', { status: 200 });
   } catch (error) {
@@ -108,114 +140,3 @@ serve(async (req) => {
     return new Response('Error', { status: 500 });
   }
 });
-
-async function handlePaymentApproved(supabase: any, payment: any) {
-  // Get plan
-  const { data: plan } = await supabase
-    .from('subscription_plans')
-    .select('*')
-    .eq('id', payment.plan_id)
-    .single();
-
-  if (!plan) return;
-
-  const today = new Date();
-  const planEndDate = new Date(today);
-  planEndDate.setDate(planEndDate.getDate() + plan.duration_days);
-
-  // If payment has client_id (renewal), update existing profile
-  if (payment.client_id) {
-    const { data: existingProfile } = await supabase
-      .from('profiles')
-      .select('plan_end_date')
-      .eq('id', payment.client_id)
-      .single();
-
-    let newEndDate = planEndDate;
-    if (existingProfile?.plan_end_date) {
-      const currentEnd = new Date(existingProfile.plan_end_date);
-      if (currentEnd > today) {
-        // Extend from current end date
-        newEndDate = new Date(currentEnd);
-        newEndDate.setDate(newEndDate.getDate() + plan.duration_days);
-      }
-    }
-
-    await supabase
-      .from('profiles')
-      .update({ plan_end_date: newEndDate.toISOString().split('T')[0], is_active: true })
-      .eq('id', payment.client_id);
-    return;
-  }
-
-  // Check if user already exists
-  const { data: existingUser } = await supabase
-    .from('profiles')
-    .select('id')
-    .eq('email', payment.customer_email)
-    .maybeSingle();
-
-  if (existingUser) {
-    await supabase
-      .from('profiles')
-      .update({ plan_end_date: planEndDate.toISOString().split('T')[0], is_active: true })
-      .eq('id', existingUser.id);
-    await supabase.from('payments').update({ client_id: existingUser.id }).eq('id', payment.id);
-    return;
-  }
-
-  // Create new user
-  const password = generatePassword();
-  const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-    email: payment.customer_email,
-    password,
-    email_confirm: true,
-    user_metadata: { full_name: payment.customer_name },
-  });
-
-  if (authError) {
-    console.error('Auth error:', authError);
-    return;
-  }
-
-  await supabase.from('profiles').insert({
-    id: authUser.user.id,
-    role: 'client',
-    full_name: payment.customer_name,
-    email: payment.customer_email,
-    phone: payment.customer_phone,
-    plan_start_date: today.toISOString().split('T')[0],
-    plan_end_date: planEndDate.toISOString().split('T')[0],
-    is_active: true,
-  });
-
-  await supabase.from('payments').update({ client_id: authUser.user.id }).eq('id', payment.id);
-
-  // Send welcome email
-  try {
-    await supabase.functions.invoke('send-email', {
-      body: {
-        type: 'welcome',
-        to: payment.customer_email,
-        data: {
-          name: payment.customer_name,
-          email: payment.customer_email,
-          password,
-          planName: plan.name,
-          planEndDate: planEndDate.toLocaleDateString('pt-BR'),
-        },
-      },
-    });
-  } catch (e) {
-    console.error('Email error:', e);
-  }
-}
-
-function generatePassword(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
-  let password = '';
-  for (let i = 0; i < 8; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return password;
-}
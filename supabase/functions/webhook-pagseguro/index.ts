@@ -1,5 +1,9 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { decryptGatewaySecrets } from '../_shared/gateway-secrets.ts';
+import { pagSeguroAdapter } from '../_shared/gateways/pagseguro.ts';
+import { applyPaymentStatus } from '../_shared/payment-approval.ts';
+import { runWebhookEventOnce } from '../_shared/webhook-events.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,13 +24,14 @@ serve(async (req) => {
     console.log('PagSeguro Webhook received:', JSON.stringify(body));
 
     // PagSeguro sends order or charge notifications
-    const orderId = body.id;
-    const charges = body.charges || [];
+    const notification = pagSeguroAdapter.parseWebhook({ body, query: new URL(req.url).searchParams });
 
-    if (!orderId) {
+    if (!notification) {
       return new Response('OK', { status: 200 });
     }
 
+    const orderId = notification.resourceId;
+
     // Find payment in our database
     const { data: dbPayment, error: paymentError } = await supabase
       .from('payments')
@@ -40,45 +45,42 @@ serve(async (req) => {
       return new Response('OK', { status: 200 });
     }
 
-    // Check charge status
-    let newStatus = dbPayment.status;
-    for (const charge of charges) {
-      if (charge.status === 'PAID') {
-        newStatus = 'approved';
-        break;
-      } else if (charge.status === 'DECLINED' || charge.status === 'CANCELED') {
-        newStatus = 'rejected';
-      }
-    }
-
-    // Also check PIX and Boleto status
-    if (body.qr_codes?.[0]?.status === 'PAID') {
-      newStatus = 'approved';
-    }
+    const { data: storedSettings } = await supabase
+      .from('payment_settings')
+      .select('ps_token')
+      .eq('owner_id', dbPayment.owner_id)
+      .maybeSingle();
+    const settings = await decryptGatewaySecrets(storedSettings);
 
-    if (newStatus === dbPayment.status) {
-      return new Response('OK', { status: 200 });
+    if (!settings?.ps_token) {
+      console.error('PagSeguro token not configured for payment:', dbPayment.id);
+      return new Response('Not configured', { status: 401 });
     }
 
-    // Update payment
-    const updateData: any = {
-      status: newStatus,
-      webhook_data: body,
-    };
+    // PagSeguro notifications are not signed: never trust the body, fetch the
+    // order with the owner's token and use that as the source of truth
+    const order = await pagSeguroAdapter.fetchStatus(settings, orderId, dbPayment.status);
 
-    if (newStatus === 'approved') {
-      updateData.paid_at = new Date().toISOString();
+    if (!order) {
+      console.error('PagSeguro order lookup failed:', orderId);
+      return new Response('Invalid notification', { status: 401 });
     }
 
-    await supabase
-      .from('payments')
-      .update(updateData)
-      .eq('id', dbPayment.id);
-
-    // Handle approved payment
-    if (newStatus === 'approved') {
-      await handlePaymentApproved(supabase, dbPayment);
-    }
+    const newStatus = order.status;
+
+    // Updates the status and, if approved, creates or renews the user
+    await runWebhookEventOnce(
+      supabase,
+      {
+        gateway: 'pagseguro',
+        // PagSeguro has no event id; one event per order status
+        eventId: `${orderId}:${newStatus}`,
+        eventType: newStatus,
+        paymentId: dbPayment.id,
+        payload: body,
+      },
+      () => applyPaymentStatus(supabase, dbPayment, newStatus, { webhook_data: order.data })
+    );
 
     return new Response('OK', { status: 200 });
   } catch (error) {
@@ -86,108 +88,3 @@ serve(async (req) => {
     return new Response('Error', { status: 500 });
   }
 });
-
-async function handlePaymentApproved(supabase: any, payment: any) {
-  const { data: plan } = await supabase
-    .from('subscription_plans')
-    .select('*')
-    .eq('id', payment.plan_id)
-    .single();
-
-  if (!plan) return;
-
-  const today = new Date();
-  const planEndDate = new Date(today);
-  planEndDate.setDate(planEndDate.getDate() + plan.duration_days);
-
-  if (payment.client_id) {
-    const { data: existingProfile } = await supabase
-      .from('profiles')
-      .select('plan_end_date')
-      .eq('id', payment.client_id)
-      .single();
-
-    let newEndDate = planEndDate;
-    if (existingProfile?.plan_end_date) {
-      const currentEnd = new Date(existingProfile.plan_end_date);
-      if (currentEnd > today) {
-        newEndDate = new Date(currentEnd);
-        newEndDate.setDate(newEndDate.getDate() + plan.duration_days);
-      }
-    }
-
-    await supabase
-      .from('profiles')
-      .update({ plan_end_date: newEndDate.toISOString().split('T')[0], is_active: true })
-      .eq('id', payment.client_id);
-    return;
-  }
-
-  const { data: existingUser } = await supabase
-    .from('profiles')
-    .select('id')
-    .eq('email', payment.customer_email)
-    .maybeSingle();
-
-  if (existingUser) {
-    await supabase
-      .from('profiles')
-      .update({ plan_end_date: planEndDate.toISOString().split('T')[0], is_active: true })
-      .eq('id', existingUser.id);
-    await supabase.from('payments').update({ client_id: existingUser.id }).eq('id', payment.id);
-    return;
-  }
-
-  const password = generatePassword();
-  const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
-    email: payment.customer_email,
-    password,
-    email_confirm: true,
-    user_metadata: { full_name: payment.customer_name },
-  });
-
-  if (authError) {
-    console.error('Auth error:', authError);
-    return;
-  }
-
-  await supabase.from('profiles').insert({
-    id: authUser.user.id,
-    role: 'client',
-    full_name: payment.customer_name,
-    email: payment.customer_email,
-    phone: payment.customer_phone,
-    plan_start_date: today.toISOString().split('T')[0],
-    plan_end_date: planEndDate.toISOString().split('T')[0],
-    is_active: true,
-  });
-
-  await supabase.from('payments').update({ client_id: authUser.user.id }).eq('id', payment.id);
-
-  try {
-    await supabase.functions.invoke('send-email', {
-      body: {
-        type: 'welcome',
-        to: payment.customer_email,
-        data: {
-          name: payment.customer_name,
-          email: payment.customer_email,
-          password,
-          planName: plan.name,
-          planEndDate: planEndDate.toLocaleDateString('pt-BR'),
-        },
-      },
-    });
-  } catch (e) {
-    console.error('Email error:', e);
-  }
-}
-
-function generatePassword(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghjkmnpqrstuvwxyz23456789';
-  let password = '';
-  for (let i = 0; i < 8; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return password;
-}
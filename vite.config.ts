@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
@@ -102,4 +103,8 @@ export default defineConfig({
       host: 'localhost',
     },
   },
+  test: {
+    // Edge function tests under supabase/ run on Deno
+    include: ['src/**/*.test.ts'],
+  },
 })